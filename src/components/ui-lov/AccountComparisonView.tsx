@@ -5,6 +5,8 @@ import { formatCurrency } from '@/lib/utils';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { findDiscountTierIndex, priceAtTier, type DiscountTier } from '@shared/discountTiers';
+import { getRateServiceCategory } from '@shared/deliveryWindow';
 
 interface ShipmentRate {
   id: string;
@@ -20,6 +22,7 @@ interface ShipmentRate {
   transit_days?: number;
   is_negotiated: boolean;
   published_rate?: number;
+  earned_discount_percent?: number | null;
   shipment_data: any;
 }
 
@@ -39,15 +42,29 @@ interface AccountComparisonViewProps {
   shipmentRates: ShipmentRate[];
   shipmentData: ProcessedShipmentData[];
   serviceMappings?: any[];
+  currency?: string; // Reporting currency of the analysis
+  discountTiers?: Record<string, DiscountTier[]>; // Earned-discount tiers by carrier config id
+  projectedWeeklySpend?: number; // Spend the analysis priced tiered accounts at
   onOptimizationChange?: (selections: Record<string, string>) => void;
 }
 
 export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
-  shipmentRates,
+  shipmentRates: allShipmentRates,
   shipmentData,
   serviceMappings = [],
+  currency = 'USD',
+  discountTiers = {},
+  projectedWeeklySpend,
   onOptimizationChange
 }) => {
+  // Rates are stored converted to the reporting currency; one the exchange rate table
+  // couldn't convert would skew every total, so it's left out of the comparison
+  const shipmentRates = useMemo(
+    () => allShipmentRates.filter(rate => !rate.currency || rate.currency === currency),
+    [allShipmentRates, currency]
+  );
+  const unconvertedRateCount = allShipmentRates.length - shipmentRates.length;
+
   // State for tracking selected accounts per service
   const [selectedAccounts, setSelectedAccounts] = useState<Record<string, string>>({});
   
@@ -380,6 +397,55 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
     });
   }, [shipmentRates, shipmentData, kpiMetrics.topPerformer]);
 
+  // Each tiered account's cost and savings at every spend band, re-priced from published rates
+  const tierComparisons = useMemo(() => {
+    return Object.entries(discountTiers).map(([configId, tiers]) => {
+      const accountRates = shipmentRates.filter(rate => rate.carrier_config_id === configId);
+      if (accountRates.length === 0 || tiers.length === 0) return null;
+
+      const ratesByShipment: Record<string, { currentRate: number; rates: ShipmentRate[] }> = {};
+      accountRates.forEach(rate => {
+        const shipment = shipmentData.find(s => s.trackingId === rate.shipment_data?.trackingId)
+          || (typeof rate.shipment_index === 'number' ? shipmentData[rate.shipment_index] : undefined);
+        if (!shipment) return;
+
+        const shipmentKey = shipment.trackingId || String(shipment.id);
+        ratesByShipment[shipmentKey] ??= { currentRate: shipment.currentRate || 0, rates: [] };
+        ratesByShipment[shipmentKey].rates.push(rate);
+      });
+
+      const bands = tiers.map((tier, index) => {
+        let totalCost = 0;
+        let currentCost = 0;
+        Object.values(ratesByShipment).forEach(({ currentRate, rates }) => {
+          // Rates without a published amount can't be re-priced and keep their quoted cost
+          totalCost += Math.min(...rates.map(rate =>
+            priceAtTier(rate.published_rate, tier, getRateServiceCategory(rate.carrier_type, rate.service_code)) ?? rate.rate_amount
+          ));
+          currentCost += currentRate;
+        });
+        const totalSavings = currentCost - totalCost;
+
+        return {
+          index,
+          minWeeklySpend: tier.min_weekly_spend,
+          maxWeeklySpend: tiers[index + 1]?.min_weekly_spend,
+          totalCost,
+          totalSavings,
+          savingsPercent: currentCost > 0 ? (totalSavings / currentCost) * 100 : 0
+        };
+      });
+
+      return {
+        configId,
+        accountName: accountRates[0].account_name,
+        shipmentCount: Object.keys(ratesByShipment).length,
+        projectedTierIndex: projectedWeeklySpend != null ? findDiscountTierIndex(tiers, projectedWeeklySpend) : -1,
+        bands
+      };
+    }).filter((comparison): comparison is NonNullable<typeof comparison> => comparison !== null);
+  }, [discountTiers, shipmentRates, shipmentData, projectedWeeklySpend]);
+
   // Helper function to get UPS service mapping for a customer service
   const getUpsServiceForCustomerService = (customerService: string) => {
     const mapping = serviceMappings?.find(mapping => 
@@ -602,6 +668,12 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
 
   return (
     <div className="space-y-6">
+      {unconvertedRateCount > 0 && (
+        <p className="text-sm text-amber-600">
+          {unconvertedRateCount} rate{unconvertedRateCount === 1 ? ' is' : 's are'} not in {currency} and {unconvertedRateCount === 1 ? 'was' : 'were'} left out. Import exchange rates for {unconvertedRateCount === 1 ? 'its' : 'their'} currency to include {unconvertedRateCount === 1 ? 'it' : 'them'}.
+        </p>
+      )}
+
       {/* KPI Cards Row */}
       <div className="grid grid-cols-1 md:grid-cols-5 lg:grid-cols-5 gap-4">
         <SummaryStats
@@ -616,12 +688,12 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
         />
         <SummaryStats
           title="Current Cost"
-          value={formatCurrency(kpiMetrics.currentCost)}
+          value={formatCurrency(kpiMetrics.currentCost, currency)}
           color="blue"
         />
         <SummaryStats
           title="Savings"
-          value={`${formatCurrency(kpiMetrics.totalSavings)} (${Math.round(kpiMetrics.savingsPercentage)}%)`}
+          value={`${formatCurrency(kpiMetrics.totalSavings, currency)} (${Math.round(kpiMetrics.savingsPercentage)}%)`}
           color={kpiMetrics.totalSavings >= 0 ? "green" : "red"}
         />
         <SummaryStats
@@ -664,7 +736,7 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
                         <p>Total amount spent across all shipments with this carrier account</p>
                       </TooltipContent>
                     </Tooltip>
-                    <span className="font-medium">{formatCurrency(account.totalSpend)}</span>
+                    <span className="font-medium">{formatCurrency(account.totalSpend, currency)}</span>
                   </div>
                   
                   <div className="flex justify-between">
@@ -677,7 +749,7 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
                       </TooltipContent>
                     </Tooltip>
                     <span className={`font-medium ${account.totalSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(account.totalSavings)} ({account.totalSavingsPercent.toFixed(1)}%)
+                      {formatCurrency(account.totalSavings, currency)} ({account.totalSavingsPercent.toFixed(1)}%)
                     </span>
                   </div>
                   
@@ -691,7 +763,7 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
                       </TooltipContent>
                     </Tooltip>
                     <span className={`font-medium ${account.avgDollarSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(account.avgDollarSavings)} ({account.avgPercentSavings.toFixed(1)}%)
+                      {formatCurrency(account.avgDollarSavings, currency)} ({account.avgPercentSavings.toFixed(1)}%)
                     </span>
                   </div>
                   
@@ -705,7 +777,7 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
                       </TooltipContent>
                     </Tooltip>
                     <span className={`font-medium ${account.medianDollarSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {formatCurrency(account.medianDollarSavings)} ({account.medianPercentSavings.toFixed(1)}%)
+                      {formatCurrency(account.medianDollarSavings, currency)} ({account.medianPercentSavings.toFixed(1)}%)
                     </span>
                   </div>
                   
@@ -718,7 +790,7 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
                         <p>Average shipping cost per shipment with this carrier account</p>
                       </TooltipContent>
                     </Tooltip>
-                    <span className="font-medium">{formatCurrency(account.avgCostPerShipment)}</span>
+                    <span className="font-medium">{formatCurrency(account.avgCostPerShipment, currency)}</span>
                   </div>
                   
                   <div className="flex justify-between">
@@ -752,6 +824,70 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
       </div>
 
 
+      {/* Earned Discount Tier Section */}
+      {tierComparisons.length > 0 && (
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Earned Discount Tiers</h3>
+            <p className="text-sm text-muted-foreground">
+              How savings move if weekly spend lands in another band
+              {projectedWeeklySpend != null && ` (analysis priced at ${formatCurrency(projectedWeeklySpend, currency)}/week)`}
+            </p>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {tierComparisons.map(comparison => {
+              const projected = comparison.bands[comparison.projectedTierIndex];
+              return (
+                <Card key={comparison.configId} className="p-4">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base font-semibold">{comparison.accountName}</CardTitle>
+                    <p className="text-sm text-muted-foreground">{comparison.shipmentCount} shipments re-priced</p>
+                  </CardHeader>
+                  <CardContent className="space-y-2 text-sm">
+                    <div className="grid grid-cols-4 gap-2 text-xs font-medium text-muted-foreground">
+                      <span>Weekly Spend</span>
+                      <span className="text-right">Total Spend</span>
+                      <span className="text-right">Savings</span>
+                      <span className="text-right">vs Projected</span>
+                    </div>
+                    {comparison.bands.map(band => (
+                      <div
+                        key={band.index}
+                        className={`grid grid-cols-4 gap-2 rounded px-1 py-1 ${
+                          band.index === comparison.projectedTierIndex ? 'bg-primary/10 font-medium' : ''
+                        }`}
+                      >
+                        <span>
+                          {formatCurrency(band.minWeeklySpend, currency)}
+                          {band.maxWeeklySpend != null ? ` – ${formatCurrency(band.maxWeeklySpend, currency)}` : '+'}
+                          {band.index === comparison.projectedTierIndex && (
+                            <span className="ml-2 text-xs bg-primary text-primary-foreground px-2 py-0.5 rounded">Projected</span>
+                          )}
+                        </span>
+                        <span className="text-right">{formatCurrency(band.totalCost, currency)}</span>
+                        <span className={`text-right ${band.totalSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(band.totalSavings, currency)} ({band.savingsPercent.toFixed(1)}%)
+                        </span>
+                        <span className="text-right text-muted-foreground">
+                          {projected && band.index !== comparison.projectedTierIndex
+                            ? `${band.totalSavings >= projected.totalSavings ? '+' : '-'}${formatCurrency(Math.abs(band.totalSavings - projected.totalSavings), currency)}`
+                            : '—'}
+                        </span>
+                      </div>
+                    ))}
+                    {!projected && projectedWeeklySpend != null && (
+                      <p className="text-xs text-amber-600">
+                        The projected spend is below every band, so this account was analyzed at its quoted rates.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Service Type Breakdown Section */}
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-foreground">Performance by Service Type</h3>
@@ -819,25 +955,25 @@ export const AccountComparisonView: React.FC<AccountComparisonViewProps> = ({
                          
                          <div className="flex justify-between">
                            <span className="text-muted-foreground">Total Spend:</span>
-                           <span className="font-medium">{formatCurrency(account.totalCost)}</span>
+                           <span className="font-medium">{formatCurrency(account.totalCost, currency)}</span>
                          </div>
                          
                          <div className="flex justify-between">
                            <span className="text-muted-foreground">Total Savings:</span>
                            <span className={`font-medium ${account.totalSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                             {formatCurrency(account.totalSavings)}
+                             {formatCurrency(account.totalSavings, currency)}
                            </span>
                          </div>
                          
                          <div className="flex justify-between">
                            <span className="text-muted-foreground">Avg Cost:</span>
-                           <span className="font-medium">{formatCurrency(account.avgCost)}</span>
+                           <span className="font-medium">{formatCurrency(account.avgCost, currency)}</span>
                          </div>
                          
                          <div className="flex justify-between">
                            <span className="text-muted-foreground">Avg Savings:</span>
                            <span className={`font-medium ${account.avgSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                             {formatCurrency(account.avgSavings)}
+                             {formatCurrency(account.avgSavings, currency)}
                            </span>
                          </div>
                          
@@ -7,13 +7,20 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Edit2, Trash2, TestTube, AlertTriangle, CheckCircle, Truck } from 'lucide-react';
+import { Plus, Edit2, Trash2, TestTube, AlertTriangle, CheckCircle, Truck, MapIcon, MapPin, Fuel, Globe, Coins } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { CarrierGroupCombobox } from './CarrierGroupCombobox';
 import { RateCardUploadDialog } from './RateCardUploadDialog';
 import { RateCardEditDialog } from './RateCardEditDialog';
-import { useFedexConnectivity } from '@/hooks/useFedexConnectivity';
+import { ZoneChartUploadDialog } from './ZoneChartUploadDialog';
+import { DasZipUploadDialog } from './DasZipUploadDialog';
+import { FuelScheduleUploadDialog } from './FuelScheduleUploadDialog';
+import { TariffTableUploadDialog } from './TariffTableUploadDialog';
+import { ExchangeRateUploadDialog } from './ExchangeRateUploadDialog';
+import { DiscountTierEditor } from './DiscountTierEditor';
+import type { Json } from '@/integrations/supabase/types';
+import { normalizeDiscountTiers, type DiscountTier } from '@shared/discountTiers';
 
 interface CarrierConfig {
   id: string;
@@ -41,6 +48,8 @@ interface CarrierConfig {
   dimensional_divisor?: number;
   fuel_surcharge_percent?: number;
   fuel_auto_lookup?: boolean;
+  discount_tiers?: DiscountTier[];
+  api_base_url?: string;
   weight_unit?: string;
   rate_card_filename?: string;
   rate_card_uploaded_at?: string;
@@ -72,8 +81,12 @@ export const CarrierAccountManager = () => {
   const [editingAccount, setEditingAccount] = useState<CarrierConfig | null>(null);
   const [testingAccount, setTestingAccount] = useState<string | null>(null);
   const [isAddingRateCard, setIsAddingRateCard] = useState(false);
+  const [isImportingZoneChart, setIsImportingZoneChart] = useState(false);
+  const [isImportingDasZips, setIsImportingDasZips] = useState(false);
+  const [isImportingFuelSchedule, setIsImportingFuelSchedule] = useState(false);
+  const [isImportingTariffTable, setIsImportingTariffTable] = useState(false);
+  const [isImportingExchangeRates, setIsImportingExchangeRates] = useState(false);
   
-  const { testFedexConnection } = useFedexConnectivity();
 
   const [newAccount, setNewAccount] = useState<{
     carrier_type: 'ups' | 'fedex' | 'dhl' | 'usps';
@@ -93,6 +106,7 @@ export const CarrierAccountManager = () => {
     dhl_password: string;
     usps_user_id: string;
     usps_password: string;
+    api_base_url: string;
   }>({
     carrier_type: 'ups',
     account_name: '',
@@ -113,7 +127,8 @@ export const CarrierAccountManager = () => {
     dhl_password: '',
     // USPS fields
     usps_user_id: '',
-    usps_password: ''
+    usps_password: '',
+    api_base_url: ''
   });
 
   useEffect(() => {
@@ -144,7 +159,10 @@ export const CarrierAccountManager = () => {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setConfigs((data || []) as CarrierConfig[]);
+      setConfigs((data || []).map(config => ({
+        ...config,
+        discount_tiers: normalizeDiscountTiers(config.discount_tiers)
+      })) as CarrierConfig[]);
     } catch (error) {
       console.error('Error loading carrier configs:', error);
       toast.error('Failed to load carrier accounts');
@@ -200,8 +218,8 @@ export const CarrierAccountManager = () => {
         }
         break;
       case 'usps':
-        if (!account.usps_user_id) {
-          toast.error('USPS requires User ID');
+        if (!account.usps_user_id || !account.usps_password) {
+          toast.error('USPS requires Consumer Key and Consumer Secret');
           return false;
         }
         break;
@@ -235,7 +253,8 @@ export const CarrierAccountManager = () => {
         dhl_site_id: newAccount.carrier_type === 'dhl' ? newAccount.dhl_site_id : null,
         dhl_password: newAccount.carrier_type === 'dhl' ? newAccount.dhl_password : null,
         usps_user_id: newAccount.carrier_type === 'usps' ? newAccount.usps_user_id : null,
-        usps_password: newAccount.carrier_type === 'usps' ? newAccount.usps_password : null
+        usps_password: newAccount.carrier_type === 'usps' ? newAccount.usps_password : null,
+        api_base_url: ['ups', 'fedex'].includes(newAccount.carrier_type) ? newAccount.api_base_url.trim() || null : null
       };
 
       const { error } = await supabase
@@ -280,6 +299,8 @@ const updateAccount = async (account: CarrierConfig) => {
           dhl_password: account.dhl_password,
           usps_user_id: account.usps_user_id,
           usps_password: account.usps_password,
+          discount_tiers: normalizeDiscountTiers(account.discount_tiers) as unknown as Json,
+          api_base_url: account.api_base_url?.trim() || null,
           connection_status: account.connection_status,
           last_test_at: account.last_test_at
         })
@@ -318,85 +339,21 @@ const updateAccount = async (account: CarrierConfig) => {
   const testConnection = async (config: CarrierConfig) => {
     setTestingAccount(config.id);
     try {
-      if (config.carrier_type === 'ups') {
-        // Test UPS connection using the specific config ID
-        const { data, error } = await supabase.functions.invoke('ups-auth', {
-          body: { action: 'get_token', config_id: config.id }
-        });
-
-        if (error || !data.access_token) {
-          // Update config to mark as error
-          await supabase
-            .from('carrier_configs')
-            .update({ 
-              connection_status: 'error',
-              last_test_at: new Date().toISOString() 
-            })
-            .eq('id', config.id);
-            
-          loadCarrierConfigs();
-          throw new Error(error?.message || 'Failed to authenticate with UPS');
-        }
-        
-        // Update config to mark as connected
-        await supabase
-          .from('carrier_configs')
-          .update({ 
-            connection_status: 'connected',
-            last_test_at: new Date().toISOString() 
-          })
-          .eq('id', config.id);
-          
-        toast.success(`${config.account_name} connection successful!`);
-        loadCarrierConfigs();
-      } else if (config.carrier_type === 'fedex') {
-        // Test FedEx connection using the specific config ID
-        const result = await testFedexConnection(config.id);
-        
-        if (!result.success) {
-          // Update config to mark as error
-          await supabase
-            .from('carrier_configs')
-            .update({ 
-              connection_status: 'error',
-              last_test_at: new Date().toISOString() 
-            })
-            .eq('id', config.id);
-            
-          loadCarrierConfigs();
-          throw new Error(result.message);
-        }
-        
-        // Update config to mark as connected
-        await supabase
-          .from('carrier_configs')
-          .update({ 
-            connection_status: 'connected',
-            last_test_at: new Date().toISOString() 
-          })
-          .eq('id', config.id);
-          
-        toast.success(`${config.account_name} connection successful!`);
-        loadCarrierConfigs();
-      } else {
-        // For other carriers, we'll implement testing later
-        toast.info(`${config.carrier_type.toUpperCase()} connection testing will be available soon`);
+      // Every carrier is tested through its adapter; the function also records connection_status
+      const { data, error } = await supabase.functions.invoke('test-carrier-connection', {
+        body: { config_id: config.id }
+      });
+
+      if (error || !data?.success) {
+        throw new Error(data?.message || data?.error || error?.message || 'Connection test failed');
       }
+
+      toast.success(`${config.account_name} connection successful!`);
     } catch (error: any) {
       console.error('Error testing connection:', error);
       toast.error(`${config.account_name} connection failed: ${error.message}`);
-      
-      // Update config to mark as error if not already done
-      await supabase
-        .from('carrier_configs')
-        .update({ 
-          connection_status: 'error',
-          last_test_at: new Date().toISOString() 
-        })
-        .eq('id', config.id);
-        
-      loadCarrierConfigs();
     } finally {
+      loadCarrierConfigs();
       setTestingAccount(null);
     }
   };
@@ -420,7 +377,8 @@ const updateAccount = async (account: CarrierConfig) => {
       dhl_site_id: '',
       dhl_password: '',
       usps_user_id: '',
-      usps_password: ''
+      usps_password: '',
+      api_base_url: ''
     });
   };
 
@@ -513,6 +471,22 @@ const updateAccount = async (account: CarrierConfig) => {
     );
   };
 
+  // UPS and FedEx accounts can be pointed at the mock-carrier function (or another stand-in)
+  const renderEndpointOverride = (value: string | undefined, onChange: (apiBaseUrl: string) => void) => (
+    <div className="space-y-2">
+      <Label htmlFor="api_base_url">API Endpoint Override</Label>
+      <Input
+        id="api_base_url"
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g. http://localhost:54321/functions/v1/mock-carrier (optional)"
+      />
+      <p className="text-xs text-muted-foreground">
+        Replaces the carrier's API host for this account, e.g. for offline testing. Leave blank to use the carrier.
+      </p>
+    </div>
+  );
+
   const renderCarrierFields = (
     account: { carrier_type: 'ups' | 'fedex' | 'dhl' | 'usps'; [key: string]: any }, 
     setAccount: (account: any) => void, 
@@ -550,6 +524,7 @@ const updateAccount = async (account: CarrierConfig) => {
                 placeholder="Enter UPS Account Number (optional)"
               />
             </div>
+            {renderEndpointOverride(account.api_base_url, (api_base_url) => setAccount({ ...account, api_base_url }))}
           </>
         );
       case 'fedex':
@@ -593,6 +568,7 @@ const updateAccount = async (account: CarrierConfig) => {
                 placeholder="Enter FedEx Password"
               />
             </div>
+            {renderEndpointOverride(account.api_base_url, (api_base_url) => setAccount({ ...account, api_base_url }))}
           </>
         );
       case 'dhl':
@@ -632,22 +608,22 @@ const updateAccount = async (account: CarrierConfig) => {
         return (
           <>
             <div className="space-y-2">
-              <Label htmlFor="usps_user_id">USPS User ID *</Label>
+              <Label htmlFor="usps_user_id">USPS Consumer Key *</Label>
               <Input
                 id="usps_user_id"
                 value={account.usps_user_id}
                 onChange={(e) => setAccount({ ...account, usps_user_id: e.target.value })}
-                placeholder="Enter USPS User ID"
+                placeholder="Enter USPS Consumer Key"
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="usps_password">USPS Password</Label>
+              <Label htmlFor="usps_password">USPS Consumer Secret *</Label>
               <Input
                 id="usps_password"
                 type="password"
                 value={account.usps_password}
                 onChange={(e) => setAccount({ ...account, usps_password: e.target.value })}
-                placeholder="Enter USPS Password"
+                placeholder="Enter USPS Consumer Secret"
               />
             </div>
           </>
@@ -769,6 +745,46 @@ const updateAccount = async (account: CarrierConfig) => {
             >
               Add Rate Card Account
             </Button>
+
+            <Button 
+              variant="outline" 
+              iconLeft={<MapIcon className="h-4 w-4" />}
+              onClick={() => setIsImportingZoneChart(true)}
+            >
+              Import Zone Chart
+            </Button>
+
+            <Button 
+              variant="outline" 
+              iconLeft={<MapPin className="h-4 w-4" />}
+              onClick={() => setIsImportingDasZips(true)}
+            >
+              Import DAS ZIPs
+            </Button>
+
+            <Button 
+              variant="outline" 
+              iconLeft={<Fuel className="h-4 w-4" />}
+              onClick={() => setIsImportingFuelSchedule(true)}
+            >
+              Import Fuel Schedule
+            </Button>
+
+            <Button 
+              variant="outline" 
+              iconLeft={<Globe className="h-4 w-4" />}
+              onClick={() => setIsImportingTariffTable(true)}
+            >
+              Import Tariff Table
+            </Button>
+
+            <Button 
+              variant="outline" 
+              iconLeft={<Coins className="h-4 w-4" />}
+              onClick={() => setIsImportingExchangeRates(true)}
+            >
+              Import Exchange Rates
+            </Button>
           </div>
         </div>
       </CardHeader>
@@ -807,7 +823,7 @@ const updateAccount = async (account: CarrierConfig) => {
                             <div className="flex items-center gap-2 text-sm text-muted-foreground">
                               <span>{getCarrierLabel(config.carrier_type)}</span>
                               <span>•</span>
-                              <span>{config.is_rate_card ? 'Rate Card' : (config.is_sandbox ? 'Sandbox' : 'Production')}</span>
+                              <span>{config.is_rate_card ? 'Rate Card' : config.api_base_url ? 'Custom Endpoint' : (config.is_sandbox ? 'Sandbox' : 'Production')}</span>
                                <span>•</span>
                                <span>{config.enabled_services?.length || 0} services</span>
                             </div>
@@ -819,17 +835,15 @@ const updateAccount = async (account: CarrierConfig) => {
                           ) : (
                             <Badge variant="secondary">Inactive</Badge>
                           )}
-                           {!config.is_rate_card && (
-                             <Button
-                               variant="ghost"
-                               size="sm"
-                               onClick={() => testConnection(config)}
-                               disabled={testingAccount === config.id}
-                               iconLeft={<TestTube className="h-4 w-4" />}
-                             >
-                               {testingAccount === config.id ? 'Testing...' : 'Test'}
-                             </Button>
-                           )}
+                           <Button
+                             variant="ghost"
+                             size="sm"
+                             onClick={() => testConnection(config)}
+                             disabled={testingAccount === config.id}
+                             iconLeft={<TestTube className="h-4 w-4" />}
+                           >
+                             {testingAccount === config.id ? 'Testing...' : 'Test'}
+                           </Button>
                            <Button
                              variant="ghost"
                              size="sm"
@@ -855,6 +869,37 @@ const updateAccount = async (account: CarrierConfig) => {
           onSuccess={loadCarrierConfigs}
         />
 
+        {/* Zone Chart Import Dialog */}
+        <ZoneChartUploadDialog
+          open={isImportingZoneChart}
+          onOpenChange={setIsImportingZoneChart}
+          accounts={configs}
+        />
+
+        {/* DAS ZIP List Import Dialog */}
+        <DasZipUploadDialog
+          open={isImportingDasZips}
+          onOpenChange={setIsImportingDasZips}
+        />
+
+        {/* Fuel Surcharge Schedule Import Dialog */}
+        <FuelScheduleUploadDialog
+          open={isImportingFuelSchedule}
+          onOpenChange={setIsImportingFuelSchedule}
+        />
+
+        {/* Duty and Tax Tariff Table Import Dialog */}
+        <TariffTableUploadDialog
+          open={isImportingTariffTable}
+          onOpenChange={setIsImportingTariffTable}
+        />
+
+        {/* Currency Exchange Rate Import Dialog */}
+        <ExchangeRateUploadDialog
+          open={isImportingExchangeRates}
+          onOpenChange={setIsImportingExchangeRates}
+        />
+
         {/* Rate Card Edit Dialog */}
         <RateCardEditDialog
           open={!!editingAccount?.is_rate_card}
@@ -893,6 +938,11 @@ const updateAccount = async (account: CarrierConfig) => {
                 
                 {renderServiceToggles(editingAccount as any, setEditingAccount as any)}
 
+                <DiscountTierEditor
+                  tiers={editingAccount.discount_tiers || []}
+                  onChange={(discount_tiers) => setEditingAccount({ ...editingAccount, discount_tiers })}
+                />
+
                 <div className="flex items-center justify-between py-2">
                   <div>
                     <div className="font-medium">Active</div>
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui-lov/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui-lov/Card';
+import { Badge } from '@/components/ui/badge';
+import { Upload, Download, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import { DAS_TIERS, DAS_TIER_LABELS, parseDasZipList, type ParsedDasZipRow } from '@shared/deliveryArea';
+
+interface DasZipUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+const CARRIER_TYPES = [
+  { value: 'ups', label: 'UPS', icon: '📦' },
+  { value: 'fedex', label: 'FedEx', icon: '🚚' },
+  { value: 'dhl', label: 'DHL', icon: '✈️' },
+  { value: 'usps', label: 'USPS', icon: '📮' },
+  { value: 'amazon', label: 'Amazon', icon: '📋' }
+] as const;
+
+const INSERT_CHUNK_SIZE = 500;
+
+export const DasZipUploadDialog: React.FC<DasZipUploadDialogProps> = ({
+  open,
+  onOpenChange,
+  onSuccess
+}) => {
+  const [carrierType, setCarrierType] = useState<string>('ups');
+  const [fileName, setFileName] = useState('');
+  const [entries, setEntries] = useState<ParsedDasZipRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const tierCounts = DAS_TIERS
+    .map(tier => ({ tier, count: entries.filter(entry => entry.das_tier === tier).length }))
+    .filter(({ count }) => count > 0);
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      const data = await file.arrayBuffer();
+      const workbook = XLSX.read(data);
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false }) as unknown[][];
+
+      const parsed = parseDasZipList(rows);
+      if (parsed.entries.length === 0) {
+        toast.error('No ZIP codes found. Please check the format requirements.');
+        return;
+      }
+
+      setFileName(file.name);
+      setEntries(parsed.entries);
+      setParseErrors(parsed.errors);
+      toast.success(`Read ${parsed.entries.length} DAS ZIP codes`);
+    } catch (error) {
+      console.error('Error reading DAS ZIP list:', error);
+      toast.error('Failed to read DAS ZIP list');
+    }
+  };
+
+  const saveDasZips = async () => {
+    if (entries.length === 0) {
+      toast.error('Please upload a DAS ZIP list');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      // Carriers republish the whole list, so an import replaces the carrier's previous one
+      const { error: deleteError } = await supabase
+        .from('carrier_das_zips')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('carrier_type', carrierType);
+
+      if (deleteError) throw deleteError;
+
+      const rows = entries.map(entry => ({
+        ...entry,
+        user_id: user.id,
+        carrier_type: carrierType,
+        source_file_name: fileName
+      }));
+
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        const { error } = await supabase
+          .from('carrier_das_zips')
+          .insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+
+        if (error) throw error;
+      }
+
+      const carrierLabel = CARRIER_TYPES.find(carrier => carrier.value === carrierType)?.label;
+      toast.success(`Imported ${rows.length} ${carrierLabel} DAS ZIP codes`);
+      onOpenChange(false);
+      resetForm();
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving DAS ZIP list:', error);
+      toast.error('Failed to save DAS ZIP list: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setCarrierType('ups');
+    setFileName('');
+    setEntries([]);
+    setParseErrors([]);
+  };
+
+  const downloadSampleCSV = () => {
+    const sampleData = [
+      ['ZIP', 'Type'],
+      ['01009', 'DAS'],
+      ['01010', 'DAS'],
+      ['01011', 'Extended'],
+      ['04622', 'Extended'],
+      ['99501', 'Remote']
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet(sampleData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'DAS ZIPs');
+    XLSX.writeFile(wb, 'sample-das-zips.xlsx');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import DAS ZIP List</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>List Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="das-carrier">Carrier *</Label>
+                <Select value={carrierType} onValueChange={setCarrierType}>
+                  <SelectTrigger id="das-carrier">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CARRIER_TYPES.map(carrier => (
+                      <SelectItem key={carrier.value} value={carrier.value}>
+                        <div className="flex items-center gap-2">
+                          <span>{carrier.icon}</span>
+                          <span>{carrier.label}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="das-file">DAS ZIP CSV *</Label>
+                <Input
+                  id="das-file"
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileUpload(file);
+                  }}
+                />
+                {fileName && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{fileName}</Badge>
+                    {tierCounts.map(({ tier, count }) => (
+                      <span key={tier} className="text-xs text-muted-foreground">
+                        {DAS_TIER_LABELS[tier]}: {count}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {parseErrors.length > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-amber-600">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <div>
+                      <p>{parseErrors.length} row{parseErrors.length === 1 ? ' was' : 's were'} skipped:</p>
+                      {parseErrors.slice(0, 5).map(error => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Required Format</CardTitle>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={downloadSampleCSV}
+                  iconLeft={<Download className="h-4 w-4" />}
+                >
+                  Download Sample CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-muted/20 p-4 rounded-lg space-y-2 text-sm">
+                <p className="font-medium text-muted-foreground">Use the carrier's published DAS ZIP list in this layout:</p>
+                <ul className="space-y-1 text-muted-foreground ml-4">
+                  <li>• Column A: Destination ZIP (5 digits)</li>
+                  <li>• Column B: Type — DAS, Extended or Remote (optional, defaults to DAS)</li>
+                  <li>• Re-importing replaces the whole list for the carrier</li>
+                  <li>• Fees are set per rate card account under Edit Rate Card Account</li>
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={saveDasZips}
+            loading={saving}
+            iconLeft={<Upload className="h-4 w-4" />}
+          >
+            Import DAS ZIPs
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Button } from '@/components/ui-lov/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { UNIVERSAL_SERVICES, UniversalServiceCategory } from '@shared/serviceCategories';
+import { ALL_SERVICES, type DiscountTier } from '@shared/discountTiers';
+
+interface DiscountTierEditorProps {
+  tiers: DiscountTier[];
+  onChange: (tiers: DiscountTier[]) => void;
+}
+
+const serviceLabel = (service: string) =>
+  service === ALL_SERVICES
+    ? 'All other services'
+    : UNIVERSAL_SERVICES[service as UniversalServiceCategory]?.displayName || service;
+
+export const DiscountTierEditor: React.FC<DiscountTierEditorProps> = ({ tiers, onChange }) => {
+  const updateTier = (index: number, updates: Partial<DiscountTier>) => {
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, ...updates } : tier)));
+  };
+
+  const setIncentive = (index: number, service: string, percent: number) => {
+    updateTier(index, { incentives: { ...tiers[index].incentives, [service]: percent } });
+  };
+
+  const removeIncentive = (index: number, service: string) => {
+    const incentives = { ...tiers[index].incentives };
+    delete incentives[service];
+    updateTier(index, { incentives });
+  };
+
+  // A new band starts above the highest one and inherits its incentives as a starting point
+  const addTier = () => {
+    const last = tiers[tiers.length - 1];
+    onChange([
+      ...tiers,
+      {
+        min_weekly_spend: last ? last.min_weekly_spend + 1000 : 0,
+        incentives: last ? { ...last.incentives } : { [ALL_SERVICES]: 0 }
+      }
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium">Earned Discount Tiers</div>
+          <div className="text-sm text-muted-foreground">
+            Incentives off published rates by weekly spend. Analyses price this account at the tier the projected spend earns.
+          </div>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={addTier} iconLeft={<Plus className="h-4 w-4" />}>
+          Add Tier
+        </Button>
+      </div>
+
+      {tiers.map((tier, index) => (
+        <div key={index} className="border rounded-lg p-3 space-y-3">
+          <div className="flex items-end justify-between gap-4">
+            <div className="space-y-1 flex-1">
+              <Label htmlFor={`tier-min-${index}`} className="text-xs">Weekly spend from ($)</Label>
+              <Input
+                id={`tier-min-${index}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={tier.min_weekly_spend}
+                onChange={(e) => updateTier(index, { min_weekly_spend: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {Object.entries(tier.incentives).map(([service, percent]) => (
+            <div key={service} className="flex items-center gap-2">
+              <span className="text-sm flex-1">{serviceLabel(service)}</span>
+              <Input
+                type="number"
+                min="0"
+                max="99.99"
+                step="0.01"
+                className="w-24"
+                value={percent}
+                onChange={(e) => setIncentive(index, service, parseFloat(e.target.value) || 0)}
+              />
+              <span className="text-sm text-muted-foreground">% off</span>
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeIncentive(index, service)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Select value="" onValueChange={(service) => setIncentive(index, service, 0)}>
+            <SelectTrigger className="w-56 h-8 text-xs">
+              <SelectValue placeholder="Add service incentive" />
+            </SelectTrigger>
+            <SelectContent>
+              {[ALL_SERVICES, ...Object.keys(UNIVERSAL_SERVICES)]
+                .filter(service => !(service in tier.incentives))
+                .map(service => (
+                  <SelectItem key={service} value={service} className="text-xs">
+                    {serviceLabel(service)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+};
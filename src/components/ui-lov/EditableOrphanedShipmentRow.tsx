@@ -8,9 +8,9 @@ import { UniversalServiceSelector } from '@/components/ui-lov/UniversalServiceSe
 import { AccountSelector } from '@/components/ui-lov/AccountSelector';
 import { RotateCw, AlertCircle } from 'lucide-react';
 import { formatCurrency, getSavingsColor, cn } from '@/lib/utils';
-import { getStateFromZip } from '@/utils/zipToStateMapping';
+import { getStateFromZip } from '@shared/zones';
 import { supabase } from '@/integrations/supabase/client';
-import { UniversalServiceCategory, UNIVERSAL_SERVICES } from '@/utils/universalServiceCategories';
+import { UniversalServiceCategory, UNIVERSAL_SERVICES } from '@shared/serviceCategories';
 import { mapServiceToServiceCode } from '@/utils/serviceMapping';
 import { toast } from 'sonner';
 
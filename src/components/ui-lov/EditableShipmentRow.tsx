@@ -9,9 +9,9 @@ import { AccountSelector } from '@/components/ui-lov/AccountSelector';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { RotateCw, AlertCircle, Flag } from 'lucide-react';
 import { formatCurrency, getSavingsColor } from '@/lib/utils';
-import { getStateFromZip } from '@/utils/zipToStateMapping';
+import { getStateFromZip } from '@shared/zones';
 import { supabase } from '@/integrations/supabase/client';
-import { UniversalServiceCategory, UNIVERSAL_SERVICES } from '@/utils/universalServiceCategories';
+import { UniversalServiceCategory, UNIVERSAL_SERVICES } from '@shared/serviceCategories';
 import { mapServiceToServiceCode } from '@/utils/serviceMapping';
 import { toast } from 'sonner';
 
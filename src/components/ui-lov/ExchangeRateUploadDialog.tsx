@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui-lov/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui-lov/Card';
+import { Badge } from '@/components/ui/badge';
+import { Upload, Download, AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import { parseExchangeRateTable, type ExchangeRate } from '@shared/currency';
+
+interface ExchangeRateUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+const rateKey = (entry: ExchangeRate) => `${entry.base_currency}|${entry.quote_currency}|${entry.effective_date}`;
+
+export const ExchangeRateUploadDialog: React.FC<ExchangeRateUploadDialogProps> = ({
+  open,
+  onOpenChange,
+  onSuccess
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [entries, setEntries] = useState<ExchangeRate[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [manualRate, setManualRate] = useState({
+    effectiveDate: new Date().toISOString().split('T')[0],
+    from: '',
+    to: 'USD',
+    rate: ''
+  });
+
+  // Later rows for the same pair and date replace earlier ones, as in the sheet itself
+  const mergeEntries = (current: ExchangeRate[], added: ExchangeRate[]) => {
+    const merged = new Map(current.map(entry => [rateKey(entry), entry]));
+    added.forEach(entry => merged.set(rateKey(entry), entry));
+    return [...merged.values()].sort((a, b) => a.effective_date.localeCompare(b.effective_date));
+  };
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      const data = await file.arrayBuffer();
+      const workbook = XLSX.read(data);
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false }) as unknown[][];
+
+      const parsed = parseExchangeRateTable(rows);
+      if (parsed.entries.length === 0) {
+        toast.error('No exchange rates found. Please check the format requirements.');
+        return;
+      }
+
+      setFileName(file.name);
+      setEntries(prev => mergeEntries(prev, parsed.entries));
+      setParseErrors(parsed.errors);
+      toast.success(`Read ${parsed.entries.length} exchange rates`);
+    } catch (error) {
+      console.error('Error reading exchange rates:', error);
+      toast.error('Failed to read exchange rate file');
+    }
+  };
+
+  const addManualRate = () => {
+    const parsed = parseExchangeRateTable([[manualRate.effectiveDate, manualRate.from, manualRate.to, manualRate.rate]]);
+    if (parsed.entries.length === 0) {
+      toast.error('Enter an effective date, two different currency codes and a positive rate');
+      return;
+    }
+
+    setEntries(prev => mergeEntries(prev, parsed.entries));
+    setManualRate(prev => ({ ...prev, from: '', rate: '' }));
+  };
+
+  const removeEntry = (key: string) => {
+    setEntries(prev => prev.filter(entry => rateKey(entry) !== key));
+  };
+
+  const saveExchangeRates = async () => {
+    if (entries.length === 0) {
+      toast.error('Please upload or enter at least one exchange rate');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const rows = entries.map(entry => ({
+        ...entry,
+        user_id: user.id,
+        source_file_name: fileName || null
+      }));
+
+      // Rates already on file for a pair and date are replaced; the rest are kept
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(rows, { onConflict: 'user_id,base_currency,quote_currency,effective_date' });
+
+      if (error) throw error;
+
+      const pairs = new Set(rows.map(row => `${row.base_currency}|${row.quote_currency}`)).size;
+      toast.success(`Imported ${rows.length} exchange rates for ${pairs} currency ${pairs === 1 ? 'pair' : 'pairs'}`);
+      onOpenChange(false);
+      resetForm();
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving exchange rates:', error);
+      toast.error('Failed to save exchange rates: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFileName('');
+    setEntries([]);
+    setParseErrors([]);
+  };
+
+  const downloadSampleCSV = () => {
+    const sampleData = [
+      ['Effective Date', 'From', 'To', 'Rate'],
+      ['2025-01-01', 'EUR', 'USD', '1.0350'],
+      ['2025-01-01', 'CAD', 'USD', '0.6950'],
+      ['2025-01-01', 'GBP', 'USD', '1.2500'],
+      ['2025-02-01', 'EUR', 'USD', '1.0420'],
+      ['2025-02-01', 'CAD', 'USD', '0.6890']
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet(sampleData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Exchange Rates');
+    XLSX.writeFile(wb, 'sample-exchange-rates.xlsx');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Exchange Rates</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Exchange Rates</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="exchange-rate-file">Exchange Rate CSV</Label>
+                <Input
+                  id="exchange-rate-file"
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileUpload(file);
+                  }}
+                />
+                {fileName && (
+                  <Badge variant="outline" className="text-xs">{fileName}</Badge>
+                )}
+                {parseErrors.length > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-amber-600">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <div>
+                      <p>{parseErrors.length} row{parseErrors.length === 1 ? ' was' : 's were'} skipped:</p>
+                      {parseErrors.slice(0, 5).map(error => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="rate-date" className="text-xs">Effective Date</Label>
+                  <Input
+                    id="rate-date"
+                    type="date"
+                    value={manualRate.effectiveDate}
+                    onChange={(e) => setManualRate(prev => ({ ...prev, effectiveDate: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rate-from" className="text-xs">From</Label>
+                  <Input
+                    id="rate-from"
+                    placeholder="EUR"
+                    maxLength={3}
+                    value={manualRate.from}
+                    onChange={(e) => setManualRate(prev => ({ ...prev, from: e.target.value.toUpperCase() }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rate-to" className="text-xs">To</Label>
+                  <Input
+                    id="rate-to"
+                    placeholder="USD"
+                    maxLength={3}
+                    value={manualRate.to}
+                    onChange={(e) => setManualRate(prev => ({ ...prev, to: e.target.value.toUpperCase() }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rate-value" className="text-xs">Rate</Label>
+                  <Input
+                    id="rate-value"
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    placeholder="1.0350"
+                    value={manualRate.rate}
+                    onChange={(e) => setManualRate(prev => ({ ...prev, rate: e.target.value }))}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={addManualRate}
+                  iconLeft={<Plus className="h-4 w-4" />}
+                >
+                  Add Rate
+                </Button>
+              </div>
+
+              {entries.length > 0 && (
+                <div className="border rounded-lg divide-y max-h-60 overflow-y-auto">
+                  {entries.map(entry => (
+                    <div key={rateKey(entry)} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span>
+                        {entry.effective_date}: 1 {entry.base_currency} = {entry.rate} {entry.quote_currency}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeEntry(rateKey(entry))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Required Format</CardTitle>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={downloadSampleCSV}
+                  iconLeft={<Download className="h-4 w-4" />}
+                >
+                  Download Sample CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-muted/20 p-4 rounded-lg space-y-2 text-sm">
+                <p className="font-medium text-muted-foreground">One row per currency pair and effective date:</p>
+                <ul className="space-y-1 text-muted-foreground ml-4">
+                  <li>• Column A: Effective Date — the rate applies to shipments from this date until the next row for the pair</li>
+                  <li>• Column B: From — ISO currency code the carrier bills in (EUR, CAD)</li>
+                  <li>• Column C: To — ISO currency code it converts into (USD)</li>
+                  <li>• Column D: Rate — units of To for one unit of From</li>
+                  <li>• Rates work in both directions, and pairs without a row are crossed through USD</li>
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={saveExchangeRates}
+            loading={saving}
+            iconLeft={<Upload className="h-4 w-4" />}
+          >
+            Import Exchange Rates
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
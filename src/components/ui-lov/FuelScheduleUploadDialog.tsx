@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui-lov/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui-lov/Card';
+import { Badge } from '@/components/ui/badge';
+import { Upload, Download, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import { parseFuelSchedule, type ParsedFuelScheduleRow } from '@shared/fuelSurcharge';
+
+interface FuelScheduleUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+const CARRIER_TYPES = [
+  { value: 'ups', label: 'UPS', icon: '📦' },
+  { value: 'fedex', label: 'FedEx', icon: '🚚' },
+  { value: 'dhl', label: 'DHL', icon: '✈️' },
+  { value: 'usps', label: 'USPS', icon: '📮' },
+  { value: 'amazon', label: 'Amazon', icon: '📋' }
+] as const;
+
+export const FuelScheduleUploadDialog: React.FC<FuelScheduleUploadDialogProps> = ({
+  open,
+  onOpenChange,
+  onSuccess
+}) => {
+  const [carrierType, setCarrierType] = useState<string>('ups');
+  const [fileName, setFileName] = useState('');
+  const [entries, setEntries] = useState<ParsedFuelScheduleRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      const data = await file.arrayBuffer();
+      const workbook = XLSX.read(data);
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false }) as unknown[][];
+
+      const parsed = parseFuelSchedule(rows);
+      if (parsed.entries.length === 0) {
+        toast.error('No fuel surcharge weeks found. Please check the format requirements.');
+        return;
+      }
+
+      setFileName(file.name);
+      setEntries(parsed.entries);
+      setParseErrors(parsed.errors);
+      toast.success(`Read ${parsed.entries.length} fuel surcharge weeks`);
+    } catch (error) {
+      console.error('Error reading fuel schedule:', error);
+      toast.error('Failed to read fuel schedule');
+    }
+  };
+
+  const saveFuelSchedule = async () => {
+    if (entries.length === 0) {
+      toast.error('Please upload a fuel schedule');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const rows = entries.map(entry => ({
+        ...entry,
+        user_id: user.id,
+        carrier_type: carrierType,
+        source_file_name: fileName
+      }));
+
+      // Weeks already on file are corrected in place; earlier weeks stay for historical ship dates
+      const { error } = await supabase
+        .from('carrier_fuel_surcharges')
+        .upsert(rows, { onConflict: 'user_id,carrier_type,effective_date' });
+
+      if (error) throw error;
+
+      const carrierLabel = CARRIER_TYPES.find(carrier => carrier.value === carrierType)?.label;
+      toast.success(`Imported ${rows.length} ${carrierLabel} fuel surcharge weeks`);
+      onOpenChange(false);
+      resetForm();
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving fuel schedule:', error);
+      toast.error('Failed to save fuel schedule: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setCarrierType('ups');
+    setFileName('');
+    setEntries([]);
+    setParseErrors([]);
+  };
+
+  const downloadSampleCSV = () => {
+    const sampleData = [
+      ['Effective Date', 'Ground %', 'Air %'],
+      ['2025-07-07', '19.25', '21.5'],
+      ['2025-07-14', '19.5', '21.75'],
+      ['2025-07-21', '19.25', '21.5'],
+      ['2025-07-28', '19', '21.25']
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet(sampleData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Fuel Surcharges');
+    XLSX.writeFile(wb, 'sample-fuel-schedule.xlsx');
+  };
+
+  const firstWeek = entries[0]?.effective_date;
+  const lastWeek = entries[entries.length - 1]?.effective_date;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Fuel Surcharge Schedule</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Schedule Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="fuel-carrier">Carrier *</Label>
+                <Select value={carrierType} onValueChange={setCarrierType}>
+                  <SelectTrigger id="fuel-carrier">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CARRIER_TYPES.map(carrier => (
+                      <SelectItem key={carrier.value} value={carrier.value}>
+                        <div className="flex items-center gap-2">
+                          <span>{carrier.icon}</span>
+                          <span>{carrier.label}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fuel-file">Fuel Schedule CSV *</Label>
+                <Input
+                  id="fuel-file"
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileUpload(file);
+                  }}
+                />
+                {fileName && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{fileName}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {entries.length} week{entries.length === 1 ? '' : 's'}, {firstWeek} to {lastWeek}
+                    </span>
+                  </div>
+                )}
+                {parseErrors.length > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-amber-600">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <div>
+                      <p>{parseErrors.length} row{parseErrors.length === 1 ? ' was' : 's were'} skipped:</p>
+                      {parseErrors.slice(0, 5).map(error => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Required Format</CardTitle>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={downloadSampleCSV}
+                  iconLeft={<Download className="h-4 w-4" />}
+                >
+                  Download Sample CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-muted/20 p-4 rounded-lg space-y-2 text-sm">
+                <p className="font-medium text-muted-foreground">Use the carrier's published weekly fuel surcharge table in this layout:</p>
+                <ul className="space-y-1 text-muted-foreground ml-4">
+                  <li>• Column A: Effective Date — first day the percentages apply</li>
+                  <li>• Column B: Ground % (ground and international standard services)</li>
+                  <li>• Column C: Air % (optional, defaults to the ground percentage)</li>
+                  <li>• Weeks already imported are overwritten; other weeks are kept</li>
+                  <li>• Turn on "Use carrier fuel schedule" for each rate card account that should follow it</li>
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={saveFuelSchedule}
+            loading={saving}
+            iconLeft={<Upload className="h-4 w-4" />}
+          >
+            Import Fuel Schedule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
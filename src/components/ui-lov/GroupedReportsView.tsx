@@ -12,6 +12,7 @@ interface ShippingAnalysis {
   analysis_date: string;
   total_shipments: number;
   total_savings: number | null;
+  reporting_currency?: string;
   markup_data: any;
   savings_analysis: any;
   created_at: string;
@@ -49,8 +50,11 @@ export function GroupedReportsView({
     const totalSavings = reports.reduce((sum, report) => sum + (report.total_savings || 0), 0);
     const totalShipments = reports.reduce((sum, report) => sum + report.total_shipments, 0);
     const reportsWithMarkup = reports.filter(report => getMarkupStatus(report.markup_data).hasMarkup).length;
+    // Savings in different reporting currencies can't be added up
+    const currencies = new Set(reports.map(report => report.reporting_currency || 'USD'));
+    const currency = currencies.size === 1 ? [...currencies][0] : null;
     
-    return { totalReports, totalSavings, totalShipments, reportsWithMarkup };
+    return { totalReports, totalSavings, totalShipments, reportsWithMarkup, currency };
   };
 
   return (
@@ -84,7 +88,7 @@ export function GroupedReportsView({
               <div className="flex items-center gap-4 text-sm">
                 <div className="text-right">
                   <div className="font-medium">
-                    {formatCurrency(summary.totalSavings)}
+                    {summary.currency ? formatCurrency(summary.totalSavings, summary.currency) : 'Mixed currencies'}
                   </div>
                   <div className="text-xs text-muted-foreground">Total Savings</div>
                 </div>
@@ -180,7 +184,7 @@ export function GroupedReportsView({
                                     
                                     return (
                                       <div className="text-right">
-                                        <div className="font-medium">{formatCurrency(savingsAmount)}</div>
+                                        <div className="font-medium">{formatCurrency(savingsAmount, report.reporting_currency)}</div>
                                         <div className="text-xs text-muted-foreground">
                                           {savingsPercentage.toFixed(1)}%
                                         </div>
@@ -192,7 +196,7 @@ export function GroupedReportsView({
                               {markupStatus.hasMarkup ? (
                                 <div className="text-right">
                                   <div className="font-medium">
-                                    {formatCurrency(markupStatus.totalMargin)}
+                                    {formatCurrency(markupStatus.totalMargin, report.reporting_currency)}
                                   </div>
                                   <div className="text-xs text-muted-foreground">
                                     {markupStatus.marginPercentage.toFixed(1)}%
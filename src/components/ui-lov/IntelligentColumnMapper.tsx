@@ -56,7 +56,14 @@ const fieldDefinitions = [
   { name: 'zone', displayName: 'Shipping Zone', description: 'Carrier shipping zone', required: false },
   { name: 'isResidential', displayName: 'Residential Flag', description: 'Whether delivery is residential', required: false },
   { name: 'shipDate', displayName: 'Ship Date', description: 'Date the package was shipped', required: false },
-  { name: 'deliveryDate', displayName: 'Delivery Date', description: 'Date the package was delivered', required: false }
+  { name: 'deliveryDate', displayName: 'Delivery Date', description: 'Date the package was delivered', required: false },
+  { name: 'packageCount', displayName: 'Package Count', description: 'Pieces in the shipment - weight is treated as the shipment total and split evenly', required: false },
+  { name: 'shipmentReference', displayName: 'Shipment Reference', description: 'Order or master tracking number - rows that share it are rated as one multi-piece shipment', required: false },
+  { name: 'originCountry', displayName: 'Origin Country', description: 'Ship-from country - blank means US', required: false },
+  { name: 'destCountry', displayName: 'Destination Country', description: 'Ship-to country - blank means US', required: false },
+  { name: 'customsValue', displayName: 'Customs Value', description: 'Declared value of the contents ($) - used for duty and tax estimates', required: false },
+  { name: 'hsCode', displayName: 'HS Code', description: 'Harmonized System tariff code of the contents', required: false },
+  { name: 'commodityDescription', displayName: 'Commodity Description', description: 'Description of the contents for customs', required: false }
 ];
 
 export const IntelligentColumnMapper: React.FC<IntelligentColumnMapperProps> = ({
@@ -22,12 +22,14 @@ interface MarkupConfigurationProps {
   analysisId?: string;
   onMarkupChange: (markupData: MarkupData) => void;
   initialMarkupData?: MarkupData;
+  currency?: string; // Reporting currency of the analysis
 }
 export const MarkupConfiguration: React.FC<MarkupConfigurationProps> = ({
   shipmentData,
   analysisId,
   onMarkupChange,
-  initialMarkupData
+  initialMarkupData,
+  currency = 'USD'
 }) => {
   const [markupType, setMarkupType] = useState<'global' | 'per-service'>('global');
   const [globalMarkup, setGlobalMarkup] = useState(0.0);
@@ -322,7 +324,7 @@ export const MarkupConfiguration: React.FC<MarkupConfigurationProps> = ({
                     <DollarSign className="h-4 w-4 text-blue-500" />
                     <span className="text-sm">Ship Pros Cost</span>
                   </div>
-                  <span className="font-medium">{formatCurrency(totalShipProsCost)}</span>
+                  <span className="font-medium">{formatCurrency(totalShipProsCost, currency)}</span>
                 </div>
 
                 <div className="flex items-center justify-between p-3 bg-primary/10 rounded-lg">
@@ -330,7 +332,7 @@ export const MarkupConfiguration: React.FC<MarkupConfigurationProps> = ({
                     <TrendingUp className="h-4 w-4 text-primary" />
                     <span className="text-sm">With Markup</span>
                   </div>
-                  <span className="font-medium text-primary">{formatCurrency(totalMarkedUpRevenue)}</span>
+                  <span className="font-medium text-primary">{formatCurrency(totalMarkedUpRevenue, currency)}</span>
                 </div>
 
                 <div className="flex items-center justify-between p-3 bg-green-500/10 rounded-lg">
@@ -338,7 +340,7 @@ export const MarkupConfiguration: React.FC<MarkupConfigurationProps> = ({
                     <DollarSign className="h-4 w-4 text-green-500" />
                     <span className="text-sm">Total Markup</span>
                   </div>
-                  <span className="font-medium text-green-500">{formatCurrency(markupData.totalMargin)}</span>
+                  <span className="font-medium text-green-500">{formatCurrency(markupData.totalMargin, currency)}</span>
                 </div>
 
                 <div className="flex items-center justify-between p-3 bg-orange-500/10 rounded-lg">
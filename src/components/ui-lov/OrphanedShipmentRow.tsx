@@ -5,7 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { InlineEditableField } from '@/components/ui-lov/InlineEditableField';
 import { UniversalServiceSelector } from '@/components/ui-lov/UniversalServiceSelector';
 import { CheckCircle, AlertTriangle } from 'lucide-react';
-import { getStateFromZip } from '@/utils/zipToStateMapping';
+import { getStateFromZip } from '@shared/zones';
 
 interface OrphanedShipmentRowProps {
   shipment: any;
@@ -5,13 +5,24 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui-lov/Card';
-import { Upload, Plus, Trash2, Download, Save, Eye, FileText } from 'lucide-react';
+import { Upload, Plus, Trash2, Download, Save, Eye, FileText, History } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { CarrierGroupCombobox } from './CarrierGroupCombobox';
 import { supabase } from '@/integrations/supabase/client';
+import { createRateCardVersion, loadRateCardVersions } from '@/utils/rateCardVersions';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
 import * as XLSX from 'xlsx';
-import { UNIVERSAL_SERVICES, UniversalServiceCategory } from '@/utils/universalServiceCategories';
+import { UNIVERSAL_SERVICES, UniversalServiceCategory } from '@shared/serviceCategories';
+import { DAS_TIERS, DAS_TIER_LABELS, type DasTier } from '@shared/deliveryArea';
+import {
+  ACCESSORIAL_DEFAULTS,
+  ACCESSORIAL_LABELS,
+  type AccessorialRule,
+  type AccessorialType
+} from '@shared/accessorials';
+import { formatVersionLabel, selectRateCardVersion, type RateCardVersion } from '@shared/rateCardVersioning';
 
 interface RateCard {
   id: string;
@@ -38,6 +49,23 @@ const CARRIER_TYPES = [
   { value: 'amazon', label: 'Amazon', icon: '📋' }
 ] as const;
 
+type DasFeeInputs = Record<DasTier, { commercial: string; residential: string }>;
+
+const EMPTY_DAS_FEES: DasFeeInputs = {
+  das: { commercial: '0', residential: '0' },
+  das_extended: { commercial: '0', residential: '0' },
+  remote: { commercial: '0', residential: '0' }
+};
+
+const DIMENSIONAL_THRESHOLDS: { key: keyof AccessorialRule; label: string }[] = [
+  { key: 'min_weight', label: 'Weight ≥ (lbs)' },
+  { key: 'min_longest_side', label: 'Longest side ≥ (in)' },
+  { key: 'min_second_side', label: 'Second side ≥ (in)' },
+  { key: 'min_length_plus_girth', label: 'Length + girth ≥ (in)' }
+];
+
+const isDimensionalRule = (type: AccessorialType) =>
+  type === 'additional_handling' || type === 'large_package' || type === 'oversize';
 
 export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
   open,
@@ -49,27 +77,44 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
   const [accountGroup, setAccountGroup] = useState('');
   const [dimensionalDivisor, setDimensionalDivisor] = useState('166');
   const [fuelSurcharge, setFuelSurcharge] = useState('0');
+  const [fuelAutoLookup, setFuelAutoLookup] = useState(false);
+  const [dasFees, setDasFees] = useState<DasFeeInputs>(EMPTY_DAS_FEES);
+  const [accessorialRules, setAccessorialRules] = useState<AccessorialRule[]>([]);
   const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [versions, setVersions] = useState<RateCardVersion[]>([]);
+  const [effectiveFrom, setEffectiveFrom] = useState(() => new Date().toISOString().split('T')[0]);
   const [saving, setSaving] = useState(false);
   const [viewingRateCard, setViewingRateCard] = useState<RateCard | null>(null);
   const [deleting, setDeleting] = useState(false);
 
+  // Cards loaded from the current version have no file; only fresh uploads start a version
+  const hasNewUploads = rateCards.some(card => card.file);
+  const currentVersionId = selectRateCardVersion(versions, new Date().toISOString().split('T')[0])?.id;
+
   useEffect(() => {
     if (account && open) {
       setAccountName(account.account_name || '');
       setAccountGroup(account.account_group || '');
       setDimensionalDivisor(account.dimensional_divisor?.toString() || '166');
       setFuelSurcharge(account.fuel_surcharge_percent?.toString() || '0');
+      setFuelAutoLookup(account.fuel_auto_lookup === true);
+      setAccessorialRules(Array.isArray(account.accessorial_rules) ? account.accessorial_rules : []);
       
       // Load existing rate cards from enabled services and database
       loadExistingRateCards();
+      loadDasFees();
     } else if (!open) {
       // Reset state when dialog closes
       setAccountName('');
       setAccountGroup('');
       setDimensionalDivisor('166');
       setFuelSurcharge('0');
+      setFuelAutoLookup(false);
+      setDasFees(EMPTY_DAS_FEES);
+      setAccessorialRules([]);
       setRateCards([]);
+      setVersions([]);
+      setEffectiveFrom(new Date().toISOString().split('T')[0]);
       setViewingRateCard(null);
     }
   }, [account, open]);
@@ -78,11 +123,18 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
     if (!account) return;
 
     try {
-      // Load rate card data from database
-      const { data: rateCardData } = await supabase
-        .from('rate_card_rates')
-        .select('*')
-        .eq('carrier_config_id', account.id);
+      // Show the version in effect today; older and future versions are listed in the history
+      const accountVersions = await loadRateCardVersions(account.id);
+      setVersions(accountVersions);
+      const currentVersion = selectRateCardVersion(accountVersions, new Date().toISOString().split('T')[0])
+        || accountVersions[0];
+
+      const rateCardData = currentVersion
+        ? (await supabase
+          .from('rate_card_rates')
+          .select('*')
+          .eq('version_id', currentVersion.id)).data
+        : null;
 
       // Group by service code
       const serviceGroups = rateCardData?.reduce((acc, rate) => {
@@ -101,7 +153,7 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
         let csvData = null;
         let fileName = '';
         if (rates.length > 0) {
-          fileName = account.rate_card_filename || `${serviceCode}_rates.csv`;
+          fileName = currentVersion?.source_file_name || account.rate_card_filename || `${serviceCode}_rates.csv`;
           // Convert database rates to CSV format
           const zones = [...new Set(rates.map(r => r.zone))].sort();
           const weights = [...new Set(rates.map(r => r.weight_break))].sort((a, b) => a - b);
@@ -148,6 +200,47 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
     }
   };
 
+  const loadDasFees = async () => {
+    if (!account) return;
+
+    const { data, error } = await supabase
+      .from('carrier_das_fees')
+      .select('das_tier, commercial_fee, residential_fee')
+      .eq('carrier_config_id', account.id);
+
+    if (error) {
+      console.error('Error loading DAS fees:', error);
+      return;
+    }
+
+    const fees = { ...EMPTY_DAS_FEES };
+    for (const fee of data || []) {
+      fees[fee.das_tier as DasTier] = {
+        commercial: fee.commercial_fee.toString(),
+        residential: fee.residential_fee.toString()
+      };
+    }
+    setDasFees(fees);
+  };
+
+  const updateDasFee = (tier: DasTier, field: 'commercial' | 'residential', value: string) => {
+    setDasFees(fees => ({ ...fees, [tier]: { ...fees[tier], [field]: value } }));
+  };
+
+  const addAccessorialRule = (type: AccessorialType) => {
+    setAccessorialRules(rules => [...rules, { ...ACCESSORIAL_DEFAULTS[type] }]);
+  };
+
+  const updateAccessorialRule = (index: number, updates: Partial<AccessorialRule>) => {
+    setAccessorialRules(rules => rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const removeAccessorialRule = (index: number) => {
+    setAccessorialRules(rules => rules.filter((_, i) => i !== index));
+  };
+
+  const parseThreshold = (value: string) => (value.trim() === '' ? null : parseFloat(value));
+
   const addNewRateCard = () => {
     const newRateCard: RateCard = {
       id: Math.random().toString(36).substr(2, 9),
@@ -226,18 +319,13 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
 
     setSaving(true);
     try {
-      // Save rate card data to database first
-      for (const card of rateCards) {
-        if (card.data && card.serviceCode) {
-          // Delete existing rates for this service
-          await supabase
-            .from('rate_card_rates')
-            .delete()
-            .eq('carrier_config_id', account.id)
-            .eq('service_code', card.serviceCode);
-
-          // Insert new rates
-          const rateCardRates = [];
+      // A newly uploaded card starts a new version holding every service's rates; the
+      // version it replaces is kept so earlier analyses can still be reproduced
+      if (hasNewUploads) {
+        const rateCardRates = [];
+        for (const card of rateCards) {
+          if (!card.data || !card.serviceCode) continue;
+
           const zones = card.data[0].slice(1); // Get zone headers
           for (let rowIndex = 1; rowIndex < card.data.length; rowIndex++) {
             const row = card.data[rowIndex];
@@ -249,7 +337,6 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
               if (isNaN(rate)) continue;
 
               rateCardRates.push({
-                carrier_config_id: account.id,
                 service_code: card.serviceCode,
                 service_name: card.serviceName,
                 weight_break: weightBreak,
@@ -259,17 +346,33 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
               });
             }
           }
-
-          if (rateCardRates.length > 0) {
-            const { error: ratesError } = await supabase
-              .from('rate_card_rates')
-              .insert(rateCardRates);
-
-            if (ratesError) throw ratesError;
-          }
         }
+
+        await createRateCardVersion({
+          userId: account.user_id,
+          carrierConfigId: account.id,
+          effectiveFrom,
+          sourceFileName: rateCards.filter(card => card.file).map(card => card.fileName).join(', '),
+          rates: rateCardRates
+        });
       }
 
+      // Save DAS fees; a tier left at zero is not billed
+      const { error: dasError } = await supabase
+        .from('carrier_das_fees')
+        .upsert(
+          DAS_TIERS.map(tier => ({
+            user_id: account.user_id,
+            carrier_config_id: account.id,
+            das_tier: tier,
+            commercial_fee: parseFloat(dasFees[tier].commercial) || 0,
+            residential_fee: parseFloat(dasFees[tier].residential) || 0
+          })),
+          { onConflict: 'carrier_config_id,das_tier' }
+        );
+
+      if (dasError) throw dasError;
+
       // Update the carrier config
       const { error: configError } = await supabase
         .from('carrier_configs')
@@ -278,8 +381,11 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
           account_group: accountGroup || null,
           dimensional_divisor: parseFloat(dimensionalDivisor),
           fuel_surcharge_percent: parseFloat(fuelSurcharge),
+          fuel_auto_lookup: fuelAutoLookup,
+          accessorial_rules: accessorialRules.filter(rule => rule.amount > 0) as unknown as Json,
           enabled_services: rateCards.map(card => card.serviceCode).filter(code => code),
           rate_card_filename: rateCards.find(card => card.fileName)?.fileName || null,
+          ...(hasNewUploads && { rate_card_uploaded_at: new Date().toISOString() }),
           updated_at: new Date().toISOString()
         })
         .eq('id', account.id);
@@ -470,10 +576,58 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
                     </CardContent>
                   </Card>
                 ))}
+                {hasNewUploads && (
+                  <div className="space-y-2 max-w-xs">
+                    <Label htmlFor="effective-from">New Rates Effective From</Label>
+                    <Input
+                      id="effective-from"
+                      type="date"
+                      value={effectiveFrom}
+                      onChange={(e) => setEffectiveFrom(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Saving creates version {(versions[0]?.version_number || 0) + 1}. Shipments before this date keep the earlier rates.
+                    </p>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Rate Card History */}
+          {versions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Rate Card History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {versions.map(version => (
+                    <div key={version.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{formatVersionLabel(version)}</span>
+                          {version.id === currentVersionId && <Badge variant="secondary">Current</Badge>}
+                        </div>
+                        {version.source_file_name && (
+                          <p className="text-xs text-muted-foreground">{version.source_file_name}</p>
+                        )}
+                      </div>
+                      {version.created_at && (
+                        <span className="text-xs text-muted-foreground">
+                          Uploaded {new Date(version.created_at).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Rate Card Configuration */}
           <Card>
             <CardHeader>
@@ -501,6 +655,150 @@ export const RateCardEditDialog: React.FC<RateCardEditDialogProps> = ({
                   />
                 </div>
               </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="fuel-auto-lookup"
+                  checked={fuelAutoLookup}
+                  onCheckedChange={setFuelAutoLookup}
+                />
+                <Label htmlFor="fuel-auto-lookup">Use carrier fuel schedule</Label>
+              </div>
+              {fuelAutoLookup && (
+                <p className="text-sm text-muted-foreground">
+                  Each shipment uses the imported {account?.carrier_type?.toUpperCase()} fuel percentage for its ship date.
+                  The fuel surcharge above applies to ship dates before the schedule starts.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Accessorial Rules */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Accessorial Charges</CardTitle>
+                <Select value="" onValueChange={(value) => addAccessorialRule(value as AccessorialType)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Add accessorial" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACCESSORIAL_LABELS) as AccessorialType[])
+                      .filter(type => !accessorialRules.some(rule => rule.type === type))
+                      .map(type => (
+                        <SelectItem key={type} value={type}>
+                          {ACCESSORIAL_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {accessorialRules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No accessorial charges. Add the ones this account bills so it compares fairly with API-quoted carriers.
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Size and weight charges apply when any threshold is met; only the most severe one is billed.
+                </p>
+              )}
+              {accessorialRules.map((rule, index) => (
+                <Card key={rule.type} className="border-muted">
+                  <CardContent className="pt-4 space-y-4">
+                    <div className="flex items-end justify-between gap-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1">
+                        <div className="space-y-2">
+                          <Label>{ACCESSORIAL_LABELS[rule.type]}</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={rule.amount}
+                            onChange={(e) => updateAccessorialRule(index, { amount: parseFloat(e.target.value) || 0 })}
+                          />
+                        </div>
+                        {rule.type === 'signature' && (
+                          <div className="flex items-center gap-2 pb-2">
+                            <Switch
+                              id={`signature-always-${index}`}
+                              checked={rule.always === true}
+                              onCheckedChange={(checked) => updateAccessorialRule(index, { always: checked })}
+                            />
+                            <Label htmlFor={`signature-always-${index}`}>Charge on every package</Label>
+                          </div>
+                        )}
+                        {rule.type === 'residential' && (
+                          <p className="text-sm text-muted-foreground pb-2">Charged on residential deliveries</p>
+                        )}
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeAccessorialRule(index)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {isDimensionalRule(rule.type) && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {DIMENSIONAL_THRESHOLDS.map(({ key, label }) => (
+                          <div key={key} className="space-y-2">
+                            <Label className="text-xs text-muted-foreground">{label}</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              value={(rule[key] as number | null | undefined) ?? ''}
+                              onChange={(e) => updateAccessorialRule(index, { [key]: parseThreshold(e.target.value) })}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Delivery Area Surcharges */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Delivery Area Surcharges</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Per-package fees added when the destination is on this carrier's imported DAS ZIP list.
+              </p>
+              <div className="grid grid-cols-3 gap-4 text-sm font-medium text-muted-foreground">
+                <span>Surcharge</span>
+                <span>Commercial ($)</span>
+                <span>Residential ($)</span>
+              </div>
+              {DAS_TIERS.map(tier => (
+                <div key={tier} className="grid grid-cols-3 gap-4 items-center">
+                  <Label htmlFor={`das-${tier}-commercial`}>{DAS_TIER_LABELS[tier]}</Label>
+                  <Input
+                    id={`das-${tier}-commercial`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={dasFees[tier].commercial}
+                    onChange={(e) => updateDasFee(tier, 'commercial', e.target.value)}
+                  />
+                  <Input
+                    id={`das-${tier}-residential`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={dasFees[tier].residential}
+                    onChange={(e) => updateDasFee(tier, 'residential', e.target.value)}
+                  />
+                </div>
+              ))}
             </CardContent>
           </Card>
 
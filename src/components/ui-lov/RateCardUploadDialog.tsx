@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { CarrierGroupCombobox } from './CarrierGroupCombobox';
 import { supabase } from '@/integrations/supabase/client';
+import { createRateCardVersion } from '@/utils/rateCardVersions';
 import { toast } from 'sonner';
 import * as XLSX from 'xlsx';
 
@@ -81,6 +82,7 @@ export const RateCardUploadDialog: React.FC<RateCardUploadDialogProps> = ({
   const [accountGroup, setAccountGroup] = useState('');
   const [dimensionalDivisor, setDimensionalDivisor] = useState('166');
   const [fuelSurcharge, setFuelSurcharge] = useState('0');
+  const [effectiveFrom, setEffectiveFrom] = useState(() => new Date().toISOString().split('T')[0]);
   const [rateCards, setRateCards] = useState<RateCard[]>([]);
   const [saving, setSaving] = useState(false);
 
@@ -229,7 +231,6 @@ export const RateCardUploadDialog: React.FC<RateCardUploadDialogProps> = ({
               if (isNaN(rate)) continue;
 
               rateCardRates.push({
-                carrier_config_id: carrierConfig.id,
                 service_code: card.serviceCode,
                 service_name: card.serviceName,
                 weight_break: weightBreak,
@@ -242,13 +243,15 @@ export const RateCardUploadDialog: React.FC<RateCardUploadDialogProps> = ({
         }
       }
 
-      // Save to rate_card_rates table
+      // The first upload is version 1 of the account's rate card
       if (rateCardRates.length > 0) {
-        const { error: ratesError } = await supabase
-          .from('rate_card_rates')
-          .insert(rateCardRates);
-
-        if (ratesError) throw ratesError;
+        await createRateCardVersion({
+          userId: user.id,
+          carrierConfigId: carrierConfig.id,
+          effectiveFrom,
+          sourceFileName: rateCards.map(card => card.fileName).filter(Boolean).join(', '),
+          rates: rateCardRates
+        });
       }
 
       toast.success('Rate card account created successfully');
@@ -269,6 +272,7 @@ export const RateCardUploadDialog: React.FC<RateCardUploadDialogProps> = ({
     setAccountGroup('');
     setDimensionalDivisor('166');
     setFuelSurcharge('0');
+    setEffectiveFrom(new Date().toISOString().split('T')[0]);
     setRateCards([]);
   };
 
@@ -341,6 +345,16 @@ export const RateCardUploadDialog: React.FC<RateCardUploadDialogProps> = ({
                   placeholder="Select or create group"
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="effective-from">Rates Effective From</Label>
+                <Input
+                  id="effective-from"
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -0,0 +1,119 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui-lov/Card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { formatVersionLabel, type RateCardVersion, type RateCardVersionPins } from '@shared/rateCardVersioning';
+
+interface RateCardVersionPinSelectorProps {
+  carrierConfigIds: string[];
+  pins: RateCardVersionPins;
+  onPinsChange: (pins: RateCardVersionPins) => void;
+}
+
+interface AccountVersions {
+  configId: string;
+  accountName: string;
+  versions: RateCardVersion[];
+}
+
+const BY_SHIP_DATE = '__ship_date__';
+
+/**
+ * Lets an analysis price selected rate card accounts with a specific version instead of
+ * the one effective on each shipment's ship date. Only accounts with history are shown.
+ */
+export const RateCardVersionPinSelector: React.FC<RateCardVersionPinSelectorProps> = ({
+  carrierConfigIds,
+  pins,
+  onPinsChange
+}) => {
+  const [accounts, setAccounts] = useState<AccountVersions[]>([]);
+
+  const loadVersions = useCallback(async () => {
+    if (carrierConfigIds.length === 0) {
+      setAccounts([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('rate_card_versions')
+      .select('id, carrier_config_id, version_number, effective_from, effective_to, source_file_name, carrier_configs!inner(account_name)')
+      .in('carrier_config_id', carrierConfigIds)
+      .order('version_number', { ascending: false });
+
+    if (error) {
+      console.error('Error loading rate card versions:', error);
+      return;
+    }
+
+    const byConfig = new Map<string, AccountVersions>();
+    for (const row of data || []) {
+      const { carrier_configs: config, ...version } = row;
+      const account = byConfig.get(version.carrier_config_id) || {
+        configId: version.carrier_config_id,
+        accountName: config.account_name,
+        versions: []
+      };
+      account.versions.push(version);
+      byConfig.set(version.carrier_config_id, account);
+    }
+    setAccounts([...byConfig.values()].filter(account => account.versions.length > 1));
+  }, [carrierConfigIds]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const updatePin = (configId: string, versionId: string) => {
+    const next = { ...pins };
+    if (versionId === BY_SHIP_DATE) {
+      delete next[configId];
+    } else {
+      next[configId] = versionId;
+    }
+    onPinsChange(next);
+  };
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Rate Card Versions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Rate card accounts use the version in effect on each shipment's ship date. Pin a version to reprice every shipment with it.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {accounts.map(account => (
+            <div key={account.configId} className="space-y-2">
+              <Label>{account.accountName}</Label>
+              <Select
+                value={pins[account.configId] || BY_SHIP_DATE}
+                onValueChange={(value) => updatePin(account.configId, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BY_SHIP_DATE}>By ship date</SelectItem>
+                  {account.versions.map(version => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {formatVersionLabel(version)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui-lov/Card';
+import { Button } from '@/components/ui-lov/Button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Save, Coins } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { DEFAULT_CURRENCY } from '@shared/currency';
+import { ExchangeRateUploadDialog } from './ExchangeRateUploadDialog';
+
+const REPORTING_CURRENCIES = [
+  { value: 'USD', label: 'USD - US Dollar' },
+  { value: 'CAD', label: 'CAD - Canadian Dollar' },
+  { value: 'MXN', label: 'MXN - Mexican Peso' },
+  { value: 'EUR', label: 'EUR - Euro' },
+  { value: 'GBP', label: 'GBP - British Pound' },
+  { value: 'AUD', label: 'AUD - Australian Dollar' },
+  { value: 'JPY', label: 'JPY - Japanese Yen' },
+];
+
+export const ReportingCurrencySettings = () => {
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_CURRENCY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isImportingExchangeRates, setIsImportingExchangeRates] = useState(false);
+
+  useEffect(() => {
+    loadReportingCurrency();
+  }, []);
+
+  const loadReportingCurrency = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('reporting_currency')
+        .maybeSingle();
+
+      if (error) throw error;
+      setReportingCurrency(data?.reporting_currency || DEFAULT_CURRENCY);
+    } catch (error) {
+      console.error('Error loading reporting currency:', error);
+      toast.error('Failed to load reporting currency');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveReportingCurrency = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert({ user_id: user.id, reporting_currency: reportingCurrency }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      toast.success(`New analyses will be reported in ${reportingCurrency}`);
+    } catch (error) {
+      console.error('Error saving reporting currency:', error);
+      toast.error('Failed to save reporting currency: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reporting Currency</CardTitle>
+        <CardDescription>
+          Rates quoted in other currencies are converted with your exchange rates before savings are compared and exported
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="reporting-currency">Currency</Label>
+          <Select value={reportingCurrency} onValueChange={setReportingCurrency} disabled={loading}>
+            <SelectTrigger id="reporting-currency">
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORTING_CURRENCIES.map(currency => (
+                <SelectItem key={currency.value} value={currency.value}>{currency.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Existing analyses keep the currency they were run in.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            iconLeft={<Coins className="h-4 w-4" />}
+            onClick={() => setIsImportingExchangeRates(true)}
+          >
+            Import Exchange Rates
+          </Button>
+          <Button
+            variant="primary"
+            iconLeft={<Save className="h-4 w-4" />}
+            onClick={saveReportingCurrency}
+            loading={saving}
+            disabled={loading}
+          >
+            Save Currency
+          </Button>
+        </div>
+      </CardContent>
+
+      <ExchangeRateUploadDialog
+        open={isImportingExchangeRates}
+        onOpenChange={setIsImportingExchangeRates}
+      />
+    </Card>
+  );
+};
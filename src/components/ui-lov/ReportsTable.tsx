@@ -30,6 +30,7 @@ interface ShippingAnalysis {
   analysis_date: string;
   total_shipments: number;
   total_savings: number | null;
+  reporting_currency?: string;
   markup_data: any;
   savings_analysis: any;
   recommendations?: any;
@@ -436,7 +437,7 @@ export function ReportsTable({ reports, getMarkupStatus, onReportUpdate }: Repor
                            
                            return (
                              <div className="text-right">
-                               <div className="font-medium">{formatCurrency(totalClientSavings)}</div>
+                               <div className="font-medium">{formatCurrency(totalClientSavings, report.reporting_currency)}</div>
                                <div className="text-xs text-muted-foreground">{clientSavingsPercentage.toFixed(1)}%</div>
                              </div>
                            );
@@ -449,7 +450,7 @@ export function ReportsTable({ reports, getMarkupStatus, onReportUpdate }: Repor
                        
                        return (
                          <div className="text-right">
-                           <div className="font-medium">{formatCurrency(savingsAmount)}</div>
+                           <div className="font-medium">{formatCurrency(savingsAmount, report.reporting_currency)}</div>
                            <div className="text-xs text-muted-foreground">{savingsPercentage.toFixed(1)}%</div>
                          </div>
                        );
@@ -459,7 +460,7 @@ export function ReportsTable({ reports, getMarkupStatus, onReportUpdate }: Repor
                     {markupStatus.hasMarkup ? (
                       <div className="text-right">
                         <div className="font-medium">
-                          {formatCurrency(markupStatus.totalMargin)}
+                          {formatCurrency(markupStatus.totalMargin, report.reporting_currency)}
                         </div>
                         <div className="text-xs text-muted-foreground">
                           {markupStatus.marginPercentage.toFixed(1)}%
@@ -6,7 +6,7 @@ import { AlertTriangle, CheckCircle, Home, Building } from 'lucide-react';
 import type { ServiceMapping } from '@/utils/csvParser';
 import { standardizeService } from '@/utils/csvParser';
 import { UniversalServiceSelector } from './UniversalServiceSelector';
-import { UniversalServiceCategory, UNIVERSAL_SERVICES } from '@/utils/universalServiceCategories';
+import { UniversalServiceCategory, UNIVERSAL_SERVICES } from '@shared/serviceCategories';
 import { mapServiceToServiceCode } from '@/utils/serviceMapping';
 
 interface ServiceMappingReviewProps {
@@ -11,8 +11,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Plus, Save, RotateCcw, Trash2, Edit2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { UniversalServiceCategory, UNIVERSAL_SERVICES } from '@/utils/universalServiceCategories';
-import { CarrierType, getUniversalCategoryFromCarrierCode, CARRIER_MAPPINGS } from '@/utils/carrierServiceRegistry';
+import { UniversalServiceCategory, UNIVERSAL_SERVICES } from '@shared/serviceCategories';
+import { CarrierType, getUniversalCategoryFromCarrierCode, CARRIER_MAPPINGS } from '@shared/serviceRegistry';
 
 interface CarrierService {
   id: string;
@@ -52,6 +52,7 @@ const CARRIER_TYPES = [
   { value: 'UPS', label: 'UPS' },
   { value: 'FEDEX', label: 'FedEx' },
   { value: 'DHL', label: 'DHL' },
+  { value: 'USPS', label: 'USPS' },
   { value: 'AMAZON', label: 'Amazon' },
 ];
 
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui-lov/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui-lov/Card';
+import { Badge } from '@/components/ui/badge';
+import { Upload, Download, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import { parseTariffTable, type TariffRate } from '@shared/landedCost';
+
+interface TariffTableUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export const TariffTableUploadDialog: React.FC<TariffTableUploadDialogProps> = ({
+  open,
+  onOpenChange,
+  onSuccess
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [entries, setEntries] = useState<TariffRate[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      const data = await file.arrayBuffer();
+      const workbook = XLSX.read(data);
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false }) as unknown[][];
+
+      const parsed = parseTariffTable(rows);
+      if (parsed.entries.length === 0) {
+        toast.error('No tariff rates found. Please check the format requirements.');
+        return;
+      }
+
+      setFileName(file.name);
+      setEntries(parsed.entries);
+      setParseErrors(parsed.errors);
+      toast.success(`Read ${parsed.entries.length} tariff rates`);
+    } catch (error) {
+      console.error('Error reading tariff table:', error);
+      toast.error('Failed to read tariff table');
+    }
+  };
+
+  const saveTariffTable = async () => {
+    if (entries.length === 0) {
+      toast.error('Please upload a tariff table');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const rows = entries.map(entry => ({
+        ...entry,
+        user_id: user.id,
+        source_file_name: fileName
+      }));
+
+      // Rates already on file for a country and HS code are replaced; the rest are kept
+      const { error } = await supabase
+        .from('tariff_rates')
+        .upsert(rows, { onConflict: 'user_id,destination_country,hs_code' });
+
+      if (error) throw error;
+
+      const countries = new Set(rows.map(row => row.destination_country)).size;
+      toast.success(`Imported ${rows.length} tariff rates for ${countries} ${countries === 1 ? 'country' : 'countries'}`);
+      onOpenChange(false);
+      resetForm();
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving tariff table:', error);
+      toast.error('Failed to save tariff table: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFileName('');
+    setEntries([]);
+    setParseErrors([]);
+  };
+
+  const downloadSampleCSV = () => {
+    const sampleData = [
+      ['Destination Country', 'HS Code', 'Duty %', 'Tax %', 'De Minimis'],
+      ['CA', '', '0', '5', '150'],
+      ['CA', '6109', '18', '5', '150'],
+      ['GB', '', '0', '20', '135'],
+      ['GB', '6403', '8', '20', '135'],
+      ['DE', '', '0', '19', '150'],
+      ['AU', '', '5', '10', '1000']
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet(sampleData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Tariff Rates');
+    XLSX.writeFile(wb, 'sample-tariff-table.xlsx');
+  };
+
+  const countryCount = new Set(entries.map(entry => entry.destination_country)).size;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Tariff Table</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tariff Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="tariff-file">Tariff Table CSV *</Label>
+                <Input
+                  id="tariff-file"
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileUpload(file);
+                  }}
+                />
+                {fileName && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{fileName}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {entries.length} rate{entries.length === 1 ? '' : 's'} across {countryCount} {countryCount === 1 ? 'country' : 'countries'}
+                    </span>
+                  </div>
+                )}
+                {parseErrors.length > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-amber-600">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <div>
+                      <p>{parseErrors.length} row{parseErrors.length === 1 ? ' was' : 's were'} skipped:</p>
+                      {parseErrors.slice(0, 5).map(error => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Required Format</CardTitle>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={downloadSampleCSV}
+                  iconLeft={<Download className="h-4 w-4" />}
+                >
+                  Download Sample CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-muted/20 p-4 rounded-lg space-y-2 text-sm">
+                <p className="font-medium text-muted-foreground">One row per destination country and commodity:</p>
+                <ul className="space-y-1 text-muted-foreground ml-4">
+                  <li>• Column A: Destination Country — ISO code or name (CA, GB, Germany)</li>
+                  <li>• Column B: HS Code — leave blank for the country's default rate; longer codes win over shorter ones</li>
+                  <li>• Column C: Duty % — charged on the customs value</li>
+                  <li>• Column D: Tax % (optional) — VAT or GST, charged on customs value plus freight and duty</li>
+                  <li>• Column E: De Minimis (optional) — customs values at or below it pay no duty or tax</li>
+                  <li>• International shipments need a Customs Value column mapped to get an estimate</li>
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={saveTariffTable}
+            loading={saving}
+            iconLeft={<Upload className="h-4 w-4" />}
+          >
+            Import Tariff Table
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,7 +4,7 @@
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { UNIVERSAL_SERVICES, UniversalServiceCategory } from "@/utils/universalServiceCategories";
+import { UNIVERSAL_SERVICES, UniversalServiceCategory } from "@shared/serviceCategories";
 
 interface UniversalServiceSelectorProps {
   value: UniversalServiceCategory | string;
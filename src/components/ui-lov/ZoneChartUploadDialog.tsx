@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui-lov/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui-lov/Card';
+import { Badge } from '@/components/ui/badge';
+import { Upload, Download, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import { parseZoneChart, type ParsedZoneChartRow } from '@shared/zones';
+
+interface ZoneChartAccount {
+  id: string;
+  account_name: string;
+  carrier_type: string;
+}
+
+interface ZoneChartUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: ZoneChartAccount[];
+  onSuccess?: () => void;
+}
+
+const CARRIER_TYPES = [
+  { value: 'ups', label: 'UPS', icon: '📦' },
+  { value: 'fedex', label: 'FedEx', icon: '🚚' },
+  { value: 'dhl', label: 'DHL', icon: '✈️' },
+  { value: 'usps', label: 'USPS', icon: '📮' },
+  { value: 'amazon', label: 'Amazon', icon: '📋' }
+] as const;
+
+const ALL_ACCOUNTS = 'all';
+const INSERT_CHUNK_SIZE = 500;
+
+export const ZoneChartUploadDialog: React.FC<ZoneChartUploadDialogProps> = ({
+  open,
+  onOpenChange,
+  accounts,
+  onSuccess
+}) => {
+  const [carrierType, setCarrierType] = useState<string>('ups');
+  const [accountId, setAccountId] = useState<string>(ALL_ACCOUNTS);
+  const [fileName, setFileName] = useState('');
+  const [entries, setEntries] = useState<ParsedZoneChartRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const carrierAccounts = accounts.filter(account => account.carrier_type === carrierType);
+  const origins = [...new Set(entries.map(entry => entry.origin_zip3))].sort();
+
+  const handleFileUpload = async (file: File) => {
+    try {
+      const data = await file.arrayBuffer();
+      const workbook = XLSX.read(data);
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false }) as unknown[][];
+
+      const parsed = parseZoneChart(rows);
+      if (parsed.entries.length === 0) {
+        toast.error('No zone rows found. Please check the format requirements.');
+        return;
+      }
+
+      setFileName(file.name);
+      setEntries(parsed.entries);
+      setParseErrors(parsed.errors);
+      toast.success(`Read ${parsed.entries.length} zone chart rows`);
+    } catch (error) {
+      console.error('Error reading zone chart:', error);
+      toast.error('Failed to read zone chart');
+    }
+  };
+
+  const saveZoneChart = async () => {
+    if (entries.length === 0) {
+      toast.error('Please upload a zone chart');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const configId = accountId === ALL_ACCOUNTS ? null : accountId;
+
+      // Re-importing a chart replaces what was stored for the same origins and scope
+      let deleteQuery = supabase
+        .from('carrier_zone_charts')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('carrier_type', carrierType)
+        .in('origin_zip3', origins);
+      deleteQuery = configId
+        ? deleteQuery.eq('carrier_config_id', configId)
+        : deleteQuery.is('carrier_config_id', null);
+
+      const { error: deleteError } = await deleteQuery;
+      if (deleteError) throw deleteError;
+
+      const rows = entries.map(entry => ({
+        ...entry,
+        user_id: user.id,
+        carrier_type: carrierType,
+        carrier_config_id: configId,
+        source_file_name: fileName
+      }));
+
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        const { error } = await supabase
+          .from('carrier_zone_charts')
+          .insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+
+        if (error) throw error;
+      }
+
+      toast.success(`Imported zone chart for ${origins.length} origin ZIP prefix${origins.length === 1 ? '' : 'es'}`);
+      onOpenChange(false);
+      resetForm();
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error saving zone chart:', error);
+      toast.error('Failed to save zone chart: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setCarrierType('ups');
+    setAccountId(ALL_ACCOUNTS);
+    setFileName('');
+    setEntries([]);
+    setParseErrors([]);
+  };
+
+  const downloadSampleCSV = () => {
+    const sampleData = [
+      ['Origin ZIP', 'Destination ZIP', 'Zone'],
+      ['100', '004-005', '3'],
+      ['100', '006-009', '8'],
+      ['100', '010-089', '2'],
+      ['100', '090-099', '8'],
+      ['100', '100-119', '2'],
+      ['100', '120-149', '3']
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet(sampleData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Zone Chart');
+    XLSX.writeFile(wb, 'sample-zone-chart.xlsx');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Zone Chart</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Chart Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="zone-chart-carrier">Carrier *</Label>
+                  <Select
+                    value={carrierType}
+                    onValueChange={(value) => {
+                      setCarrierType(value);
+                      setAccountId(ALL_ACCOUNTS);
+                    }}
+                  >
+                    <SelectTrigger id="zone-chart-carrier">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CARRIER_TYPES.map(carrier => (
+                        <SelectItem key={carrier.value} value={carrier.value}>
+                          <div className="flex items-center gap-2">
+                            <span>{carrier.icon}</span>
+                            <span>{carrier.label}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="zone-chart-account">Applies To</Label>
+                  <Select value={accountId} onValueChange={setAccountId}>
+                    <SelectTrigger id="zone-chart-account">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_ACCOUNTS}>All accounts for this carrier</SelectItem>
+                      {carrierAccounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.account_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="zone-chart-file">Zone Chart CSV *</Label>
+                <Input
+                  id="zone-chart-file"
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileUpload(file);
+                  }}
+                />
+                {fileName && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{fileName}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {entries.length} ranges from origin{origins.length === 1 ? '' : 's'} {origins.join(', ')}
+                    </span>
+                  </div>
+                )}
+                {parseErrors.length > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-amber-600">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <div>
+                      <p>{parseErrors.length} row{parseErrors.length === 1 ? ' was' : 's were'} skipped:</p>
+                      {parseErrors.slice(0, 5).map(error => (
+                        <p key={error}>{error}</p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Required Format</CardTitle>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={downloadSampleCSV}
+                  iconLeft={<Download className="h-4 w-4" />}
+                >
+                  Download Sample CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-muted/20 p-4 rounded-lg space-y-2 text-sm">
+                <p className="font-medium text-muted-foreground">Use the carrier's published zone chart in this layout:</p>
+                <ul className="space-y-1 text-muted-foreground ml-4">
+                  <li>• Column A: Origin ZIP (3-digit prefix or full ZIP)</li>
+                  <li>• Column B: Destination 3-digit ZIP or range (e.g. 004-005)</li>
+                  <li>• Column C: Zone (002 and 2 are treated the same)</li>
+                  <li>• Re-importing replaces the chart stored for the same origins</li>
+                  <li>• Account charts take priority over carrier-wide charts; a CSV zone column always wins</li>
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={saveZoneChart}
+            loading={saving}
+            iconLeft={<Upload className="h-4 w-4" />}
+          >
+            Import Zone Chart
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
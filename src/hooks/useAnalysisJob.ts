@@ -1,15 +1,45 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { RateCardVersionPins } from '@shared/rateCardVersioning';
+import type { RecommendationMode } from '@shared/deliveryWindow';
+import type { ServiceMapping } from '@/utils/csvParser';
 
 interface AnalysisJobStatus {
+  analysis_id: string | null; // Analysis record the job writes its results to
   total_shipments: number;
   processed_shipments: number;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  completed_shipments: number;
+  error_shipments: number;
+  status: 'pending' | 'in_progress' | 'paused' | 'completed' | 'cancelling' | 'cancelled' | 'failed';
+  error_message: string | null;
+  cache_hits: number;
+  cache_misses: number;
   created_at: string;
   updated_at: string;
   progress_percentage: number;
 }
 
+type AnalysisJobAction = 'pause' | 'resume' | 'cancel';
+
+// How often to poll each status whose progress can still change. A paused job may still
+// be saving the batch it was on, so it is polled too, just less often
+const POLL_INTERVAL_MS: Partial<Record<AnalysisJobStatus['status'], number>> = {
+  pending: 2000,
+  in_progress: 2000,
+  cancelling: 2000,
+  paused: 10000
+};
+
+interface StartAnalysisOptions {
+  carrierConfigIds: string[];
+  serviceMappings: ServiceMapping[];
+  columnMappings?: Record<string, string>; // CSV column each shipment field was mapped from
+  fileName?: string;
+  rateCardVersionPins?: RateCardVersionPins;
+  recommendationMode?: RecommendationMode;
+  projectedWeeklySpend?: number; // Weekly spend earned-discount tiers are priced at
+}
+
 export const useAnalysisJob = () => {
   const [jobId, setJobId] = useState<string | null>(null);
   const [status, setStatus] = useState<AnalysisJobStatus | null>(null);
@@ -51,7 +81,7 @@ export const useAnalysisJob = () => {
   }, []);
 
   // Start a new analysis job
-  const startAnalysis = useCallback(async (shipments: any[]) => {
+  const startAnalysis = useCallback(async (shipments: any[], options: StartAnalysisOptions) => {
     setIsLoading(true);
     setError(null);
     
@@ -62,7 +92,16 @@ export const useAnalysisJob = () => {
       }
 
       const response = await supabase.functions.invoke('start-analysis', {
-        body: { shipments },
+        body: {
+          shipments,
+          carrierConfigIds: options.carrierConfigIds,
+          serviceMappings: options.serviceMappings,
+          columnMappings: options.columnMappings,
+          fileName: options.fileName,
+          rateCardVersionPins: options.rateCardVersionPins,
+          recommendationMode: options.recommendationMode,
+          projectedWeeklySpend: options.projectedWeeklySpend
+        },
         headers: {
           Authorization: `Bearer ${session.access_token}`,
         },
@@ -88,50 +127,68 @@ export const useAnalysisJob = () => {
     }
   }, [getJobStatus]);
 
+  // Pause, resume or cancel a job; a resumed job continues from its last checkpoint
+  const controlAnalysis = useCallback(async (controlJobId: string, action: AnalysisJobAction) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error(`Please log in to ${action} analysis`);
+      }
+
+      const response = await supabase.functions.invoke('control-analysis', {
+        body: { jobId: controlJobId, action },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.error) {
+        throw new Error(response.error.message);
+      }
+
+      setJobId(controlJobId);
+      await getJobStatus(controlJobId);
+    } catch (err: unknown) {
+      console.error(`Error trying to ${action} analysis:`, err);
+      setError(err instanceof Error && err.message ? err.message : `Failed to ${action} analysis`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getJobStatus]);
+
   // Poll for status updates
   useEffect(() => {
-    if (!jobId || !status || status.status === 'completed' || status.status === 'failed') {
+    const interval = status && POLL_INTERVAL_MS[status.status];
+    if (!jobId || !interval) {
       return;
     }
 
     const pollInterval = setInterval(async () => {
       await getJobStatus(jobId);
-    }, 2000); // Poll every 2 seconds
+    }, interval);
 
     return () => clearInterval(pollInterval);
   }, [jobId, status, getJobStatus]);
 
-  // Get final results when job is completed
-  const getResults = useCallback(async (analysisJobId: string) => {
+  // Shipment results the job has stored so far, from a shipment index onwards
+  const getResults = useCallback(async (analysisJobId: string, fromIndex = 0) => {
     try {
-      // First find the shipping_analyses record that was created for this job
-      const { data: shippingAnalyses, error: analysisError } = await supabase
-        .from('shipping_analyses')
-        .select('id')
-        .contains('processing_metadata', { analysis_job_id: analysisJobId })
-        .limit(1);
-
-      if (analysisError || !shippingAnalyses || shippingAnalyses.length === 0) {
-        console.error('No shipping analysis found for job:', analysisJobId);
-        return [];
-      }
-
-      const shippingAnalysisId = shippingAnalyses[0].id;
-
-      // Now get the rates using the shipping analysis ID
-      const { data: rates, error } = await supabase
-        .from('shipment_rates')
-        .select(`
-          *,
-          carrier_configs!inner(account_name, carrier_type)
-        `)
-        .eq('analysis_id', shippingAnalysisId);
+      const { data, error } = await supabase
+        .from('analysis_job_results')
+        .select('shipment_index, status, result')
+        .eq('job_id', analysisJobId)
+        .gte('shipment_index', fromIndex)
+        .order('shipment_index')
+        .limit(1000);
 
       if (error) {
         throw new Error(error.message);
       }
 
-      return rates || [];
+      return data || [];
     } catch (err: any) {
       console.error('Error getting results:', err);
       setError(err.message || 'Failed to get analysis results');
@@ -141,6 +198,9 @@ export const useAnalysisJob = () => {
 
   return {
     startAnalysis,
+    pauseAnalysis: (pauseJobId: string) => controlAnalysis(pauseJobId, 'pause'),
+    resumeAnalysis: (resumeJobId: string) => controlAnalysis(resumeJobId, 'resume'),
+    cancelAnalysis: (cancelJobId: string) => controlAnalysis(cancelJobId, 'cancel'),
     getJobStatus,
     getResults,
     jobId,
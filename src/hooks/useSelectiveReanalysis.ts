@@ -2,13 +2,16 @@ import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { mapServiceToServiceCode } from '@/utils/serviceMapping';
-import { getCarrierServiceCode, CarrierType } from '@/utils/carrierServiceRegistry';
-import { UniversalServiceCategory } from '@/utils/universalServiceCategories';
+import { getCarrierServiceCode, CarrierType } from '@shared/serviceRegistry';
+import { UniversalServiceCategory } from '@shared/serviceCategories';
+import { DEFAULT_COUNTRY, normalizeCountryCode } from '@shared/countries';
 
 interface ReanalysisShipment {
   id: number;
   originZip: string;
   destinationZip: string;
+  originCountry?: string;
+  destinationCountry?: string;
   weight: string | number;
   length?: string | number;
   width?: string | number;
@@ -83,7 +86,7 @@ export function useSelectiveReanalysis() {
         city: 'City',
         state: 'FL',
         zipCode: shipment.originZip,
-        country: 'US'
+        country: normalizeCountryCode(shipment.originCountry) || DEFAULT_COUNTRY
       },
       shipTo: {
         name: 'Recipient',
@@ -91,7 +94,7 @@ export function useSelectiveReanalysis() {
         city: 'City',
         state: 'TX',
         zipCode: shipment.destinationZip,
-        country: 'US'
+        country: normalizeCountryCode(shipment.destinationCountry) || DEFAULT_COUNTRY
       },
       package: {
         weight: parseFloat(shipment.weight.toString()),
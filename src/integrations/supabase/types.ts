@@ -14,40 +14,112 @@ export type Database = {
   }
   public: {
     Tables: {
+      analysis_job_results: {
+        Row: {
+          created_at: string
+          id: string
+          job_id: string
+          result: Json
+          shipment_index: number
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          job_id: string
+          result: Json
+          shipment_index: number
+          status: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          job_id?: string
+          result?: Json
+          shipment_index?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_job_results_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       analysis_jobs: {
         Row: {
+          analysis_id: string | null
+          cache_hits: number
+          cache_misses: number
+          completed_shipments: number
           created_at: string
+          error_message: string | null
+          error_shipments: number
           id: string
+          last_checkpoint_at: string | null
           processed_shipments: number
+          retry_count: number
+          run_id: string
           status: string
           total_shipments: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          analysis_id?: string | null
+          cache_hits?: number
+          cache_misses?: number
+          completed_shipments?: number
           created_at?: string
+          error_message?: string | null
+          error_shipments?: number
           id?: string
+          last_checkpoint_at?: string | null
           processed_shipments?: number
+          retry_count?: number
+          run_id?: string
           status?: string
           total_shipments: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          analysis_id?: string | null
+          cache_hits?: number
+          cache_misses?: number
+          completed_shipments?: number
           created_at?: string
+          error_message?: string | null
+          error_shipments?: number
           id?: string
+          last_checkpoint_at?: string | null
           processed_shipments?: number
+          retry_count?: number
+          run_id?: string
           status?: string
           total_shipments?: number
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_analyses"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       carrier_configs: {
         Row: {
+          accessorial_rules: Json
           account_group: string | null
           account_name: string
+          api_base_url: string | null
           carrier_type: string
           connection_status: string | null
           created_at: string
@@ -55,6 +127,7 @@ export type Database = {
           dhl_password: string | null
           dhl_site_id: string | null
           dimensional_divisor: number | null
+          discount_tiers: Json
           enabled_services: Json | null
           fedex_account_number: string | null
           fedex_key: string | null
@@ -79,8 +152,10 @@ export type Database = {
           weight_unit: string | null
         }
         Insert: {
+          accessorial_rules?: Json
           account_group?: string | null
           account_name: string
+          api_base_url?: string | null
           carrier_type: string
           connection_status?: string | null
           created_at?: string
@@ -88,6 +163,7 @@ export type Database = {
           dhl_password?: string | null
           dhl_site_id?: string | null
           dimensional_divisor?: number | null
+          discount_tiers?: Json
           enabled_services?: Json | null
           fedex_account_number?: string | null
           fedex_key?: string | null
@@ -112,8 +188,10 @@ export type Database = {
           weight_unit?: string | null
         }
         Update: {
+          accessorial_rules?: Json
           account_group?: string | null
           account_name?: string
+          api_base_url?: string | null
           carrier_type?: string
           connection_status?: string | null
           created_at?: string
@@ -121,6 +199,7 @@ export type Database = {
           dhl_password?: string | null
           dhl_site_id?: string | null
           dimensional_divisor?: number | null
+          discount_tiers?: Json
           enabled_services?: Json | null
           fedex_account_number?: string | null
           fedex_key?: string | null
@@ -146,6 +225,163 @@ export type Database = {
         }
         Relationships: []
       }
+      carrier_das_fees: {
+        Row: {
+          carrier_config_id: string
+          commercial_fee: number
+          created_at: string
+          das_tier: string
+          id: string
+          residential_fee: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          carrier_config_id: string
+          commercial_fee?: number
+          created_at?: string
+          das_tier: string
+          id?: string
+          residential_fee?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          carrier_config_id?: string
+          commercial_fee?: number
+          created_at?: string
+          das_tier?: string
+          id?: string
+          residential_fee?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "carrier_das_fees_carrier_config_id_fkey"
+            columns: ["carrier_config_id"]
+            isOneToOne: false
+            referencedRelation: "carrier_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      carrier_das_zips: {
+        Row: {
+          carrier_type: string
+          created_at: string
+          das_tier: string
+          id: string
+          source_file_name: string | null
+          updated_at: string
+          user_id: string
+          zip5: string
+        }
+        Insert: {
+          carrier_type: string
+          created_at?: string
+          das_tier: string
+          id?: string
+          source_file_name?: string | null
+          updated_at?: string
+          user_id: string
+          zip5: string
+        }
+        Update: {
+          carrier_type?: string
+          created_at?: string
+          das_tier?: string
+          id?: string
+          source_file_name?: string | null
+          updated_at?: string
+          user_id?: string
+          zip5?: string
+        }
+        Relationships: []
+      }
+      carrier_fuel_surcharges: {
+        Row: {
+          air_percent: number
+          carrier_type: string
+          created_at: string
+          effective_date: string
+          ground_percent: number
+          id: string
+          source_file_name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          air_percent: number
+          carrier_type: string
+          created_at?: string
+          effective_date: string
+          ground_percent: number
+          id?: string
+          source_file_name?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          air_percent?: number
+          carrier_type?: string
+          created_at?: string
+          effective_date?: string
+          ground_percent?: number
+          id?: string
+          source_file_name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      carrier_oauth_tokens: {
+        Row: {
+          carrier_config_id: string
+          carrier_type: string
+          created_at: string
+          encrypted_token: string
+          expires_at: string
+          id: string
+          is_sandbox: boolean
+          token_iv: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          carrier_config_id: string
+          carrier_type: string
+          created_at?: string
+          encrypted_token: string
+          expires_at: string
+          id?: string
+          is_sandbox?: boolean
+          token_iv: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          carrier_config_id?: string
+          carrier_type?: string
+          created_at?: string
+          encrypted_token?: string
+          expires_at?: string
+          id?: string
+          is_sandbox?: boolean
+          token_iv?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "carrier_oauth_tokens_carrier_config_id_fkey"
+            columns: ["carrier_config_id"]
+            isOneToOne: true
+            referencedRelation: "carrier_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       carrier_services: {
         Row: {
           carrier_type: string
@@ -179,6 +415,56 @@ export type Database = {
         }
         Relationships: []
       }
+      carrier_zone_charts: {
+        Row: {
+          carrier_config_id: string | null
+          carrier_type: string
+          created_at: string
+          dest_zip3_end: string
+          dest_zip3_start: string
+          id: string
+          origin_zip3: string
+          source_file_name: string | null
+          updated_at: string
+          user_id: string
+          zone: string
+        }
+        Insert: {
+          carrier_config_id?: string | null
+          carrier_type: string
+          created_at?: string
+          dest_zip3_end: string
+          dest_zip3_start: string
+          id?: string
+          origin_zip3: string
+          source_file_name?: string | null
+          updated_at?: string
+          user_id: string
+          zone: string
+        }
+        Update: {
+          carrier_config_id?: string | null
+          carrier_type?: string
+          created_at?: string
+          dest_zip3_end?: string
+          dest_zip3_start?: string
+          id?: string
+          origin_zip3?: string
+          source_file_name?: string | null
+          updated_at?: string
+          user_id?: string
+          zone?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "carrier_zone_charts_carrier_config_id_fkey"
+            columns: ["carrier_config_id"]
+            isOneToOne: false
+            referencedRelation: "carrier_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
           branding_config: Json | null
@@ -376,6 +662,42 @@ export type Database = {
         }
         Relationships: []
       }
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          effective_date: string
+          id: string
+          quote_currency: string
+          rate: number
+          source_file_name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          effective_date: string
+          id?: string
+          quote_currency: string
+          rate: number
+          source_file_name?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          effective_date?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          source_file_name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       markup_profiles: {
         Row: {
           created_at: string
@@ -498,6 +820,7 @@ export type Database = {
           service_code: string
           service_name: string | null
           updated_at: string
+          version_id: string
           weight_break: number
           weight_unit: string
           zone: string | null
@@ -510,6 +833,7 @@ export type Database = {
           service_code: string
           service_name?: string | null
           updated_at?: string
+          version_id: string
           weight_break: number
           weight_unit?: string
           zone?: string | null
@@ -522,6 +846,7 @@ export type Database = {
           service_code?: string
           service_name?: string | null
           updated_at?: string
+          version_id?: string
           weight_break?: number
           weight_unit?: string
           zone?: string | null
@@ -534,6 +859,104 @@ export type Database = {
             referencedRelation: "carrier_configs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "rate_card_rates_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "rate_card_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_card_versions: {
+        Row: {
+          carrier_config_id: string
+          created_at: string
+          effective_from: string
+          effective_to: string | null
+          id: string
+          source_file_name: string | null
+          updated_at: string
+          user_id: string
+          version_number: number
+        }
+        Insert: {
+          carrier_config_id: string
+          created_at?: string
+          effective_from: string
+          effective_to?: string | null
+          id?: string
+          source_file_name?: string | null
+          updated_at?: string
+          user_id: string
+          version_number: number
+        }
+        Update: {
+          carrier_config_id?: string
+          created_at?: string
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          source_file_name?: string | null
+          updated_at?: string
+          user_id?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_card_versions_carrier_config_id_fkey"
+            columns: ["carrier_config_id"]
+            isOneToOne: false
+            referencedRelation: "carrier_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_quote_cache: {
+        Row: {
+          cache_key: string
+          carrier_config_id: string
+          created_at: string
+          expires_at: string
+          id: string
+          rate: Json
+          request_params: Json
+          service_code: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cache_key: string
+          carrier_config_id: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          rate: Json
+          request_params?: Json
+          service_code: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cache_key?: string
+          carrier_config_id?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          rate?: Json
+          request_params?: Json
+          service_code?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_quote_cache_carrier_config_id_fkey"
+            columns: ["carrier_config_id"]
+            isOneToOne: false
+            referencedRelation: "carrier_configs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       rate_quotes: {
@@ -782,57 +1205,102 @@ export type Database = {
         Row: {
           account_name: string
           analysis_id: string
+          base_charge: number | null
+          billable_weight: number | null
           carrier_config_id: string
           carrier_type: string
           created_at: string
           currency: string
+          duty_amount: number | null
+          earned_discount_percent: number | null
+          exchange_rate: number | null
+          fuel_effective_date: string | null
+          fuel_surcharge_percent: number | null
           id: string
           is_negotiated: boolean | null
+          is_service_downgrade: boolean
+          landed_cost: number | null
+          original_currency: string | null
+          original_rate_amount: number | null
           published_rate: number | null
           rate_amount: number
+          rate_card_version_id: string | null
           rate_response: Json | null
+          same_service_rate_amount: number | null
           service_code: string
           service_name: string | null
           shipment_data: Json
           shipment_index: number
+          surcharges: Json
+          tax_amount: number | null
           transit_days: number | null
           updated_at: string
         }
         Insert: {
           account_name: string
           analysis_id: string
+          base_charge?: number | null
+          billable_weight?: number | null
           carrier_config_id: string
           carrier_type: string
           created_at?: string
           currency?: string
+          duty_amount?: number | null
+          earned_discount_percent?: number | null
+          exchange_rate?: number | null
+          fuel_effective_date?: string | null
+          fuel_surcharge_percent?: number | null
           id?: string
           is_negotiated?: boolean | null
+          is_service_downgrade?: boolean
+          landed_cost?: number | null
+          original_currency?: string | null
+          original_rate_amount?: number | null
           published_rate?: number | null
           rate_amount: number
+          rate_card_version_id?: string | null
           rate_response?: Json | null
+          same_service_rate_amount?: number | null
           service_code: string
           service_name?: string | null
           shipment_data: Json
           shipment_index: number
+          surcharges?: Json
+          tax_amount?: number | null
           transit_days?: number | null
           updated_at?: string
         }
         Update: {
           account_name?: string
           analysis_id?: string
+          base_charge?: number | null
+          billable_weight?: number | null
           carrier_config_id?: string
           carrier_type?: string
           created_at?: string
           currency?: string
+          duty_amount?: number | null
+          earned_discount_percent?: number | null
+          exchange_rate?: number | null
+          fuel_effective_date?: string | null
+          fuel_surcharge_percent?: number | null
           id?: string
           is_negotiated?: boolean | null
+          is_service_downgrade?: boolean
+          landed_cost?: number | null
+          original_currency?: string | null
+          original_rate_amount?: number | null
           published_rate?: number | null
           rate_amount?: number
+          rate_card_version_id?: string | null
           rate_response?: Json | null
+          same_service_rate_amount?: number | null
           service_code?: string
           service_name?: string | null
           shipment_data?: Json
           shipment_index?: number
+          surcharges?: Json
+          tax_amount?: number | null
           transit_days?: number | null
           updated_at?: string
         }
@@ -851,6 +1319,13 @@ export type Database = {
             referencedRelation: "carrier_configs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shipment_rates_rate_card_version_id_fkey"
+            columns: ["rate_card_version_id"]
+            isOneToOne: false
+            referencedRelation: "rate_card_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       shipping_analyses: {
@@ -875,9 +1350,13 @@ export type Database = {
           orphaned_shipments: Json | null
           processed_shipments: Json | null
           processing_metadata: Json | null
+          projected_weekly_spend: number | null
+          rate_card_version_pins: Json
+          recommendation_mode: string
           recommendations: Json | null
           report_name: string | null
           report_status: string | null
+          reporting_currency: string
           sales_rep_id: string | null
           savings_analysis: Json | null
           service_assignments: Json | null
@@ -910,9 +1389,13 @@ export type Database = {
           orphaned_shipments?: Json | null
           processed_shipments?: Json | null
           processing_metadata?: Json | null
+          projected_weekly_spend?: number | null
+          rate_card_version_pins?: Json
+          recommendation_mode?: string
           recommendations?: Json | null
           report_name?: string | null
           report_status?: string | null
+          reporting_currency?: string
           sales_rep_id?: string | null
           savings_analysis?: Json | null
           service_assignments?: Json | null
@@ -945,9 +1428,13 @@ export type Database = {
           orphaned_shipments?: Json | null
           processed_shipments?: Json | null
           processing_metadata?: Json | null
+          projected_weekly_spend?: number | null
+          rate_card_version_pins?: Json
+          recommendation_mode?: string
           recommendations?: Json | null
           report_name?: string | null
           report_status?: string | null
+          reporting_currency?: string
           sales_rep_id?: string | null
           savings_analysis?: Json | null
           service_assignments?: Json | null
@@ -976,6 +1463,45 @@ export type Database = {
           },
         ]
       }
+      tariff_rates: {
+        Row: {
+          created_at: string
+          de_minimis_value: number | null
+          destination_country: string
+          duty_percent: number
+          hs_code: string
+          id: string
+          source_file_name: string | null
+          tax_percent: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          de_minimis_value?: number | null
+          destination_country: string
+          duty_percent: number
+          hs_code?: string
+          id?: string
+          source_file_name?: string | null
+          tax_percent?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          de_minimis_value?: number | null
+          destination_country?: string
+          duty_percent?: number
+          hs_code?: string
+          id?: string
+          source_file_name?: string | null
+          tax_percent?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       ups_configs: {
         Row: {
           account_number: string | null
@@ -1042,12 +1568,50 @@ export type Database = {
         }
         Relationships: []
       }
+      user_settings: {
+        Row: {
+          created_at: string
+          id: string
+          reporting_currency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      requeue_stale_analysis_jobs: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      save_analysis_batch: {
+        Args: {
+          p_job_id: string
+          p_progress: Json
+          p_rates: Json
+          p_results: Json
+          p_run_id: string
+          p_start_index: number
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
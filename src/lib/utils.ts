@@ -1,15 +1,14 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { formatMoney } from "@shared/currency"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
 // Number formatting utilities
-export function formatCurrency(amount: number): string {
-  const absAmount = Math.abs(amount);
-  const formattedAmount = `$${absAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-  return amount < 0 ? `-${formattedAmount}` : formattedAmount;
+export function formatCurrency(amount: number, currency: string = 'USD'): string {
+  return formatMoney(amount, currency);
 }
 
 export function formatPercentage(value: number): string {
@@ -4,6 +4,9 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui-lov/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui-lov/Card';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
 import { CheckCircle, RotateCw, AlertCircle, DollarSign, TrendingDown, Package, Shield, Clock, Pause, Play } from 'lucide-react';
 import { toast } from 'sonner';
@@ -13,12 +16,13 @@ import { useAnalysisJob } from '@/hooks/useAnalysisJob';
 import { ValidationSummary } from '@/components/ui-lov/ValidationSummary';
 import { ValidationDebugger } from '@/components/ui-lov/ValidationDebugger';
 import { CarrierSelector } from '@/components/ui-lov/CarrierSelector';
+import { RateCardVersionPinSelector } from '@/components/ui-lov/RateCardVersionPinSelector';
 import { VirtualizedAnalysisResults } from '@/components/ui-lov/VirtualizedAnalysisResults';
-import { getCityStateFromZip } from '@/utils/zipCodeMapping';
-import { mapServiceToServiceCode, getServiceCategoriesToRequest } from '@/utils/serviceMapping';
-import { getCarrierServiceCode, CarrierType, getUniversalCategoryFromCarrierCode } from '@/utils/carrierServiceRegistry';
+import type { RateCardVersionPins } from '@shared/rateCardVersioning';
+import { combinePackages, expandPackageCount, groupPieceRows, type ShipmentPackage } from '@shared/packages';
+import { DEFAULT_RECOMMENDATION_MODE, RECOMMENDATION_MODES, normalizeRecommendationMode, type RecommendationMode } from '@shared/deliveryWindow';
+import { estimateWeeklySpend } from '@shared/discountTiers';
 import type { ServiceMapping } from '@/utils/csvParser';
-import { determineResidentialStatus } from '@/utils/csvParser';
 
 interface ProcessedShipment {
   id: number;
@@ -42,20 +46,74 @@ interface ProcessedShipment {
   recipientCity?: string;
   recipientState?: string;
   zone?: string;
+  shipDate?: string;
+  deliveryDate?: string;
+  packageCount?: string;
+  shipmentReference?: string;
+  packages?: ShipmentPackage[]; // Pieces of a multi-piece shipment; weight and dims describe them combined
+  originCountry?: string;
+  destCountry?: string;
+  customsValue?: string;
+  hsCode?: string;
+  commodityDescription?: string;
 }
 
+const toPiecePackage = (row: ProcessedShipment): ShipmentPackage => ({
+  weight: parseFloat(row.weight || '0') || 0,
+  weightUnit: row.weightUnit?.toLowerCase().includes('oz') ? 'OZ' : 'LBS',
+  length: parseFloat(row.length || '') || undefined,
+  width: parseFloat(row.width || '') || undefined,
+  height: parseFloat(row.height || '') || undefined,
+  dimensionUnit: 'IN'
+});
+
+/**
+ * Turn mapped CSV rows into shipments. Rows sharing a shipment reference are the pieces
+ * of one shipment, and a package count splits a row into that many identical pieces.
+ */
+function combineShipmentPieces(rows: ProcessedShipment[]): ProcessedShipment[] {
+  return groupPieceRows(rows, row => row.shipmentReference).map((pieceRows, index) => {
+    const [first] = pieceRows;
+    const packages = pieceRows.flatMap(row =>
+      expandPackageCount(toPiecePackage(row), parseInt(row.packageCount || '1', 10))
+    );
+    if (packages.length === 1) {
+      return { ...first, id: index + 1 };
+    }
+
+    // Per-piece rows each carry their own cost; a package count row already has the total
+    const combined = combinePackages(packages);
+    const currentRate = pieceRows.length > 1
+      ? String(pieceRows.reduce((sum, row) => sum + (parseFloat((row.currentRate || '0').replace(/[$,]/g, '')) || 0), 0))
+      : first.currentRate;
+
+    return {
+      ...first,
+      id: index + 1,
+      weight: String(combined.weight),
+      weightUnit: combined.weightUnit,
+      length: combined.length ? String(combined.length) : first.length,
+      width: combined.width ? String(combined.width) : first.width,
+      height: combined.height ? String(combined.height) : first.height,
+      currentRate,
+      packages
+    };
+  });
+}
+
+// One shipment's outcome as the analysis worker stores it in analysis_job_results
 interface AnalysisResult {
   shipment: ProcessedShipment;
   status: 'pending' | 'processing' | 'completed' | 'error';
   currentCost?: number;
   originalService?: string; // Original service from CSV
-  upsRates?: any[]; // Legacy UPS rates
   allRates?: any[]; // All rates from all carriers
-  carrierResults?: any[]; // Results by carrier
   bestRate?: any;
   bestOverallRate?: any;
   savings?: number;
   maxSavings?: number;
+  sameServiceCost?: number | null; // Cheapest rate for the original service, delivery-window mode
+  isServiceDowngrade?: boolean; // Recommended a slower service that still meets the delivery window
   error?: string;
   errorType?: string;
   errorCategory?: string;
@@ -79,14 +137,14 @@ const Analysis = () => {
   const [shipments, setShipments] = useState<ProcessedShipment[]>([]);
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [totalSavings, setTotalSavings] = useState(0);
-  const [totalCurrentCost, setTotalCurrentCost] = useState(0);
   const [validationSummary, setValidationSummary] = useState<any>(null);
   const [serviceMappings, setServiceMappings] = useState<ServiceMapping[]>([]);
-  const [csvResidentialField, setCsvResidentialField] = useState<string | undefined>(undefined);
+  const [loadedResultCount, setLoadedResultCount] = useState(0);
   const [readyToAnalyze, setReadyToAnalyze] = useState(false);
-  const [analysisSaved, setAnalysisSaved] = useState(false);
   const [selectedCarriers, setSelectedCarriers] = useState<string[]>([]);
+  const [rateCardVersionPins, setRateCardVersionPins] = useState<RateCardVersionPins>({});
+  const [recommendationMode, setRecommendationMode] = useState<RecommendationMode>(DEFAULT_RECOMMENDATION_MODE);
+  const [projectedWeeklySpend, setProjectedWeeklySpend] = useState('');
   const [carrierSelectionComplete, setCarrierSelectionComplete] = useState(false);
   const [hasLoadedInitialCarriers, setHasLoadedInitialCarriers] = useState(false);
   const [isAnalysisStarted, setIsAnalysisStarted] = useState(false);
@@ -94,6 +152,9 @@ const Analysis = () => {
   // Use the new analysis job hook
   const { 
     startAnalysis: startJobAnalysis, 
+    pauseAnalysis,
+    resumeAnalysis,
+    cancelAnalysis,
     getResults, 
     jobId, 
     status: jobStatus, 
@@ -107,14 +168,11 @@ const Analysis = () => {
   // Derived state from job status
   const isAnalyzing = jobLoading || (jobStatus?.status === 'pending' || jobStatus?.status === 'in_progress');
   const isComplete = jobStatus?.status === 'completed';
-  const currentShipmentIndex = jobStatus?.processed_shipments || 0;
-  
-  // Load results when job completes
-  useEffect(() => {
-    if (isComplete && jobId) {
-      loadCompletedResults();
-    }
-  }, [isComplete, jobId]);
+  const processedCount = jobStatus?.processed_shipments || 0;
+
+  // Earned-discount tiers are priced at the entered spend, or what the file ships per week
+  const estimatedWeeklySpend = useMemo(() => estimateWeeklySpend(shipments), [shipments]);
+  const weeklySpend = parseFloat(projectedWeeklySpend) > 0 ? parseFloat(projectedWeeklySpend) : estimatedWeeklySpend;
   
   useEffect(() => {
     const state = location.state as { 
@@ -159,7 +217,7 @@ const Analysis = () => {
     
     // Process CSV data into shipments using the confirmed mappings
     
-    const processedShipments = state.csvData.map((row, index) => {
+    const mappedRows = state.csvData.map((row, index) => {
       const shipment: ProcessedShipment = { id: index + 1 };
       
       Object.entries(state.mappings).forEach(([fieldName, csvHeader]) => {
@@ -180,6 +238,10 @@ const Analysis = () => {
       
       return shipment;
     });
+    const processedShipments = combineShipmentPieces(mappedRows);
+    if (processedShipments.length < mappedRows.length) {
+      console.log(`📦 Grouped ${mappedRows.length} rows into ${processedShipments.length} shipments`);
+    }
 
     
     setShipments(processedShipments);
@@ -187,14 +249,6 @@ const Analysis = () => {
     // Set service mappings
     setServiceMappings(state.serviceMappings);
     
-    // Check if we have a residential field mapped from CSV
-    const residentialField = Object.entries(state.mappings).find(([fieldName, csvHeader]) => 
-      fieldName === 'isResidential' && csvHeader && csvHeader !== "__NONE__"
-    );
-    if (residentialField) {
-      setCsvResidentialField(residentialField[1]);
-    }
-    
     // Initialize analysis results
     const initialResults = processedShipments.map(shipment => ({
       shipment,
@@ -294,24 +348,17 @@ const Analysis = () => {
         throw new Error('No valid shipments found. Please check your data and field mappings.');
       }
       
-      // Transform shipments for the job system
-      const shipmentsForJob = validShipments.map(shipment => ({
-        id: shipment.id,
-        trackingId: shipment.trackingId,
-        originZip: shipment.originZip || '',
-        destinationZip: shipment.destZip || '',
-        weight: parseFloat(shipment.weight || '0'),
-        length: shipment.length ? parseFloat(shipment.length) : undefined,
-        width: shipment.width ? parseFloat(shipment.width) : undefined,
-        height: shipment.height ? parseFloat(shipment.height) : undefined,
-        customerService: shipment.service || 'GROUND',
-        currentRate: shipment.currentRate ? parseFloat(shipment.currentRate) : undefined,
-        carrier: shipment.carrier,
-        ...shipment // Include any additional fields
-      }));
-      
-      // Start the background analysis job
-      await startJobAnalysis(shipmentsForJob);
+      // The server analyzes every shipment, so invalid ones end up as orphans in Results
+      const state = location.state as { mappings?: Record<string, string>; fileName?: string } | null;
+      await startJobAnalysis(shipmentsToAnalyze, {
+        carrierConfigIds: selectedCarriers,
+        serviceMappings,
+        columnMappings: state?.mappings,
+        fileName: state?.fileName,
+        rateCardVersionPins,
+        recommendationMode,
+        projectedWeeklySpend: weeklySpend
+      });
       toast.success('Analysis started! Processing in the background...');
       
     } catch (error: any) {
@@ -320,902 +367,42 @@ const Analysis = () => {
     }
   };
 
-  // Load completed analysis results
-  const loadCompletedResults = useCallback(async () => {
+  // Merge the shipment results the job has stored since the last poll into the live list
+  const loadNewResults = useCallback(async () => {
     if (!jobId) return;
-    
-    try {
-      const results = await getResults(jobId);
-      console.log('Loaded analysis results:', results.length, 'rates');
-      
-      // Transform results into the expected format for display
-      const transformedResults = results.map((rate: any) => ({
-        shipment: rate.shipment_data,
-        status: 'completed' as const,
-        allRates: [rate],
-        bestRate: rate,
-        savings: rate.shipment_data.currentRate 
-          ? Math.max(0, rate.shipment_data.currentRate - rate.rate_amount)
-          : 0
-      }));
-      
-      setAnalysisResults(transformedResults);
-      toast.success('Analysis results loaded successfully!');
-    } catch (error) {
-      console.error('Error loading results:', error);
-      toast.error('Failed to load analysis results');
-    }
-  }, [jobId, getResults]);
-  
-  const validateCarrierConfiguration = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      throw new Error('Please log in to run analysis');
-    }
-
-    if (selectedCarriers.length === 0) {
-      throw new Error('Please select at least one carrier account for analysis.');
-    }
-
-    const { data: configs, error } = await supabase
-      .from('carrier_configs')
-      .select('*')
-      .eq('user_id', user.id)
-      .in('id', selectedCarriers)
-      .eq('is_active', true);
-    
-    // Allow both API and rate card accounts to run together
-    const state = location.state as { mappings?: Record<string, string> } | null;
-    const hasZoneMapping = state?.mappings?.zone;
-    
-    // Keep all active configs - rate card accounts without zone mapping will fall back to API calls
-    const filteredConfigs = configs || [];
-
-    if (error || !filteredConfigs || filteredConfigs.length === 0) {
-      throw new Error('No valid carrier configurations found. Please check your carrier accounts in Settings.');
-    }
-
-    // Log which accounts will use rate cards vs API calls
-    const rateCardAccounts = filteredConfigs.filter(config => config.is_rate_card && hasZoneMapping);
-    const apiAccounts = filteredConfigs.filter(config => !config.is_rate_card || !hasZoneMapping);
-    
-    console.log('📊 Analysis will use both rate card and API accounts:', {
-      rateCardAccounts: rateCardAccounts.length,
-      apiAccounts: apiAccounts.length,
-      hasZoneMapping,
-      accounts: filteredConfigs.map(c => ({ 
-        name: c.account_name, 
-        type: c.is_rate_card && hasZoneMapping ? 'rate_card' : 'api' 
-      }))
-     });
-
-    console.log('✅ Carrier validation passed:', {
-      selectedCarriers: selectedCarriers.length,
-      validConfigs: filteredConfigs.length,
-      carriers: filteredConfigs.map(c => ({ type: c.carrier_type, name: c.account_name }))
-    });
-
-    return selectedCarriers;
-  };
-
-  const createAnalysisRecord = async (shipmentsToAnalyze: ProcessedShipment[]) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      throw new Error('Please log in to run analysis');
-    }
-
-    const state = location.state as any;
-    const baseName = state?.fileName || 'Real-time Analysis';
-
-    console.log('💾 Creating initial analysis record for rate saving');
-    
-    const analysisRecord = {
-      user_id: user.id,
-      file_name: baseName,
-      total_shipments: shipmentsToAnalyze.length,
-      total_savings: 0,
-      status: 'processing',
-      original_data: {} as any, // Required field, will be updated when complete
-      carrier_configs_used: selectedCarriers as any,
-      processing_metadata: {
-        startedAt: new Date().toISOString(),
-        dataSource: 'fresh_analysis'
-      } as any
-    };
-
-    const { data, error } = await supabase
-      .from('shipping_analyses')
-      .insert(analysisRecord)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('❌ Error creating analysis record:', error);
-      throw new Error('Failed to create analysis record');
-    }
-
-    console.log('✅ Analysis record created successfully:', data.id);
-    return data.id;
-  };
-
-  const updateAnalysisRecord = async (analysisId: string) => {
-    const completedResults = analysisResults.filter(r => r.status === 'completed');
-    const errorResults = analysisResults.filter(r => r.status === 'error');
-    
-    // Calculate totals
-    const totalSavingsCalc = completedResults.reduce((sum, result) => sum + (result.savings || 0), 0);
-    const totalCurrentCostCalc = completedResults.reduce((sum, result) => sum + (result.currentCost || 0), 0);
-
-    console.log('💾 Updating analysis record with final results');
-    
-    const updateData = {
-      status: 'completed',
-      total_savings: totalSavingsCalc,
-      processing_metadata: {
-        completedAt: new Date().toISOString(),
-        totalCurrentCost: totalCurrentCostCalc,
-        totalShipments: shipments.length,
-        completedShipments: completedResults.length,
-        errorShipments: errorResults.length,
-        dataSource: 'fresh_analysis'
-      } as any
-    };
-
-    const { error } = await supabase
-      .from('shipping_analyses')
-      .update(updateData)
-      .eq('id', analysisId);
-
-    if (error) {
-      console.error('❌ Error updating analysis record:', error);
-    } else {
-      console.log('✅ Analysis record updated successfully');
-    }
-  };
-  
-  const processShipment = async (index: number, shipment: ProcessedShipment, retryCount = 0, analysisId?: string) => {
-    const maxRetries = 2;
-    
-      // Update status to processing using shipment ID-based update to prevent race conditions
-      setAnalysisResults(prev => {
-        return prev.map(result => 
-          result.shipment.id === shipment.id 
-            ? { ...result, status: 'processing' }
-            : result
-        );
-      });
-    
-    try {
-      
-      const missingFields = [];
-      if (!shipment.originZip?.trim()) missingFields.push('Origin ZIP');
-      if (!shipment.destZip?.trim()) missingFields.push('Destination ZIP');
-      
-      // Validate service type field - CRITICAL for proper analysis
-      if (!shipment.service?.trim()) {
-        missingFields.push('Service Type');
-      }
-      
-      let weight = 0;
-      if (!shipment.weight || shipment.weight === '') {
-        missingFields.push('Weight');
-      } else {
-        weight = parseFloat(shipment.weight);
-        // Handle oz to lbs conversion
-        if (shipment.weightUnit && shipment.weightUnit.toLowerCase().includes('oz')) {
-          weight = weight / 16;
-        }
-        if (isNaN(weight) || weight <= 0) {
-          missingFields.push('Valid Weight');
-        }
-      }
-      
-      // Enhanced ZIP code validation - use same logic as addressValidation.ts
-      const cleanAndValidateZip = (zipCode: string, fieldName: string) => {
-        if (!zipCode || typeof zipCode !== 'string') {
-          throw new Error(`${fieldName} ZIP code is required`);
-        }
-        
-        const allDigits = zipCode.trim().replace(/\D/g, ''); // Remove all non-digits
-        
-        if (allDigits.length < 4) {
-          throw new Error(`${fieldName} ZIP code must contain at least 4 digits`);
-        }
-        
-        // Take first 5 digits, or all available if less than 5
-        return allDigits.slice(0, 5);
-      };
-      
-      const cleanOriginZip = cleanAndValidateZip(shipment.originZip, 'Origin');
-      const cleanDestZip = cleanAndValidateZip(shipment.destZip, 'Destination');
-      
-      // Update shipment with cleaned ZIP codes
-      shipment.originZip = cleanOriginZip;
-      shipment.destZip = cleanDestZip;
-      
-      // Parse currentRate and handle different formats ($4.41, 4.41, $1,234.56, etc.)
-      // For rate card analysis, allow zero costs since clients may not provide current rates
-      const costString = (shipment.currentRate || '0').toString().replace(/[$,]/g, '').trim();
-      const currentCost = parseFloat(costString);
-      
-      
-      // Check if we have any missing fields and provide detailed error
-      if (missingFields.length > 0) {
-        throw new Error(`Missing required fields: ${missingFields.join(', ')}`);
-      }
-      
-      
-      const length = parseFloat(shipment.length);
-      const width = parseFloat(shipment.width); 
-      const height = parseFloat(shipment.height);
-      
-      // Validate dimensions are present and valid
-      if (!length || !width || !height || isNaN(length) || isNaN(width) || isNaN(height)) {
-        throw new Error(`Missing or invalid package dimensions. All shipments must have valid length, width, and height values.`);
-      }
-      
-      // Normalize service names for robust matching
-      const normalizeServiceName = (serviceName: string): string => {
-        return serviceName?.trim().toLowerCase().replace(/\s+/g, ' ') || '';
-      };
-
-      // Use the confirmed service mapping from the service review step with normalized comparison
-      const confirmedMapping = serviceMappings.find(m => 
-        normalizeServiceName(m.original) === normalizeServiceName(shipment.service)
-      );
-      
-      
-      let serviceMapping, serviceCodesToRequest, equivalentServiceCode, isConfirmedMapping = false;
-      
-      if (confirmedMapping && confirmedMapping.standardizedService) {
-        
-        // Use the user-confirmed mapping - pass universal service category directly
-        isConfirmedMapping = true;
-        
-        // Pass the universal service category directly to let each carrier convert to their specific codes
-        serviceCodesToRequest = [confirmedMapping.standardizedService]; // Pass universal category
-        equivalentServiceCode = confirmedMapping.standardizedService; // Store universal category
-        serviceMapping = {
-          serviceCode: confirmedMapping.standardizedService, // Use universal category, not carrier-specific code
-          serviceName: confirmedMapping.standardized,
-          standardizedService: confirmedMapping.standardizedService,
-          confidence: confirmedMapping.confidence
-        };
-        
-      } else {
-        // NO FALLBACKS - if no confirmed mapping, this shipment is invalid
-        throw new Error(`No confirmed service mapping found for "${shipment.service}". Please verify the service mapping on the mapping page.`);
-      }
-      
-
-      // Determine residential status using hierarchical logic - pass full mapping data
-      const residentialStatus = determineResidentialStatus(
-        shipment, 
-        confirmedMapping || { 
-          original: shipment.service || '',
-          standardized: serviceMapping.serviceName,
-          standardizedService: serviceMapping.standardizedService,
-          confidence: 0.5
-        },
-        csvResidentialField
-      );
-      
-      // Use real address data from CSV or map ZIP codes to correct cities for test data
-      const originCityState = getCityStateFromZip(shipment.originZip);
-      const destCityState = getCityStateFromZip(shipment.destZip);
-      
-      const shipmentRequest = {
-        shipFrom: {
-          name: shipment.shipperName || 'Sample Shipper',
-          address: shipment.shipperAddress || '123 Main St',
-          city: shipment.shipperCity || originCityState.city,
-          state: shipment.shipperState || originCityState.state,
-          zipCode: shipment.originZip.trim(),
-          country: 'US'
-        },
-        shipTo: {
-          name: shipment.recipientName || 'Sample Recipient',
-          address: shipment.recipientAddress || '456 Oak Ave',
-          city: shipment.recipientCity || destCityState.city,
-          state: shipment.recipientState || destCityState.state,
-          zipCode: shipment.destZip.trim(),
-          country: 'US'
-        },
-        package: {
-          weight,
-          weightUnit: 'LBS',
-          length,
-          width,
-          height,
-          dimensionUnit: 'IN'
-        },
-        serviceTypes: serviceCodesToRequest,
-        equivalentServiceCode: equivalentServiceCode,
-        isResidential: residentialStatus.isResidential,
-        residentialSource: residentialStatus.source,
-        originalCarrier: shipment.carrier || 'Unknown',
-        zone: shipment.zone // Include CSV-mapped zone if available
-      };
-      
-      
-      const { data, error } = await supabase.functions.invoke('multi-carrier-quote', {
-        body: { 
-          shipment: {
-            ...shipmentRequest,
-            carrierConfigIds: selectedCarriers,
-            analysisId: analysisId, // Pass analysis ID for saving individual rates
-            shipmentIndex: index // Pass shipment index for tracking
-          }
-        }
-      });
-
-
-      if (error) {
-        console.error(`❌ Multi-carrier API Error for shipment ${index + 1}:`, {
-          errorMessage: error.message,
-          errorDetails: error,
-          shipmentRequest: {
-            originZip: shipmentRequest.shipFrom.zipCode,
-            destZip: shipmentRequest.shipTo.zipCode,
-            weight: shipmentRequest.package.weight,
-            serviceTypes: shipmentRequest.serviceTypes,
-            isResidential: shipmentRequest.isResidential,
-            carrierConfigIds: selectedCarriers
-          }
-        });
-        
-        // Check if this is a retryable error
-        const isRetryableError = error.message?.includes('timeout') || 
-                                error.message?.includes('network') ||
-                                error.message?.includes('500') ||
-                                error.message?.includes('503');
-        
-        if (isRetryableError && retryCount < maxRetries) {
-          
-          await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1))); // Progressive delay
-          return processShipment(index, shipment, retryCount + 1);
-        }
-        
-        throw new Error(`Multi-carrier API Error: ${error.message || 'Unknown API error'}`);
-      }
-      
-      if (!data) {
-        console.error(`❌ No data returned from multi-carrier API for shipment ${index + 1}`);
-        throw new Error('No data returned from multi-carrier API');
-      }
-      
-      if (!data.allRates || !Array.isArray(data.allRates) || data.allRates.length === 0) {
-        console.error(`❌ No rates returned for shipment ${index + 1}:`, {
-          fullResponse: data,
-          shipmentDetails: {
-            originZip: shipmentRequest.shipFrom.zipCode,
-            destZip: shipmentRequest.shipTo.zipCode,
-            weight: shipmentRequest.package.weight,
-            dimensions: `${shipmentRequest.package.length}×${shipmentRequest.package.width}×${shipmentRequest.package.height}`,
-            serviceTypes: shipmentRequest.serviceTypes,
-            isResidential: shipmentRequest.isResidential,
-            carrierConfigIds: selectedCarriers
-          }
-        });
-        
-        // Provide more specific error messages based on common issues
-        let detailedError = 'No rates returned from any carrier.';
-        if (data.error || data.errors) {
-          detailedError += ` API Error: ${data.error || JSON.stringify(data.errors)}`;
-        } else {
-          detailedError += ' This may indicate:\n• Invalid ZIP codes\n• Package dimensions exceed limits\n• Service unavailable for this route\n• Carrier API configuration issues';
-        }
-        
-        throw new Error(detailedError);
-      }
-      
-      
-      
-      // Enhanced rate selection with multi-carrier data
-      let comparisonRate;
-      let bestRate = null;
-      
-      console.log(`🔍 Multi-carrier rate selection for shipment ${index + 1}:`, {
-        originalService: shipment.service,
-        isConfirmedMapping,
-        equivalentServiceCode,
-        totalRatesReturned: data.allRates.length,
-        bestRatesCount: data.bestRates?.length || 0,
-        carrierBreakdown: data.carrierResults?.map((c: any) => ({
-          carrier: c.carrierType,
-          name: c.carrierName,
-          success: c.success,
-          rateCount: c.rateCount || 0
-        }))
-      });
-      
-      // Find the best rate from all carriers for this service
-      if (isConfirmedMapping) {
-        // User confirmed this mapping - find the best rate for the mapped service across all carriers
-        const serviceRates = data.allRates.filter((rate: any) => {
-          // Since rate cards now use universal categories, we can do direct comparison
-          return rate.serviceCode === serviceMapping.standardizedService;
-        });
-        
-        if (serviceRates.length > 0) {
-          comparisonRate = serviceRates.reduce((best: any, current: any) => 
-            (current.totalCharges || 0) < (best.totalCharges || 0) ? current : best
-          );
-        }
-        
-        console.log(`✅ Multi-carrier confirmed mapping analysis:`, {
-          originalService: shipment.service,
-          mappedServiceCode: equivalentServiceCode,
-          mappedServiceName: serviceMapping.serviceName,
-          serviceRatesFound: serviceRates.length,
-          bestServiceRate: comparisonRate ? {
-            carrier: comparisonRate.carrierType,
-            serviceName: comparisonRate.serviceName,
-            cost: comparisonRate.totalCharges
-          } : null
-        });
-      }
-      
-      // If no specific service match found, or for auto-mapping, use the overall best rate
-      if (!comparisonRate && data.bestRates && data.bestRates.length > 0) {
-        comparisonRate = data.bestRates[0]; // Best overall rate
-        console.log('🏆 Using overall best rate from multi-carrier comparison:', {
-          carrier: comparisonRate.carrierType,
-          serviceName: comparisonRate.serviceName,
-          cost: comparisonRate.totalCharges,
-          isBestRate: comparisonRate.isBestRate
-        });
-      }
-      
-      // Find the absolute best rate for savings calculation
-      if (data.allRates.length > 0) {
-        bestRate = data.allRates.reduce((best: any, current: any) => 
-          (current.totalCharges || 0) < (best.totalCharges || 0) ? current : best
-        );
-      }
-      
-      // Comparison rate is now properly defined above based on mapping type
-      
-      if (!comparisonRate || comparisonRate.totalCharges === undefined) {
-        throw new Error('Invalid rate data returned from carriers');
-      }
-      
-      const savings = currentCost - comparisonRate.totalCharges;
-      const maxSavings = bestRate ? currentCost - bestRate.totalCharges : savings;
-      
-      console.log(`Shipment ${index + 1} analysis complete:`, {
-        originalService: shipment.service,
-        comparisonService: comparisonRate.serviceName,
-        comparisonServiceCode: comparisonRate.serviceCode,
-        currentCost,
-        comparisonRate: comparisonRate.totalCharges,
-        savings,
-        recommendedUpsService: comparisonRate.serviceName,
-        isConfirmedMapping,
-        usedMappedService: isConfirmedMapping
-      });
-      
-      console.log(`Using ${isConfirmedMapping ? 'user-confirmed mapping' : 'auto-detected equivalent'} service for comparison:`, {
-        trackingId: shipment.trackingId,
-        originalService: shipment.service,
-        comparisonMethod: isConfirmedMapping ? 'confirmed_mapping' : 'auto_detection',
-        comparisonServiceName: comparisonRate.serviceName,
-        comparisonServiceCode: comparisonRate.serviceCode,
-        comparisonServiceCost: comparisonRate.totalCharges,
-        savings,
-        userConfirmedMapping: isConfirmedMapping
-      });
-      
-      // Validate the result before updating state
-      const resultValidation = {
-        originalServiceMatches: shipment.service === shipment.service,
-        bestRateServiceCode: comparisonRate.serviceCode,
-        expectedServiceCode: isConfirmedMapping ? equivalentServiceCode : comparisonRate.serviceCode,
-        serviceCodeMatches: isConfirmedMapping ? comparisonRate.serviceCode === equivalentServiceCode : true,
-        hasValidSavings: typeof savings === 'number' && !isNaN(savings)
-      };
-      
-      console.log(`✅ Result validation for shipment ${index + 1}:`, {
-        originalService: shipment.service,
-        bestRateService: comparisonRate.serviceName,
-        bestRateServiceCode: comparisonRate.serviceCode,
-        currentCost,
-        bestRateCost: comparisonRate.totalCharges,
-        savings,
-        validation: resultValidation
-      });
-      
-      if (isConfirmedMapping && !resultValidation.serviceCodeMatches) {
-        console.warn(`⚠️ Service code mismatch for shipment ${index + 1}:`, {
-          expected: equivalentServiceCode,
-          actual: comparisonRate.serviceCode,
-          originalService: shipment.service
-        });
-      }
-      
-      // Update totals using functional updates
-      setTotalCurrentCost(prev => prev + currentCost);
-      setTotalSavings(prev => prev + savings);
-      
-      // Validation that the comparison rate matches expected service mapping
-      // Convert carrier-specific service code back to universal category for comparison
-      const getUniversalCategoryFromCarrierCode = (carrierType: string, serviceCode: string): string | null => {
-        // Import the carrier service registry mappings
-        const carrierMappings: Record<string, Record<string, string>> = {
-          'ups': {
-            '01': 'OVERNIGHT',
-            '13': 'OVERNIGHT_SAVER', 
-            '14': 'OVERNIGHT_EARLY',
-            '02': 'TWO_DAY',
-            '59': 'TWO_DAY_MORNING',
-            '12': 'THREE_DAY',
-            '03': 'GROUND',
-            '07': 'INTERNATIONAL_EXPRESS',
-            '08': 'INTERNATIONAL_EXPEDITED',
-            '11': 'INTERNATIONAL_SAVER',
-            '65': 'INTERNATIONAL_STANDARD'
-          },
-          'fedex': {
-            'PRIORITY_OVERNIGHT': 'OVERNIGHT',
-            'STANDARD_OVERNIGHT': 'OVERNIGHT_SAVER',
-            'FIRST_OVERNIGHT': 'OVERNIGHT_EARLY', 
-            'FEDEX_2_DAY': 'TWO_DAY',
-            'FEDEX_2_DAY_AM': 'TWO_DAY_MORNING',
-            'FEDEX_EXPRESS_SAVER': 'THREE_DAY',
-            'FEDEX_GROUND': 'GROUND',
-            'INTERNATIONAL_PRIORITY': 'INTERNATIONAL_EXPRESS',
-            'INTERNATIONAL_ECONOMY': 'INTERNATIONAL_EXPEDITED'
-          },
-          'amazon': {
-            'GROUND': 'GROUND'
-          },
-          'dhl': {
-            'EXPRESS_10_30': 'OVERNIGHT',
-            'EXPRESS_9_00': 'OVERNIGHT_EARLY',
-            'EXPRESS_12_00': 'TWO_DAY',
-            'EXPRESS_WORLDWIDE': 'INTERNATIONAL_EXPRESS',
-            'EXPRESS_EASY': 'INTERNATIONAL_EXPEDITED'
-          }
-        };
-        
-        return carrierMappings[carrierType?.toLowerCase()]?.[serviceCode] || null;
-      };
 
-      const actualUniversalCategory = getUniversalCategoryFromCarrierCode(
-        comparisonRate.carrierType, 
-        comparisonRate.serviceCode
-      );
-      
-      const mappingValidation = {
-        isValid: isConfirmedMapping ? actualUniversalCategory === equivalentServiceCode : true,
-        expectedService: serviceMapping.serviceName,
-        actualService: comparisonRate.serviceName || comparisonRate.Service?.Description || 'Unknown',
-        expectedServiceCode: equivalentServiceCode,
-        actualServiceCode: comparisonRate.serviceCode,
-        actualUniversalCategory,
-        message: isConfirmedMapping 
-          ? (actualUniversalCategory === equivalentServiceCode 
-              ? 'Service mapping is correct' 
-              : `Expected universal service ${equivalentServiceCode}, got ${actualUniversalCategory} (carrier code: ${comparisonRate.serviceCode})`)
-          : 'No confirmed mapping validation'
-      };
+    const rows = await getResults(jobId, loadedResultCount);
+    if (rows.length === 0) return;
 
-      console.log(`🔍 Final validation for shipment ${shipment.id}:`, {
-        originalService: shipment.service,
-        mappingValidation,
-        isConfirmedMapping,
-        comparisonRate: {
-          serviceCode: comparisonRate.serviceCode,
-          serviceName: comparisonRate.serviceName
-        }
+    const newResults = rows.map(row => ({ index: row.shipment_index, result: row.result as unknown as AnalysisResult }));
+    setAnalysisResults(prev => {
+      const next = [...prev];
+      newResults.forEach(({ index, result }) => {
+        next[index] = result;
       });
-
-      // Update result using shipment ID-based update to prevent race conditions
-      setAnalysisResults(prev => {
-        return prev.map(result => {
-          if (result.shipment.id === shipment.id) {
-            const updatedResult = {
-              ...result,
-              status: 'completed' as const,
-              currentCost,
-              originalService: shipment.service, // Store original service from CSV
-              allRates: data.allRates,
-              carrierResults: data.carrierResults,
-              bestRate: comparisonRate,
-              bestOverallRate: bestRate,
-              savings,
-              maxSavings,
-              expectedServiceCode: equivalentServiceCode,
-              mappingValidation
-            };
-            
-            // Final validation log
-            console.log(`✅ Storing validated result for shipment ${shipment.id}:`, {
-              originalService: updatedResult.originalService,
-              bestRateService: updatedResult.bestRate?.serviceName,
-              bestRateCode: updatedResult.bestRate?.serviceCode,
-              expectedCode: updatedResult.expectedServiceCode,
-              mappingValid: updatedResult.mappingValidation?.isValid
-            });
-            
-            return updatedResult;
-          }
-          return result;
-        });
-      });
-      
-    } catch (error: any) {
-      console.error(`❌ Error processing shipment ${index + 1} (${shipment.trackingId}):`, {
-        error: error.message,
-        errorStack: error.stack,
-        shipmentDetails: {
-          id: shipment.id,
-          trackingId: shipment.trackingId,
-          service: shipment.service,
-          carrier: shipment.carrier,
-          originZip: shipment.originZip,
-          destZip: shipment.destZip,
-          weight: shipment.weight,
-          currentRate: shipment.currentRate
-        },
-        attemptNumber: retryCount + 1,
-        maxRetries: maxRetries + 1
-      });
-      
-      // Enhanced error categorization for better debugging
-      let errorType = 'processing_error';
-      let errorCategory = 'Unknown';
-      
-      if (error.message.includes('Missing required fields')) {
-        errorType = 'missing_data';
-        errorCategory = 'Data Validation';
-      } else if (error.message.includes('Invalid') && error.message.includes('ZIP')) {
-        errorType = 'invalid_data';
-        errorCategory = 'ZIP Code Format';
-      } else if (error.message.includes('Invalid')) {
-        errorType = 'invalid_data';
-        errorCategory = 'Data Format';
-      } else if (error.message.includes('UPS API Error')) {
-        errorType = 'api_error';
-        errorCategory = 'UPS API Communication';
-      } else if (error.message.includes('No rates returned')) {
-        errorType = 'no_rates';
-        errorCategory = 'UPS Rate Response';
-      } else if (error.message.includes('No confirmed service mapping')) {
-        errorType = 'mapping_error';
-        errorCategory = 'Service Mapping';
-      } else if (error.message.includes('timeout') || error.message.includes('network')) {
-        errorType = 'network_error';
-        errorCategory = 'Network/Timeout';
-      }
-      
-      console.log(`📊 Error analysis for shipment ${index + 1}:`, {
-        trackingId: shipment.trackingId,
-        errorType,
-        errorCategory,
-        errorMessage: error.message,
-        isRetryableError: retryCount < maxRetries && (errorType === 'network_error' || errorType === 'api_error'),
-        willRetry: retryCount < maxRetries && (errorType === 'network_error' || errorType === 'api_error')
-      });
-      
-      // Check if this error should trigger a retry
-      const shouldRetry = retryCount < maxRetries && 
-                         (errorType === 'network_error' || 
-                          (errorType === 'api_error' && !error.message.includes('authentication')));
-      
-      if (shouldRetry) {
-        console.log(`🔄 Retrying shipment ${index + 1} due to ${errorCategory} error`);
-        await new Promise(resolve => setTimeout(resolve, 2000 * (retryCount + 1))); // Progressive delay
-        return processShipment(index, shipment, retryCount + 1);
-      }
-      
-      // Update error result using functional update to prevent race conditions
-      setAnalysisResults(prev => {
-        const newResults = [...prev];
-        if (newResults[index]) {
-          newResults[index] = {
-            ...newResults[index],
-            status: 'error',
-            error: error.message,
-            errorType,
-            errorCategory,
-            attemptCount: retryCount + 1
-          };
-        }
-        return newResults;
-      });
-    }
-  };
-  
-  const finalizeAnalysis = async (analysisData: any) => {
-    try {
-      console.log('🚀 Calling finalize-analysis edge function with:', {
-        orphanedCount: analysisData.orphanedShipments?.length || 0,
-        originalDataCount: analysisData.originalData?.length || 0,
-        recommendationsCount: analysisData.recommendations?.length || 0
-      });
-
-      const { data, error } = await supabase.functions.invoke('finalize-analysis', {
-        body: analysisData
-      });
-
-      console.log('📦 Edge function response:', { data, error });
-
-      if (error) {
-        console.error('❌ Edge function error:', error);
-        throw new Error(error.message || 'Failed to finalize analysis');
-      }
-
-      if (!data.success) {
-        console.error('❌ Edge function returned failure:', data);
-        throw new Error(data.error || 'Failed to finalize analysis');
-      }
-
-      console.log('✅ Analysis finalized successfully:', data.analysisId);
-      
-      // Handle batch processing response
-      if (data.batchInfo) {
-        console.log('🔄 Large dataset initiated batch processing:', data.batchInfo);
-        toast.success('Large dataset analysis started - you\'ll be redirected to view progress');
-      }
-      
-      return data.analysisId;
-    } catch (error) {
-      console.error('💥 Error finalizing analysis:', error);
-      throw error;
-    }
-  };
-  
-  const handleViewResults = async () => {
-    if (analysisResults.length === 0) {
-      toast.error('No analysis results to view');
-      return;
-    }
-
-    const completedResults = analysisResults.filter(r => r.status === 'completed');
-    const errorResults = analysisResults.filter(r => r.status === 'error');
-
-    if (completedResults.length === 0) {
-      toast.error('No completed shipments to analyze');
-      return;
-    }
-
-    console.log('Finalizing analysis with results:', {
-      totalShipments: analysisResults.length,
-      completedShipments: completedResults.length,
-      errorShipments: errorResults.length,
-      orphanShipments: errorResults.length
+      return next;
     });
 
-    try {
-      // Format data for the finalize endpoint
-      const recommendations = completedResults.map((result, index) => ({
-        shipment: result.shipment,
-        currentCost: result.currentCost || 0,
-        recommendedCost: result.bestRate?.totalCharges || 0,
-        savings: result.savings || 0,
-        customer_service: result.originalService || result.shipment.service,
-        ShipPros_service: result.bestRate?.serviceName || 'Unknown',
-        carrier: 'UPS',
-        status: 'completed',
-        allRates: result.allRates,
-        upsRates: result.upsRates
-      }));
-
-      const orphanedShipments = errorResults.map((result, index) => ({
-        shipment: result.shipment,
-        error: result.error,
-        errorType: result.errorType || 'unknown_error',
-        customer_service: result.originalService || result.shipment.service,
-        status: 'error'
-      }));
-
-      const state = location.state as any;
-      const analysisPayload = {
-        fileName: state?.fileName || 'Real-time Analysis',
-        totalShipments: analysisResults.length,
-        completedShipments: completedResults.length,
-        errorShipments: errorResults.length,
-        totalCurrentCost,
-        totalPotentialSavings: totalSavings,
-        recommendations,
-        orphanedShipments,
-        originalData: analysisResults,
-        carrierConfigsUsed: selectedCarriers,
-        serviceMappings: serviceMappings
-      };
-
-      // Finalize analysis in backend
-      const analysisId = await finalizeAnalysis(analysisPayload);
+    setLoadedResultCount(newResults[newResults.length - 1].index + 1);
+  }, [jobId, loadedResultCount, getResults]);
 
-      // Navigate to results with analysisId
-      navigate(`/results?analysisId=${analysisId}`);
-
-    } catch (error: any) {
-      console.error('Failed to finalize analysis:', error);
-      toast.error(`Failed to save analysis: ${error.message}`);
-    }
-  };
-
-  const handleStopAndContinue = async () => {
-    const completedResults = analysisResults.filter(r => r.status === 'completed');
-    const errorResults = analysisResults.filter(r => r.status === 'error');
-    
-    if (completedResults.length === 0) {
-      toast.error('No completed shipments to analyze');
-      return;
+  // Show results as the server-side job stores them
+  useEffect(() => {
+    if (jobId && processedCount > loadedResultCount) {
+      loadNewResults();
     }
+  }, [jobId, processedCount, loadedResultCount, loadNewResults]);
 
-    console.log('Stopping analysis and finalizing partial results:', {
-      completedShipments: completedResults.length,
-      errorShipments: errorResults.length,
-      orphanShipments: errorResults.length
-    });
-
-    try {
-      // Format data for the finalize endpoint (same as handleViewResults)
-      const recommendations = completedResults.map((result, index) => ({
-        shipment: result.shipment,
-        currentCost: result.currentCost || 0,
-        recommendedCost: result.bestRate?.totalCharges || 0,
-        savings: result.savings || 0,
-        customer_service: result.originalService || result.shipment.service,
-        ShipPros_service: result.bestRate?.serviceName || 'Unknown',
-        carrier: 'UPS',
-        status: 'completed',
-        allRates: result.allRates,
-        upsRates: result.upsRates
-      }));
-
-      const orphanedShipments = errorResults.map((result, index) => ({
-        shipment: result.shipment,
-        error: result.error,
-        errorType: result.errorType || 'unknown_error',
-        customer_service: result.originalService || result.shipment.service,
-        status: 'error'
-      }));
-
-      console.log('🚨 STOP & VIEW RESULTS - ORPHAN DEBUG:', {
-        totalResults: analysisResults.length,
-        completedResults: completedResults.length,
-        errorResults: errorResults.length,
-        orphanedShipments: orphanedShipments.length,
-        sampleErrorResults: errorResults.slice(0, 3),
-        sampleOrphanedShipments: orphanedShipments.slice(0, 3)
-      });
-
-      const state = location.state as any;
-      const analysisPayload = {
-        fileName: state?.fileName || 'Real-time Analysis',
-        totalShipments: analysisResults.length,
-        completedShipments: completedResults.length,
-        errorShipments: errorResults.length,
-        totalCurrentCost,
-        totalPotentialSavings: totalSavings,
-        recommendations,
-        orphanedShipments,
-        originalData: analysisResults,
-        carrierConfigsUsed: selectedCarriers,
-        serviceMappings: serviceMappings
-      };
-
-      console.log('🚨 STOP & VIEW RESULTS - ANALYSIS PAYLOAD:', analysisPayload);
-
-      // Finalize analysis in backend
-      const analysisId = await finalizeAnalysis(analysisPayload);
-
-      // Navigate to results with analysisId
-      navigate(`/results?analysisId=${analysisId}`);
+  const { totalCurrentCost, totalSavings } = useMemo(() => {
+    const completed = analysisResults.filter(r => r.status === 'completed');
+    return {
+      totalCurrentCost: completed.reduce((sum, result) => sum + (result.currentCost || 0), 0),
+      totalSavings: completed.reduce((sum, result) => sum + (result.savings || 0), 0)
+    };
+  }, [analysisResults]);
 
-    } catch (error: any) {
-      console.error('Failed to finalize partial analysis:', error);
-      toast.error(`Failed to save analysis: ${error.message}`);
-    }
-  };
-  
   const progress = jobStatus?.progress_percentage || 0;
   const completedCount = jobStatus?.processed_shipments || 0;
-  const errorCount = analysisResults.filter(r => r.status === 'error').length;
   
   return (
     <DashboardLayout>
@@ -1236,6 +423,48 @@ const Analysis = () => {
               showAllOption={true}
               hasZoneMapping={!!(location.state as { mappings?: Record<string, string> } | null)?.mappings?.zone}
             />
+            <div className="mt-4">
+              <RateCardVersionPinSelector
+                carrierConfigIds={selectedCarriers}
+                pins={rateCardVersionPins}
+                onPinsChange={setRateCardVersionPins}
+              />
+            </div>
+            <div className="mt-4 max-w-md space-y-2">
+              <Label htmlFor="recommendation-mode">Recommendation</Label>
+              <Select
+                value={recommendationMode}
+                onValueChange={(value) => setRecommendationMode(normalizeRecommendationMode(value))}
+              >
+                <SelectTrigger id="recommendation-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RECOMMENDATION_MODES) as RecommendationMode[]).map(mode => (
+                    <SelectItem key={mode} value={mode}>{RECOMMENDATION_MODES[mode].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {RECOMMENDATION_MODES[recommendationMode].description}
+                {recommendationMode === 'delivery_window' && '. Uses the mapped delivery date, or the original service\'s transit time when there is none.'}
+              </p>
+            </div>
+            <div className="mt-4 max-w-md space-y-2">
+              <Label htmlFor="projected-weekly-spend">Projected Weekly Spend</Label>
+              <Input
+                id="projected-weekly-spend"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={estimatedWeeklySpend.toFixed(2)}
+                value={projectedWeeklySpend}
+                onChange={(e) => setProjectedWeeklySpend(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Accounts with earned-discount tiers are priced at the tier this spend earns. Leave blank to use the file's current spend per week.
+              </p>
+            </div>
             {selectedCarriers.length > 0 && (
               <div className="mt-4 flex justify-end">
                 <Button 
@@ -1342,7 +571,7 @@ const Analysis = () => {
                 {isComplete 
                   ? 'Analysis Complete!' 
                   : isAnalyzing 
-                    ? `Processing shipment ${currentShipmentIndex} of ${jobStatus?.total_shipments || shipments.length}...` 
+                    ? `Processing shipment ${processedCount} of ${jobStatus?.total_shipments || shipments.length}...` 
                     : 'Ready to analyze'
                 }
               </div>
@@ -1360,9 +589,80 @@ const Analysis = () => {
                     jobStatus.status === 'failed' ? 'destructive' : 'default'
                   }>{jobStatus.status}</Badge>
                 </div>
-                {jobStatus.status === 'completed' && (
+                {jobStatus.error_shipments > 0 && (
+                  <div className="text-sm text-muted-foreground">
+                    {jobStatus.error_shipments} shipment{jobStatus.error_shipments > 1 ? 's' : ''} could not be priced and will be listed as orphans
+                  </div>
+                )}
+                {jobStatus.status === 'failed' && jobStatus.error_message && (
+                  <div className="text-sm text-red-700">{jobStatus.error_message}</div>
+                )}
+                {jobStatus.status === 'failed' && jobStatus.processed_shipments > 0 && (
+                  <div className="text-sm text-muted-foreground">
+                    The {jobStatus.processed_shipments} shipments analyzed so far are saved; resuming continues from there
+                  </div>
+                )}
+                {(jobStatus.cache_hits > 0 || jobStatus.cache_misses > 0) && (
+                  <div className="text-sm text-muted-foreground">
+                    Quote cache: {jobStatus.cache_hits} hits / {jobStatus.cache_misses} carrier calls
+                    {' '}({Math.round((jobStatus.cache_hits / (jobStatus.cache_hits + jobStatus.cache_misses)) * 100)}% served from cache)
+                  </div>
+                )}
+                {jobStatus.status === 'paused' && (
+                  <div className="text-sm text-muted-foreground">
+                    Paused after {jobStatus.processed_shipments} of {jobStatus.total_shipments} shipments
+                  </div>
+                )}
+                {jobStatus.status === 'cancelling' && (
+                  <div className="text-sm text-muted-foreground">
+                    Cancelling after {jobStatus.processed_shipments} of {jobStatus.total_shipments} shipments; saving the results analyzed so far
+                  </div>
+                )}
+                {jobStatus.status === 'cancelled' && (
+                  <div className="text-sm text-muted-foreground">
+                    Cancelled after {jobStatus.processed_shipments} of {jobStatus.total_shipments} shipments; results cover the shipments analyzed so far
+                  </div>
+                )}
+                {jobId && (jobStatus.status === 'pending' || jobStatus.status === 'in_progress') && (
+                  <Button
+                    onClick={() => pauseAnalysis(jobId)}
+                    variant="outline"
+                    disabled={jobLoading}
+                    iconLeft={<Pause className="h-4 w-4" />}
+                  >
+                    Pause
+                  </Button>
+                )}
+                {jobId && (jobStatus.status === 'paused' || jobStatus.status === 'failed') && (
+                  <Button
+                    onClick={() => resumeAnalysis(jobId)}
+                    variant="default"
+                    disabled={jobLoading}
+                    iconLeft={jobStatus.status === 'paused' ? <Play className="h-4 w-4" /> : <RotateCw className="h-4 w-4" />}
+                  >
+                    Resume Analysis
+                  </Button>
+                )}
+                {jobId && ['pending', 'in_progress', 'paused', 'failed'].includes(jobStatus.status) && (
+                  <Button
+                    onClick={() => cancelAnalysis(jobId)}
+                    variant="outline"
+                    disabled={jobLoading}
+                  >
+                    Cancel Analysis
+                  </Button>
+                )}
+                {jobStatus.status === 'cancelled' && jobStatus.analysis_id && jobStatus.processed_shipments > 0 && (
+                  <Button
+                    onClick={() => navigate(`/results?analysisId=${jobStatus.analysis_id}`)}
+                    variant="default"
+                  >
+                    View Partial Results
+                  </Button>
+                )}
+                {jobStatus.status === 'completed' && jobStatus.analysis_id && (
                   <Button
-                    onClick={loadCompletedResults}
+                    onClick={() => navigate(`/results?analysisId=${jobStatus.analysis_id}`)}
                     variant="default"
                   >
                     View Results
@@ -1405,14 +705,11 @@ const Analysis = () => {
               height={400}
             />
             
-            {isComplete && analysisResults.length > 0 && (
+            {isComplete && jobStatus?.analysis_id && (
               <div className="flex justify-end mt-6">
                 <Button 
                   variant="primary" 
-                  onClick={() => {
-                    // Navigate to results with the job ID
-                    navigate(`/results?jobId=${jobId}`);
-                  }}
+                  onClick={() => navigate(`/results?analysisId=${jobStatus.analysis_id}`)}
                   iconRight={<CheckCircle className="ml-1 h-4 w-4" />}
                 >
                   View Detailed Results
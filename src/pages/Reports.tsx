@@ -21,6 +21,7 @@ interface ShippingAnalysis {
   analysis_date: string;
   total_shipments: number;
   total_savings: number | null;
+  reporting_currency?: string;
   markup_data: any;
   savings_analysis: any;
   created_at: string;
@@ -63,6 +64,7 @@ const ReportsPage = () => {
           analysis_date, 
           total_shipments, 
           total_savings, 
+          reporting_currency,
           markup_data, 
           savings_analysis,
           created_at, 
@@ -7,7 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import * as AccordionComponents from '@/components/ui/accordion';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui-lov/Card';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Download, DollarSign, Package, TruckIcon, AlertCircle, Filter, CheckCircle2, XCircle, Calendar, Zap, Target, TrendingUp, TrendingDown, ArrowLeft, Upload, FileText, Home, Calculator, AlertTriangle, X, Edit3, RotateCw } from 'lucide-react';
+import { Download, DollarSign, Package, TruckIcon, AlertCircle, Filter, CheckCircle2, XCircle, Calendar, Zap, Target, TrendingUp, TrendingDown, ArrowLeft, Upload, FileText, Home, Calculator, AlertTriangle, X, Edit3, RotateCw, Clock } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui-lov/Button';
 import { Badge } from '@/components/ui/badge';
@@ -16,7 +16,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { cn, formatCurrency, formatPercentage, getSavingsColor } from '@/lib/utils';
-import { getStateFromZip } from '@/utils/zipToStateMapping';
+import { getZip3, resolveShippingZone, type ZoneChartEntry } from '@shared/zones';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useNavigate } from 'react-router-dom';
@@ -27,7 +27,11 @@ import { ClientCombobox } from '@/components/ui-lov/ClientCombobox';
 import { SelectiveReanalysisModal } from '@/components/ui-lov/SelectiveReanalysisModal';
 import { EditableShipmentRow } from '@/components/ui-lov/EditableShipmentRow';
 import { AccountComparisonView } from '@/components/ui-lov/AccountComparisonView';
-import { TooltipProvider } from '@/components/ui/tooltip';
+import { TooltipProvider, Tooltip as InfoTooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { SURCHARGE_LABELS, getTotalSurcharges } from '@shared/surcharges';
+import { DEFAULT_CURRENCY } from '@shared/currency';
+import type { DeliveryWindowSummary } from '@shared/deliveryWindow';
+import { normalizeDiscountTiers, type DiscountTier } from '@shared/discountTiers';
 
 import { useSelectiveReanalysis } from '@/hooks/useSelectiveReanalysis';
 import { 
@@ -35,6 +39,9 @@ import {
   formatShipmentData, 
   handleDataProcessingError,
   generateExportData,
+  getRateChargeBreakdown,
+  getShipmentChargeBreakdown,
+  getShipmentBillableWeight,
   validateShipmentData,
   ProcessedAnalysisData,
   ProcessedShipmentData 
@@ -83,6 +90,11 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
   const params = useParams();
   const [searchParams] = useSearchParams();
   const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
+  // Amounts are stored in the analysis owner's reporting currency, shared views included
+  const reportingCurrency = analysisData?.reportingCurrency || DEFAULT_CURRENCY;
+  const formatMoney = (amount: number) => formatCurrency(amount, reportingCurrency);
+  const formatAxisAmount = (value: number) =>
+    reportingCurrency === DEFAULT_CURRENCY ? `$${value}` : `${value} ${reportingCurrency}`;
   const [shipmentData, setShipmentData] = useState<ProcessedShipmentData[]>([]);
   const [orphanedData, setOrphanedData] = useState<any[]>([]);
   const [shipmentRates, setShipmentRates] = useState<any[]>([]);
@@ -103,6 +115,9 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
   const [processingProgress, setProcessingProgress] = useState<{ completed: number; total: number } | null>(null);
   const [serviceNotes, setServiceNotes] = useState<Record<string, string>>({});
   const [accountNames, setAccountNames] = useState<Record<string, string>>({});
+  const [accountCarrierTypes, setAccountCarrierTypes] = useState<Record<string, string>>({});
+  const [accountDiscountTiers, setAccountDiscountTiers] = useState<Record<string, DiscountTier[]>>({});
+  const [zoneCharts, setZoneCharts] = useState<ZoneChartEntry[]>([]);
   const hasTriedAutoSave = useRef(false);
   
   // Selective re-analysis state
@@ -314,7 +329,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
 
     const { data } = await supabase
       .from('carrier_configs')
-      .select('id, account_name')
+      .select('id, account_name, carrier_type')
       .eq('user_id', user.id)
       .in('id', Array.from(accountIds));
 
@@ -324,9 +339,44 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
         return acc;
       }, {} as Record<string, string>);
       setAccountNames(namesMap);
+      setAccountCarrierTypes(data.reduce((acc, config) => {
+        acc[config.id] = config.carrier_type;
+        return acc;
+      }, {} as Record<string, string>));
     }
   };
 
+  // Load imported carrier zone charts for the origins in this analysis
+  const loadZoneCharts = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const origins = [...new Set(shipmentData.map(shipment => getZip3(shipment.originZip)).filter(Boolean))];
+    if (origins.length === 0) return;
+
+    // Charts run to hundreds of ranges per origin, so page past the default row limit
+    const pageSize = 1000;
+    const entries: ZoneChartEntry[] = [];
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('carrier_zone_charts')
+        .select('carrier_type, carrier_config_id, origin_zip3, dest_zip3_start, dest_zip3_end, zone')
+        .eq('user_id', user.id)
+        .in('origin_zip3', origins)
+        .order('id')
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        console.error('Error loading zone charts:', error);
+        break;
+      }
+      entries.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+
+    setZoneCharts(entries);
+  };
+
 
   // Save updated shipment data to database after reanalysis
   const saveShipmentData = async (updatedShipmentData?: any[]) => {
@@ -788,7 +838,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
           processed_shipments: updatedAnalysis.processed_shipments,
           orphaned_shipments: updatedAnalysis.orphaned_shipments || []
         });
-        setAnalysisData(prev => prev ? { ...prev, ...reprocessedData } : prev);
+        setAnalysisData(prev => prev ? { ...prev, ...reprocessedData, reportingCurrency: prev.reportingCurrency } : prev);
       }
       
       toast.success(`Successfully fixed and analyzed shipment ${updatedData.trackingId || shipmentId}`);
@@ -1092,10 +1142,37 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
     }
   }, [currentAnalysisId]);
 
-  // Load account names when shipment data changes
+  // Load earned-discount tiers of the accounts that quoted this analysis
+  useEffect(() => {
+    const loadDiscountTiers = async () => {
+      const configIds = [...new Set(shipmentRates.map(rate => rate.carrier_config_id).filter(Boolean))];
+      if (configIds.length === 0) return;
+
+      const { data, error } = await supabase
+        .from('carrier_configs')
+        .select('id, discount_tiers')
+        .in('id', configIds);
+
+      if (error) {
+        console.error('Error loading discount tiers:', error);
+        return;
+      }
+
+      setAccountDiscountTiers((data || []).reduce((acc, config) => {
+        const tiers = normalizeDiscountTiers(config.discount_tiers);
+        if (tiers.length > 0) acc[config.id] = tiers;
+        return acc;
+      }, {} as Record<string, DiscountTier[]>));
+    };
+
+    loadDiscountTiers();
+  }, [shipmentRates]);
+
+  // Load account names and zone charts when shipment data changes
   useEffect(() => {
     if (shipmentData.length > 0) {
       loadAccountNames();
+      loadZoneCharts();
     }
   }, [shipmentData]);
 
@@ -1240,6 +1317,12 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
         return;
       }
 
+      // Server-run analyses write their results to the analysis record the job points at
+      if (jobData.analysis_id) {
+        await loadFromDatabase(jobData.analysis_id);
+        return;
+      }
+
       // Check if job is completed
       if (jobData.status !== 'completed') {
         console.log('🔄 Analysis job still processing');
@@ -1313,7 +1396,9 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
           weight: rate.shipment_data?.weight,
           accountName: rate.account_name,
           carrier: rate.carrier_type,
-          analyzedWithAccount: rate.account_name
+          analyzedWithAccount: rate.account_name,
+          sameServiceCost: rate.same_service_rate_amount ?? undefined,
+          isServiceDowngrade: rate.is_service_downgrade || undefined
         };
       });
 
@@ -1339,7 +1424,11 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
         recommendations: processedShipmentData,
         orphanedShipments: [], // TODO: Handle shipments that didn't get rates
         serviceMappings: [],
-        bestAccount: bestRates[0]?.account_name || 'Unknown'
+        bestAccount: bestRates[0]?.account_name || 'Unknown',
+        reportingCurrency: shippingAnalyses.reporting_currency || DEFAULT_CURRENCY,
+        recommendationMode: shippingAnalyses.recommendation_mode,
+        projectedWeeklySpend: shippingAnalyses.projected_weekly_spend ?? undefined,
+        deliveryWindow: (shippingAnalyses.processing_metadata as { delivery_window?: DeliveryWindowSummary } | null)?.delivery_window
       };
 
       // Set the data and finish loading
@@ -1474,6 +1563,12 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
         setMarkupData(data.markup_data as MarkupData);
       }
 
+      // A cancelled job's analysis only holds the shipments analyzed before it stopped
+      const jobMetadata = data.processing_metadata as { cancelledAt?: string; analyzedShipments?: number } | null;
+      if (jobMetadata?.cancelledAt) {
+        toast.info(`Analysis was cancelled after ${jobMetadata.analyzedShipments} of ${data.total_shipments} shipments; showing partial results`);
+      }
+
       // account_assignments removed - using processed_shipments as single source of truth
 
       // Load shipment rates first to determine best account
@@ -2102,52 +2197,6 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
     { min: 150, max: 999, label: '150+ lbs' }
   ];
 
-  // Calculate shipping zone based on origin and destination ZIP codes
-  const calculateShippingZone = (originZip: string, destZip: string): number => {
-    const originState = getStateFromZip(originZip)?.state;
-    const destState = getStateFromZip(destZip)?.state;
-    
-    if (!originState || !destState) return 8; // Default to highest zone for invalid ZIPs
-    
-    if (originState === destState) return 2; // Same state
-    
-    // Define regional zones
-    const regions = {
-      northeast: ['CT', 'ME', 'MA', 'NH', 'NJ', 'NY', 'PA', 'RI', 'VT'],
-      southeast: ['AL', 'AR', 'DE', 'FL', 'GA', 'KY', 'LA', 'MD', 'MS', 'NC', 'OK', 'SC', 'TN', 'TX', 'VA', 'WV'],
-      midwest: ['IL', 'IN', 'IA', 'KS', 'MI', 'MN', 'MO', 'NE', 'ND', 'OH', 'SD', 'WI'],
-      west: ['AK', 'AZ', 'CA', 'CO', 'HI', 'ID', 'MT', 'NV', 'NM', 'OR', 'UT', 'WA', 'WY']
-    };
-    
-    const getRegion = (state: string) => {
-      for (const [region, states] of Object.entries(regions)) {
-        if (states.includes(state)) return region;
-      }
-      return 'other';
-    };
-    
-    const originRegion = getRegion(originState);
-    const destRegion = getRegion(destState);
-    
-    if (originRegion === destRegion) return 3; // Same region
-    
-    // Adjacent regions
-    const adjacentRegions: Record<string, string[]> = {
-      northeast: ['southeast', 'midwest'],
-      southeast: ['northeast', 'midwest'],
-      midwest: ['northeast', 'southeast', 'west'],
-      west: ['midwest']
-    };
-    
-    if (adjacentRegions[originRegion]?.includes(destRegion)) return 4;
-    
-    // Coast to coast
-    if ((originRegion === 'northeast' && destRegion === 'west') || 
-        (originRegion === 'west' && destRegion === 'northeast')) return 7;
-    
-    return 5; // Default for other combinations
-  };
-
   const generateServiceCostData = () => {
     const dataToUse = getOverviewFilteredData();
     const serviceStats = dataToUse.reduce((acc, item) => {
@@ -2255,7 +2304,10 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
     const zoneStats = new Map();
     
     filteredShipments.forEach(shipment => {
-      const zone = calculateShippingZone(shipment.originZip || '', shipment.destinationZip || '');
+      const { zone } = resolveShippingZone(zoneCharts, shipment.originZip || '', shipment.destinationZip || '', {
+        carrierType: accountCarrierTypes[shipment.accountId] || (shipment.carrier || '').toLowerCase(),
+        configId: shipment.accountId
+      });
       const zoneLabel = `Zone ${zone}`;
       
       if (!zoneStats.has(zoneLabel)) {
@@ -2486,6 +2538,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                     analysisId={currentAnalysisId}
                     onMarkupChange={setMarkupData}
                     initialMarkupData={markupData}
+                    currency={reportingCurrency}
                   />
                 </AccordionComponents.AccordionContent>
               </AccordionComponents.AccordionItem>
@@ -2591,7 +2644,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">Current Cost</p>
-                      <p className="text-2xl font-bold">{formatCurrency(getFilteredStats().totalCurrentCost)}</p>
+                      <p className="text-2xl font-bold">{formatMoney(getFilteredStats().totalCurrentCost)}</p>
                     </div>
                     <DollarSign className="h-8 w-8 text-muted-foreground" />
                   </div>
@@ -2604,7 +2657,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">Ship Pros Cost</p>
-                      <p className="text-2xl font-bold">{formatCurrency(getFilteredStats().totalShipProsCost)}</p>
+                      <p className="text-2xl font-bold">{formatMoney(getFilteredStats().totalShipProsCost)}</p>
                     </div>
                     <TrendingUp className="h-8 w-8 text-muted-foreground" />
                   </div>
@@ -2618,7 +2671,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">Total Savings</p>
                       <p className={`text-2xl font-bold ${getFilteredStats().totalSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                        {formatCurrency(Math.abs(getFilteredStats().totalSavings))}
+                        {formatMoney(Math.abs(getFilteredStats().totalSavings))}
                       </p>
                       <p className={`text-sm ${getFilteredStats().totalSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                         {getFilteredStats().totalSavings >= 0 ? '+' : '-'}{Math.abs(getFilteredStats().averageSavingsPercent).toFixed(1)}%
@@ -2636,7 +2689,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">Est. Annual Savings</p>
                       <p className={`text-2xl font-bold ${getFilteredStats().totalSavings >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                        {formatCurrency(Math.abs(getFilteredStats().totalSavings * (365 / snapshotDays)))}
+                        {formatMoney(Math.abs(getFilteredStats().totalSavings * (365 / snapshotDays)))}
                       </p>
                       <p className="text-xs text-muted-foreground">Based on {snapshotDays}-day snapshot</p>
                     </div>
@@ -2646,6 +2699,25 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
               </Card>
             </div>
 
+            {/* Delivery-window downgrades */}
+            {analysisData?.recommendationMode === 'delivery_window' && analysisData.deliveryWindow && (
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Delivery Window Savings</p>
+                      <p className="text-2xl font-bold text-green-600">{formatMoney(analysisData.deliveryWindow.extraSavings)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {analysisData.deliveryWindow.downgradedShipments} shipment{analysisData.deliveryWindow.downgradedShipments === 1 ? '' : 's'} can move
+                        to a slower service that still delivers within the original commitment, saving this beyond the cheapest rate for their original service
+                      </p>
+                    </div>
+                    <Clock className="h-8 w-8 text-green-600" />
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Service Analysis Table */}
             <Card>
               <CardHeader>
@@ -2747,8 +2819,8 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                                   />
                                 </TableCell>
                                 <TableCell className="font-medium text-foreground">{service}</TableCell>
-                                 <TableCell className="text-right font-medium">{formatCurrency(avgCurrentCost)}</TableCell>
-                                 <TableCell className="text-right font-medium text-primary">{formatCurrency(avgMarkedUpPrice)}</TableCell>
+                                 <TableCell className="text-right font-medium">{formatMoney(avgCurrentCost)}</TableCell>
+                                 <TableCell className="text-right font-medium text-primary">{formatMoney(avgMarkedUpPrice)}</TableCell>
                                 <TableCell>
                                   <Badge variant="outline" className="text-xs">
                                     {spServiceType}
@@ -2759,7 +2831,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                                  <TableCell className="text-right">{(avgWeight || 0).toFixed(1)}</TableCell>
                                  <TableCell className="text-right">
                                    <span className={cn("font-medium", getSavingsColor(avgSavingsWithMarkup))}>
-                                     {formatCurrency(avgSavingsWithMarkup)}
+                                     {formatMoney(avgSavingsWithMarkup)}
                                    </span>
                                  </TableCell>
                                  <TableCell className="text-right">
@@ -2921,12 +2993,12 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                            axisLine={{ stroke: 'hsl(var(--border))' }}
                          />
                          <YAxis 
-                           tickFormatter={(value) => `$${value}`} 
+                           tickFormatter={formatAxisAmount} 
                            tick={{ fill: 'hsl(var(--foreground))' }}
                            axisLine={{ stroke: 'hsl(var(--border))' }}
                          />
                          <Tooltip 
-                           formatter={(value, name) => [formatCurrency(Number(value)), name]} 
+                           formatter={(value, name) => [formatMoney(Number(value)), name]} 
                            labelFormatter={(label) => {
                              const item = generateServiceCostData().find(d => d.currentService === label);
                              return item ? `${item.currentService} → ${item.shipProsService}` : label;
@@ -2987,12 +3059,12 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                          />
                          <YAxis 
                            tick={{ fontSize: 12, fill: 'hsl(var(--foreground))' }} 
-                           tickFormatter={(value) => `$${value}`}
+                           tickFormatter={formatAxisAmount}
                            axisLine={{ stroke: 'hsl(var(--border))' }}
                          />
                          <Tooltip 
                            formatter={(value: any, name: string) => [
-                             formatCurrency(value), 
+                             formatMoney(value), 
                              name === 'avgCurrentCost' ? 'Current Cost' : 'Ship Pros Cost'
                            ]}
                            contentStyle={{
@@ -3017,7 +3089,10 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
             <AccountComparisonView 
               shipmentRates={shipmentRates}
               shipmentData={shipmentData}
+              currency={reportingCurrency}
               serviceMappings={analysisData?.serviceMappings}
+              discountTiers={accountDiscountTiers}
+              projectedWeeklySpend={analysisData?.projectedWeeklySpend}
               onOptimizationChange={(selections) => {
                 console.log('Applying optimization selections:', selections);
                 
@@ -3043,6 +3118,8 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                       
                       const optimizedShipment = {
                         ...shipment,
+                        ...getRateChargeBreakdown(optimizedRate),
+                        billableWeight: optimizedRate.billable_weight ?? undefined,
                         ShipPros_cost: optimizedRate.rate_amount,
                         ShipPros_service: carrierSpecificService,
                         savings: newSavings,
@@ -3084,7 +3161,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                   });
                 }
                 
-                toast.success(`Optimization applied! New total savings: ${formatCurrency(totalSavings)}`);
+                toast.success(`Optimization applied! New total savings: ${formatMoney(totalSavings)}`);
               }}
             />
           </TabsContent>
@@ -3294,6 +3371,23 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                            </TableCell>
                             <TableCell className="text-foreground">
                               {parseFloat(item.weight || 0).toFixed(1)}
+                              {(() => {
+                                // Show what the carrier billed when dims or rounding changed the weight
+                                const billableWeight = getShipmentBillableWeight(item, shipmentRates);
+                                if (billableWeight == null || Math.abs(billableWeight - parseFloat(item.weight || 0)) < 0.05) {
+                                  return null;
+                                }
+                                return (
+                                  <div className="text-xs text-muted-foreground">
+                                    Billed {billableWeight < 1 ? `${Math.round(billableWeight * 16)} oz` : `${billableWeight} lbs`}
+                                  </div>
+                                );
+                              })()}
+                              {item.packageCount > 1 && (
+                                <div className="text-xs text-muted-foreground">
+                                  {item.packageCount} pieces{item.hundredweightEligible ? ' · Hundredweight eligible' : ''}
+                                </div>
+                              )}
                             </TableCell>
                             <TableCell className="text-foreground text-xs">
                               {item.length && item.width && item.height 
@@ -3321,15 +3415,53 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                               <Badge variant="outline" className="text-xs text-primary">
                                 {item.ShipPros_service || 'Ground'}
                               </Badge>
+                              {item.isServiceDowngrade && (
+                                <div className="text-xs text-muted-foreground">Meets delivery window</div>
+                              )}
                              </TableCell>
                             <TableCell className="text-right font-medium text-foreground">
-                              {formatCurrency(item.currentRate)}
+                              {formatMoney(item.currentRate)}
                             </TableCell>
                             <TableCell className="text-right font-medium text-primary">
                               {(() => {
                                 const markupInfo = getShipmentMarkup(item);
-                                return formatCurrency(markupInfo.markedUpPrice);
+                                const breakdown = getShipmentChargeBreakdown(item, shipmentRates);
+                                if (!breakdown || breakdown.surcharges.length === 0) {
+                                  return formatMoney(markupInfo.markedUpPrice);
+                                }
+
+                                return (
+                                  <InfoTooltip>
+                                    <TooltipTrigger asChild>
+                                      <span className="cursor-help underline decoration-dotted">
+                                        {formatMoney(markupInfo.markedUpPrice)}
+                                      </span>
+                                    </TooltipTrigger>
+                                    <TooltipContent side="left" className="text-xs">
+                                      <p className="font-medium mb-1">Carrier charges</p>
+                                      <div className="flex justify-between gap-4">
+                                        <span>Base</span>
+                                        <span>{formatMoney(breakdown.baseCharge)}</span>
+                                      </div>
+                                      {breakdown.surcharges.map((surcharge, surchargeIndex) => (
+                                        <div key={surchargeIndex} className="flex justify-between gap-4 text-muted-foreground">
+                                          <span>{SURCHARGE_LABELS[surcharge.type] || surcharge.description}</span>
+                                          <span>{formatMoney(surcharge.amount)}</span>
+                                        </div>
+                                      ))}
+                                      <div className="flex justify-between gap-4 border-t mt-1 pt-1">
+                                        <span>Surcharges</span>
+                                        <span>{formatMoney(getTotalSurcharges(breakdown.surcharges))}</span>
+                                      </div>
+                                    </TooltipContent>
+                                  </InfoTooltip>
+                                );
                               })()}
+                              {item.landedCost != null && (
+                                <div className="text-xs font-normal text-muted-foreground">
+                                  Landed {formatMoney(getShipmentMarkup(item).markedUpPrice + (item.dutyAmount || 0) + (item.taxAmount || 0))}
+                                </div>
+                              )}
                             </TableCell>
                             <TableCell className="text-right">
                               <div className={cn(
@@ -3352,7 +3484,7 @@ const Results: React.FC<ResultsProps> = ({ isClientView = false, shareToken }) =
                                   {(() => {
                                     const markupInfo = getShipmentMarkup(item);
                                     const savings = item.currentRate - markupInfo.markedUpPrice;
-                                    return formatCurrency(savings);
+                                    return formatMoney(savings);
                                   })()}
                                 </div>
                                 <span className="text-xs">
@@ -12,6 +12,7 @@ import { Save, User, Shield, BellRing, Truck, Cog, Settings2 } from 'lucide-reac
 import { CarrierAccountManager } from '@/components/ui-lov/CarrierAccountManager';
 import { FedexDebugTest } from '@/components/ui-lov/FedexDebugTest';
 import { ServiceTypesManager } from '@/components/ui-lov/ServiceTypesManager';
+import { ReportingCurrencySettings } from '@/components/ui-lov/ReportingCurrencySettings';
 
 
 const SettingsPage = () => {
@@ -186,7 +187,9 @@ const SettingsPage = () => {
             </Card>
           </TabsContent>
           
-          <TabsContent value="preferences">
+          <TabsContent value="preferences" className="space-y-6">
+            <ReportingCurrencySettings />
+
             <Card>
               <CardHeader>
                 <CardTitle>Application Preferences</CardTitle>
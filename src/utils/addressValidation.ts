@@ -1,14 +1,26 @@
 // Address validation utilities for shipping analysis
 
+import { DEFAULT_COUNTRY, normalizeCountryCode, validatePostalCode } from '@shared/countries';
+
 export interface AddressValidationResult {
   isValid: boolean;
   errors: string[];
   cleanedValue?: string;
 }
 
-// Validate US ZIP codes (5 digit or 5+4 format) - auto-extract first 5 digits
-export function validateZipCode(zipCode: string): AddressValidationResult {
-  console.log('🔍 ZIP VALIDATION INPUT:', zipCode, typeof zipCode);
+// Validate US ZIP codes (5 digit or 5+4 format) - auto-extract first 5 digits.
+// Postal codes of other countries are checked against that country's format.
+export function validateZipCode(zipCode: string, country?: string): AddressValidationResult {
+  console.log('🔍 ZIP VALIDATION INPUT:', zipCode, typeof zipCode, country);
+
+  if (country && normalizeCountryCode(country) !== DEFAULT_COUNTRY) {
+    const result = validatePostalCode(zipCode, country);
+    return {
+      isValid: result.isValid,
+      errors: result.error ? [result.error] : [],
+      cleanedValue: result.cleanedValue
+    };
+  }
   
   if (!zipCode || typeof zipCode !== 'string') {
     console.log('❌ ZIP VALIDATION FAILED: Missing or invalid type');
@@ -198,12 +210,12 @@ export function validateShipmentData(shipment: any): ShipmentValidationResult {
   });
 
   // Validate required fields - more flexible approach
-  const originZipResult = validateZipCode(shipment.originZip);
+  const originZipResult = validateZipCode(shipment.originZip, shipment.originCountry);
   if (!originZipResult.isValid) {
     errors.originZip = originZipResult.errors;
   }
 
-  const destZipResult = validateZipCode(shipment.destZip);
+  const destZipResult = validateZipCode(shipment.destZip, shipment.destCountry);
   if (!destZipResult.isValid) {
     errors.destZip = destZipResult.errors;
   }
@@ -1,6 +1,6 @@
-import { UniversalServiceCategory } from './universalServiceCategories';
+import { UniversalServiceCategory } from '@shared/serviceCategories';
 import { mapServiceToServiceCode } from './serviceMapping';
-import { getCarrierServiceCode, CarrierType } from './carrierServiceRegistry';
+import { getCarrierServiceCode, CarrierType } from '@shared/serviceRegistry';
 
 export interface CSVParseResult {
   headers: string[];
@@ -188,6 +188,36 @@ const fieldPatterns = {
     /date.*delivered/i, /date.*received/i, /date.*completed/i,
     /end.*date/i, /final.*date/i, /finish.*date/i,
     /proof.*delivery/i, /pod.*date/i, /confirmation.*date/i
+  ],
+  packageCount: [
+    /package.*count/i, /pkg.*count/i, /piece.*count/i, /carton.*count/i,
+    /box.*count/i, /^pieces$/i, /^pcs$/i, /^pkgs$/i, /num.*pieces/i,
+    /num.*packages/i, /number.*of.*(pieces|packages|cartons|boxes)/i,
+    /total.*(pieces|packages|cartons)/i
+  ],
+  shipmentReference: [
+    /shipment.*ref/i, /shipment.*number/i, /order.*number/i, /order.*id/i,
+    /order.*no/i, /^order$/i, /reference/i, /^ref/i, /consignment/i,
+    /master.*tracking/i, /parent.*tracking/i, /bill.*of.*lading/i, /^bol$/i
+  ],
+  originCountry: [
+    /origin.*country/i, /from.*country/i, /shipper.*country/i, /sender.*country/i,
+    /ship.*from.*country/i, /country.*of.*origin/i, /origin.*cntry/i
+  ],
+  destCountry: [
+    /dest.*country/i, /to.*country/i, /recipient.*country/i, /consignee.*country/i,
+    /receiver.*country/i, /delivery.*country/i, /ship.*to.*country/i, /^country$/i
+  ],
+  customsValue: [
+    /customs.*value/i, /declared.*value/i, /customs.*amount/i, /commercial.*value/i,
+    /invoice.*value/i, /goods.*value/i, /merchandise.*value/i, /item.*value/i
+  ],
+  hsCode: [
+    /hs.*code/i, /^hs$/i, /hts/i, /harmonized/i, /tariff.*code/i, /commodity.*code/i
+  ],
+  commodityDescription: [
+    /commodity.*desc/i, /goods.*desc/i, /contents/i, /item.*desc/i,
+    /product.*desc/i, /customs.*desc/i, /^commodity$/i
   ]
 };
 
@@ -278,6 +308,14 @@ export function generateConservativeColumnMappings(headers: string[]): FieldMapp
             confidence = Math.max(confidence, 90);
           } else if (headerLower.includes('width') && fieldName === 'width') {
             confidence = Math.max(confidence, 90);
+          } else if ((headerLower.includes('piece') || headerLower.includes('count')) && fieldName === 'packageCount') {
+            confidence = Math.max(confidence, 90);
+          } else if (headerLower.includes('country') && (fieldName === 'originCountry' || fieldName === 'destCountry')) {
+            confidence = Math.max(confidence, 90);
+          } else if ((headerLower.includes('customs') || headerLower.includes('declared')) && fieldName === 'customsValue') {
+            confidence = Math.max(confidence, 90);
+          } else if ((headerLower.includes('hs') || headerLower.includes('harmonized')) && fieldName === 'hsCode') {
+            confidence = Math.max(confidence, 90);
           } else {
             confidence = Math.max(confidence, 80); // General pattern match
           }
@@ -331,153 +369,6 @@ export function detectServiceTypes(data: any[], serviceColumn: string): ServiceM
   });
 }
 
-// New function to detect residential/commercial from address patterns
-export function detectResidentialFromAddress(address: string): { isResidential: boolean; confidence: number } {
-  if (!address || typeof address !== 'string') {
-    return { isResidential: false, confidence: 0 };
-  }
-  
-  const addressLower = address.toLowerCase().trim();
-  
-  // Strong residential indicators
-  const residentialPatterns = [
-    /apt\s*\d+/i, /apartment\s*\d+/i, /unit\s*\d+/i, /suite\s*\d+/i,
-    /#\s*\d+/i, /\d+[a-z]\s*$/i, // apartment/unit numbers
-    /house/i, /home/i, /residence/i
-  ];
-  
-  // Strong commercial indicators  
-  const commercialPatterns = [
-    /\b(llc|inc|corp|ltd|company|co\.|corporation|incorporated)\b/i,
-    /\b(office|building|plaza|center|centre|tower|floor|fl\s*\d+)\b/i,
-    /\b(warehouse|distribution|fulfillment|dock|bay\s*\d+)\b/i,
-    /\b(business|store|shop|retail|mall)\b/i
-  ];
-  
-  // Check for commercial patterns first (higher confidence)
-  for (const pattern of commercialPatterns) {
-    if (pattern.test(addressLower)) {
-      return { isResidential: false, confidence: 0.8 };
-    }
-  }
-  
-  // Check for residential patterns
-  for (const pattern of residentialPatterns) {
-    if (pattern.test(addressLower)) {
-      return { isResidential: true, confidence: 0.7 };
-    }
-  }
-  
-  // Default to commercial with low confidence if unclear
-  return { isResidential: false, confidence: 0.2 };
-}
-
-// New function to determine residential status with hierarchical logic
-export function determineResidentialStatus(
-  shipment: any,
-  serviceMapping: ServiceMapping,
-  csvResidentialField?: string
-): { isResidential: boolean; source: string; confidence: number } {
-  
-  console.log('🏠 Determining residential status:', {
-    shipmentId: shipment.trackingId || 'unknown',
-    hasManualSetting: serviceMapping.isResidential !== undefined,
-    manualSetting: serviceMapping.isResidential,
-    residentialSource: serviceMapping.residentialSource,
-    hasResidentialDetected: serviceMapping.isResidentialDetected,
-    csvResidentialField: csvResidentialField,
-    recipientAddress: shipment.recipientAddress
-  });
-  
-  // 1. Primary: Use explicit CSV column data if available
-  if (csvResidentialField && shipment[csvResidentialField] !== undefined) {
-    const csvValue = shipment[csvResidentialField];
-    const isResidential = parseResidentialValue(csvValue);
-    console.log('🏠 Using CSV data for residential status:', { csvValue, isResidential });
-    return { 
-      isResidential, 
-      source: 'csv_data', 
-      confidence: 0.95 
-    };
-  }
-  
-  // 2. Secondary: Use manual settings from service mapping page (HIGHEST PRIORITY for user control)
-  if (serviceMapping.isResidential !== undefined && serviceMapping.residentialSource === 'manual') {
-    console.log('🏠 Using MANUAL residential setting from service mapping page:', { 
-      isResidential: serviceMapping.isResidential,
-      source: 'manual'
-    });
-    return { 
-      isResidential: serviceMapping.isResidential, 
-      source: 'manual', 
-      confidence: 0.9 
-    };
-  }
-  
-  // 3. Tertiary: Use service name intelligence (if detected from service name)
-  if (serviceMapping.isResidentialDetected && serviceMapping.isResidential !== undefined) {
-    console.log('🏠 Using service name intelligence for residential status:', { 
-      isResidential: serviceMapping.isResidential,
-      source: 'service_name'
-    });
-    return { 
-      isResidential: serviceMapping.isResidential, 
-      source: 'service_name', 
-      confidence: 0.8 
-    };
-  }
-  
-  // 4. Quaternary: Use address pattern analysis
-  if (shipment.recipientAddress) {
-    const addressAnalysis = detectResidentialFromAddress(shipment.recipientAddress);
-    if (addressAnalysis.confidence > 0.6) {
-      console.log('🏠 Using address pattern analysis for residential status:', { 
-        isResidential: addressAnalysis.isResidential,
-        confidence: addressAnalysis.confidence,
-        address: shipment.recipientAddress,
-        source: 'address_pattern'
-      });
-      return {
-        isResidential: addressAnalysis.isResidential,
-        source: 'address_pattern',
-        confidence: addressAnalysis.confidence
-      };
-    }
-  }
-  
-  // 5. Fallback: Use any other service mapping settings
-  if (serviceMapping.isResidential !== undefined) {
-    console.log('🏠 Using fallback service mapping residential setting:', { 
-      isResidential: serviceMapping.isResidential,
-      source: 'fallback_mapping'
-    });
-    return { 
-      isResidential: serviceMapping.isResidential, 
-      source: 'fallback_mapping', 
-      confidence: 0.5 
-    };
-  }
-  
-  // 6. Ultimate fallback: assume commercial
-  console.log('🏠 Using default commercial setting (no other data available)');
-  return { 
-    isResidential: false, 
-    source: 'default', 
-    confidence: 0.1 
-  };
-}
-
-// Helper function to parse residential values from CSV data
-function parseResidentialValue(value: any): boolean {
-  if (typeof value === 'boolean') return value;
-  if (typeof value === 'string') {
-    const lower = value.toLowerCase().trim();
-    return ['yes', 'y', 'true', '1', 'residential', 'home'].includes(lower);
-  }
-  if (typeof value === 'number') return value === 1;
-  return false;
-}
-
 export function standardizeService(service: string): { service: string; confidence: number; isResidential?: boolean; residentialSource?: string } {
   const serviceLower = service.toLowerCase().trim();
   
@@ -1,5 +1,8 @@
 
 import { toast } from 'sonner';
+import { SURCHARGE_LABELS, sumSurchargesByType, type RateChargeBreakdown, type RateSurcharge, type SurchargeType } from '@shared/surcharges';
+import { DEFAULT_CURRENCY } from '@shared/currency';
+import type { DeliveryWindowSummary } from '@shared/deliveryWindow';
 
 // Standardized interfaces for data processing
 export interface ProcessedAnalysisData {
@@ -18,6 +21,10 @@ export interface ProcessedAnalysisData {
   client_id?: string;
   bestAccount?: string;
   serviceMappings?: any[];
+  reportingCurrency?: string; // Currency every amount of the analysis is in
+  recommendationMode?: string; // 'same_service' or 'delivery_window'
+  deliveryWindow?: DeliveryWindowSummary; // Set for delivery-window analyses
+  projectedWeeklySpend?: number; // Spend earned-discount tiers were priced at
 }
 
 export interface ProcessedShipmentData {
@@ -41,6 +48,17 @@ export interface ProcessedShipmentData {
   accountName?: string;
   accountId?: string;
   analyzedWithAccount?: { name: string } | string; // Can be object with name or string
+  baseCharge?: number; // Carrier charge before surcharges (no markup)
+  surcharges?: RateSurcharge[];
+  billableWeight?: number; // lbs the selected rate was priced at
+  packageCount?: number; // Pieces of a multi-piece shipment
+  hundredweightEligible?: boolean; // Selected rate's carrier would price it by the hundredweight
+  destinationCountry?: string; // Set for international shipments
+  dutyAmount?: number; // Estimated import duty from the tariff table
+  taxAmount?: number; // Estimated import VAT / GST
+  landedCost?: number; // Carrier cost plus estimated duty and tax; shown with the markup applied
+  sameServiceCost?: number; // Cheapest rate for the original service, when a slower one was recommended
+  isServiceDowngrade?: boolean; // Recommended a slower service that still meets the delivery window
 }
 
 export interface ValidationResult {
@@ -165,7 +183,11 @@ export const processAnalysisData = (analysis: any, getShipmentMarkup?: (shipment
     file_name: analysis.file_name,
     report_name: analysis.report_name,
     client_id: analysis.client_id,
-    bestAccount
+    bestAccount,
+    reportingCurrency: analysis.reporting_currency || DEFAULT_CURRENCY,
+    recommendationMode: analysis.recommendation_mode,
+    deliveryWindow: analysis.savings_analysis?.deliveryWindow || analysis.processing_metadata?.delivery_window,
+    projectedWeeklySpend: analysis.projected_weekly_spend ?? undefined
   };
 };
 
@@ -193,6 +215,10 @@ export const formatShipmentData = (recommendations: any[], shipmentRates?: any[]
     // Always force usage of the best account rates - no fallbacks
     let shipProsCost = 0;
     let shipProsService = originalService; // Default to original service
+    let chargeBreakdown: RateChargeBreakdown | null = null;
+    let billableWeight: number | undefined;
+    let hundredweightEligible: boolean | undefined;
+    let landedCost: Pick<ProcessedShipmentData, 'dutyAmount' | 'taxAmount' | 'landedCost'> = {};
     
     if (bestAccount && shipmentRates?.length) {
       // Filter rates for this specific shipment and account
@@ -228,6 +254,16 @@ export const formatShipmentData = (recommendations: any[], shipmentRates?: any[]
         if (selectedRate) {
           shipProsCost = selectedRate.rate_amount || 0;
           shipProsService = selectedRate.service_name || selectedRate.service_code || 'Ground';
+          chargeBreakdown = getRateChargeBreakdown(selectedRate);
+          billableWeight = selectedRate.billable_weight ?? undefined;
+          hundredweightEligible = isHundredweightEligible(selectedRate);
+          if (selectedRate.landed_cost != null) {
+            landedCost = {
+              dutyAmount: selectedRate.duty_amount ?? 0,
+              taxAmount: selectedRate.tax_amount ?? 0,
+              landedCost: selectedRate.landed_cost
+            };
+          }
           
           console.log(`✅ Using rate from best account "${bestAccount}" for shipment ${index + 1}:`, {
             trackingId: rec.shipment?.trackingId || rec.trackingId,
@@ -299,11 +335,82 @@ export const formatShipmentData = (recommendations: any[], shipmentRates?: any[]
       account: usedAccount,
       accountName: usedAccount,
       accountId: usedAccountId,
-      analyzedWithAccount: usedAccount // Changed to simple string
+      analyzedWithAccount: usedAccount, // Changed to simple string
+      baseCharge: chargeBreakdown?.baseCharge,
+      surcharges: chargeBreakdown?.surcharges,
+      billableWeight,
+      packageCount: (rec.shipment?.packages || rec.packages)?.length || undefined,
+      hundredweightEligible,
+      destinationCountry: rec.shipment?.destCountry || rec.destinationCountry || undefined,
+      sameServiceCost: rec.sameServiceCost ?? undefined,
+      isServiceDowngrade: rec.isServiceDowngrade || undefined,
+      ...landedCost
     };
   });
 };
 
+// The shipment_rates columns needed to recover a rate's charge breakdown and billable weight
+export interface ShipmentRateCharges {
+  account_name?: string;
+  shipment_index?: number;
+  shipment_data?: { trackingId?: string } | unknown;
+  rate_amount?: number;
+  base_charge?: number | null;
+  surcharges?: unknown;
+  billable_weight?: number | null;
+  rate_response?: unknown;
+}
+
+// Multi-piece rates are flagged when the shipment meets the carrier's hundredweight minimum
+export const isHundredweightEligible = (rate: ShipmentRateCharges): boolean => {
+  const response = rate.rate_response as { hundredweightEligible?: boolean; hundredweight_eligible?: boolean } | null;
+  return Boolean(response?.hundredweightEligible ?? response?.hundredweight_eligible);
+};
+
+// Base charge and typed surcharges stored with a shipment_rates row
+export const getRateChargeBreakdown = (rate: ShipmentRateCharges): RateChargeBreakdown => ({
+  baseCharge: rate.base_charge ?? rate.rate_amount ?? 0,
+  surcharges: Array.isArray(rate.surcharges) ? (rate.surcharges as RateSurcharge[]) : []
+});
+
+// The shipment_rates row matching the account and cost a shipment was priced with
+const findShipmentRate = (
+  shipment: Partial<ProcessedShipmentData>,
+  shipmentRates?: ShipmentRateCharges[]
+): ShipmentRateCharges | undefined => {
+  const accountName = shipment.accountName || shipment.account;
+  return shipmentRates?.find(rate =>
+    rate.account_name === accountName &&
+    ((rate.shipment_data as { trackingId?: string } | null)?.trackingId === shipment.trackingId || rate.shipment_index === shipment.id - 1) &&
+    Math.abs((rate.rate_amount || 0) - (shipment.ShipPros_cost || 0)) < 0.01
+  );
+};
+
+// Charge breakdown of the rate a shipment was priced with. Shipments saved before
+// breakdowns were captured fall back to the matching shipment_rates row.
+export const getShipmentChargeBreakdown = (
+  shipment: Partial<ProcessedShipmentData>,
+  shipmentRates?: ShipmentRateCharges[]
+): RateChargeBreakdown | null => {
+  if (Array.isArray(shipment.surcharges)) {
+    return { baseCharge: shipment.baseCharge ?? shipment.ShipPros_cost ?? 0, surcharges: shipment.surcharges };
+  }
+
+  const rate = findShipmentRate(shipment, shipmentRates);
+  return rate ? getRateChargeBreakdown(rate) : null;
+};
+
+// Weight the shipment's selected rate was priced at, from the shipment or its shipment_rates row
+export const getShipmentBillableWeight = (
+  shipment: Partial<ProcessedShipmentData>,
+  shipmentRates?: ShipmentRateCharges[]
+): number | null => {
+  if (shipment.billableWeight != null) {
+    return shipment.billableWeight;
+  }
+  return findShipmentRate(shipment, shipmentRates)?.billable_weight ?? null;
+};
+
 // Error handling utility
 export const handleDataProcessingError = (error: any, context: string): void => {
   console.error(`❌ Error in ${context}:`, error);
@@ -315,24 +422,55 @@ export const handleDataProcessingError = (error: any, context: string): void =>
   }
 };
 
+// Export cell for an amount: "$12.50" for USD reports, "12.50 EUR" otherwise
+export const formatExportAmount = (amount: number, currency: string = DEFAULT_CURRENCY): string =>
+  currency === DEFAULT_CURRENCY ? `$${amount.toFixed(2)}` : `${amount.toFixed(2)} ${currency}`;
+
 // Generate CSV export data with markup
-export const generateExportData = (filteredData: any[], getShipmentMarkup: (shipment: any) => any) => {
+export const generateExportData = (
+  filteredData: any[],
+  getShipmentMarkup: (shipment: any) => any,
+  shipmentRates?: ShipmentRateCharges[],
+  currency: string = DEFAULT_CURRENCY
+) => {
+  const money = (amount: number) => formatExportAmount(amount, currency);
   return filteredData.map(item => {
     const markupInfo = getShipmentMarkup(item);
     const savings = item.currentRate - markupInfo.markedUpPrice;
     const savingsPercent = item.currentRate > 0 ? (savings / item.currentRate) * 100 : 0;
+
+    // Carrier cost split into base charge and one column per surcharge type
+    const breakdown = getShipmentChargeBreakdown(item, shipmentRates);
+    const surchargesByType = sumSurchargesByType(breakdown?.surcharges);
+    const billableWeight = getShipmentBillableWeight(item, shipmentRates);
+    const surchargeColumns = (Object.keys(SURCHARGE_LABELS) as SurchargeType[]).reduce((columns, type) => {
+      columns[`${SURCHARGE_LABELS[type]} Surcharge`] = breakdown ? money(surchargesByType[type] || 0) : '';
+      return columns;
+    }, {} as Record<string, string>);
+
     return {
       'Tracking ID': item.trackingId,
       'Origin ZIP': item.originZip,
       'Destination ZIP': item.destinationZip,
       'Weight': item.weight,
+      'Billable Weight': billableWeight ?? '',
+      'Pieces': item.packageCount || 1,
+      'Hundredweight Eligible': item.hundredweightEligible ? 'Yes' : '',
       'Dimensions': item.dimensions || `${item.length || 0}x${item.width || 0}x${item.height || 0}`,
       'Current Service': item.customer_service,
       'Ship Pros Service': item.ShipPros_service,
-      'Current Rate': `$${item.currentRate.toFixed(2)}`,
-      'Ship Pros Cost': `$${markupInfo.markedUpPrice.toFixed(2)}`,
-      'Savings': `$${savings.toFixed(2)}`,
-      'Savings Percentage': `${savingsPercent.toFixed(1)}%`
+      'Current Rate': money(item.currentRate),
+      'Ship Pros Cost': money(markupInfo.markedUpPrice),
+      'Savings': money(savings),
+      'Savings Percentage': `${savingsPercent.toFixed(1)}%`,
+      'Carrier Base Charge': breakdown ? money(breakdown.baseCharge) : '',
+      ...surchargeColumns,
+      'Destination Country': item.destinationCountry || '',
+      'Est. Duty': item.landedCost != null ? money(item.dutyAmount || 0) : '',
+      'Est. Tax': item.landedCost != null ? money(item.taxAmount || 0) : '',
+      'Landed Cost': item.landedCost != null
+        ? money(markupInfo.markedUpPrice + (item.dutyAmount || 0) + (item.taxAmount || 0))
+        : ''
     };
   });
 };
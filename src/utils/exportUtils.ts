@@ -1,6 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import * as XLSX from 'xlsx';
-import { generateExportData, processAnalysisData } from '@/utils/dataProcessing';
+import { formatExportAmount, generateExportData, processAnalysisData, type ShipmentRateCharges } from '@/utils/dataProcessing';
 
 export interface ExportableReportData {
   id: string;
@@ -16,6 +16,7 @@ export interface ExportableReportData {
   recommendations: any;
   orphaned_shipments: any;
   processed_shipments?: any;
+  reporting_currency?: string;
 }
 
 // Generate Excel workbook from processed shipment data (same as Results page)
@@ -23,7 +24,8 @@ export const generateReportExcelFromProcessedData = (
   report: ExportableReportData, 
   processedShipments: any[], 
   orphanedShipments: any[], 
-  getShipmentMarkup: (shipment: any) => any
+  getShipmentMarkup: (shipment: any) => any,
+  shipmentRates?: ShipmentRateCharges[]
 ): XLSX.WorkBook => {
   const workbook = XLSX.utils.book_new();
   
@@ -45,35 +47,20 @@ export const generateReportExcelFromProcessedData = (
   const markupAdjustment = markupData.totalMargin || 0;
   const adjustedSavings = totalSavings - markupAdjustment;
   
-  analysisData.push(['Total Savings (with markup):', `$${adjustedSavings.toFixed(2)}`]);
+  analysisData.push(['Total Savings (with markup):', formatExportAmount(adjustedSavings, report.reporting_currency)]);
   analysisData.push([]);
   
   // Use the same export data generation as Results page
   if (processedShipments && processedShipments.length > 0) {
-    const exportDataFromResults = generateExportData(processedShipments, getShipmentMarkup);
+    const exportDataFromResults = generateExportData(processedShipments, getShipmentMarkup, shipmentRates, report.reporting_currency);
     
-    // Column headers (from the generateExportData function)
-    analysisData.push([
-      'Tracking ID', 'Origin ZIP', 'Destination ZIP', 'Weight', 'Dimensions',
-      'Current Service', 'Ship Pros Service', 'Current Rate', 'Ship Pros Cost', 
-      'Savings', 'Savings Percentage'
-    ]);
+    // Column headers (from the generateExportData function, including the surcharge breakdown)
+    const columns = Object.keys(exportDataFromResults[0]);
+    analysisData.push(columns);
     
     // Shipment data
     exportDataFromResults.forEach((row: any) => {
-      analysisData.push([
-        row['Tracking ID'],
-        row['Origin ZIP'],
-        row['Destination ZIP'],
-        row['Weight'],
-        row['Dimensions'],
-        row['Current Service'],
-        row['Ship Pros Service'],
-        row['Current Rate'],
-        row['Ship Pros Cost'],
-        row['Savings'],
-        row['Savings Percentage']
-      ]);
+      analysisData.push(columns.map(column => row[column]));
     });
   } else {
     analysisData.push(['No analyzed shipment data available', '', '', '', '', '', '', '', '', '']);
@@ -166,6 +153,7 @@ export const downloadReportExcel = async (reportId: string): Promise<void> => {
         processed_shipments,
         orphaned_shipments,
         client_id,
+        reporting_currency,
         clients (company_name)
       `)
       .eq('id', reportId)
@@ -179,6 +167,12 @@ export const downloadReportExcel = async (reportId: string): Promise<void> => {
 
     // Process the analysis data using the same function as Results page
     const analysisData = processAnalysisData(report);
+
+    // Stored rates carry the surcharge breakdown for shipments saved without one
+    const { data: shipmentRates } = await supabase
+      .from('shipment_rates')
+      .select('account_name, shipment_index, shipment_data, rate_amount, base_charge, surcharges')
+      .eq('analysis_id', reportId);
     
     // Create markup function
     const getShipmentMarkup = (shipment: any) => {
@@ -209,7 +203,7 @@ export const downloadReportExcel = async (reportId: string): Promise<void> => {
 
     // Generate Excel workbook using processed data
     const orphanedData = Array.isArray(report.orphaned_shipments) ? report.orphaned_shipments : [];
-    const workbook = generateReportExcelFromProcessedData(exportData, analysisData.recommendations, orphanedData, getShipmentMarkup);
+    const workbook = generateReportExcelFromProcessedData(exportData, analysisData.recommendations, orphanedData, getShipmentMarkup, shipmentRates || []);
     
     // Write workbook to buffer
     const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
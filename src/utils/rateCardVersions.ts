@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { dayBefore, type RateCardVersion } from '@shared/rateCardVersioning';
+
+type RateCardRateRow = Omit<TablesInsert<'rate_card_rates'>, 'carrier_config_id' | 'version_id'>;
+
+interface NewRateCardVersion {
+  userId: string;
+  carrierConfigId: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  sourceFileName?: string | null;
+  rates: RateCardRateRow[];
+}
+
+const INSERT_CHUNK_SIZE = 500;
+
+// Load an account's rate card versions, newest first
+export const loadRateCardVersions = async (carrierConfigId: string): Promise<RateCardVersion[]> => {
+  const { data, error } = await supabase
+    .from('rate_card_versions')
+    .select('id, carrier_config_id, version_number, effective_from, effective_to, source_file_name, created_at')
+    .eq('carrier_config_id', carrierConfigId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('Error loading rate card versions:', error);
+    return [];
+  }
+  return data || [];
+};
+
+/**
+ * Save uploaded rates as a new version of an account's rate card. The version it replaces
+ * stays on file and is closed the day before the new one takes effect.
+ */
+export const createRateCardVersion = async ({
+  userId,
+  carrierConfigId,
+  effectiveFrom,
+  sourceFileName,
+  rates
+}: NewRateCardVersion): Promise<RateCardVersion> => {
+  const existing = await loadRateCardVersions(carrierConfigId);
+  const versionNumber = (existing[0]?.version_number || 0) + 1;
+
+  const { data: version, error: versionError } = await supabase
+    .from('rate_card_versions')
+    .insert({
+      user_id: userId,
+      carrier_config_id: carrierConfigId,
+      version_number: versionNumber,
+      effective_from: effectiveFrom,
+      source_file_name: sourceFileName || null
+    })
+    .select('id, carrier_config_id, version_number, effective_from, effective_to, source_file_name, created_at')
+    .single();
+
+  if (versionError) throw versionError;
+
+  const rows = rates.map(rate => ({ ...rate, carrier_config_id: carrierConfigId, version_id: version.id }));
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('rate_card_rates')
+      .insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+
+    if (error) {
+      // Don't leave a half-loaded version behind; its rates cascade with it
+      await supabase.from('rate_card_versions').delete().eq('id', version.id);
+      throw error;
+    }
+  }
+
+  // Versions still open on the new effective date end the day before it
+  const superseded = existing.filter(previous =>
+    previous.effective_from < effectiveFrom &&
+    (!previous.effective_to || previous.effective_to >= effectiveFrom)
+  );
+  if (superseded.length > 0) {
+    const { error: closeError } = await supabase
+      .from('rate_card_versions')
+      .update({ effective_to: dayBefore(effectiveFrom) })
+      .in('id', superseded.map(previous => previous.id));
+
+    if (closeError) throw closeError;
+  }
+
+  return version;
+};
@@ -2,7 +2,7 @@
  * Carrier-agnostic service mapping utility to convert various service names to universal service categories
  */
 
-import { UniversalServiceCategory, DEFAULT_SERVICE_CATEGORIES } from './universalServiceCategories';
+import { UniversalServiceCategory, DEFAULT_SERVICE_CATEGORIES } from '@shared/serviceCategories';
 
 export interface ServiceMapping {
   standardizedService: UniversalServiceCategory;
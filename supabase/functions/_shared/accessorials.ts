@@ -0,0 +1,153 @@
+/**
+ * Accessorial rules for rate card accounts. API carriers price these charges into their
+ * quotes; rate card accounts declare them as rules (stored in
+ * carrier_configs.accessorial_rules) that are evaluated against each package.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+export type AccessorialType =
+  | 'residential'
+  | 'additional_handling'
+  | 'large_package'
+  | 'oversize'
+  | 'signature';
+
+export interface AccessorialRule {
+  type: AccessorialType;
+  amount: number;
+  // Dimensional rules fire when ANY threshold is met; unset thresholds are ignored
+  min_weight?: number | null; // lbs
+  min_longest_side?: number | null; // inches
+  min_second_side?: number | null; // inches
+  min_length_plus_girth?: number | null; // inches
+  // Signature rules normally need the shipment to ask for one; some accounts require it always
+  always?: boolean;
+}
+
+export interface AccessorialPackage {
+  weight: number;
+  length?: number;
+  width?: number;
+  height?: number;
+}
+
+export interface AccessorialShipmentFlags {
+  isResidential?: boolean;
+  signatureRequired?: boolean;
+}
+
+export interface AccessorialCharge {
+  type: AccessorialType;
+  code: string;
+  description: string;
+  amount: number;
+}
+
+export const ACCESSORIAL_LABELS: Record<AccessorialType, string> = {
+  residential: 'Residential Surcharge',
+  additional_handling: 'Additional Handling',
+  large_package: 'Large Package Surcharge',
+  oversize: 'Oversize (Over Maximum Limits)',
+  signature: 'Signature Required'
+};
+
+// Written on the quote line so classifySurcharge files them under the right type
+const ACCESSORIAL_CODES: Record<AccessorialType, string> = {
+  residential: 'RESIDENTIAL_DELIVERY',
+  additional_handling: 'ADDITIONAL_HANDLING',
+  large_package: 'LARGE_PACKAGE',
+  oversize: 'OVERSIZE',
+  signature: 'SIGNATURE'
+};
+
+// Carriers bill fuel on residential and dimensional fees like on transportation; signature fees are exempt
+const FUEL_EXEMPT: AccessorialType[] = ['signature'];
+
+// Only the most severe dimensional charge is billed, the way UPS and FedEx do it
+const DIMENSIONAL_SEVERITY: AccessorialType[] = ['additional_handling', 'large_package', 'oversize'];
+
+/**
+ * Starting values for a new rule, based on published UPS/FedEx ground thresholds.
+ */
+export const ACCESSORIAL_DEFAULTS: Record<AccessorialType, AccessorialRule> = {
+  residential: { type: 'residential', amount: 5.85 },
+  additional_handling: {
+    type: 'additional_handling',
+    amount: 32,
+    min_weight: 50,
+    min_longest_side: 48,
+    min_second_side: 30
+  },
+  large_package: {
+    type: 'large_package',
+    amount: 190,
+    min_longest_side: 96,
+    min_length_plus_girth: 130
+  },
+  oversize: {
+    type: 'oversize',
+    amount: 1250,
+    min_weight: 150,
+    min_longest_side: 108,
+    min_length_plus_girth: 165
+  },
+  signature: { type: 'signature', amount: 6.95, always: false }
+};
+
+const meets = (value: number, threshold: number | null | undefined) =>
+  threshold != null && threshold > 0 && value >= threshold;
+
+function dimensionalRuleApplies(rule: AccessorialRule, pkg: AccessorialPackage): boolean {
+  const sides = [pkg.length, pkg.width, pkg.height]
+    .map(side => Number(side) || 0)
+    .sort((a, b) => b - a);
+  const [longest, second, third] = sides;
+  const lengthPlusGirth = longest + 2 * (second + third);
+
+  return meets(Number(pkg.weight) || 0, rule.min_weight)
+    || meets(longest, rule.min_longest_side)
+    || meets(second, rule.min_second_side)
+    || (longest > 0 && meets(lengthPlusGirth, rule.min_length_plus_girth));
+}
+
+function ruleApplies(rule: AccessorialRule, pkg: AccessorialPackage, flags: AccessorialShipmentFlags): boolean {
+  switch (rule.type) {
+    case 'residential':
+      return flags.isResidential === true;
+    case 'signature':
+      return rule.always === true || flags.signatureRequired === true;
+    default:
+      return dimensionalRuleApplies(rule, pkg);
+  }
+}
+
+/**
+ * Charges an account's rules add to one package.
+ */
+export function evaluateAccessorials(
+  rules: AccessorialRule[] | null | undefined,
+  pkg: AccessorialPackage,
+  flags: AccessorialShipmentFlags
+): AccessorialCharge[] {
+  const applicable = (rules || []).filter(rule => Number(rule.amount) > 0 && ruleApplies(rule, pkg, flags));
+
+  const mostSevere = applicable
+    .map(rule => DIMENSIONAL_SEVERITY.indexOf(rule.type))
+    .reduce((max, severity) => Math.max(max, severity), -1);
+
+  return applicable
+    .filter(rule => {
+      const severity = DIMENSIONAL_SEVERITY.indexOf(rule.type);
+      return severity === -1 || severity === mostSevere;
+    })
+    .map(rule => ({
+      type: rule.type,
+      code: ACCESSORIAL_CODES[rule.type],
+      description: ACCESSORIAL_LABELS[rule.type],
+      amount: Number(rule.amount)
+    }));
+}
+
+export function isFuelSurchargeable(type: AccessorialType): boolean {
+  return !FUEL_EXEMPT.includes(type);
+}
@@ -0,0 +1,167 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getEnvInt } from './concurrency.ts';
+import { jsonResponse } from './cors.ts';
+
+// Times a job is resumed from its checkpoint without the user asking before it is failed
+export const MAX_JOB_RETRIES = 3;
+
+// The analysis_jobs columns needed to resume a job
+export interface ResumableJob {
+  id: string;
+  analysis_id: string | null;
+  status: string;
+  retry_count: number;
+  updated_at: string;
+}
+
+/**
+ * Hand a job to the analysis-worker function. The worker accepts the job and answers
+ * before doing any work, so this resolves quickly while the analysis carries on
+ * server-side.
+ */
+export async function invokeAnalysisWorker(jobId: string): Promise<void> {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1/analysis-worker`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ jobId })
+  });
+
+  if (!response.ok) {
+    throw new Error(`analysis-worker returned ${response.status}: ${await response.text()}`);
+  }
+}
+
+/**
+ * Oldest `updated_at` a running job may have. A worker checkpoints after every batch,
+ * so a job untouched for longer (ANALYSIS_STALE_MS) has lost its worker.
+ */
+export function staleJobCutoff(now = Date.now()): string {
+  return new Date(now - getEnvInt('ANALYSIS_STALE_MS', 600000)).toISOString();
+}
+
+export function isStaleJob(job: Pick<ResumableJob, 'status' | 'updated_at'>, now = Date.now()): boolean {
+  return (job.status === 'pending' || job.status === 'in_progress') && job.updated_at < staleJobCutoff(now);
+}
+
+/**
+ * Claim a job for a new worker, which continues after the last checkpointed shipment.
+ * The claim only matches while `retry_count` is unchanged (and, with `staleBefore`,
+ * while the job is still stuck), so callers racing on one job start a single worker.
+ * A new `run_id` tells any earlier worker still on the job to stop. Returns whether
+ * this call claimed the job.
+ */
+export async function resumeAnalysisJob(
+  supabase: SupabaseClient,
+  job: ResumableJob,
+  options: { retryCount: number; staleBefore?: string }
+): Promise<boolean> {
+  let claim = supabase
+    .from('analysis_jobs')
+    .update({ status: 'in_progress', retry_count: options.retryCount, run_id: crypto.randomUUID() })
+    .eq('id', job.id)
+    .eq('retry_count', job.retry_count);
+  // Completed and cancelled jobs stay that way, even if cancelled since the caller looked
+  claim = options.staleBefore
+    ? claim.in('status', ['pending', 'in_progress']).lt('updated_at', options.staleBefore)
+    : claim.in('status', ['pending', 'in_progress', 'paused', 'failed']);
+
+  const { data: claimed, error } = await claim.select('id');
+  if (error) {
+    throw new Error(`Failed to claim analysis job ${job.id}: ${error.message}`);
+  }
+  if (!claimed || claimed.length === 0) {
+    return false;
+  }
+
+  if (job.analysis_id) {
+    await supabase.from('shipping_analyses').update({ status: 'processing' }).eq('id', job.analysis_id);
+  }
+  await invokeAnalysisWorker(job.id);
+  return true;
+}
+
+/**
+ * Resume one of a user's jobs that failed, was paused or got stuck, and answer with
+ * the response to send back.
+ */
+export async function resumeUserJob(supabase: SupabaseClient, userId: string, jobId: string): Promise<Response> {
+  const { data: job, error } = await supabase
+    .from('analysis_jobs')
+    .select('id, analysis_id, status, retry_count, updated_at, processed_shipments')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !job) {
+    return jsonResponse({ error: 'Analysis job not found' }, 404);
+  }
+  if (job.status === 'completed' || job.status === 'cancelling' || job.status === 'cancelled') {
+    return jsonResponse({ error: `Analysis job is already ${job.status}` }, 409);
+  }
+  if (job.status !== 'failed' && job.status !== 'paused' && !isStaleJob(job)) {
+    return jsonResponse({ error: 'Analysis job is still running' }, 409);
+  }
+
+  // A resume asked for by the user gets a fresh set of automatic retries
+  const claimed = await resumeAnalysisJob(supabase, job as ResumableJob, { retryCount: 0 });
+  if (!claimed) {
+    return jsonResponse({ error: 'Analysis job was resumed by another request' }, 409);
+  }
+
+  console.log(`▶️ Resumed analysis job ${jobId} at shipment ${job.processed_shipments}`);
+  return jsonResponse({ jobId, status: 'in_progress', resumedFrom: job.processed_shipments }, 202);
+}
+
+/**
+ * Mark a job and its analysis failed. Stored results and the checkpoint are kept, so
+ * the job can still be resumed.
+ */
+export async function failAnalysisJob(supabase: SupabaseClient, jobId: string, message: string): Promise<void> {
+  const { data: job } = await supabase
+    .from('analysis_jobs')
+    .update({ status: 'failed', error_message: message })
+    .eq('id', jobId)
+    .select('analysis_id')
+    .single();
+  if (job?.analysis_id) {
+    await supabase.from('shipping_analyses').update({ status: 'failed' }).eq('id', job.analysis_id);
+  }
+}
+
+/**
+ * Restart jobs that stopped checkpointing, optionally only one user's. Jobs that have
+ * used up their retries are failed instead. Returns the ids of the restarted jobs.
+ */
+export async function requeueStaleJobs(supabase: SupabaseClient, userId?: string): Promise<string[]> {
+  const staleBefore = staleJobCutoff();
+  let query = supabase
+    .from('analysis_jobs')
+    .select('id, analysis_id, status, retry_count, updated_at')
+    .in('status', ['pending', 'in_progress'])
+    .lt('updated_at', staleBefore)
+    .limit(50);
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data: jobs, error } = await query;
+  if (error) {
+    throw new Error(`Failed to find stuck analysis jobs: ${error.message}`);
+  }
+
+  const requeued: string[] = [];
+  for (const job of (jobs || []) as ResumableJob[]) {
+    if (job.retry_count >= MAX_JOB_RETRIES) {
+      await failAnalysisJob(supabase, job.id, 'The analysis stopped responding and could not be restarted');
+      continue;
+    }
+    if (await resumeAnalysisJob(supabase, job, { retryCount: job.retry_count + 1, staleBefore })) {
+      console.log(`🔁 Requeued stuck analysis job ${job.id}`);
+      requeued.push(job.id);
+    }
+  }
+  return requeued;
+}
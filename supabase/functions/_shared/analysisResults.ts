@@ -0,0 +1,289 @@
+import { summarizeFuelUsage } from './fuelSurcharge.ts'
+import type { FuelUsage } from './fuelSurcharge.ts'
+import type {
+  ConfirmedServiceMapping,
+  QuotedRate,
+  ShipmentAnalysisResult,
+  UploadedShipment
+} from '../analysis-worker/analyzeShipment.ts'
+
+// Shipments arrive as the worker stored them or as older clients posted them, so any field may be missing
+type ResultShipment = Partial<UploadedShipment>
+
+// A priced shipment, as analysis-worker/finalize.ts summarizes a completed result
+export interface AnalysisRecommendation extends Pick<ShipmentAnalysisResult, 'allRates' | 'sameServiceCost' | 'isServiceDowngrade'> {
+  shipment: ResultShipment;
+  currentCost: number;
+  recommendedCost: number;
+  savings: number;
+  customer_service?: string;
+  ShipPros_service?: string;
+  carrier?: string;
+  upsRates?: QuotedRate[]; // Older clients' name for allRates
+}
+
+// A shipment that couldn't be priced
+export interface OrphanedShipment extends Pick<ShipmentAnalysisResult, 'error' | 'errorType'> {
+  shipment: ResultShipment;
+  customer_service?: string;
+}
+
+// A row of the original upload. Some clients nest the shipment, and older ones posted results here
+type OriginalDataEntry = ResultShipment & Partial<Pick<ShipmentAnalysisResult, 'status' | 'allRates'>> & {
+  shipment?: ResultShipment;
+}
+
+export interface AnalysisPayload {
+  fileName: string;
+  totalShipments: number;
+  completedShipments: number;
+  errorShipments: number;
+  totalCurrentCost: number;
+  totalPotentialSavings: number;
+  recommendations: AnalysisRecommendation[];
+  orphanedShipments: OrphanedShipment[];
+  originalData: OriginalDataEntry[];
+  carrierConfigsUsed: string[];
+  serviceMappings?: ConfirmedServiceMapping[];
+  rateCardVersionPins?: Record<string, string>;
+  reportingCurrency?: string; // Set server-side from the user's settings
+  recommendationMode?: string; // 'same_service' or 'delivery_window'
+  batchInfo?: {
+    batchIndex: number;
+    totalBatches: number;
+    analysisId: string;
+  };
+}
+
+export interface AccountAssignment {
+  accountTotals: { [accountName: string]: { totalCost: number; shipmentCount: number } };
+  bestOverallAccount: string;
+  serviceToAccountMapping: { [serviceCategory: string]: string };
+}
+
+const getServiceCategory = (rec: AnalysisRecommendation): string => rec.customer_service || rec.shipment.service || 'Unknown'
+const getRateAccount = (rate: QuotedRate): string => String(rate.carrierName || rate.accountName || 'Unknown')
+const getRateAmount = (rate: QuotedRate): number => parseFloat(String(rate.totalCharges || rate.negotiatedRate || rate.rate_amount || 0))
+
+// Amazon only quotes Ground; any other Amazon rate is invalid and left out of the totals
+function isInvalidAmazonRate(rate: QuotedRate): boolean {
+  const carrierType = rate.carrierType || 'unknown'
+  const serviceName = (rate.serviceName || '').toLowerCase()
+  return carrierType.toLowerCase() === 'amazon' && serviceName !== 'ground' && !serviceName.includes('ground')
+}
+
+/**
+ * Recommendations that can be priced: a known service and at least one rate. The rest
+ * end up as orphaned shipments.
+ */
+export function getValidRecommendations(recommendations: AnalysisRecommendation[]): AnalysisRecommendation[] {
+  return recommendations.filter(rec => {
+    const service = rec.customer_service || rec.shipment.service || '';
+    const hasValidService = service && service.trim() !== '' && service !== 'Unknown';
+    const hasRates = rec.allRates && rec.allRates.length > 0;
+    return hasValidService && hasRates;
+  });
+}
+
+/**
+ * The account with the lowest total cost across every shipment becomes the primary
+ * account; each service category goes to it when it quoted that category, otherwise to
+ * the account with the lowest average cost for the category.
+ */
+export function assignServiceAccounts(validRecommendations: AnalysisRecommendation[]): AccountAssignment {
+  const accountTotals: AccountAssignment['accountTotals'] = {};
+  const serviceCategoryStats: { [serviceCategory: string]: { [accountName: string]: { totalCost: number; rateCount: number } } } = {};
+
+  validRecommendations.forEach(rec => {
+    if (!Array.isArray(rec.allRates)) return;
+    const serviceCategory = getServiceCategory(rec);
+    serviceCategoryStats[serviceCategory] ??= {};
+
+    rec.allRates.forEach(rate => {
+      if (isInvalidAmazonRate(rate)) return;
+
+      const accountName = getRateAccount(rate);
+      const rateAmount = getRateAmount(rate);
+      accountTotals[accountName] ??= { totalCost: 0, shipmentCount: 0 };
+      accountTotals[accountName].totalCost += rateAmount;
+      accountTotals[accountName].shipmentCount += 1;
+
+      serviceCategoryStats[serviceCategory][accountName] ??= { totalCost: 0, rateCount: 0 };
+      serviceCategoryStats[serviceCategory][accountName].totalCost += rateAmount;
+      serviceCategoryStats[serviceCategory][accountName].rateCount += 1;
+    });
+  });
+
+  let bestOverallAccount = '';
+  let lowestTotalCost = Infinity;
+  Object.entries(accountTotals).forEach(([accountName, totals]) => {
+    if (totals.totalCost < lowestTotalCost) {
+      lowestTotalCost = totals.totalCost;
+      bestOverallAccount = accountName;
+    }
+  });
+
+  const serviceToAccountMapping: AccountAssignment['serviceToAccountMapping'] = {};
+  Object.keys(serviceCategoryStats).forEach(serviceCategory => {
+    const accounts = serviceCategoryStats[serviceCategory];
+
+    if (accounts[bestOverallAccount] && accounts[bestOverallAccount].rateCount > 0) {
+      serviceToAccountMapping[serviceCategory] = bestOverallAccount;
+      return;
+    }
+
+    let bestAccountForService = '';
+    let lowestAverageCost = Infinity;
+    Object.entries(accounts).forEach(([accountName, stats]) => {
+      const averageCost = stats.totalCost / stats.rateCount;
+      if (averageCost < lowestAverageCost) {
+        lowestAverageCost = averageCost;
+        bestAccountForService = accountName;
+      }
+    });
+    serviceToAccountMapping[serviceCategory] = bestAccountForService || bestOverallAccount;
+  });
+
+  return { accountTotals, bestOverallAccount, serviceToAccountMapping };
+}
+
+/**
+ * Results rows for priced shipments, each at the rate of the account its service
+ * category was assigned to. `startIndex` offsets ids for batches after the first.
+ */
+export function formatProcessedShipments(validRecommendations: AnalysisRecommendation[], assignment: AccountAssignment, startIndex = 0) {
+  return validRecommendations.map((rec, index) => {
+    const serviceCategory = getServiceCategory(rec);
+    const assignedAccount = assignment.serviceToAccountMapping[serviceCategory] || assignment.bestOverallAccount;
+    const assignedAccountRate = Array.isArray(rec.allRates)
+      ? rec.allRates.find(rate => getRateAccount(rate) === assignedAccount)
+      : null;
+
+    // Use the assigned account rate or fallback to best available rate
+    const newRate = assignedAccountRate ? getRateAmount(assignedAccountRate) : Number(rec.recommendedCost) || 0;
+    const currentRate = Number(rec.currentCost) || 0;
+    const savings = currentRate - newRate;
+    const id = startIndex + index + 1;
+
+    return {
+      id,
+      trackingId: rec.shipment.trackingId || `Shipment-${id}`,
+      originZip: rec.shipment.originZip || '',
+      destinationZip: rec.shipment.destZip || '',
+      weight: parseFloat(rec.shipment.weight || '0'),
+      length: parseFloat(rec.shipment.length || '0'),
+      width: parseFloat(rec.shipment.width || '0'),
+      height: parseFloat(rec.shipment.height || '0'),
+      dimensions: rec.shipment.dimensions,
+      carrier: rec.carrier || 'UPS',
+      customer_service: serviceCategory,
+      ShipPros_service: assignedAccountRate ? (assignedAccountRate.serviceName || assignedAccountRate.description || 'Ground') : 'Ground',
+      currentRate: currentRate,
+      ShipPros_cost: newRate,
+      savings: savings,
+      savingsPercent: currentRate > 0 ? (savings / currentRate) * 100 : 0,
+      analyzedWithAccount: assignedAccount, // Use the account assigned for this service category
+      accountName: assignedAccount, // Also store as accountName for easier access
+      sameServiceCost: rec.sameServiceCost ?? null, // Delivery-window analyses only
+      isServiceDowngrade: !!rec.isServiceDowngrade
+    }
+  })
+}
+
+/**
+ * Results rows for shipments that couldn't be priced, numbered after the completed ones.
+ * The current rate is looked up in the original upload, which names it many ways.
+ */
+export function formatOrphanedShipments(payload: Pick<AnalysisPayload, 'orphanedShipments' | 'originalData' | 'completedShipments'>) {
+  return payload.orphanedShipments.map((orphan, index) => {
+    const originalEntry = payload.originalData?.find(orig =>
+      orig.shipment?.trackingId === orphan.shipment.trackingId ||
+      orig.trackingId === orphan.shipment.trackingId ||
+      orig.tracking_id === orphan.shipment.trackingId
+    );
+
+    const currentRate = originalEntry ?
+      originalEntry.shipment?.currentRate ||
+      originalEntry.currentRate ||
+      originalEntry.current_rate ||
+      originalEntry.cost ||
+      originalEntry.rate ||
+      originalEntry.amount ||
+      originalEntry.price || 0 : 0;
+
+    return {
+      id: payload.completedShipments + index + 1,
+      trackingId: orphan.shipment.trackingId || `Orphan-${index + 1}`,
+      originZip: orphan.shipment.originZip || '',
+      destinationZip: orphan.shipment.destZip || '',
+      weight: parseFloat(orphan.shipment.weight || '0'),
+      length: parseFloat(orphan.shipment.length || '0'),
+      width: parseFloat(orphan.shipment.width || '0'),
+      height: parseFloat(orphan.shipment.height || '0'),
+      dimensions: orphan.shipment.dimensions,
+      service: orphan.customer_service || orphan.shipment.service || 'Unknown',
+      currentRate: parseFloat(String(currentRate)) || 0,
+      error: orphan.error || 'Processing failed',
+      errorType: orphan.errorType || 'Unknown',
+      errorCategory: 'Processing Error'
+    }
+  })
+}
+
+/**
+ * A shipment_rates row for one quoted rate, read by the account comparison view.
+ */
+export function toShipmentRateRow(analysisId: string, shipmentIndex: number, rate: QuotedRate, shipment: unknown) {
+  return {
+    analysis_id: analysisId,
+    shipment_index: shipmentIndex,
+    carrier_config_id: rate.carrierId || '',
+    account_name: getRateAccount(rate),
+    carrier_type: rate.carrierType || 'ups',
+    service_code: rate.serviceCode || '',
+    service_name: rate.serviceName || rate.description || '',
+    rate_amount: rate.totalCharges || rate.negotiatedRate || rate.rate_amount || 0,
+    base_charge: rate.baseCharges ?? null,
+    surcharges: rate.surcharges || [],
+    billable_weight: rate.billableWeight ?? null,
+    fuel_surcharge_percent: rate.fuelSurcharge ?? null,
+    fuel_effective_date: rate.fuelEffectiveDate ?? null,
+    rate_card_version_id: rate.rateCardVersionId ?? null,
+    duty_amount: rate.dutyAmount ?? null,
+    tax_amount: rate.taxAmount ?? null,
+    landed_cost: rate.landedCost ?? null,
+    currency: rate.currency || 'USD',
+    original_currency: rate.originalCurrency ?? null,
+    original_rate_amount: rate.originalTotalCharges ?? null,
+    exchange_rate: rate.exchangeRate ?? null,
+    transit_days: rate.transitTime || null,
+    is_negotiated: rate.rateType === 'negotiated' || rate.hasNegotiatedRates || false,
+    published_rate: rate.publishedRate || null,
+    earned_discount_percent: rate.earnedDiscountPercent ?? null,
+    shipment_data: shipment || {}
+  }
+}
+
+interface QuotedRateFuel {
+  carrierName?: string;
+  accountName?: string;
+  carrierType?: string;
+  fuelSurcharge?: number;
+  fuelEffectiveDate?: string | null;
+}
+
+// Distinct fuel rates the quoted rate card rates were priced with
+export function summarizeRecommendationFuel(
+  recommendations: { allRates?: QuotedRateFuel[] }[],
+  previous?: FuelUsage[]
+): FuelUsage[] {
+  const rates = recommendations
+    .flatMap(rec => (Array.isArray(rec.allRates) ? rec.allRates : []))
+    .map(rate => ({
+      account_name: rate.carrierName || rate.accountName,
+      carrier_type: rate.carrierType,
+      fuel_surcharge_percent: rate.fuelSurcharge,
+      fuel_effective_date: rate.fuelEffectiveDate
+    }));
+  return summarizeFuelUsage(rates, previous);
+}
@@ -0,0 +1,96 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { jsonResponse } from './cors.ts';
+
+export type AuthenticatedRequest =
+  | { supabase: SupabaseClient; user: User; authHeader: string; response?: undefined }
+  | { response: Response };
+
+// Names the user a service role call from the analysis worker acts for
+export const JOB_USER_HEADER = 'x-analysis-job-user';
+
+/**
+ * Whether `authHeader` carries the service role key, i.e. the call comes from another
+ * edge function rather than a browser.
+ */
+export function isServiceRoleRequest(authHeader: string | null): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceKey && authHeader === `Bearer ${serviceKey}`;
+}
+
+/**
+ * Verify the caller's JWT and return a client that acts as that user, so RLS applies
+ * to every query. On failure `response` holds the 401 to return.
+ *
+ * Analysis jobs outlive the user's session, so the worker calls with the service role
+ * key and names the user in JOB_USER_HEADER instead. That client bypasses RLS and
+ * forwards both headers to nested function calls; callers already scope by `user.id`.
+ */
+export async function authenticateRequest(req: Request): Promise<AuthenticatedRequest> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return { response: jsonResponse({ error: 'No authorization header' }, 401) };
+  }
+
+  const jobUserId = req.headers.get(JOB_USER_HEADER);
+  if (jobUserId) {
+    return authenticateJobRequest(authHeader, jobUserId);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  // Verify user authentication
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { response: jsonResponse({ error: 'Unauthorized' }, 401) };
+  }
+
+  return { supabase, user, authHeader };
+}
+
+async function authenticateJobRequest(authHeader: string, userId: string): Promise<AuthenticatedRequest> {
+  if (!isServiceRoleRequest(authHeader)) {
+    return { response: jsonResponse({ error: 'Unauthorized' }, 401) };
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { global: { headers: { Authorization: authHeader, [JOB_USER_HEADER]: userId } } }
+  );
+
+  const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(userId);
+  if (userError || !user) {
+    return { response: jsonResponse({ error: 'Unauthorized' }, 401) };
+  }
+
+  return { supabase, user, authHeader };
+}
+
+/**
+ * Verify the caller's JWT but return a service role client, for background work that
+ * writes on the user's behalf. Queries must scope by `user.id` themselves.
+ */
+export async function authenticateServiceRequest(req: Request): Promise<AuthenticatedRequest> {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return { response: jsonResponse({ error: 'Missing authorization header' }, 401) };
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !user) {
+    return { response: jsonResponse({ error: 'Invalid authorization token' }, 401) };
+  }
+
+  return { supabase, user, authHeader };
+}
@@ -0,0 +1,123 @@
+/**
+ * Billable weight the way each carrier computes it: dimensions and weight rounded up,
+ * the carrier's (or account's negotiated) DIM divisor, cubic thresholds below which
+ * dimensions are ignored, and ounce pricing for light parcels. Every rating path uses
+ * it so rate cards, API quotes and the Results page agree on what a package weighs.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+export interface BillableWeightPackage {
+  weight: number;
+  weightUnit?: string; // LBS (default), OZ, KGS
+  length?: number;
+  width?: number;
+  height?: number;
+  dimensionUnit?: string; // IN (default), CM
+}
+
+export interface BillableWeightOptions {
+  carrierType: string;
+  serviceCategory?: string | null; // UniversalServiceCategory, e.g. GROUND
+  divisor?: number | null; // Account's negotiated divisor, where the carrier allows one
+}
+
+export interface BillableWeightResult {
+  actualWeight: number; // lbs, rounded up the way the carrier rounds
+  dimensionalWeight: number | null; // lbs; null when dimensions don't count
+  billableWeight: number; // lbs; fractional when priced in ounces
+  divisor: number | null;
+  pricingUnit: 'lb' | 'oz';
+  isDimensional: boolean;
+}
+
+interface DimWeightRule {
+  divisor: number; // cubic inches per lb
+  minCubicInches?: number; // dimensions are ignored at or below this volume
+  negotiableDivisor: boolean;
+  ouncePricing?: boolean; // under 1 lb, priced by the ounce
+}
+
+const CARRIER_RULES: Record<string, DimWeightRule> = {
+  ups: { divisor: 139, negotiableDivisor: true },
+  fedex: { divisor: 139, negotiableDivisor: true },
+  dhl: { divisor: 139, negotiableDivisor: true },
+  amazon: { divisor: 139, negotiableDivisor: true },
+  // USPS only applies DIM weight to parcels over one cubic foot, always at 166
+  usps: { divisor: 166, minCubicInches: 1728, negotiableDivisor: false }
+};
+
+// Per-service differences on top of the carrier rule, keyed by universal service category
+const SERVICE_RULES: Record<string, Record<string, Partial<DimWeightRule>>> = {
+  usps: {
+    GROUND: { ouncePricing: true } // Ground Advantage prices 1-15.99 oz by the ounce
+  }
+};
+
+const DEFAULT_RULE: DimWeightRule = { divisor: 139, negotiableDivisor: true };
+
+// Guard against float noise turning 12.000000001 into 13
+const roundUp = (value: number) => Math.ceil(value - 1e-9);
+
+function toPounds(weight: number, unit = 'LBS'): number {
+  const normalized = unit.toUpperCase();
+  if (normalized.startsWith('OZ')) return weight / 16;
+  if (normalized.startsWith('KG')) return weight * 2.20462;
+  return weight;
+}
+
+function toInches(length: number | undefined, unit = 'IN'): number {
+  const value = Number(length) || 0;
+  return unit.toUpperCase() === 'CM' ? value / 2.54 : value;
+}
+
+export function getDimWeightRule(carrierType: string, serviceCategory?: string | null): DimWeightRule {
+  const carrierRule = CARRIER_RULES[carrierType?.toLowerCase()] || DEFAULT_RULE;
+  const serviceRule = serviceCategory ? SERVICE_RULES[carrierType?.toLowerCase()]?.[serviceCategory] : undefined;
+  return { ...carrierRule, ...serviceRule };
+}
+
+export function calculateBillableWeight(
+  pkg: BillableWeightPackage,
+  options: BillableWeightOptions
+): BillableWeightResult {
+  const rule = getDimWeightRule(options.carrierType, options.serviceCategory);
+  const pounds = Math.max(toPounds(Number(pkg.weight) || 0, pkg.weightUnit), 0);
+
+  const sides = [pkg.length, pkg.width, pkg.height].map(side => roundUp(toInches(side, pkg.dimensionUnit)));
+  const cubicInches = sides.every(side => side > 0) ? sides[0] * sides[1] * sides[2] : 0;
+  const divisor = rule.negotiableDivisor && options.divisor && options.divisor > 0 ? options.divisor : rule.divisor;
+  const dimensionalWeight = cubicInches > 0 && cubicInches > (rule.minCubicInches || 0)
+    ? roundUp(cubicInches / divisor)
+    : null;
+
+  // Light parcels priced by the ounce keep their fractional weight (in whole ounces)
+  if (rule.ouncePricing && pounds < 1 && (dimensionalWeight === null || dimensionalWeight <= 1)) {
+    const ounces = Math.max(roundUp(pounds * 16), 1);
+    return {
+      actualWeight: ounces / 16,
+      dimensionalWeight,
+      billableWeight: ounces / 16,
+      divisor: dimensionalWeight === null ? null : divisor,
+      pricingUnit: 'oz',
+      isDimensional: false
+    };
+  }
+
+  const actualWeight = Math.max(roundUp(pounds), 1);
+  const isDimensional = dimensionalWeight !== null && dimensionalWeight > actualWeight;
+  return {
+    actualWeight,
+    dimensionalWeight,
+    billableWeight: isDimensional ? dimensionalWeight : actualWeight,
+    divisor: dimensionalWeight === null ? null : divisor,
+    pricingUnit: 'lb',
+    isDimensional
+  };
+}
+
+/**
+ * Weight in the unit a rate card's weight breaks are written in.
+ */
+export function toRateCardWeight(billableWeight: number, weightUnit?: string | null): number {
+  return weightUnit?.toLowerCase() === 'oz' ? Math.round(billableWeight * 16 * 100) / 100 : billableWeight;
+}
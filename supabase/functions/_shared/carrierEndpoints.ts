@@ -0,0 +1,29 @@
+/**
+ * OAuth and Rating endpoints of the UPS and FedEx APIs. An account's api_base_url, when
+ * set, replaces the carrier's host, so a config can point the real auth and rate functions
+ * at the mock-carrier function (or any other stand-in) and run them end to end offline.
+ */
+
+export type EndpointCarrier = 'ups' | 'fedex';
+export type EndpointKind = 'token' | 'rate';
+
+const CARRIER_HOSTS: Record<EndpointCarrier, { sandbox: string; production: string }> = {
+  ups: { sandbox: 'https://wwwcie.ups.com', production: 'https://onlinetools.ups.com' },
+  fedex: { sandbox: 'https://apis-sandbox.fedex.com', production: 'https://apis.fedex.com' }
+};
+
+// Paths are kept on overridden hosts so a stand-in can route requests the way the carrier does
+export const CARRIER_PATHS: Record<EndpointCarrier, Record<EndpointKind, string>> = {
+  ups: { token: '/security/v1/oauth/token', rate: '/api/rating/v1/Rate' },
+  fedex: { token: '/oauth/token', rate: '/rate/v1/rates/quotes' }
+};
+
+export function getCarrierEndpoint(
+  carrier: EndpointCarrier,
+  kind: EndpointKind,
+  config: { is_sandbox?: boolean | null; api_base_url?: string | null }
+): string {
+  const override = config.api_base_url?.trim().replace(/\/+$/, '');
+  const host = override || (config.is_sandbox ? CARRIER_HOSTS[carrier].sandbox : CARRIER_HOSTS[carrier].production);
+  return `${host}${CARRIER_PATHS[carrier][kind]}`;
+}
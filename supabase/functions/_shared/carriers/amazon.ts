@@ -0,0 +1,30 @@
+import { normalizeApiRate, testWithSampleShipment } from './common.ts';
+import type { CarrierAdapter } from './types.ts';
+
+// Amazon Shipping has no public rating API we can call yet; Amazon accounts are rated from rate cards
+export const amazonAdapter: CarrierAdapter = {
+  carrierType: 'amazon',
+  displayName: 'Amazon',
+  defaultServiceCodes: ['GROUND'],
+
+  validateConfig() {
+    return [];
+  },
+
+  async authenticate(_ctx, config) {
+    return { authenticated: true, isSandbox: config.is_sandbox };
+  },
+
+  async rate(_ctx, _shipment, config) {
+    console.log(`📦 Amazon API rating is not available for ${config.account_name} - upload a rate card instead`);
+    return [];
+  },
+
+  testConnection(ctx, config) {
+    return testWithSampleShipment(amazonAdapter, ctx, config);
+  },
+
+  normalizeRate(raw) {
+    return normalizeApiRate(raw);
+  }
+};
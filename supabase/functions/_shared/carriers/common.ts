@@ -0,0 +1,247 @@
+import type {
+  CarrierAdapter,
+  CarrierAuthResult,
+  CarrierConfig,
+  CarrierContext,
+  CarrierTestResult,
+  CarrierTypeCode,
+  NormalizedRate,
+  ShipmentRequest,
+} from './types.ts';
+import { CarrierRequestError } from '../resilience.ts';
+import { calculateBillableWeight } from '../billableWeight.ts';
+import { getHundredweightEligibility, getShipmentPackages } from '../packages.ts';
+import { CarrierType, getUniversalCategoryFromCarrierCode } from '../serviceRegistry.ts';
+
+// Sample shipment used by connection tests (same lanes as the old UI connectivity hooks)
+export const SAMPLE_SHIPMENT: ShipmentRequest = {
+  shipFrom: {
+    name: 'Test Shipper',
+    address: '123 Main St',
+    city: 'Atlanta',
+    state: 'GA',
+    zipCode: '30309',
+    country: 'US'
+  },
+  shipTo: {
+    name: 'Test Recipient',
+    address: '456 Oak Ave',
+    city: 'Chicago',
+    state: 'IL',
+    zipCode: '60601',
+    country: 'US'
+  },
+  package: {
+    weight: 5,
+    weightUnit: 'LBS',
+    length: 12,
+    width: 12,
+    height: 6,
+    dimensionUnit: 'IN',
+    packageType: '02'
+  },
+  isResidential: false,
+  residentialSource: 'test'
+};
+
+export function toAmount(value: unknown): number {
+  const amount = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+function toOptionalAmount(value: unknown): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : toAmount(value);
+}
+
+/**
+ * Coerce a rate returned by a carrier edge function into the NormalizedRate shape.
+ */
+export function normalizeApiRate(raw: Record<string, unknown>, source: NormalizedRate['source'] = 'api'): NormalizedRate {
+  return {
+    ...raw,
+    serviceCode: String(raw.serviceCode ?? raw.service_code ?? 'UNKNOWN'),
+    serviceName: String(raw.serviceName ?? raw.service_name ?? raw.description ?? raw.serviceCode ?? ''),
+    description: raw.description ? String(raw.description) : undefined,
+    totalCharges: toAmount(raw.totalCharges ?? raw.rate_amount ?? raw.cost),
+    currency: String(raw.currency ?? 'USD'),
+    baseCharges: toOptionalAmount(raw.baseCharges),
+    billableWeight: toOptionalAmount(raw.billableWeight),
+    publishedRate: toOptionalAmount(raw.publishedRate ?? raw.listRate),
+    negotiatedRate: toOptionalAmount(raw.negotiatedRate ?? raw.accountRate),
+    hasNegotiatedRates: Boolean(raw.hasNegotiatedRates ?? raw.hasAccountRates ?? false),
+    savingsAmount: toOptionalAmount(raw.savingsAmount),
+    savingsPercentage: toOptionalAmount(raw.savingsPercentage),
+    source
+  };
+}
+
+/**
+ * Invoke another edge function, forwarding the end user's JWT when we have one.
+ * Throws a CarrierRequestError carrying the function's HTTP status and error message
+ * so callers can categorize failures.
+ */
+export async function invokeCarrierFunction<T = Record<string, unknown>>(
+  ctx: CarrierContext,
+  functionName: string,
+  body: Record<string, unknown>
+): Promise<T> {
+  const { data, error } = await ctx.supabase.functions.invoke(functionName, {
+    body,
+    headers: ctx.authHeader ? { Authorization: ctx.authHeader } : undefined
+  });
+
+  if (error) {
+    // FunctionsHttpError exposes the raw response as `context`
+    const response = (error as { context?: Response }).context;
+    let message = error.message;
+    if (response instanceof Response) {
+      const body = await response.json().catch(() => null) as { error?: string } | null;
+      message = body?.error || message;
+    }
+    throw new CarrierRequestError(
+      `${functionName} error: ${message}`,
+      response instanceof Response ? response.status : undefined
+    );
+  }
+
+  return data as T;
+}
+
+/**
+ * Standard connection test: config validation, authentication, then a sample quote.
+ */
+export async function testWithSampleShipment(
+  adapter: CarrierAdapter,
+  ctx: CarrierContext,
+  config: CarrierConfig,
+  sampleShipment: ShipmentRequest = SAMPLE_SHIPMENT
+): Promise<CarrierTestResult> {
+  const problems = adapter.validateConfig(config);
+  if (problems.length > 0) {
+    return { success: false, message: problems.join('. ') };
+  }
+
+  const auth = await adapter.authenticate(ctx, config);
+  if (!auth.authenticated) {
+    return {
+      success: false,
+      message: `Failed to authenticate with ${adapter.displayName}: ${auth.error || 'Unable to obtain access token'}`
+    };
+  }
+
+  const serviceCodes = config.enabled_services?.length
+    ? adapter.defaultServiceCodes.filter(code => config.enabled_services!.includes(code))
+    : adapter.defaultServiceCodes;
+  const rates = await adapter.rate(ctx, sampleShipment, config, serviceCodes.length > 0 ? serviceCodes : adapter.defaultServiceCodes);
+
+  if (rates.length === 0) {
+    return {
+      success: false,
+      message: `${adapter.displayName} authentication succeeded, but no rates were returned for the test shipment.`
+    };
+  }
+
+  return {
+    success: true,
+    message: `${adapter.displayName} connection test successful! Found ${rates.length} rate(s).`,
+    details: {
+      sandbox: config.is_sandbox,
+      testRates: rates.slice(0, 3)
+    }
+  };
+}
+
+interface ApiCarrierAdapterOptions {
+  carrierType: CarrierTypeCode;
+  displayName: string;
+  rateFunction: string;
+  authFunction?: string;
+  defaultServiceCodes: string[];
+  cachesQuotes?: boolean;
+  testShipment?: ShipmentRequest;
+  validateConfig(config: CarrierConfig): string[];
+}
+
+/**
+ * Build an adapter for a carrier whose API calls live in `<carrier>-auth` /
+ * `<carrier>-rate-quote` edge functions.
+ */
+export function createApiCarrierAdapter(options: ApiCarrierAdapterOptions): CarrierAdapter {
+  const adapter: CarrierAdapter = {
+    carrierType: options.carrierType,
+    displayName: options.displayName,
+    defaultServiceCodes: options.defaultServiceCodes,
+    cachesQuotes: options.cachesQuotes,
+    validateConfig: options.validateConfig,
+
+    async authenticate(ctx, config): Promise<CarrierAuthResult> {
+      // Carriers without an OAuth step authenticate on every rate request
+      if (!options.authFunction) {
+        return { authenticated: true, isSandbox: config.is_sandbox };
+      }
+
+      try {
+        const data = await invokeCarrierFunction<{ access_token?: string; is_sandbox?: boolean; cached?: boolean }>(
+          ctx,
+          options.authFunction,
+          { action: 'get_token', config_id: config.id }
+        );
+        return {
+          authenticated: !!data?.access_token,
+          isSandbox: data?.is_sandbox,
+          cached: data?.cached,
+          error: data?.access_token ? undefined : 'No access token returned'
+        };
+      } catch (error) {
+        return { authenticated: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    },
+
+    async rate(ctx, shipment, config, serviceCodes) {
+      console.log(`📦 Getting ${options.displayName} rates for ${config.account_name}...`);
+
+      const data = await invokeCarrierFunction<{ rates?: Record<string, unknown>[] }>(ctx, options.rateFunction, {
+        shipment: {
+          ...shipment,
+          serviceTypes: serviceCodes.length > 0 ? serviceCodes : shipment.serviceTypes
+        },
+        configId: config.id // Pass specific config ID for this carrier
+      });
+
+      const pieces = getShipmentPackages(shipment);
+      return (data?.rates || []).map(rate => {
+        const normalized = adapter.normalizeRate(rate);
+        const serviceCategory = getUniversalCategoryFromCarrierCode(
+          options.carrierType.toUpperCase() as CarrierType,
+          normalized.serviceCode
+        );
+        const pieceWeights = pieces.map(pkg => calculateBillableWeight(pkg, {
+          carrierType: options.carrierType,
+          serviceCategory
+        }).billableWeight);
+
+        // Not every carrier reports the weight it billed; fall back to its published rules
+        normalized.billableWeight ??= pieceWeights.reduce((sum, weight) => sum + weight, 0);
+        if (pieces.length > 1) {
+          normalized.packageCount = pieces.length;
+          normalized.hundredweightEligible ??= getHundredweightEligibility(
+            pieceWeights,
+            options.carrierType,
+            serviceCategory
+          ).eligible;
+        }
+        return normalized;
+      });
+    },
+
+    testConnection(ctx, config) {
+      return testWithSampleShipment(adapter, ctx, config, options.testShipment);
+    },
+
+    normalizeRate(raw) {
+      return normalizeApiRate(raw);
+    }
+  };
+
+  return adapter;
+}
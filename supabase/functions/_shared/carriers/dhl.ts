@@ -0,0 +1,31 @@
+import { createApiCarrierAdapter, SAMPLE_SHIPMENT } from './common.ts';
+
+// DHL Express uses Basic auth on each rate call, so there is no separate auth function
+export const dhlAdapter = createApiCarrierAdapter({
+  carrierType: 'dhl',
+  displayName: 'DHL',
+  rateFunction: 'dhl-rate-quote',
+  defaultServiceCodes: ['P'], // Express Worldwide
+  testShipment: {
+    ...SAMPLE_SHIPMENT,
+    shipTo: {
+      name: 'Test Recipient',
+      address: '1 Test Street',
+      city: 'London',
+      state: '',
+      zipCode: 'EC1A 1BB',
+      country: 'GB'
+    },
+    declaredValue: 100
+  },
+  validateConfig(config) {
+    const problems: string[] = [];
+    if (!config.dhl_account_number || !config.dhl_site_id) {
+      problems.push('DHL requires Account Number and Site ID');
+    }
+    if (!config.dhl_password) {
+      problems.push('DHL API password is missing');
+    }
+    return problems;
+  }
+});
@@ -0,0 +1,20 @@
+import { createApiCarrierAdapter } from './common.ts';
+
+export const fedexAdapter = createApiCarrierAdapter({
+  carrierType: 'fedex',
+  displayName: 'FedEx',
+  authFunction: 'fedex-auth',
+  rateFunction: 'fedex-rate-quote',
+  defaultServiceCodes: ['FEDEX_GROUND'],
+  cachesQuotes: true,
+  validateConfig(config) {
+    const problems: string[] = [];
+    if (!config.fedex_key || !config.fedex_password) {
+      problems.push('FedEx API credentials are missing. Please add your API Key and Password');
+    }
+    if (!config.fedex_account_number) {
+      problems.push('FedEx account number is missing');
+    }
+    return problems;
+  }
+});
@@ -0,0 +1,316 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizeApiRate } from './common.ts';
+import { buildChargeBreakdown } from '../surcharges.ts';
+import { evaluateAccessorials, isFuelSurchargeable } from '../accessorials.ts';
+import { calculateBillableWeight, toRateCardWeight } from '../billableWeight.ts';
+import { DEFAULT_COUNTRY, normalizeCountryCode } from '../countries.ts';
+import { getRateServiceCategory } from '../deliveryWindow.ts';
+import { getHundredweightEligibility, getShipmentPackages, mergePieceCharges } from '../packages.ts';
+import { createZoneResolver } from '../zoneCharts.ts';
+import type { ZoneResolver } from '../zoneCharts.ts';
+import { createDasResolver } from '../deliveryAreaCharges.ts';
+import type { DasResolver } from '../deliveryAreaCharges.ts';
+import { createFuelResolver } from '../fuelSchedules.ts';
+import type { FuelResolver } from '../fuelSchedules.ts';
+import { createRateCardVersionResolver } from '../rateCardVersions.ts';
+import type { RateCardVersionResolver } from '../rateCardVersions.ts';
+import type { CarrierAdapter, CarrierConfig, ShipmentRequest } from './types.ts';
+
+interface RateCardRow {
+  service_code: string;
+  service_name: string | null;
+  weight_break: number;
+  zone: string;
+  rate_amount: number;
+  weight_unit: string | null;
+}
+
+// Lookups against the user's imported charts and schedules; pass shared ones to reuse their caches
+export interface RateCardResolvers {
+  resolveZone?: ZoneResolver;
+  resolveDas?: DasResolver;
+  resolveFuel?: FuelResolver;
+  resolveVersion?: RateCardVersionResolver;
+}
+
+/**
+ * One set of lookups for a whole quote request, shared by every rate card account and
+ * service in it, so each chart, schedule and version list is queried once.
+ */
+export function createRateCardResolvers(supabase: SupabaseClient, userId?: string): Required<RateCardResolvers> {
+  return {
+    resolveZone: createZoneResolver(supabase, userId),
+    resolveDas: createDasResolver(supabase, userId),
+    resolveFuel: createFuelResolver(supabase, userId),
+    resolveVersion: createRateCardVersionResolver(supabase)
+  };
+}
+
+/**
+ * The row a billable weight is priced at: the first weight break at or above it
+ * (next weight up), or the highest break for anything heavier.
+ */
+export function selectWeightBreak<T extends Pick<RateCardRow, 'weight_break' | 'weight_unit'>>(
+  rows: T[],
+  billableWeight: number
+): T | null {
+  const match = rows.find(row => toRateCardWeight(billableWeight, row.weight_unit) <= row.weight_break);
+  return match || rows[rows.length - 1] || null;
+}
+
+export async function calculateRateCardRate(
+  supabase: SupabaseClient,
+  shipment: ShipmentRequest,
+  config: CarrierConfig,
+  serviceTypes: string[],
+  resolvers: RateCardResolvers = {}
+): Promise<Record<string, unknown>[]> {
+  const { resolveZone, resolveDas, resolveFuel, resolveVersion } = {
+    ...createRateCardResolvers(supabase, config.user_id),
+    ...resolvers
+  };
+
+  try {
+    console.log(`📋 Calculating rate card rates for ${config.account_name}`, {
+      carrierType: config.carrier_type,
+      serviceTypes,
+      weight: shipment.package.weight
+    });
+
+    // The version the analysis is pinned to, or the one in effect on the ship date
+    const version = await resolveVersion(config.id, shipment.shipDate, shipment.rateCardVersionPins);
+    if (!version) {
+      console.log(`⚠️ No rate card version uploaded for ${config.account_name}`);
+      return [];
+    }
+    console.log(`🗂️ Using rate card v${version.version_number} (effective ${version.effective_from})`);
+
+    // CSV-mapped zone first, then the imported carrier zone chart, then the state estimate
+    const { zone, source: zoneSource } = await resolveZone(
+      shipment.shipFrom.zipCode,
+      shipment.shipTo.zipCode,
+      config,
+      shipment.zone,
+      { originCountry: shipment.shipFrom.country, destCountry: shipment.shipTo.country }
+    );
+    console.log(`🗺️ Zone ${zone} from ${zoneSource} (${shipment.shipFrom.zipCode} → ${shipment.shipTo.zipCode})`);
+
+    // Same destination surcharge for every service of the account; DAS lists are US ZIPs
+    const dasSurcharge = normalizeCountryCode(shipment.shipTo.country) === DEFAULT_COUNTRY
+      ? await resolveDas(shipment.shipTo.zipCode, config, shipment.isResidential === true)
+      : null;
+    if (dasSurcharge) {
+      console.log(`🏔️ ${dasSurcharge.description} applies to ${shipment.shipTo.zipCode}: $${dasSurcharge.amount.toFixed(2)}`);
+    }
+
+    const pieces = getShipmentPackages(shipment);
+    if (pieces.length > 1) {
+      console.log(`📦 Rating ${pieces.length} pieces separately`);
+    }
+
+    // DAS and accessorials are per-package fees, so every piece pays its own
+    const flatCharges = mergePieceCharges(pieces.flatMap(pkg => {
+      const accessorials = evaluateAccessorials(config.accessorial_rules, pkg, {
+        isResidential: shipment.isResidential,
+        signatureRequired: shipment.signatureRequired
+      });
+      return dasSurcharge ? [dasSurcharge, ...accessorials] : accessorials;
+    }));
+    if (flatCharges.length > 0) {
+      console.log(`📎 Per-package fees: ${flatCharges.map(charge => `${charge.code} $${charge.amount.toFixed(2)}`).join(', ')}`);
+    }
+
+    const fuelableCharges = flatCharges
+      .filter(charge => !('type' in charge) || isFuelSurchargeable(charge.type))
+      .reduce((sum, charge) => sum + charge.amount, 0);
+
+    const rates: Record<string, unknown>[] = [];
+
+    // Process each service type
+    for (const serviceCode of serviceTypes) {
+      // Rate cards store the carrier's codes ('03', 'FEDEX_GROUND'); fuel, weight and
+      // hundredweight rules are keyed by universal category
+      const serviceCategory = getRateServiceCategory(config.carrier_type, serviceCode);
+
+      // Query rate card rates
+      const { data: rateCardRates, error } = await supabase
+        .from('rate_card_rates')
+        .select('*')
+        .eq('version_id', version.id)
+        .eq('service_code', serviceCode)
+        .eq('zone', zone)
+        .order('weight_break', { ascending: true });
+
+      if (error) {
+        console.error('Error querying rate card rates:', error);
+        continue;
+      }
+
+      if (!rateCardRates || rateCardRates.length === 0) {
+        console.log(`⚠️ No rate found for service ${serviceCode}, zone ${zone}`);
+        continue;
+      }
+
+      // Each piece gets its own billable weight and weight break; divisors, cubic
+      // thresholds and ounce pricing differ by service
+      const pieceRates = pieces.map(pkg => {
+        const weight = calculateBillableWeight(pkg, {
+          carrierType: config.carrier_type,
+          serviceCategory,
+          divisor: config.dimensional_divisor
+        });
+        if (weight.dimensionalWeight !== null) {
+          console.log(`📏 Dimensional weight: ${weight.dimensionalWeight} lbs (÷${weight.divisor}), billable weight: ${weight.billableWeight} lbs`);
+        }
+        console.log(`🔍 Looking up rate for service: ${serviceCode}, zone: ${zone}, weight: ${weight.billableWeight}`);
+        return { weight, rate: selectWeightBreak(rateCardRates as RateCardRow[], weight.billableWeight) };
+      });
+
+      if (pieceRates.some(piece => !piece.rate)) {
+        console.log(`⚠️ No suitable weight break found in service ${serviceCode}`);
+        continue;
+      }
+
+      const selectedRates = pieceRates.map(piece => piece.rate as RateCardRow);
+      const baseRate = selectedRates.reduce((sum, rate) => sum + Number(rate.rate_amount), 0);
+      const billableWeight = pieceRates.reduce((sum, piece) => sum + piece.weight.billableWeight, 0);
+      let finalRate = baseRate;
+      const surchargeLines: { code: string; description: string; amount: number }[] = [];
+
+      // Fuel from the carrier's weekly schedule for the ship date, or the account's static rate
+      // UPS and FedEx bill it on DAS and most accessorials too, not only on transportation
+      const fuel = await resolveFuel(config, serviceCategory, shipment.shipDate);
+      if (fuel.percent > 0) {
+        const fuelSurcharge = (baseRate + fuelableCharges) * (fuel.percent / 100);
+        finalRate += fuelSurcharge;
+        surchargeLines.push({
+          code: 'FUEL',
+          description: fuel.effectiveDate
+            ? `Fuel surcharge (${fuel.percent}%, effective ${fuel.effectiveDate})`
+            : `Fuel surcharge (${fuel.percent}%)`,
+          amount: fuelSurcharge
+        });
+        console.log(`⛽ Applied fuel surcharge: ${fuel.percent}% from ${fuel.source} (+$${fuelSurcharge.toFixed(2)})`);
+      }
+
+      for (const charge of flatCharges) {
+        finalRate += charge.amount;
+        surchargeLines.push({
+          code: charge.code,
+          description: charge.description,
+          amount: charge.amount
+        });
+      }
+
+      const breakdown = buildChargeBreakdown(Number(finalRate.toFixed(2)), surchargeLines);
+      const hundredweight = getHundredweightEligibility(
+        pieceRates.map(piece => piece.weight.billableWeight),
+        config.carrier_type,
+        serviceCategory
+      );
+
+      // Determine service name
+      let serviceName = selectedRates[0].service_name || serviceCode;
+      if (config.carrier_type === 'amazon' && serviceCode === 'GROUND') {
+        serviceName = 'Amazon Ground';
+      }
+
+      const singlePiece = pieceRates.length === 1 ? pieceRates[0] : null;
+      const rateResult = {
+        serviceCode: serviceCode,
+        serviceName: serviceName,
+        totalCharges: finalRate.toFixed(2),
+        currency: 'USD',
+        transitDays: null, // Rate cards typically don't include transit times
+        source: 'rate_card',
+        zone: zone,
+        zoneSource,
+        weightBreak: Math.max(...selectedRates.map(rate => rate.weight_break)),
+        baseRate,
+        baseCharges: breakdown.baseCharge,
+        surcharges: breakdown.surcharges,
+        fuelSurcharge: fuel.percent,
+        fuelSource: fuel.source,
+        fuelEffectiveDate: fuel.effectiveDate,
+        rateCardVersionId: version.id,
+        rateCardVersionNumber: version.version_number,
+        billableWeight,
+        dimensionalWeight: singlePiece ? singlePiece.weight.dimensionalWeight : null,
+        weightPricingUnit: pieceRates.every(piece => piece.weight.pricingUnit === 'oz') ? 'oz' : 'lb',
+        ...(singlePiece ? {} : {
+          packageCount: pieceRates.length,
+          hundredweightEligible: hundredweight.eligible,
+          pieces: pieceRates.map(piece => ({
+            billableWeight: piece.weight.billableWeight,
+            dimensionalWeight: piece.weight.dimensionalWeight,
+            weightBreak: piece.rate?.weight_break,
+            rate: piece.rate?.rate_amount
+          }))
+        })
+      };
+
+      rates.push(rateResult);
+      console.log(`✅ Rate card calculation complete:`, rateResult);
+    }
+
+    console.log(`📋 Rate card lookup complete: ${rates.length} rates found`);
+    return rates;
+
+  } catch (error) {
+    console.error('Error in calculateRateCardRate:', error);
+    throw error;
+  }
+}
+
+// Rate cards need no credentials; "authenticating" just confirms rates were uploaded
+export const rateCardAdapter: CarrierAdapter = {
+  carrierType: 'rate_card',
+  displayName: 'Rate Card',
+  defaultServiceCodes: ['GROUND'],
+
+  validateConfig(config) {
+    return config.enabled_services && config.enabled_services.length > 0
+      ? []
+      : ['Rate card account has no services. Upload at least one rate card'];
+  },
+
+  async authenticate(ctx, config) {
+    const { count, error } = await ctx.supabase
+      .from('rate_card_rates')
+      .select('id', { count: 'exact', head: true })
+      .eq('carrier_config_id', config.id);
+
+    if (error) {
+      return { authenticated: false, error: error.message };
+    }
+    return {
+      authenticated: (count || 0) > 0,
+      error: count ? undefined : 'No rate card rates uploaded'
+    };
+  },
+
+  async rate(ctx, shipment, config, serviceCodes) {
+    const rates = await calculateRateCardRate(ctx.supabase, shipment, config, serviceCodes, ctx.rateCardResolvers);
+    return rates.map(rate => rateCardAdapter.normalizeRate(rate));
+  },
+
+  async testConnection(ctx, config) {
+    const problems = rateCardAdapter.validateConfig(config);
+    if (problems.length > 0) {
+      return { success: false, message: problems.join('. ') };
+    }
+
+    const auth = await rateCardAdapter.authenticate(ctx, config);
+    return auth.authenticated
+      ? { success: true, message: `${config.account_name} rate card is loaded and ready.` }
+      : { success: false, message: auth.error || 'Rate card could not be loaded' };
+  },
+
+  normalizeRate(raw) {
+    return {
+      ...normalizeApiRate(raw, 'rate_card'),
+      transitTime: null,
+      hasNegotiatedRates: true
+    };
+  }
+};
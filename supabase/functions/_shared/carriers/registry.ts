@@ -0,0 +1,45 @@
+import { amazonAdapter } from './amazon.ts';
+import { dhlAdapter } from './dhl.ts';
+import { fedexAdapter } from './fedex.ts';
+import { rateCardAdapter } from './rateCard.ts';
+import { upsAdapter } from './ups.ts';
+import { uspsAdapter } from './usps.ts';
+import type { CarrierAdapter, CarrierConfig } from './types.ts';
+
+// Adding a carrier = implement a CarrierAdapter module and register it here
+const CARRIER_ADAPTERS = new Map<string, CarrierAdapter>([
+  ['ups', upsAdapter],
+  ['fedex', fedexAdapter],
+  ['usps', uspsAdapter],
+  ['dhl', dhlAdapter],
+  ['amazon', amazonAdapter]
+]);
+
+export function registerCarrierAdapter(carrierType: string, adapter: CarrierAdapter) {
+  CARRIER_ADAPTERS.set(carrierType.toLowerCase(), adapter);
+}
+
+/**
+ * Resolve the adapter for a carrier config. Rate card accounts are priced from
+ * uploaded rates regardless of carrier type.
+ */
+export function getCarrierAdapter(config: Pick<CarrierConfig, 'carrier_type' | 'is_rate_card'>): CarrierAdapter | null {
+  if (config.is_rate_card) {
+    return rateCardAdapter;
+  }
+  return CARRIER_ADAPTERS.get(config.carrier_type?.toLowerCase()) || null;
+}
+
+export function getRegisteredCarrierTypes(): string[] {
+  return [...CARRIER_ADAPTERS.keys()];
+}
+
+export type {
+  CarrierAdapter,
+  CarrierAuthResult,
+  CarrierConfig,
+  CarrierContext,
+  CarrierTestResult,
+  NormalizedRate,
+  ShipmentRequest,
+} from './types.ts';
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { CarrierConfig, CarrierTypeCode, NormalizedRate, ShipmentRequest } from '../rateTypes.ts';
+import type { RateCardResolvers } from './rateCard.ts';
+
+export type { CarrierConfig, CarrierTypeCode, NormalizedRate, ShipmentAddress, ShipmentRequest } from '../rateTypes.ts';
+
+/**
+ * Everything an adapter needs from the calling edge function. `authHeader` is the
+ * end user's JWT and is forwarded on function-to-function calls so RLS still applies
+ * when the caller runs with the service role key. `rateCardResolvers` lets every rate
+ * card account in one request share its chart and schedule lookups.
+ */
+export interface CarrierContext {
+  supabase: SupabaseClient;
+  authHeader?: string;
+  rateCardResolvers?: RateCardResolvers;
+}
+
+export interface CarrierAuthResult {
+  authenticated: boolean;
+  isSandbox?: boolean;
+  cached?: boolean;
+  error?: string;
+}
+
+export interface CarrierTestResult {
+  success: boolean;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface CarrierAdapter {
+  carrierType: CarrierTypeCode | 'rate_card';
+  displayName: string;
+  /** Service codes to request when the caller has no mapped service (defaults to ground) */
+  defaultServiceCodes: string[];
+  /** True when the carrier's rate function reads and writes rate_quote_cache itself */
+  cachesQuotes?: boolean;
+  /** Returns a list of problems with the stored configuration; empty means usable */
+  validateConfig(config: CarrierConfig): string[];
+  authenticate(ctx: CarrierContext, config: CarrierConfig): Promise<CarrierAuthResult>;
+  rate(ctx: CarrierContext, shipment: ShipmentRequest, config: CarrierConfig, serviceCodes: string[]): Promise<NormalizedRate[]>;
+  testConnection(ctx: CarrierContext, config: CarrierConfig): Promise<CarrierTestResult>;
+  normalizeRate(raw: Record<string, unknown>): NormalizedRate;
+}
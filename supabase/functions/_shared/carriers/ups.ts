@@ -0,0 +1,20 @@
+import { createApiCarrierAdapter } from './common.ts';
+
+export const upsAdapter = createApiCarrierAdapter({
+  carrierType: 'ups',
+  displayName: 'UPS',
+  authFunction: 'ups-auth',
+  rateFunction: 'ups-rate-quote',
+  defaultServiceCodes: ['03'], // UPS Ground
+  cachesQuotes: true,
+  validateConfig(config) {
+    const problems: string[] = [];
+    if (!config.ups_client_id || !config.ups_client_secret) {
+      problems.push('UPS requires Client ID and Client Secret');
+    }
+    if (!config.ups_account_number) {
+      problems.push('UPS account number is required for negotiated rates');
+    }
+    return problems;
+  }
+});
@@ -0,0 +1,14 @@
+import { createApiCarrierAdapter } from './common.ts';
+
+export const uspsAdapter = createApiCarrierAdapter({
+  carrierType: 'usps',
+  displayName: 'USPS',
+  authFunction: 'usps-auth',
+  rateFunction: 'usps-rate-quote',
+  defaultServiceCodes: ['GROUND_ADVANTAGE'],
+  validateConfig(config) {
+    return !config.usps_user_id || !config.usps_password
+      ? ['USPS requires Consumer Key and Consumer Secret']
+      : [];
+  }
+});
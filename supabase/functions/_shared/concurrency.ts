@@ -0,0 +1,47 @@
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight. Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => runNext()));
+  return results;
+}
+
+/**
+ * Reject with a "timeout" error if `promise` hasn't settled within `ms`.
+ * The underlying work is not cancelled; its late result is simply ignored.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  if (!ms || ms <= 0) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timeout after ${ms}ms`)), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Read a positive integer from the environment, falling back to `fallback`.
+ */
+export function getEnvInt(name: string, fallback: number): number {
+  const value = parseInt(Deno.env.get(name) ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
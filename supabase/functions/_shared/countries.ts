@@ -0,0 +1,134 @@
+/**
+ * Country codes and postal code rules for international lanes. CSV exports name
+ * countries every which way ("USA", "United Kingdom", "de"), so everything is
+ * normalized to ISO 3166 alpha-2 before it reaches a carrier or a tariff lookup.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+export const DEFAULT_COUNTRY = 'US';
+
+// Names and alpha-3 codes seen in WMS and carrier exports, keyed in upper case
+const COUNTRY_ALIASES: Record<string, string> = {
+  'USA': 'US', 'U.S.': 'US', 'U.S.A.': 'US', 'UNITED STATES': 'US', 'UNITED STATES OF AMERICA': 'US',
+  'CAN': 'CA', 'CANADA': 'CA',
+  'MEX': 'MX', 'MEXICO': 'MX',
+  'UK': 'GB', 'GBR': 'GB', 'UNITED KINGDOM': 'GB', 'GREAT BRITAIN': 'GB', 'ENGLAND': 'GB',
+  'DEU': 'DE', 'GERMANY': 'DE',
+  'FRA': 'FR', 'FRANCE': 'FR',
+  'ITA': 'IT', 'ITALY': 'IT',
+  'ESP': 'ES', 'SPAIN': 'ES',
+  'NLD': 'NL', 'NETHERLANDS': 'NL', 'HOLLAND': 'NL',
+  'BEL': 'BE', 'BELGIUM': 'BE',
+  'IRL': 'IE', 'IRELAND': 'IE',
+  'AUS': 'AU', 'AUSTRALIA': 'AU',
+  'NZL': 'NZ', 'NEW ZEALAND': 'NZ',
+  'JPN': 'JP', 'JAPAN': 'JP',
+  'CHN': 'CN', 'CHINA': 'CN',
+  'HKG': 'HK', 'HONG KONG': 'HK',
+  'KOR': 'KR', 'SOUTH KOREA': 'KR', 'KOREA': 'KR',
+  'IND': 'IN', 'INDIA': 'IN',
+  'BRA': 'BR', 'BRAZIL': 'BR',
+  'ARE': 'AE', 'UNITED ARAB EMIRATES': 'AE', 'UAE': 'AE',
+  'PRI': 'PR', 'PUERTO RICO': 'PR'
+};
+
+interface PostalCodeRule {
+  pattern: RegExp; // Matched against the code upper-cased with spaces removed
+  format?: (code: string) => string;
+  example: string;
+}
+
+const digits = (count: number): PostalCodeRule => ({
+  pattern: new RegExp(`^\\d{${count}}$`),
+  example: '1'.repeat(count)
+});
+
+const POSTAL_CODE_RULES: Record<string, PostalCodeRule> = {
+  CA: { pattern: /^[A-Z]\d[A-Z]\d[A-Z]\d$/, format: code => `${code.slice(0, 3)} ${code.slice(3)}`, example: 'K1A 0B1' },
+  GB: { pattern: /^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/, format: code => `${code.slice(0, -3)} ${code.slice(-3)}`, example: 'SW1A 1AA' },
+  NL: { pattern: /^\d{4}[A-Z]{2}$/, format: code => `${code.slice(0, 4)} ${code.slice(4)}`, example: '1012 AB' },
+  JP: { pattern: /^\d{3}-?\d{4}$/, format: code => `${code.replace('-', '').slice(0, 3)}-${code.replace('-', '').slice(3)}`, example: '100-0001' },
+  BR: { pattern: /^\d{5}-?\d{3}$/, format: code => `${code.replace('-', '').slice(0, 5)}-${code.replace('-', '').slice(5)}`, example: '01310-100' },
+  MX: digits(5),
+  DE: digits(5),
+  FR: digits(5),
+  IT: digits(5),
+  ES: digits(5),
+  KR: digits(5),
+  AU: digits(4),
+  NZ: digits(4),
+  BE: digits(4),
+  CN: digits(6),
+  IN: digits(6)
+};
+
+// Countries whose addresses have no postal code at all
+const NO_POSTAL_CODE = new Set(['HK', 'AE', 'IE']);
+
+// US territories are addressed with US ZIP codes
+const US_ZIP_COUNTRIES = new Set(['US', 'PR', 'VI', 'GU', 'AS', 'MP']);
+
+/**
+ * ISO alpha-2 code for a country name or code, or null when it isn't recognized.
+ * Blank values mean the shipment is domestic.
+ */
+export function normalizeCountryCode(value: unknown): string | null {
+  const text = String(value ?? '').trim().toUpperCase();
+  if (!text) return DEFAULT_COUNTRY;
+  if (COUNTRY_ALIASES[text]) return COUNTRY_ALIASES[text];
+  return /^[A-Z]{2}$/.test(text) ? text : null;
+}
+
+export function isInternationalLane(originCountry?: string | null, destCountry?: string | null): boolean {
+  return (normalizeCountryCode(originCountry) || DEFAULT_COUNTRY) !== (normalizeCountryCode(destCountry) || DEFAULT_COUNTRY);
+}
+
+export interface PostalCodeValidation {
+  isValid: boolean;
+  cleanedValue?: string;
+  error?: string;
+}
+
+/**
+ * Validate and format a postal code for its country. US ZIPs keep the lenient handling
+ * the CSV import always had (first five digits, four accepted for spreadsheets that
+ * dropped a leading zero); countries without a known format accept 2-10 characters.
+ */
+export function validatePostalCode(postalCode: unknown, country: string = DEFAULT_COUNTRY): PostalCodeValidation {
+  const countryCode = normalizeCountryCode(country) || country.toUpperCase();
+  const text = String(postalCode ?? '').trim();
+
+  if (NO_POSTAL_CODE.has(countryCode)) {
+    return { isValid: true, cleanedValue: text.toUpperCase() };
+  }
+  if (!text) {
+    return { isValid: false, error: 'Postal code is required' };
+  }
+
+  if (US_ZIP_COUNTRIES.has(countryCode)) {
+    const allDigits = text.replace(/\D/g, '');
+    return allDigits.length >= 4
+      ? { isValid: true, cleanedValue: allDigits.slice(0, 5) }
+      : { isValid: false, error: 'ZIP code must contain at least 4 digits' };
+  }
+
+  const compact = text.toUpperCase().replace(/\s+/g, '');
+  const rule = POSTAL_CODE_RULES[countryCode];
+  if (!rule) {
+    return /^[A-Z\d-]{2,10}$/.test(compact)
+      ? { isValid: true, cleanedValue: compact }
+      : { isValid: false, error: `Invalid postal code for ${countryCode}` };
+  }
+
+  return rule.pattern.test(compact)
+    ? { isValid: true, cleanedValue: rule.format ? rule.format(compact) : compact }
+    : { isValid: false, error: `Invalid postal code for ${countryCode} (expected e.g. ${rule.example})` };
+}
+
+/**
+ * Postal code in the form carriers expect, falling back to the trimmed input when it
+ * doesn't validate so the carrier can report the problem itself.
+ */
+export function formatPostalCode(postalCode: string, country: string = DEFAULT_COUNTRY): string {
+  return validatePostalCode(postalCode, country).cleanedValue ?? String(postalCode ?? '').trim();
+}
@@ -0,0 +1,189 @@
+/**
+ * Currency conversion for multi-currency rates. Carriers quote in the billing currency of
+ * the account (a DHL account billed in EUR, a UPS Canada account in CAD), so every rate is
+ * converted to the user's reporting currency before it is compared, summed or exported.
+ * Exchange rates come from the user's imported, effective-dated table.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+import { normalizeDate } from './fuelSurcharge.ts';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface ExchangeRate {
+  base_currency: string; // ISO 4217
+  quote_currency: string;
+  rate: number; // Units of quote_currency per one unit of base_currency
+  effective_date: string; // YYYY-MM-DD
+}
+
+// Symbols seen in spreadsheet exports, keyed as typed
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD', 'US$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY',
+  'C$': 'CAD', 'CA$': 'CAD', 'A$': 'AUD', 'AU$': 'AUD', 'MX$': 'MXN'
+};
+
+/**
+ * ISO 4217 code for a currency code or symbol, or null when it isn't recognized.
+ */
+export function normalizeCurrencyCode(value: unknown): string | null {
+  const text = String(value ?? '').trim();
+  if (CURRENCY_SYMBOLS[text]) return CURRENCY_SYMBOLS[text];
+  const code = text.toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+/**
+ * Parse an exchange rate sheet with the columns Effective Date | From | To | Rate, where
+ * one unit of From buys Rate units of To. A header row is skipped automatically.
+ */
+export function parseExchangeRateTable(rows: unknown[][]): { entries: ExchangeRate[]; errors: string[] } {
+  const entries = new Map<string, ExchangeRate>();
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    if (!row || row.every(cell => String(cell ?? '').trim() === '')) return;
+
+    const [dateCell, fromCell, toCell, rateCell] = row;
+    if (index === 0 && !/\d/.test(String(dateCell ?? ''))) return; // header
+
+    const effectiveDate = normalizeDate(dateCell);
+    const base = normalizeCurrencyCode(fromCell);
+    const quote = normalizeCurrencyCode(toCell);
+    const rate = parseFloat(String(rateCell ?? '').replace(/,/g, ''));
+
+    if (!effectiveDate || !base || !quote || base === quote || !(rate > 0)) {
+      errors.push(`Row ${index + 1}: expected an effective date, two different currencies and a positive rate`);
+      return;
+    }
+
+    // A later row for the same pair and date replaces the earlier one
+    entries.set(`${base}|${quote}|${effectiveDate}`, {
+      base_currency: base,
+      quote_currency: quote,
+      rate,
+      effective_date: effectiveDate
+    });
+  });
+
+  return {
+    entries: [...entries.values()].sort((a, b) => a.effective_date.localeCompare(b.effective_date)),
+    errors
+  };
+}
+
+/**
+ * Direct or inverted rate for a pair in effect on a date: the latest one published on or
+ * before it. Dates before the first row use the earliest rate rather than failing.
+ */
+function findPairRate(rates: ExchangeRate[], from: string, to: string, onDate: string): number | null {
+  let match: { rate: number; effective_date: string } | null = null;
+  let earliest: { rate: number; effective_date: string } | null = null;
+
+  for (const entry of rates) {
+    let rate: number | null = null;
+    if (entry.base_currency === from && entry.quote_currency === to) rate = Number(entry.rate);
+    else if (entry.base_currency === to && entry.quote_currency === from) rate = 1 / Number(entry.rate);
+    if (!rate || !Number.isFinite(rate)) continue;
+
+    if (entry.effective_date <= onDate && (!match || entry.effective_date > match.effective_date)) {
+      match = { rate, effective_date: entry.effective_date };
+    }
+    if (!earliest || entry.effective_date < earliest.effective_date) {
+      earliest = { rate, effective_date: entry.effective_date };
+    }
+  }
+
+  return (match || earliest)?.rate ?? null;
+}
+
+/**
+ * Multiplier converting `from` into `to` on a date, crossing through USD when the table
+ * has no rate for the pair itself. Null when the table can't convert the pair.
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  onDate?: string | null
+): number | null {
+  const source = normalizeCurrencyCode(from) || DEFAULT_CURRENCY;
+  const target = normalizeCurrencyCode(to) || DEFAULT_CURRENCY;
+  if (source === target) return 1;
+
+  const date = normalizeDate(onDate) || new Date().toISOString().split('T')[0];
+  const direct = findPairRate(rates, source, target, date);
+  if (direct !== null) return direct;
+
+  if (source !== DEFAULT_CURRENCY && target !== DEFAULT_CURRENCY) {
+    const toUsd = findPairRate(rates, source, DEFAULT_CURRENCY, date);
+    const fromUsd = findPairRate(rates, DEFAULT_CURRENCY, target, date);
+    if (toUsd !== null && fromUsd !== null) return toUsd * fromUsd;
+  }
+  return null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+interface ConvertibleRate {
+  currency?: string;
+  totalCharges: number;
+  baseCharges?: number;
+  surcharges?: { amount: number }[];
+  publishedRate?: number;
+  negotiatedRate?: number;
+  dutyAmount?: number;
+  taxAmount?: number;
+  landedCost?: number;
+}
+
+export interface CurrencyConversion {
+  originalCurrency: string;
+  originalTotalCharges: number;
+  exchangeRate: number;
+}
+
+/**
+ * A rate with every charge converted to `currency`, remembering what the carrier quoted.
+ * Rates already in that currency, or whose pair the table can't convert, come back
+ * unchanged; the caller can tell the latter by the currency still differing.
+ */
+export function convertRateCurrency<T extends ConvertibleRate>(
+  rate: T,
+  currency: string,
+  rates: ExchangeRate[],
+  onDate?: string | null
+): T & Partial<CurrencyConversion> {
+  const from = normalizeCurrencyCode(rate.currency) || DEFAULT_CURRENCY;
+  const multiplier = findExchangeRate(rates, from, currency, onDate);
+  if (from === currency || multiplier === null) return rate;
+
+  const convert = (amount: number | undefined) => (amount == null ? amount : roundCents(Number(amount) * multiplier));
+  return {
+    ...rate,
+    currency,
+    totalCharges: roundCents(Number(rate.totalCharges) * multiplier),
+    baseCharges: convert(rate.baseCharges),
+    surcharges: rate.surcharges?.map(surcharge => ({ ...surcharge, amount: roundCents(Number(surcharge.amount) * multiplier) })),
+    publishedRate: convert(rate.publishedRate),
+    negotiatedRate: convert(rate.negotiatedRate),
+    dutyAmount: convert(rate.dutyAmount),
+    taxAmount: convert(rate.taxAmount),
+    landedCost: convert(rate.landedCost),
+    originalCurrency: from,
+    originalTotalCharges: rate.totalCharges,
+    exchangeRate: multiplier
+  };
+}
+
+/**
+ * Amount formatted in its currency, e.g. $1,234.50 or €1,234.50.
+ */
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const code = normalizeCurrencyCode(currency) || DEFAULT_CURRENCY;
+  const absolute = Math.abs(amount);
+  const formatted = code === DEFAULT_CURRENCY
+    ? `$${absolute.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : absolute.toLocaleString('en-US', { style: 'currency', currency: code, minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return amount < 0 ? `-${formatted}` : formatted;
+}
@@ -0,0 +1,125 @@
+/**
+ * Delivery Area Surcharge (DAS) ZIP lists and fee schedules for rate card accounts.
+ * Carriers publish the destination ZIPs that carry a DAS, Extended DAS or Remote Area
+ * charge; each account then has its own commercial and residential fee per tier.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+export type DasTier = 'das' | 'das_extended' | 'remote';
+
+export const DAS_TIERS: DasTier[] = ['das', 'das_extended', 'remote'];
+
+export const DAS_TIER_LABELS: Record<DasTier, string> = {
+  das: 'Delivery Area Surcharge',
+  das_extended: 'Extended Delivery Area Surcharge',
+  remote: 'Remote Area Surcharge'
+};
+
+// Surcharge codes written on the quote line, matched by classifySurcharge
+export const DAS_TIER_CODES: Record<DasTier, string> = {
+  das: 'DAS',
+  das_extended: 'DAS_EXTENDED',
+  remote: 'REMOTE_AREA'
+};
+
+export interface DasZipEntry {
+  carrier_type: string;
+  zip5: string;
+  das_tier: DasTier;
+}
+
+export interface DasFee {
+  carrier_config_id: string;
+  das_tier: DasTier;
+  commercial_fee: number;
+  residential_fee: number;
+}
+
+export type ParsedDasZipRow = Pick<DasZipEntry, 'zip5' | 'das_tier'>;
+
+export interface DasSurchargeLine {
+  tier: DasTier;
+  code: string;
+  description: string;
+  amount: number;
+}
+
+/**
+ * 5-digit ZIP, restoring leading zeros spreadsheets like to drop ("2134" -> "02134").
+ */
+export function getZip5(zipCode: string): string | null {
+  const digits = String(zipCode ?? '').trim().split('-')[0].replace(/\D/g, '');
+  if (!digits || digits.length > 5) return null;
+  return digits.padStart(5, '0');
+}
+
+// Carrier lists spell the tier many ways: "DAS", "Extended", "DAS Ext Resi", "Remote", "Alaska"...
+function normalizeDasTier(value: unknown): DasTier | null {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return null;
+  if (/remote|alaska|hawaii/.test(text)) return 'remote';
+  if (/ext/.test(text)) return 'das_extended';
+  if (/das|delivery|area|standard|^1$/.test(text)) return 'das';
+  return null;
+}
+
+/**
+ * Parse a DAS ZIP list with the columns ZIP | Type. The type column is optional and
+ * defaults to standard DAS, so a plain column of ZIPs imports as-is. A header row is
+ * skipped automatically.
+ */
+export function parseDasZipList(rows: unknown[][]): { entries: ParsedDasZipRow[]; errors: string[] } {
+  const entries = new Map<string, ParsedDasZipRow>();
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    if (!row || row.every(cell => String(cell ?? '').trim() === '')) return;
+
+    const [zipCell, tierCell] = row;
+    const zip = String(zipCell ?? '').trim();
+    if (index === 0 && !/\d/.test(zip)) return; // header
+
+    const zip5 = getZip5(zip);
+    const tier = String(tierCell ?? '').trim() ? normalizeDasTier(tierCell) : 'das';
+
+    if (!zip5) {
+      errors.push(`Row ${index + 1}: "${zip}" is not a ZIP code`);
+      return;
+    }
+    if (!tier) {
+      errors.push(`Row ${index + 1}: unknown surcharge type "${String(tierCell).trim()}"`);
+      return;
+    }
+
+    // Lists often repeat a ZIP under several tiers; the costliest tier is the one billed
+    const existing = entries.get(zip5);
+    if (!existing || DAS_TIERS.indexOf(tier) > DAS_TIERS.indexOf(existing.das_tier)) {
+      entries.set(zip5, { zip5, das_tier: tier });
+    }
+  });
+
+  return { entries: [...entries.values()], errors };
+}
+
+/**
+ * The surcharge line an account bills for a destination in the given tier, or null when
+ * the account has no fee configured for it.
+ */
+export function calculateDasSurcharge(
+  tier: DasTier | null,
+  fees: DasFee[],
+  isResidential: boolean
+): DasSurchargeLine | null {
+  if (!tier) return null;
+
+  const fee = fees.find(f => f.das_tier === tier);
+  const amount = Number(isResidential ? fee?.residential_fee : fee?.commercial_fee) || 0;
+  if (amount <= 0) return null;
+
+  return {
+    tier,
+    code: DAS_TIER_CODES[tier],
+    description: `${DAS_TIER_LABELS[tier]} (${isResidential ? 'residential' : 'commercial'})`,
+    amount
+  };
+}
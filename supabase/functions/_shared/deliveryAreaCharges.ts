@@ -0,0 +1,79 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { calculateDasSurcharge, getZip5 } from './deliveryArea.ts';
+import type { DasFee, DasSurchargeLine, DasTier } from './deliveryArea.ts';
+
+export interface DasLookupAccount {
+  id: string;
+  carrier_type: string;
+}
+
+export type DasResolver = (
+  destZip: string,
+  account: DasLookupAccount,
+  isResidential: boolean
+) => Promise<DasSurchargeLine | null>;
+
+/**
+ * Resolve the delivery area surcharge a rate card account bills for a destination.
+ * ZIP tiers are cached per destination and fee schedules per account for the lifetime
+ * of the resolver, so repeat destinations in a batch cost nothing.
+ */
+export function createDasResolver(supabase: SupabaseClient, userId?: string): DasResolver {
+  const tiersByZip = new Map<string, Promise<Map<string, DasTier>>>();
+  const feesByConfig = new Map<string, Promise<DasFee[]>>();
+
+  // One row per carrier that lists the ZIP
+  const loadTiers = (zip5: string): Promise<Map<string, DasTier>> => {
+    let tiers = tiersByZip.get(zip5);
+    if (!tiers) {
+      let query = supabase
+        .from('carrier_das_zips')
+        .select('carrier_type, das_tier')
+        .eq('zip5', zip5);
+
+      // Service-role callers must scope to the user themselves; RLS does it otherwise
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      tiers = Promise.resolve(query.then(({ data, error }) => {
+        if (error) {
+          console.error('⚠️ Failed to load DAS ZIPs for', zip5, error);
+          return new Map();
+        }
+        return new Map((data || []).map(row => [row.carrier_type, row.das_tier as DasTier]));
+      }));
+      tiersByZip.set(zip5, tiers);
+    }
+    return tiers;
+  };
+
+  const loadFees = (configId: string): Promise<DasFee[]> => {
+    let fees = feesByConfig.get(configId);
+    if (!fees) {
+      fees = Promise.resolve(supabase
+        .from('carrier_das_fees')
+        .select('carrier_config_id, das_tier, commercial_fee, residential_fee')
+        .eq('carrier_config_id', configId)
+        .then(({ data, error }) => {
+          if (error) {
+            console.error('⚠️ Failed to load DAS fees for config', configId, error);
+            return [];
+          }
+          return (data || []) as DasFee[];
+        }));
+      feesByConfig.set(configId, fees);
+    }
+    return fees;
+  };
+
+  return async (destZip, account, isResidential) => {
+    const zip5 = getZip5(destZip);
+    if (!zip5) return null;
+
+    const tier = (await loadTiers(zip5)).get(account.carrier_type) || null;
+    if (!tier) return null;
+
+    return calculateDasSurcharge(tier, await loadFees(account.id), isResidential);
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Delivery-window recommendations. Instead of the cheapest rate for the service the
+ * shipment went out with, the delivery_window mode picks the cheapest rate of any service
+ * and carrier whose transit time still meets the original delivery commitment: the
+ * business days between the mapped ship and delivery dates, or the transit time of the
+ * original service when the file has no delivery date.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+import { normalizeDate } from './fuelSurcharge.ts';
+import { UNIVERSAL_SERVICES, UniversalServiceCategory } from './serviceCategories.ts';
+import { CarrierType, getUniversalCategoryFromCarrierCode } from './serviceRegistry.ts';
+
+export type RecommendationMode = 'same_service' | 'delivery_window';
+
+export const DEFAULT_RECOMMENDATION_MODE: RecommendationMode = 'same_service';
+
+export const RECOMMENDATION_MODES: Record<RecommendationMode, { label: string; description: string }> = {
+  same_service: {
+    label: 'Same service',
+    description: 'Cheapest rate for the service each shipment was sent with'
+  },
+  delivery_window: {
+    label: 'Delivery window',
+    description: 'Cheapest rate of any service that still delivers within the original commitment'
+  }
+};
+
+export function normalizeRecommendationMode(value: unknown): RecommendationMode {
+  return value === 'delivery_window' ? 'delivery_window' : DEFAULT_RECOMMENDATION_MODE;
+}
+
+export interface DeliveryCommitment {
+  days: number; // Business days from ship date to delivery
+  source: 'delivery_date' | 'service';
+}
+
+/**
+ * Business days in a transit time as carriers report it: 3, "3", "2 days", or a typical
+ * range such as "1-5", which counts as its upper bound.
+ */
+export function parseTransitDays(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? Math.ceil(value) : null;
+  const numbers = String(value ?? '').match(/\d+(\.\d+)?/g);
+  if (!numbers) return null;
+  const days = Math.max(...numbers.map(Number));
+  return days > 0 ? Math.ceil(days) : null;
+}
+
+/**
+ * Weekdays after `shipDate` up to and including `deliveryDate`, so a Friday shipment
+ * delivered on Monday took one business day. Null when either date is unreadable or
+ * delivery isn't after shipping.
+ */
+export function countBusinessDays(shipDate: unknown, deliveryDate: unknown): number | null {
+  const start = normalizeDate(shipDate);
+  const end = normalizeDate(deliveryDate);
+  if (!start || !end || end <= start) return null;
+
+  const day = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  let days = 0;
+  while (day < last) {
+    day.setUTCDate(day.getUTCDate() + 1);
+    const weekday = day.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) days++;
+  }
+  return days > 0 ? days : null;
+}
+
+/**
+ * Typical business days in transit for a universal service category.
+ */
+export function getServiceTransitDays(serviceCategory: string | null | undefined): number | null {
+  const info = UNIVERSAL_SERVICES[String(serviceCategory ?? '').toUpperCase() as UniversalServiceCategory];
+  return info ? parseTransitDays(info.typicalTransitDays) : null;
+}
+
+/**
+ * The delivery commitment the original shipment was made under: the mapped delivery
+ * date when there is one, otherwise the transit time of its service.
+ */
+export function getDeliveryCommitment(shipment: {
+  shipDate?: string | null;
+  deliveryDate?: string | null;
+  serviceCategory?: string | null;
+}): DeliveryCommitment | null {
+  const actualDays = countBusinessDays(shipment.shipDate, shipment.deliveryDate);
+  if (actualDays !== null) return { days: actualDays, source: 'delivery_date' };
+
+  const serviceDays = getServiceTransitDays(shipment.serviceCategory);
+  return serviceDays !== null ? { days: serviceDays, source: 'service' } : null;
+}
+
+/**
+ * Universal category of a quoted service. API rates and uploaded rate cards both carry the
+ * carrier's own codes ('03', 'FEDEX_GROUND'), which are looked up in the service registry;
+ * a code that already names a universal category is taken as one.
+ */
+export function getRateServiceCategory(carrierType: string | null | undefined, serviceCode: string | null | undefined): string | null {
+  const code = String(serviceCode ?? '');
+  if (!code) return null;
+  const category = getUniversalCategoryFromCarrierCode(String(carrierType ?? '').toUpperCase() as CarrierType, code);
+  if (category) return category;
+  return UNIVERSAL_SERVICES[code.toUpperCase() as UniversalServiceCategory] ? code.toUpperCase() : null;
+}
+
+/**
+ * Business days a quoted rate takes: the carrier's own transit time, then its estimated
+ * delivery date, then the typical transit of its service category.
+ */
+export function getRateTransitDays(
+  rate: {
+    transitTime?: unknown;
+    transitDays?: unknown;
+    deliveryDate?: string | null;
+    serviceCategory?: string | null;
+  },
+  shipDate?: string | null
+): number | null {
+  return parseTransitDays(rate.transitTime)
+    ?? parseTransitDays(rate.transitDays)
+    ?? (shipDate ? countBusinessDays(shipDate, rate.deliveryDate) : null)
+    ?? getServiceTransitDays(rate.serviceCategory);
+}
+
+/**
+ * Cheapest rate whose transit time meets the commitment. Rates with no known transit
+ * time can't be shown to meet it and are left out.
+ */
+export function selectDeliveryWindowRate<T>(
+  rates: T[],
+  commitment: DeliveryCommitment | null,
+  getCost: (rate: T) => number,
+  getTransitDays: (rate: T) => number | null
+): T | null {
+  if (!commitment) return null;
+
+  let best: T | null = null;
+  for (const rate of rates) {
+    const transitDays = getTransitDays(rate);
+    if (transitDays === null || transitDays > commitment.days) continue;
+    if (!best || getCost(rate) < getCost(best)) best = rate;
+  }
+  return best;
+}
+
+export interface DeliveryWindowSummary {
+  downgradedShipments: number; // Shipments moved to a slower, cheaper service that still meets the window
+  extraSavings: number; // Saved beyond the cheapest rate for the original service
+}
+
+/**
+ * How many shipments a delivery-window analysis moved off their original service and
+ * what that saved over staying on it.
+ */
+export function summarizeDeliveryWindow(
+  shipments: { isServiceDowngrade?: boolean; sameServiceCost?: number | null; recommendedCost: number }[]
+): DeliveryWindowSummary {
+  let downgradedShipments = 0;
+  let extraSavings = 0;
+  for (const shipment of shipments) {
+    if (!shipment.isServiceDowngrade || shipment.sameServiceCost == null) continue;
+    downgradedShipments++;
+    extraSavings += Number(shipment.sameServiceCost) - Number(shipment.recommendedCost);
+  }
+  return { downgradedShipments, extraSavings: Math.round(extraSavings * 100) / 100 };
+}
@@ -0,0 +1,138 @@
+/**
+ * Earned-discount tiers for negotiated API accounts. UPS and FedEx contracts grant an
+ * incentive off published rates that grows with the shipper's weekly spend; the carrier
+ * API only ever quotes the tier the account earns today. Tiers (stored in
+ * carrier_configs.discount_tiers) let an analysis re-price published rates at the tier the
+ * client's projected volume would earn instead.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+import { normalizeDate } from './fuelSurcharge.ts';
+
+// Incentive key covering every service without one of its own
+export const ALL_SERVICES = '*';
+
+// Spend is assumed to cover this many days when the file has no ship dates
+const DEFAULT_SPEND_PERIOD_DAYS = 30;
+
+export interface DiscountTier {
+  min_weekly_spend: number; // Lower bound of the spend band; the band runs to the next tier
+  incentives: Record<string, number>; // Universal service category (or ALL_SERVICES) → percent off published
+}
+
+/**
+ * Valid tiers ordered by spend band. Incentives outside 0-100% and tiers without any
+ * are dropped, so a half-edited row never prices anything.
+ */
+export function normalizeDiscountTiers(value: unknown): DiscountTier[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map(raw => {
+      const tier = (raw ?? {}) as { min_weekly_spend?: unknown; incentives?: Record<string, unknown> };
+      const incentives: Record<string, number> = {};
+      Object.entries(tier.incentives ?? {}).forEach(([service, percent]) => {
+        const amount = Number(percent);
+        if (service && Number.isFinite(amount) && amount >= 0 && amount < 100) {
+          incentives[service === ALL_SERVICES ? ALL_SERVICES : service.toUpperCase()] = amount;
+        }
+      });
+      return { min_weekly_spend: Math.max(0, Number(tier.min_weekly_spend) || 0), incentives };
+    })
+    .filter(tier => Object.keys(tier.incentives).length > 0)
+    .sort((a, b) => a.min_weekly_spend - b.min_weekly_spend);
+}
+
+/**
+ * Average weekly spend of a set of shipments: their current cost spread over the weeks
+ * between the first and last ship date (at least one).
+ */
+export function estimateWeeklySpend(shipments: { currentRate?: unknown; shipDate?: unknown }[]): number {
+  const total = shipments.reduce((sum, shipment) => sum + (parseFloat(String(shipment.currentRate ?? '')) || 0), 0);
+  const dates = shipments.map(shipment => normalizeDate(shipment.shipDate)).filter((date): date is string => !!date).sort();
+
+  const days = dates.length > 1
+    ? (Date.parse(`${dates[dates.length - 1]}T00:00:00Z`) - Date.parse(`${dates[0]}T00:00:00Z`)) / 86400000 + 1
+    : DEFAULT_SPEND_PERIOD_DAYS;
+  return Math.round((total / Math.max(days / 7, 1)) * 100) / 100;
+}
+
+/**
+ * Index of the tier a weekly spend earns: the highest band it reaches. -1 when it is
+ * below every band or there are no tiers.
+ */
+export function findDiscountTierIndex(tiers: DiscountTier[], weeklySpend: number): number {
+  let index = -1;
+  tiers.forEach((tier, i) => {
+    if (weeklySpend >= tier.min_weekly_spend) index = i;
+  });
+  return index;
+}
+
+/**
+ * Incentive percent a tier grants a service, or null when the tier doesn't cover it.
+ */
+export function getTierIncentive(tier: DiscountTier, serviceCategory: string | null | undefined): number | null {
+  const own = serviceCategory ? tier.incentives[serviceCategory.toUpperCase()] : undefined;
+  return own ?? tier.incentives[ALL_SERVICES] ?? null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Published rate with a tier's incentive taken off, or null when the rate has no
+ * published amount or the tier doesn't cover its service.
+ */
+export function priceAtTier(
+  publishedRate: number | null | undefined,
+  tier: DiscountTier,
+  serviceCategory: string | null | undefined
+): number | null {
+  const incentive = getTierIncentive(tier, serviceCategory);
+  if (incentive === null || !(Number(publishedRate) > 0)) return null;
+  return roundCents(Number(publishedRate) * (1 - incentive / 100));
+}
+
+interface TierRate {
+  totalCharges: number;
+  publishedRate?: number;
+  baseCharges?: number;
+  surcharges?: { type?: string; amount: number }[];
+}
+
+/**
+ * A quoted rate re-priced at a tier. Incentives only discount the transportation charge,
+ * so the published base charge is taken off at the tier's percent, other surcharges are
+ * kept and fuel is recomputed on the new subtotal. The published base is backed out of
+ * the published total assuming the published quote carried the same surcharges and fuel
+ * percent as this one; carriers don't return it separately. Rates the tier can't price
+ * come back unchanged.
+ */
+export function applyDiscountTier<T extends TierRate>(
+  rate: T,
+  tier: DiscountTier,
+  serviceCategory: string | null | undefined
+): T & { earnedDiscountPercent?: number } {
+  const incentive = getTierIncentive(tier, serviceCategory);
+  if (incentive === null || !(Number(rate.publishedRate) > 0) || !(rate.totalCharges > 0)) return rate;
+
+  const surcharges = rate.surcharges ?? [];
+  const fuel = surcharges.filter(surcharge => surcharge.type === 'fuel').reduce((sum, surcharge) => sum + surcharge.amount, 0);
+  const otherSurcharges = surcharges.filter(surcharge => surcharge.type !== 'fuel').reduce((sum, surcharge) => sum + surcharge.amount, 0);
+  const fuelShare = rate.totalCharges > fuel ? fuel / (rate.totalCharges - fuel) : 0;
+
+  const publishedBase = Number(rate.publishedRate) / (1 + fuelShare) - otherSurcharges;
+  if (!(publishedBase > 0)) return rate;
+
+  const tieredBase = roundCents(publishedBase * (1 - incentive / 100));
+  const tieredFuel = (tieredBase + otherSurcharges) * fuelShare;
+  return {
+    ...rate,
+    totalCharges: roundCents(tieredBase + otherSurcharges + tieredFuel),
+    baseCharges: rate.baseCharges == null ? rate.baseCharges : tieredBase,
+    surcharges: rate.surcharges?.map(surcharge => (surcharge.type === 'fuel' && fuel > 0
+      ? { ...surcharge, amount: roundCents(tieredFuel * (surcharge.amount / fuel)) }
+      : surcharge)),
+    earnedDiscountPercent: incentive
+  };
+}
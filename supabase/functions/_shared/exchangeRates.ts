@@ -0,0 +1,57 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DEFAULT_CURRENCY, convertRateCurrency, normalizeCurrencyCode } from './currency.ts';
+import type { CurrencyConversion, ExchangeRate } from './currency.ts';
+
+export interface CurrencyConverter {
+  reportingCurrency: string;
+  convertRate: <T extends { currency?: string; totalCharges: number }>(
+    rate: T,
+    onDate?: string | null
+  ) => (T & Partial<CurrencyConversion>) | null;
+}
+
+/**
+ * Load the user's reporting currency and exchange rate table once per request. Rates
+ * the table can't convert come back as null, since their amounts can't be compared or
+ * totalled with the rest; callers drop them.
+ */
+export async function loadCurrencyConverter(supabase: SupabaseClient, userId: string): Promise<CurrencyConverter> {
+  const [settingsResult, ratesResult] = await Promise.all([
+    supabase
+      .from('user_settings')
+      .select('reporting_currency')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('exchange_rates')
+      .select('base_currency, quote_currency, rate, effective_date')
+      .eq('user_id', userId)
+      .order('effective_date', { ascending: true })
+  ]);
+
+  if (settingsResult.error) {
+    console.error('⚠️ Failed to load reporting currency', settingsResult.error);
+  }
+  if (ratesResult.error) {
+    console.error('⚠️ Failed to load exchange rates', ratesResult.error);
+  }
+
+  const reportingCurrency = normalizeCurrencyCode(settingsResult.data?.reporting_currency) || DEFAULT_CURRENCY;
+  const rates = (ratesResult.data || []) as ExchangeRate[];
+  const unconvertible = new Set<string>();
+
+  return {
+    reportingCurrency,
+    convertRate: (rate, onDate) => {
+      const converted = convertRateCurrency(rate, reportingCurrency, rates, onDate);
+      const from = normalizeCurrencyCode(converted.currency) || DEFAULT_CURRENCY;
+      if (from === reportingCurrency) return converted;
+
+      if (!unconvertible.has(from)) {
+        unconvertible.add(from);
+        console.warn(`💱 No exchange rate from ${from} to ${reportingCurrency} - dropping ${from} quotes`);
+      }
+      return null;
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizeDate, resolveFuelSurcharge } from './fuelSurcharge.ts';
+import type { AppliedFuelSurcharge, FuelScheduleEntry } from './fuelSurcharge.ts';
+
+export interface FuelLookupAccount {
+  carrier_type: string;
+  fuel_auto_lookup?: boolean | null;
+  fuel_surcharge_percent?: number | null;
+}
+
+export type FuelResolver = (
+  account: FuelLookupAccount,
+  serviceCategory: string | null | undefined,
+  shipDate?: string | null
+) => Promise<AppliedFuelSurcharge>;
+
+/**
+ * Resolve the fuel surcharge from the user's imported fuel schedules. Each carrier's
+ * schedule is loaded once per resolver; shipments without a ship date use today's rate.
+ */
+export function createFuelResolver(supabase: SupabaseClient, userId?: string): FuelResolver {
+  const schedulesByCarrier = new Map<string, Promise<FuelScheduleEntry[]>>();
+
+  const loadSchedule = (carrierType: string): Promise<FuelScheduleEntry[]> => {
+    let schedule = schedulesByCarrier.get(carrierType);
+    if (!schedule) {
+      let query = supabase
+        .from('carrier_fuel_surcharges')
+        .select('carrier_type, effective_date, ground_percent, air_percent')
+        .eq('carrier_type', carrierType)
+        .order('effective_date', { ascending: true });
+
+      // Service-role callers must scope to the user themselves; RLS does it otherwise
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      schedule = Promise.resolve(query.then(({ data, error }) => {
+        if (error) {
+          console.error('⚠️ Failed to load fuel schedule for', carrierType, error);
+          return [];
+        }
+        return (data || []) as FuelScheduleEntry[];
+      }));
+      schedulesByCarrier.set(carrierType, schedule);
+    }
+    return schedule;
+  };
+
+  return async (account, serviceCategory, shipDate) => {
+    const date = normalizeDate(shipDate) || new Date().toISOString().split('T')[0];
+    const schedule = account.fuel_auto_lookup ? await loadSchedule(account.carrier_type) : [];
+    return resolveFuelSurcharge(schedule, account, serviceCategory, date);
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Effective-dated fuel surcharge schedules. Carriers publish a ground and an air
+ * percentage each week; rate card accounts with fuel_auto_lookup pick the one in effect
+ * on the shipment's ship date instead of their static fuel_surcharge_percent.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+export interface FuelScheduleEntry {
+  carrier_type: string;
+  effective_date: string; // YYYY-MM-DD, first day the percentages apply
+  ground_percent: number;
+  air_percent: number;
+}
+
+export type ParsedFuelScheduleRow = Pick<FuelScheduleEntry, 'effective_date' | 'ground_percent' | 'air_percent'>;
+
+export type FuelSource = 'schedule' | 'account';
+
+export interface AppliedFuelSurcharge {
+  percent: number;
+  source: FuelSource;
+  effectiveDate: string | null; // null when the account's static percentage was used
+}
+
+// Everything not ground-based pays the air percentage
+const GROUND_CATEGORIES = new Set(['GROUND', 'INTERNATIONAL_STANDARD']);
+
+export function isGroundService(serviceCategory: string | null | undefined): boolean {
+  return !serviceCategory || GROUND_CATEGORIES.has(serviceCategory.toUpperCase());
+}
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Normalize a date from a CSV or spreadsheet cell to YYYY-MM-DD. Accepts ISO dates,
+ * US-style M/D/YYYY (or M/D/YY) and anything Date can parse; returns null otherwise.
+ */
+export function normalizeDate(value: unknown): string | null {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${pad2(Number(iso[2]))}-${pad2(Number(iso[3]))}`;
+
+  const us = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return `${year}-${pad2(Number(us[1]))}-${pad2(Number(us[2]))}`;
+  }
+
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return `${parsed.getFullYear()}-${pad2(parsed.getMonth() + 1)}-${pad2(parsed.getDate())}`;
+}
+
+function parsePercent(value: unknown): number | null {
+  const text = String(value ?? '').replace('%', '').trim();
+  if (!text) return null;
+  const percent = parseFloat(text);
+  return Number.isFinite(percent) && percent >= 0 ? percent : null;
+}
+
+/**
+ * Parse a fuel schedule sheet with the columns Effective Date | Ground % | Air %.
+ * Carriers that publish one percentage can leave the air column empty; it then
+ * matches ground. A header row is skipped automatically.
+ */
+export function parseFuelSchedule(rows: unknown[][]): { entries: ParsedFuelScheduleRow[]; errors: string[] } {
+  const entries = new Map<string, ParsedFuelScheduleRow>();
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    if (!row || row.every(cell => String(cell ?? '').trim() === '')) return;
+
+    const [dateCell, groundCell, airCell] = row;
+    if (index === 0 && !/\d/.test(String(dateCell ?? ''))) return; // header
+
+    const effectiveDate = normalizeDate(dateCell);
+    const ground = parsePercent(groundCell);
+    const air = parsePercent(airCell) ?? ground;
+
+    if (!effectiveDate || ground === null || air === null) {
+      errors.push(`Row ${index + 1}: expected an effective date and a ground (and optional air) percentage`);
+      return;
+    }
+
+    // A later row for the same week replaces the earlier one
+    entries.set(effectiveDate, { effective_date: effectiveDate, ground_percent: ground, air_percent: air });
+  });
+
+  return {
+    entries: [...entries.values()].sort((a, b) => a.effective_date.localeCompare(b.effective_date)),
+    errors
+  };
+}
+
+/**
+ * The schedule row in effect on a date: the latest one that started on or before it.
+ */
+export function findFuelScheduleEntry<T extends Pick<FuelScheduleEntry, 'effective_date'>>(
+  entries: T[],
+  shipDate: string
+): T | null {
+  let match: T | null = null;
+  for (const entry of entries) {
+    if (entry.effective_date <= shipDate && (!match || entry.effective_date > match.effective_date)) {
+      match = entry;
+    }
+  }
+  return match;
+}
+
+/**
+ * Fuel percentage a rate card account pays for a service on a ship date. Accounts that
+ * don't use the carrier schedule, or ship before its first week, keep their static rate.
+ */
+export function resolveFuelSurcharge(
+  entries: FuelScheduleEntry[],
+  account: { fuel_auto_lookup?: boolean | null; fuel_surcharge_percent?: number | null },
+  serviceCategory: string | null | undefined,
+  shipDate: string
+): AppliedFuelSurcharge {
+  const entry = account.fuel_auto_lookup ? findFuelScheduleEntry(entries, shipDate) : null;
+  if (entry) {
+    return {
+      percent: Number(isGroundService(serviceCategory) ? entry.ground_percent : entry.air_percent),
+      source: 'schedule',
+      effectiveDate: entry.effective_date
+    };
+  }
+  return { percent: Number(account.fuel_surcharge_percent) || 0, source: 'account', effectiveDate: null };
+}
+
+// One fuel rate an analysis priced rate card shipments with, recorded on the analysis
+export interface FuelUsage {
+  account_name: string;
+  carrier_type: string;
+  percent: number;
+  effective_date: string | null; // null for the account's static percentage
+  rates: number; // quoted rates priced with it
+}
+
+/**
+ * Collapse per-rate fuel percentages (shipment_rates columns) into the distinct fuel
+ * rates used, adding to a previous summary when an analysis is saved in batches.
+ */
+export function summarizeFuelUsage(
+  rates: {
+    account_name?: string | null;
+    carrier_type?: string | null;
+    fuel_surcharge_percent?: number | null;
+    fuel_effective_date?: string | null;
+  }[],
+  previous: FuelUsage[] = []
+): FuelUsage[] {
+  const usage = new Map(previous.map(entry => [
+    `${entry.account_name}|${entry.percent}|${entry.effective_date}`,
+    { ...entry }
+  ]));
+
+  for (const rate of rates) {
+    if (rate.fuel_surcharge_percent == null) continue;
+
+    const entry = {
+      account_name: rate.account_name || 'Unknown',
+      carrier_type: rate.carrier_type || 'unknown',
+      percent: Number(rate.fuel_surcharge_percent),
+      effective_date: rate.fuel_effective_date || null
+    };
+    const key = `${entry.account_name}|${entry.percent}|${entry.effective_date}`;
+    const existing = usage.get(key);
+    if (existing) {
+      existing.rates++;
+    } else {
+      usage.set(key, { ...entry, rates: 1 });
+    }
+  }
+
+  return [...usage.values()];
+}
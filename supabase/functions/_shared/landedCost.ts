@@ -0,0 +1,126 @@
+/**
+ * Duties and taxes estimates for international shipments from the user's imported
+ * tariff table. A tariff row covers a destination country and an HS code prefix; the
+ * longest matching prefix wins and a blank prefix is the country's default rate.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+import { normalizeCountryCode } from './countries.ts';
+
+export interface TariffRate {
+  destination_country: string; // ISO alpha-2
+  hs_code: string; // Digits only; '' applies to every commodity
+  duty_percent: number;
+  tax_percent: number; // VAT / GST / import sales tax
+  de_minimis_value: number | null; // Customs values at or below it enter duty and tax free
+}
+
+export interface LandedCostEstimate {
+  dutyAmount: number;
+  taxAmount: number;
+  landedCost: number; // freight + duty + tax
+  deMinimisApplied: boolean;
+  tariff: Pick<TariffRate, 'destination_country' | 'hs_code'> | null;
+}
+
+export function normalizeHsCode(value: unknown): string {
+  return String(value ?? '').replace(/\D/g, '');
+}
+
+function parseNumber(value: unknown): number | null {
+  const text = String(value ?? '').replace(/[%$,]/g, '').trim();
+  if (!text) return null;
+  const number = parseFloat(text);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Parse a tariff sheet with the columns Destination Country | HS Code | Duty % | Tax % |
+ * De Minimis. The HS code may be left blank for a country-wide rate and the tax and de
+ * minimis columns are optional. A header row is skipped automatically.
+ */
+export function parseTariffTable(rows: unknown[][]): { entries: TariffRate[]; errors: string[] } {
+  const entries = new Map<string, TariffRate>();
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    if (!row || row.every(cell => String(cell ?? '').trim() === '')) return;
+
+    const [countryCell, hsCell, dutyCell, taxCell, deMinimisCell] = row;
+    if (index === 0 && parseNumber(dutyCell) === null) return; // header
+
+    const country = normalizeCountryCode(countryCell);
+    const duty = parseNumber(dutyCell);
+    if (!String(countryCell ?? '').trim() || !country || duty === null) {
+      errors.push(`Row ${index + 1}: expected a destination country and a duty percentage`);
+      return;
+    }
+
+    const hsCode = normalizeHsCode(hsCell);
+    // A later row for the same country and code replaces the earlier one
+    entries.set(`${country}|${hsCode}`, {
+      destination_country: country,
+      hs_code: hsCode,
+      duty_percent: duty,
+      tax_percent: parseNumber(taxCell) ?? 0,
+      de_minimis_value: parseNumber(deMinimisCell)
+    });
+  });
+
+  return { entries: [...entries.values()], errors };
+}
+
+/**
+ * The tariff row for a commodity entering a country: the longest HS prefix that matches,
+ * falling back to the country-wide row.
+ */
+export function findTariffRate<T extends Pick<TariffRate, 'destination_country' | 'hs_code'>>(
+  rates: T[],
+  destinationCountry: string,
+  hsCode?: string | null
+): T | null {
+  const country = normalizeCountryCode(destinationCountry);
+  const code = normalizeHsCode(hsCode);
+
+  let match: T | null = null;
+  for (const rate of rates) {
+    if (rate.destination_country !== country || !code.startsWith(rate.hs_code)) continue;
+    if (!match || rate.hs_code.length > match.hs_code.length) {
+      match = rate;
+    }
+  }
+  return match;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Landed cost of a shipment priced at `freight`. Duty is assessed on the customs value;
+ * import tax on the customs value plus freight and duty, the CIF basis most VAT and GST
+ * countries use. Without a tariff row only the freight is known.
+ */
+export function estimateLandedCost(
+  tariff: TariffRate | null,
+  customsValue: number,
+  freight: number
+): LandedCostEstimate {
+  const value = Math.max(Number(customsValue) || 0, 0);
+  if (!tariff) {
+    return { dutyAmount: 0, taxAmount: 0, landedCost: roundCents(freight), deMinimisApplied: false, tariff: null };
+  }
+
+  const matched = { destination_country: tariff.destination_country, hs_code: tariff.hs_code };
+  if (tariff.de_minimis_value != null && value <= Number(tariff.de_minimis_value)) {
+    return { dutyAmount: 0, taxAmount: 0, landedCost: roundCents(freight), deMinimisApplied: true, tariff: matched };
+  }
+
+  const dutyAmount = roundCents(value * Number(tariff.duty_percent) / 100);
+  const taxAmount = roundCents((value + freight + dutyAmount) * Number(tariff.tax_percent) / 100);
+  return {
+    dutyAmount,
+    taxAmount,
+    landedCost: roundCents(freight + dutyAmount + taxAmount),
+    deMinimisApplied: false,
+    tariff: matched
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Multi-piece shipments. A shipment carries its pieces in `packages`; `package` stays on
+ * every request as the combined shipment so single-package callers keep working.
+ * Carriers price each piece on its own and, past a minimum total weight, may rate the
+ * whole shipment by the hundredweight instead.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+import { isGroundService } from './fuelSurcharge.ts';
+
+export interface ShipmentPackage {
+  weight: number;
+  weightUnit: string;
+  length?: number;
+  width?: number;
+  height?: number;
+  dimensionUnit?: string;
+  packageType?: string;
+}
+
+function toPounds(weight: number, unit = 'LBS'): number {
+  const normalized = unit.toUpperCase();
+  if (normalized.startsWith('OZ')) return weight / 16;
+  if (normalized.startsWith('KG')) return weight * 2.20462;
+  return weight;
+}
+
+const cubicSize = (pkg: ShipmentPackage) =>
+  (Number(pkg.length) || 0) * (Number(pkg.width) || 0) * (Number(pkg.height) || 0);
+
+/**
+ * The pieces of a shipment: its `packages` when it has them, otherwise the single package.
+ */
+export function getShipmentPackages(shipment: { package: ShipmentPackage; packages?: ShipmentPackage[] | null }): ShipmentPackage[] {
+  return shipment.packages && shipment.packages.length > 0 ? shipment.packages : [shipment.package];
+}
+
+/**
+ * One package standing in for all pieces: their total weight with the largest piece's
+ * dimensions. Used as `package` on multi-piece requests for callers that rate one box.
+ */
+export function combinePackages(packages: ShipmentPackage[]): ShipmentPackage {
+  if (packages.length === 1) return packages[0];
+
+  const largest = packages.reduce((biggest, pkg) => (cubicSize(pkg) > cubicSize(biggest) ? pkg : biggest), packages[0]);
+  const totalPounds = packages.reduce((sum, pkg) => sum + toPounds(Number(pkg.weight) || 0, pkg.weightUnit), 0);
+
+  return {
+    ...largest,
+    weight: Math.round(totalPounds * 100) / 100,
+    weightUnit: 'LBS'
+  };
+}
+
+/**
+ * Split a shipment with a package count into identical pieces. The weight is the
+ * shipment total and is divided evenly; every piece keeps the mapped dimensions.
+ */
+export function expandPackageCount(pkg: ShipmentPackage, count: number): ShipmentPackage[] {
+  const pieces = Math.floor(count);
+  if (!Number.isFinite(pieces) || pieces <= 1) return [pkg];
+
+  const pieceWeight = Math.round(((Number(pkg.weight) || 0) / pieces) * 100) / 100;
+  return Array.from({ length: pieces }, () => ({ ...pkg, weight: pieceWeight }));
+}
+
+/**
+ * Group per-piece rows that share a tracking or reference number, keeping the order the
+ * first piece of each shipment appeared in. Rows without a key stand alone.
+ */
+export function groupPieceRows<T>(rows: T[], getKey: (row: T) => string | null | undefined): T[][] {
+  const groups: T[][] = [];
+  const byKey = new Map<string, T[]>();
+
+  for (const row of rows) {
+    const key = getKey(row)?.trim();
+    if (!key) {
+      groups.push([row]);
+      continue;
+    }
+
+    const group = byKey.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      const newGroup = [row];
+      byKey.set(key, newGroup);
+      groups.push(newGroup);
+    }
+  }
+
+  return groups;
+}
+
+interface PieceCharge {
+  code: string;
+  description: string;
+  amount: number;
+}
+
+/**
+ * Collapse per-piece fees into one line per fee, e.g. "Residential Surcharge (×3)".
+ */
+export function mergePieceCharges<T extends PieceCharge>(charges: T[]): T[] {
+  const merged = new Map<string, { charge: T; count: number }>();
+  for (const charge of charges) {
+    const existing = merged.get(charge.code);
+    if (existing) {
+      existing.charge.amount += charge.amount;
+      existing.count++;
+    } else {
+      merged.set(charge.code, { charge: { ...charge }, count: 1 });
+    }
+  }
+
+  return [...merged.values()].map(({ charge, count }) => ({
+    ...charge,
+    description: count > 1 ? `${charge.description} (×${count})` : charge.description
+  }));
+}
+
+export interface HundredweightEligibility {
+  eligible: boolean;
+  pieceCount: number;
+  totalWeight: number; // summed billable weight of the pieces, lbs
+  minimumWeight: number | null; // null when the carrier has no hundredweight program
+}
+
+// Minimum total billable weight for multi-piece shipments to one address
+const HUNDREDWEIGHT_MINIMUMS: Record<string, { ground: number; air: number }> = {
+  ups: { ground: 200, air: 100 },
+  fedex: { ground: 200, air: 100 }
+};
+
+/**
+ * Whether a multi-piece shipment qualifies for hundredweight pricing. Rates are still
+ * quoted per piece; the flag tells the user the shipment could be priced by weight
+ * under a hundredweight agreement.
+ */
+export function getHundredweightEligibility(
+  pieceBillableWeights: number[],
+  carrierType: string,
+  serviceCategory: string | null | undefined
+): HundredweightEligibility {
+  const totalWeight = pieceBillableWeights.reduce((sum, weight) => sum + (Number(weight) || 0), 0);
+  const minimums = HUNDREDWEIGHT_MINIMUMS[carrierType?.toLowerCase()];
+  const minimumWeight = minimums ? (isGroundService(serviceCategory) ? minimums.ground : minimums.air) : null;
+
+  return {
+    eligible: minimumWeight !== null && pieceBillableWeights.length > 1 && totalWeight >= minimumWeight,
+    pieceCount: pieceBillableWeights.length,
+    totalWeight,
+    minimumWeight
+  };
+}
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getEnvInt } from './concurrency.ts';
+import { formatPostalCode } from './countries.ts';
+
+interface QuoteCachePackage {
+  weight: number;
+  weightUnit?: string;
+  length?: number;
+  width?: number;
+  height?: number;
+  dimensionUnit?: string;
+}
+
+// Only the fields that change a carrier's price take part in the cache key
+interface QuoteCacheShipment {
+  shipFrom: { zipCode: string; country?: string };
+  shipTo: { zipCode: string; country?: string };
+  package: QuoteCachePackage;
+  packages?: QuoteCachePackage[];
+  isResidential?: boolean;
+  zone?: string;
+  shipDate?: string;
+}
+
+export interface QuoteCacheLookup<T> {
+  hits: T[];
+  missingServiceCodes: string[];
+}
+
+// Country and postal code; US ZIPs key on their first five digits
+function laneEndKey(address: { zipCode: string; country?: string }): string {
+  const country = (address.country || 'US').toUpperCase();
+  return `${country}:${formatPostalCode(address.zipCode, country)}`;
+}
+
+function packageKey(pkg: QuoteCachePackage): string {
+  const dims = [pkg.length, pkg.width, pkg.height]
+    .map(value => (value ? Number(value).toFixed(1) : '-'))
+    .join('x');
+
+  return `${Number(pkg.weight).toFixed(2)}${(pkg.weightUnit || 'LBS').toUpperCase()}|${dims}${(pkg.dimensionUnit || 'IN').toUpperCase()}`;
+}
+
+/**
+ * Build the per-service cache key for a shipment. Weight is rounded to hundredths and
+ * dims to tenths so float noise from CSV parsing doesn't defeat the cache. Multi-piece
+ * shipments key on every piece; single-package keys are unchanged. The ship date picks
+ * the fuel surcharge, so shipments on different dates never share a quote. Rate card
+ * quotes also key on the version they were priced from, which pins or the ship date choose.
+ */
+export function buildQuoteCacheKey(shipment: QuoteCacheShipment, serviceCode: string, rateCardVersionId?: string): string {
+  const pieces = shipment.packages && shipment.packages.length > 1
+    ? shipment.packages.map(packageKey).join('+')
+    : packageKey(shipment.package);
+
+  return [
+    laneEndKey(shipment.shipFrom),
+    laneEndKey(shipment.shipTo),
+    pieces,
+    shipment.isResidential ? 'RES' : 'COM',
+    shipment.zone ? `Z${shipment.zone}` : 'Z-',
+    shipment.shipDate ? `D${shipment.shipDate}` : 'D-',
+    rateCardVersionId ? `V${rateCardVersionId}` : 'V-',
+    serviceCode
+  ].join('|');
+}
+
+/**
+ * Look up unexpired cached rates for each requested service. Lookup failures are
+ * treated as misses so the cache can never block a quote.
+ */
+export async function getCachedQuotes<T extends object>(
+  supabase: SupabaseClient,
+  configId: string,
+  shipment: QuoteCacheShipment,
+  serviceCodes: string[],
+  rateCardVersionId?: string
+): Promise<QuoteCacheLookup<T>> {
+  const keysByService = new Map(serviceCodes.map(code => [code, buildQuoteCacheKey(shipment, code, rateCardVersionId)]));
+
+  const { data, error } = await supabase
+    .from('rate_quote_cache')
+    .select('cache_key, rate')
+    .eq('carrier_config_id', configId)
+    .in('cache_key', [...keysByService.values()])
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error('⚠️ Quote cache lookup failed:', error);
+    return { hits: [], missingServiceCodes: serviceCodes };
+  }
+
+  const cachedByKey = new Map((data || []).map(row => [row.cache_key as string, row.rate as T]));
+  const hits: T[] = [];
+  const missingServiceCodes: string[] = [];
+
+  for (const [serviceCode, key] of keysByService) {
+    const cached = cachedByKey.get(key);
+    if (cached) {
+      hits.push({ ...cached, fromCache: true });
+    } else {
+      missingServiceCodes.push(serviceCode);
+    }
+  }
+
+  return { hits, missingServiceCodes };
+}
+
+/**
+ * Store freshly quoted rates. TTL comes from RATE_QUOTE_CACHE_TTL_HOURS (default 24h).
+ */
+export async function storeCachedQuotes(
+  supabase: SupabaseClient,
+  userId: string,
+  configId: string,
+  shipment: QuoteCacheShipment,
+  rates: { serviceCode: string }[],
+  rateCardVersionId?: string
+): Promise<void> {
+  if (rates.length === 0) return;
+
+  const expiresAt = new Date(Date.now() + getEnvInt('RATE_QUOTE_CACHE_TTL_HOURS', 24) * 3600 * 1000).toISOString();
+  const rows = rates.map(rate => ({
+    user_id: userId,
+    carrier_config_id: configId,
+    cache_key: buildQuoteCacheKey(shipment, rate.serviceCode, rateCardVersionId),
+    service_code: rate.serviceCode,
+    request_params: {
+      origin: shipment.shipFrom.zipCode,
+      destination: shipment.shipTo.zipCode,
+      package: shipment.package,
+      packages: shipment.packages,
+      isResidential: shipment.isResidential || false,
+      shipDate: shipment.shipDate
+    },
+    rate: { ...rate, fromCache: false },
+    expires_at: expiresAt
+  }));
+
+  const { error } = await supabase
+    .from('rate_quote_cache')
+    .upsert(rows, { onConflict: 'carrier_config_id,cache_key' });
+
+  if (error) {
+    console.error('⚠️ Failed to store quotes in cache:', error);
+  }
+}
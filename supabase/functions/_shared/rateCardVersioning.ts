@@ -0,0 +1,53 @@
+/**
+ * Rate card versions. Uploading a new card adds a version effective from a date instead of
+ * overwriting rate_card_rates, so older analyses can still be repriced and explained.
+ * Shared with the React app, so it must stay free of Deno and browser APIs.
+ */
+
+export interface RateCardVersion {
+  id: string;
+  carrier_config_id: string;
+  version_number: number;
+  effective_from: string; // YYYY-MM-DD
+  effective_to: string | null; // YYYY-MM-DD inclusive; null while current
+  source_file_name?: string | null;
+  created_at?: string;
+}
+
+// Analysis-level choice of version per rate card account, keyed by carrier config id
+export type RateCardVersionPins = Record<string, string>;
+
+export function isVersionEffectiveOn(version: RateCardVersion, date: string): boolean {
+  return version.effective_from <= date && (!version.effective_to || version.effective_to >= date);
+}
+
+/**
+ * Version that prices a shipment on a date. A later upload for an overlapping period wins;
+ * ship dates before the first version fall back to it so old shipments still get a rate.
+ */
+export function selectRateCardVersion<T extends RateCardVersion>(versions: T[], date: string): T | null {
+  let match: T | null = null;
+  let earliest: T | null = null;
+  for (const version of versions) {
+    if (isVersionEffectiveOn(version, date) && (!match || version.version_number > match.version_number)) {
+      match = version;
+    }
+    if (!earliest || version.effective_from < earliest.effective_from) {
+      earliest = version;
+    }
+  }
+  return match || (earliest && date < earliest.effective_from ? earliest : null);
+}
+
+/**
+ * The day before a YYYY-MM-DD date, used to close the version a new upload replaces.
+ */
+export function dayBefore(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().split('T')[0];
+}
+
+export function formatVersionLabel(version: Pick<RateCardVersion, 'version_number' | 'effective_from' | 'effective_to'>): string {
+  return `v${version.version_number} · ${version.effective_from} – ${version.effective_to || 'current'}`;
+}
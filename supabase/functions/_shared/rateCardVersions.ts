@@ -0,0 +1,53 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizeDate } from './fuelSurcharge.ts';
+import { selectRateCardVersion } from './rateCardVersioning.ts';
+import type { RateCardVersion, RateCardVersionPins } from './rateCardVersioning.ts';
+
+export type RateCardVersionResolver = (
+  configId: string,
+  shipDate?: string | null,
+  pins?: RateCardVersionPins
+) => Promise<RateCardVersion | null>;
+
+/**
+ * Resolve the rate card version an account prices a shipment with: the version the
+ * analysis is pinned to, otherwise the one effective on the ship date (today without one).
+ * Each account's versions are loaded once per resolver.
+ */
+export function createRateCardVersionResolver(supabase: SupabaseClient): RateCardVersionResolver {
+  const versionsByConfig = new Map<string, Promise<RateCardVersion[]>>();
+
+  const loadVersions = (configId: string): Promise<RateCardVersion[]> => {
+    let versions = versionsByConfig.get(configId);
+    if (!versions) {
+      versions = Promise.resolve(supabase
+        .from('rate_card_versions')
+        .select('id, carrier_config_id, version_number, effective_from, effective_to, source_file_name')
+        .eq('carrier_config_id', configId)
+        .order('version_number', { ascending: true })
+        .then(({ data, error }) => {
+          if (error) {
+            console.error('⚠️ Failed to load rate card versions for config', configId, error);
+            return [];
+          }
+          return (data || []) as RateCardVersion[];
+        }));
+      versionsByConfig.set(configId, versions);
+    }
+    return versions;
+  };
+
+  return async (configId, shipDate, pins) => {
+    const versions = await loadVersions(configId);
+
+    const pinnedId = pins?.[configId];
+    if (pinnedId) {
+      const pinned = versions.find(version => version.id === pinnedId);
+      if (pinned) return pinned;
+      console.warn(`⚠️ Pinned rate card version ${pinnedId} not found for config ${configId}, using ship date`);
+    }
+
+    const date = normalizeDate(shipDate) || new Date().toISOString().split('T')[0];
+    return selectRateCardVersion(versions, date);
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Shipment and rate shapes shared by the carrier adapters, the rate functions and the
+ * React app.
+ */
+
+import type { RateSurcharge } from './surcharges.ts';
+import type { AccessorialRule } from './accessorials.ts';
+import type { RateCardVersionPins } from './rateCardVersioning.ts';
+import type { ShipmentPackage } from './packages.ts';
+import type { DiscountTier } from './discountTiers.ts';
+
+export type CarrierTypeCode = 'ups' | 'fedex' | 'dhl' | 'usps' | 'amazon';
+
+export interface ShipmentAddress {
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+export interface ShipmentRequest {
+  shipFrom: ShipmentAddress;
+  shipTo: ShipmentAddress;
+  package: ShipmentPackage; // Whole shipment; the combined pieces when there are several
+  packages?: ShipmentPackage[]; // Individual pieces of a multi-piece shipment
+  carrierConfigIds?: string[];
+  serviceTypes?: string[];
+  equivalentServiceCode?: string;
+  isResidential?: boolean;
+  residentialSource?: string;
+  signatureRequired?: boolean;
+  isDutiable?: boolean; // DHL customs declarable flag, defaults to cross-border
+  declaredValue?: number; // Customs value of international shipments
+  declaredValueCurrency?: string;
+  hsCode?: string; // Harmonized System code of the contents, for duty lookup
+  commodityDescription?: string;
+  analysisId?: string; // For saving individual rates
+  shipmentIndex?: number; // For saving individual rates
+  zone?: string; // CSV-mapped zone data
+  shipDate?: string; // Picks the effective fuel surcharge and rate card version
+  deliveryDate?: string; // When the original shipment was delivered; sets the delivery window
+  rateCardVersionPins?: RateCardVersionPins; // Rate card versions the analysis is pinned to
+}
+
+export interface CarrierConfig {
+  id: string;
+  user_id?: string;
+  carrier_type: CarrierTypeCode;
+  account_name: string;
+  is_sandbox: boolean;
+  is_rate_card?: boolean;
+  dimensional_divisor?: number;
+  fuel_surcharge_percent?: number;
+  fuel_auto_lookup?: boolean; // Use the imported carrier fuel schedule instead of the static percent
+  accessorial_rules?: AccessorialRule[]; // Rate card accounts only
+  discount_tiers?: DiscountTier[]; // Earned-discount tiers, API accounts only
+  ups_client_id?: string;
+  ups_client_secret?: string;
+  ups_account_number?: string;
+  fedex_account_number?: string;
+  fedex_meter_number?: string;
+  fedex_key?: string;
+  fedex_password?: string;
+  usps_user_id?: string;
+  usps_password?: string;
+  dhl_account_number?: string;
+  dhl_site_id?: string;
+  dhl_password?: string;
+  enabled_services?: string[]; // For service filtering
+}
+
+/**
+ * Rate shape every adapter returns. Charges are always numbers; carrier specific
+ * fields (zone, weightBreak, productCode, ...) ride along as extra properties.
+ */
+export interface NormalizedRate {
+  serviceCode: string;
+  serviceName: string;
+  description?: string;
+  totalCharges: number;
+  currency: string;
+  baseCharges?: number;
+  surcharges?: RateSurcharge[]; // baseCharges + surcharges add up to totalCharges
+  billableWeight?: number; // lbs the carrier priced the package at
+  fuelSurcharge?: number; // Percent applied to rate card rates
+  fuelEffectiveDate?: string | null; // Week of the fuel schedule used, if any
+  rateCardVersionId?: string; // Rate card version that priced the rate
+  packageCount?: number; // Pieces rated, when more than one
+  dutyAmount?: number; // Estimated import duty, international shipments only
+  taxAmount?: number; // Estimated import VAT/GST
+  landedCost?: number; // totalCharges plus estimated duty and tax
+  originalCurrency?: string; // Currency the carrier quoted in, when converted to the reporting currency
+  originalTotalCharges?: number;
+  exchangeRate?: number; // Multiplier applied to every charge
+  hundredweightEligible?: boolean; // Multi-piece shipment meets the carrier's hundredweight minimum
+  transitTime?: number | string | null;
+  deliveryDate?: string | null;
+  rateType?: string;
+  hasNegotiatedRates?: boolean;
+  publishedRate?: number;
+  negotiatedRate?: number;
+  savingsAmount?: number;
+  savingsPercentage?: number;
+  isEquivalentService?: boolean;
+  source: 'api' | 'rate_card';
+  [key: string]: unknown;
+}
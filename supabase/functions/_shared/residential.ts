@@ -0,0 +1,91 @@
+// The residential settings a confirmed service mapping carries from the mapping page
+export interface ResidentialMapping {
+  isResidential?: boolean;
+  residentialSource?: string;
+  isResidentialDetected?: boolean;
+}
+
+export interface ResidentialStatus {
+  isResidential: boolean;
+  source: string;
+  confidence: number;
+}
+
+// Strong residential indicators: apartment/unit numbers and home words
+const RESIDENTIAL_PATTERNS = [
+  /apt\s*\d+/i, /apartment\s*\d+/i, /unit\s*\d+/i, /suite\s*\d+/i,
+  /#\s*\d+/i, /\d+[a-z]\s*$/i,
+  /house/i, /home/i, /residence/i
+];
+
+const COMMERCIAL_PATTERNS = [
+  /\b(llc|inc|corp|ltd|company|co\.|corporation|incorporated)\b/i,
+  /\b(office|building|plaza|center|centre|tower|floor|fl\s*\d+)\b/i,
+  /\b(warehouse|distribution|fulfillment|dock|bay\s*\d+)\b/i,
+  /\b(business|store|shop|retail|mall)\b/i
+];
+
+/**
+ * Guess residential or commercial from the recipient address. Commercial patterns are
+ * checked first as they are the stronger signal; an address matching neither is
+ * commercial with low confidence.
+ */
+export function detectResidentialFromAddress(address: string): { isResidential: boolean; confidence: number } {
+  if (!address || typeof address !== 'string') {
+    return { isResidential: false, confidence: 0 };
+  }
+
+  const addressLower = address.toLowerCase().trim();
+  if (COMMERCIAL_PATTERNS.some(pattern => pattern.test(addressLower))) {
+    return { isResidential: false, confidence: 0.8 };
+  }
+  if (RESIDENTIAL_PATTERNS.some(pattern => pattern.test(addressLower))) {
+    return { isResidential: true, confidence: 0.7 };
+  }
+  return { isResidential: false, confidence: 0.2 };
+}
+
+function parseResidentialValue(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    return ['yes', 'y', 'true', '1', 'residential', 'home'].includes(value.toLowerCase().trim());
+  }
+  if (typeof value === 'number') return value === 1;
+  return false;
+}
+
+/**
+ * Residential status of a shipment, from the most to the least reliable source: the
+ * mapped CSV column, a manual setting on the mapping page, the service name, the
+ * recipient address, any other mapping setting, and finally commercial.
+ */
+export function determineResidentialStatus(
+  shipment: Record<string, unknown>,
+  serviceMapping: ResidentialMapping,
+  csvResidentialField?: string
+): ResidentialStatus {
+  if (csvResidentialField && shipment[csvResidentialField] !== undefined) {
+    return { isResidential: parseResidentialValue(shipment[csvResidentialField]), source: 'csv_data', confidence: 0.95 };
+  }
+
+  if (serviceMapping.isResidential !== undefined && serviceMapping.residentialSource === 'manual') {
+    return { isResidential: serviceMapping.isResidential, source: 'manual', confidence: 0.9 };
+  }
+
+  if (serviceMapping.isResidentialDetected && serviceMapping.isResidential !== undefined) {
+    return { isResidential: serviceMapping.isResidential, source: 'service_name', confidence: 0.8 };
+  }
+
+  if (typeof shipment.recipientAddress === 'string' && shipment.recipientAddress) {
+    const addressAnalysis = detectResidentialFromAddress(shipment.recipientAddress);
+    if (addressAnalysis.confidence > 0.6) {
+      return { ...addressAnalysis, source: 'address_pattern' };
+    }
+  }
+
+  if (serviceMapping.isResidential !== undefined) {
+    return { isResidential: serviceMapping.isResidential, source: 'fallback_mapping', confidence: 0.5 };
+  }
+
+  return { isResidential: false, source: 'default', confidence: 0.1 };
+}
@@ -0,0 +1,191 @@
+import { getEnvInt } from './concurrency.ts';
+
+// `client` covers the other 4xx responses: a bad ZIP, weight or service in one request
+export type CarrierErrorCategory = 'rate_limit' | 'timeout' | 'auth' | 'client' | 'server' | 'circuit_open' | 'unknown';
+
+/**
+ * Error raised for a failed carrier call. Carries the HTTP status (when there was one)
+ * so callers can categorize failures without string-matching messages.
+ */
+export class CarrierRequestError extends Error {
+  status?: number;
+  category: CarrierErrorCategory;
+
+  constructor(message: string, status?: number, category?: CarrierErrorCategory) {
+    super(message);
+    this.name = 'CarrierRequestError';
+    this.status = status;
+    this.category = category || categorizeStatus(status);
+  }
+}
+
+function categorizeStatus(status?: number): CarrierErrorCategory {
+  if (status === 429) return 'rate_limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status !== undefined && status >= 500) return 'server';
+  if (status !== undefined && status >= 400) return 'client';
+  return 'unknown';
+}
+
+/**
+ * Categorize any error thrown while quoting. Structured errors win; plain errors fall
+ * back to message matching (withTimeout and network failures only give us a message).
+ */
+export function categorizeCarrierError(error: unknown): CarrierErrorCategory {
+  if (error instanceof CarrierRequestError) {
+    return error.category;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes('timeout') || message.includes('ECONNRESET')) return 'timeout';
+  if (message.includes('rate limit') || message.includes('429')) return 'rate_limit';
+  if (message.includes('auth') || message.includes('401') || message.includes('403')) return 'auth';
+  return 'unknown';
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  label?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)].
+ */
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+/**
+ * `fetch` that retries 429/5xx responses and network errors with backoff, waiting as
+ * long as the carrier's Retry-After asks up to `maxDelayMs`, so a long Retry-After
+ * can't stall an analysis slice. The last response is returned as-is so callers keep
+ * their existing error handling for non-OK statuses.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions = {}): Promise<Response> {
+  const maxRetries = options.maxRetries ?? getEnvInt('CARRIER_MAX_RETRIES', 3);
+  const baseDelayMs = options.baseDelayMs ?? getEnvInt('CARRIER_RETRY_BASE_MS', 500);
+  const maxDelayMs = options.maxDelayMs ?? getEnvInt('CARRIER_RETRY_MAX_MS', 8000);
+  const label = options.label || url;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (attempt >= maxRetries) {
+        throw error;
+      }
+      const delay = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+      console.log(`🔁 ${label}: network error, retry ${attempt + 1}/${maxRetries} in ${delay.toFixed(0)}ms`, error);
+      await sleep(delay);
+      continue;
+    }
+
+    if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    const delay = Math.min(maxDelayMs, Math.max(retryAfter ?? 0, getBackoffDelay(attempt, baseDelayMs, maxDelayMs)));
+    console.log(`🔁 ${label}: HTTP ${response.status}, retry ${attempt + 1}/${maxRetries} in ${delay.toFixed(0)}ms${retryAfter !== null ? ' (Retry-After)' : ''}`);
+
+    // Drain the body so the connection can be reused
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Per-account circuit breaker. After `failureThreshold` consecutive failures the
+ * circuit opens and calls are refused until `cooldownMs` has passed; the next call is
+ * then let through as a probe and closes the circuit again if it succeeds.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(
+    readonly key: string,
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half_open';
+    }
+    return this.state !== 'open';
+  }
+
+  recordSuccess() {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure() {
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.log(`🔌 Circuit opened for ${this.key} after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+}
+
+// Breakers live for the lifetime of the edge function isolate, so a warm worker keeps
+// remembering which accounts are failing across requests
+const CIRCUIT_BREAKERS = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(key: string): CircuitBreaker {
+  let breaker = CIRCUIT_BREAKERS.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(
+      key,
+      getEnvInt('CARRIER_BREAKER_FAILURE_THRESHOLD', 5),
+      getEnvInt('CARRIER_BREAKER_COOLDOWN_MS', 30000)
+    );
+    CIRCUIT_BREAKERS.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Failures that say something about the account's health. Auth errors and client
+ * (validation) errors are about one request, not the account, and don't trip the breaker.
+ */
+export function shouldTripBreaker(category: CarrierErrorCategory): boolean {
+  return category === 'rate_limit' || category === 'timeout' || category === 'server' || category === 'unknown';
+}
@@ -1,13 +1,16 @@
 /**
- * Carrier service registry for mapping universal service categories to carrier-specific codes
+ * Carrier service registry for mapping universal service categories to carrier-specific codes.
+ * Used by both the edge functions and the React app (imported there as `@shared/...`),
+ * so it must stay free of Deno and browser APIs.
  */
 
-import { UniversalServiceCategory } from './universalServiceCategories';
+import { UniversalServiceCategory } from './serviceCategories.ts';
 
 export enum CarrierType {
   UPS = 'UPS',
   FEDEX = 'FEDEX',
   DHL = 'DHL',
+  USPS = 'USPS',
   AMAZON = 'AMAZON'
 }
 
@@ -204,6 +207,28 @@ const DHL_SERVICE_MAPPINGS: CarrierServiceMapping[] = [
   }
 ];
 
+// USPS Service Mappings
+const USPS_SERVICE_MAPPINGS: CarrierServiceMapping[] = [
+  {
+    universalCategory: UniversalServiceCategory.OVERNIGHT,
+    carrierCode: 'PRIORITY_EXPRESS',
+    carrierServiceName: 'USPS Priority Mail Express',
+    isAvailable: true
+  },
+  {
+    universalCategory: UniversalServiceCategory.TWO_DAY,
+    carrierCode: 'PRIORITY',
+    carrierServiceName: 'USPS Priority Mail',
+    isAvailable: true
+  },
+  {
+    universalCategory: UniversalServiceCategory.GROUND,
+    carrierCode: 'GROUND_ADVANTAGE',
+    carrierServiceName: 'USPS Ground Advantage',
+    isAvailable: true
+  }
+];
+
 // Amazon Service Mappings
 const AMAZON_SERVICE_MAPPINGS: CarrierServiceMapping[] = [
   {
@@ -218,6 +243,7 @@ export const CARRIER_MAPPINGS = {
   [CarrierType.UPS]: UPS_SERVICE_MAPPINGS,
   [CarrierType.FEDEX]: FEDEX_SERVICE_MAPPINGS,
   [CarrierType.DHL]: DHL_SERVICE_MAPPINGS,
+  [CarrierType.USPS]: USPS_SERVICE_MAPPINGS,
   [CarrierType.AMAZON]: AMAZON_SERVICE_MAPPINGS
 };
 
@@ -280,6 +306,19 @@ export function getServiceCodesToRequest(
   return serviceCodes;
 }
 
+/**
+ * Get every available carrier code in a universal category (e.g. FedEx Ground and Home Delivery)
+ */
+export function getServiceCodesForCategory(
+  carrierType: CarrierType,
+  universalCategory: UniversalServiceCategory
+): string[] {
+  const mappings = CARRIER_MAPPINGS[carrierType] || [];
+  return mappings
+    .filter(m => m.universalCategory === universalCategory && m.isAvailable)
+    .map(m => m.carrierCode);
+}
+
 /**
  * Get universal category from carrier-specific service code
  */
@@ -290,4 +329,4 @@ export function getUniversalCategoryFromCarrierCode(
   const mappings = CARRIER_MAPPINGS[carrierType] || [];
   const mapping = mappings.find(m => m.carrierCode === carrierCode);
   return mapping?.universalCategory || null;
-}
\ No newline at end of file
+}
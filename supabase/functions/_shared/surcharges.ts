@@ -0,0 +1,117 @@
+/**
+ * Typed surcharge breakdown for quoted rates. Used by the rate functions to normalize
+ * carrier charge lines and by the React app to display and export them, so it must
+ * stay free of Deno and browser APIs.
+ */
+
+export type SurchargeType =
+  | 'fuel'
+  | 'residential'
+  | 'delivery_area'
+  | 'additional_handling'
+  | 'large_package'
+  | 'signature'
+  | 'saturday'
+  | 'peak'
+  | 'other';
+
+export interface RateSurcharge {
+  type: SurchargeType;
+  code?: string;
+  description: string;
+  amount: number;
+}
+
+export interface RateChargeBreakdown {
+  baseCharge: number;
+  surcharges: RateSurcharge[];
+}
+
+export const SURCHARGE_LABELS: Record<SurchargeType, string> = {
+  fuel: 'Fuel',
+  residential: 'Residential',
+  delivery_area: 'Delivery Area',
+  additional_handling: 'Additional Handling',
+  large_package: 'Large Package',
+  signature: 'Signature',
+  saturday: 'Saturday',
+  peak: 'Peak/Demand',
+  other: 'Other'
+};
+
+// Checked in order, so "residential delivery area" lands on delivery_area, not residential
+const SURCHARGE_PATTERNS: [SurchargeType, RegExp][] = [
+  ['fuel', /fuel/i],
+  ['delivery_area', /delivery.?area|\bdas\b|remote.?area|extended.?area|out.?of.?delivery/i],
+  ['residential', /residential|\bres\b/i],
+  ['additional_handling', /additional.?handling|\bahs\b|non.?standard/i],
+  ['large_package', /large.?package|oversize|over.?max|\blps\b/i],
+  ['signature', /signature/i],
+  ['saturday', /saturday/i],
+  ['peak', /peak|demand/i]
+];
+
+// Carrier codes whose descriptions are often missing or abbreviated
+const SURCHARGE_CODES: Record<string, SurchargeType> = {
+  '375': 'fuel', // UPS fuel surcharge
+  '270': 'residential', // UPS residential address
+  '376': 'delivery_area', // UPS delivery area surcharge
+  '100': 'additional_handling', // UPS additional handling
+  FF: 'fuel', // DHL fuel surcharge
+  FUEL: 'fuel',
+  RESIDENTIAL_DELIVERY: 'residential',
+  DELIVERY_AREA: 'delivery_area',
+  DAS: 'delivery_area', // rate card DAS tiers
+  DAS_EXTENDED: 'delivery_area',
+  REMOTE_AREA: 'delivery_area',
+  ADDITIONAL_HANDLING: 'additional_handling',
+  OVERSIZE: 'large_package'
+};
+
+export function classifySurcharge(code: string | undefined, description: string | undefined): SurchargeType {
+  const byCode = code ? SURCHARGE_CODES[code.toUpperCase()] : undefined;
+  if (byCode) return byCode;
+
+  const text = `${description || ''} ${code || ''}`;
+  return SURCHARGE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] || 'other';
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Build a breakdown whose parts add up to the quoted total. Zero-amount lines are
+ * dropped; the base charge is whatever the surcharges don't account for.
+ */
+export function buildChargeBreakdown(
+  totalCharges: number,
+  lines: { code?: string; description?: string; amount: number }[]
+): RateChargeBreakdown {
+  const surcharges = lines
+    .filter(line => Number.isFinite(line.amount) && line.amount !== 0)
+    .map(line => ({
+      type: classifySurcharge(line.code, line.description),
+      code: line.code,
+      description: line.description || line.code || 'Surcharge',
+      amount: round2(line.amount)
+    }));
+
+  return {
+    baseCharge: round2(totalCharges - getTotalSurcharges(surcharges)),
+    surcharges
+  };
+}
+
+export function getTotalSurcharges(surcharges: RateSurcharge[] | null | undefined): number {
+  return round2((surcharges || []).reduce((sum, surcharge) => sum + surcharge.amount, 0));
+}
+
+/**
+ * Sum surcharges by type, e.g. for one export column per surcharge type.
+ */
+export function sumSurchargesByType(surcharges: RateSurcharge[] | null | undefined): Partial<Record<SurchargeType, number>> {
+  const totals: Partial<Record<SurchargeType, number>> = {};
+  for (const surcharge of surcharges || []) {
+    totals[surcharge.type] = round2((totals[surcharge.type] || 0) + surcharge.amount);
+  }
+  return totals;
+}
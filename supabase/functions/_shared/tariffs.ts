@@ -0,0 +1,45 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizeCountryCode } from './countries.ts';
+import { findTariffRate } from './landedCost.ts';
+import type { TariffRate } from './landedCost.ts';
+
+export type TariffResolver = (destinationCountry: string, hsCode?: string | null) => Promise<TariffRate | null>;
+
+/**
+ * Look up duty and tax rates from the user's imported tariff table. Each destination
+ * country's rows are loaded once per resolver.
+ */
+export function createTariffResolver(supabase: SupabaseClient, userId?: string): TariffResolver {
+  const ratesByCountry = new Map<string, Promise<TariffRate[]>>();
+
+  const loadRates = (country: string): Promise<TariffRate[]> => {
+    let rates = ratesByCountry.get(country);
+    if (!rates) {
+      let query = supabase
+        .from('tariff_rates')
+        .select('destination_country, hs_code, duty_percent, tax_percent, de_minimis_value')
+        .eq('destination_country', country);
+
+      // Service-role callers must scope to the user themselves; RLS does it otherwise
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      rates = Promise.resolve(query.then(({ data, error }) => {
+        if (error) {
+          console.error('⚠️ Failed to load tariff rates for', country, error);
+          return [];
+        }
+        return (data || []) as TariffRate[];
+      }));
+      ratesByCountry.set(country, rates);
+    }
+    return rates;
+  };
+
+  return async (destinationCountry, hsCode) => {
+    const country = normalizeCountryCode(destinationCountry);
+    if (!country) return null;
+    return findTariffRate(await loadRates(country), country, hsCode);
+  };
+}
@@ -0,0 +1,174 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getEnvInt } from './concurrency.ts';
+
+export interface StoredToken {
+  access_token: string;
+  expires_at: number; // Unix timestamp (ms)
+  config_id: string;
+  is_sandbox: boolean;
+}
+
+interface SaveTokenParams {
+  userId: string;
+  configId: string;
+  carrierType: string;
+  accessToken: string;
+  expiresIn: number; // seconds, as returned by the carrier
+  isSandbox: boolean;
+}
+
+// Tokens are refreshed this long before they expire so a long job never rates with a dying token
+const getRefreshWindowMs = () => getEnvInt('CARRIER_TOKEN_REFRESH_WINDOW_SECONDS', 300) * 1000;
+
+let encryptionKey: Promise<CryptoKey> | null = null;
+
+/**
+ * AES-GCM key derived from CARRIER_TOKEN_ENCRYPTION_KEY. Tokens are never stored in
+ * plain text; without the secret they are simply not persisted.
+ */
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!encryptionKey) {
+    const secret = Deno.env.get('CARRIER_TOKEN_ENCRYPTION_KEY');
+    if (!secret) {
+      throw new Error('CARRIER_TOKEN_ENCRYPTION_KEY is not configured');
+    }
+    encryptionKey = crypto.subtle
+      .digest('SHA-256', new TextEncoder().encode(secret))
+      .then(digest => crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']));
+  }
+  return encryptionKey;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+async function encryptToken(token: string): Promise<{ ciphertext: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(token)
+  );
+  return { ciphertext: toBase64(new Uint8Array(encrypted)), iv: toBase64(iv) };
+}
+
+async function decryptToken(ciphertext: string, iv: string): Promise<string> {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await getEncryptionKey(),
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
+const isFresh = (token: StoredToken) => token.expires_at > Date.now() + getRefreshWindowMs();
+
+/**
+ * Return a stored token for the config if it is not inside the refresh window.
+ * Anything unreadable (missing row, wrong key, expired) is treated as a miss.
+ */
+export async function getStoredToken(supabase: SupabaseClient, configId: string): Promise<StoredToken | null> {
+  const { data, error } = await supabase
+    .from('carrier_oauth_tokens')
+    .select('carrier_config_id, encrypted_token, token_iv, expires_at, is_sandbox')
+    .eq('carrier_config_id', configId)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('⚠️ Token store lookup failed:', error);
+    return null;
+  }
+
+  try {
+    const token: StoredToken = {
+      access_token: await decryptToken(data.encrypted_token, data.token_iv),
+      expires_at: new Date(data.expires_at).getTime(),
+      config_id: data.carrier_config_id,
+      is_sandbox: data.is_sandbox
+    };
+    return isFresh(token) ? token : null;
+  } catch (decryptError) {
+    console.error('⚠️ Could not decrypt stored token for config:', configId, decryptError);
+    return null;
+  }
+}
+
+/**
+ * Persist a freshly exchanged token (encrypted) so every function and isolate reuses it.
+ */
+export async function saveToken(supabase: SupabaseClient, params: SaveTokenParams): Promise<StoredToken> {
+  const token: StoredToken = {
+    access_token: params.accessToken,
+    expires_at: Date.now() + params.expiresIn * 1000,
+    config_id: params.configId,
+    is_sandbox: params.isSandbox
+  };
+
+  let encrypted: { ciphertext: string; iv: string };
+  try {
+    encrypted = await encryptToken(params.accessToken);
+  } catch (encryptError) {
+    // The token is still usable for this request, it just won't be shared
+    console.error('⚠️ Could not encrypt carrier token:', encryptError);
+    return token;
+  }
+
+  const { error } = await supabase
+    .from('carrier_oauth_tokens')
+    .upsert({
+      user_id: params.userId,
+      carrier_config_id: params.configId,
+      carrier_type: params.carrierType,
+      encrypted_token: encrypted.ciphertext,
+      token_iv: encrypted.iv,
+      expires_at: new Date(token.expires_at).toISOString(),
+      is_sandbox: params.isSandbox
+    }, { onConflict: 'carrier_config_id' });
+
+  if (error) {
+    console.error('⚠️ Failed to persist carrier token:', error);
+  }
+
+  return token;
+}
+
+/**
+ * Drop a token the carrier rejected so the next call performs a fresh exchange.
+ */
+export async function clearStoredToken(supabase: SupabaseClient, configId: string): Promise<void> {
+  const { error } = await supabase
+    .from('carrier_oauth_tokens')
+    .delete()
+    .eq('carrier_config_id', configId);
+
+  if (error) {
+    console.error('⚠️ Failed to clear carrier token:', error);
+  }
+}
+
+/**
+ * Token lookup for rate functions: use the shared store and only fall back to the
+ * carrier's auth function (which performs the OAuth exchange and saves the result)
+ * when there is no fresh token.
+ */
+export async function getAccessToken(
+  supabase: SupabaseClient,
+  configId: string,
+  authFunction: string
+): Promise<{ access_token: string; is_sandbox: boolean } | null> {
+  const stored = await getStoredToken(supabase, configId);
+  if (stored) {
+    return { access_token: stored.access_token, is_sandbox: stored.is_sandbox };
+  }
+
+  const { data, error } = await supabase.functions.invoke(authFunction, {
+    body: { action: 'get_token', config_id: configId }
+  });
+
+  if (error || !data?.access_token) {
+    console.error(`${authFunction} error:`, error);
+    return null;
+  }
+
+  return { access_token: data.access_token, is_sandbox: data.is_sandbox };
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getZip3, resolveShippingZone } from './zones.ts';
+import { isInternationalLane } from './countries.ts';
+import type { ResolvedZone, ZoneChartEntry } from './zones.ts';
+
+export interface ZoneLookupAccount {
+  id: string;
+  carrier_type: string;
+}
+
+export type ZoneResolver = (
+  originZip: string,
+  destZip: string,
+  account: ZoneLookupAccount,
+  csvZone?: string | null,
+  lane?: { originCountry?: string | null; destCountry?: string | null }
+) => Promise<ResolvedZone>;
+
+// PostgREST returns at most 1000 rows per request; an origin's chart can be longer
+const CHART_PAGE_SIZE = 1000;
+
+/**
+ * Resolve zones from the user's imported zone charts. Chart rows are loaded once per
+ * origin prefix and kept for the lifetime of the resolver, so shipments from the same
+ * warehouse rated through one resolver share a single load.
+ */
+export function createZoneResolver(supabase: SupabaseClient, userId?: string): ZoneResolver {
+  const chartsByOrigin = new Map<string, Promise<ZoneChartEntry[]>>();
+
+  const fetchCharts = async (origin3: string): Promise<ZoneChartEntry[]> => {
+    const entries: ZoneChartEntry[] = [];
+    for (let from = 0; ; from += CHART_PAGE_SIZE) {
+      let query = supabase
+        .from('carrier_zone_charts')
+        .select('carrier_type, carrier_config_id, origin_zip3, dest_zip3_start, dest_zip3_end, zone')
+        .eq('origin_zip3', origin3);
+
+      // Service-role callers must scope to the user themselves; RLS does it otherwise
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      const { data, error } = await query.order('id').range(from, from + CHART_PAGE_SIZE - 1);
+      if (error) {
+        console.error('⚠️ Failed to load zone charts for origin', origin3, error);
+        return [];
+      }
+      entries.push(...(data || []) as ZoneChartEntry[]);
+      if (!data || data.length < CHART_PAGE_SIZE) {
+        return entries;
+      }
+    }
+  };
+
+  const loadCharts = (origin3: string): Promise<ZoneChartEntry[]> => {
+    let charts = chartsByOrigin.get(origin3);
+    if (!charts) {
+      charts = fetchCharts(origin3);
+      chartsByOrigin.set(origin3, charts);
+    }
+    return charts;
+  };
+
+  return async (originZip, destZip, account, csvZone, lane) => {
+    const origin3 = getZip3(originZip);
+    const domestic = !lane || !isInternationalLane(lane.originCountry, lane.destCountry);
+    const charts = origin3 && !csvZone && domestic ? await loadCharts(origin3) : [];
+    return resolveShippingZone(
+      charts,
+      originZip,
+      destZip,
+      { carrierType: account.carrier_type, configId: account.id },
+      csvZone,
+      lane
+    );
+  };
+}
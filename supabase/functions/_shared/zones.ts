@@ -0,0 +1,287 @@
+// Comprehensive US ZIP code to state mapping, carrier zone chart lookup and the
+// fallback zone estimate used when no chart covers a lane
+// Based on USPS ZIP code ranges for all 50 states + DC
+
+import { isInternationalLane, normalizeCountryCode } from './countries.ts';
+
+export interface StateInfo {
+  state: string;
+  stateName: string;
+}
+
+export function getStateFromZip(zipCode: string): StateInfo | null {
+  if (!zipCode) return null;
+  
+  const cleanZip = zipCode.trim().substring(0, 5);
+  const zipNum = parseInt(cleanZip);
+  
+  if (isNaN(zipNum)) return null;
+
+  // ZIP code ranges by state (based on USPS assignments)
+  if (zipNum >= 35000 && zipNum <= 36999) return { state: 'AL', stateName: 'Alabama' };
+  if (zipNum >= 99500 && zipNum <= 99999) return { state: 'AK', stateName: 'Alaska' };
+  if (zipNum >= 85000 && zipNum <= 86999) return { state: 'AZ', stateName: 'Arizona' };
+  if (zipNum >= 71600 && zipNum <= 72999) return { state: 'AR', stateName: 'Arkansas' };
+  if (zipNum >= 90000 && zipNum <= 96699) return { state: 'CA', stateName: 'California' };
+  if (zipNum >= 80000 && zipNum <= 81999) return { state: 'CO', stateName: 'Colorado' };
+  if (zipNum >= 6000 && zipNum <= 6999) return { state: 'CT', stateName: 'Connecticut' };
+  if (zipNum >= 19700 && zipNum <= 19999) return { state: 'DE', stateName: 'Delaware' };
+  if (zipNum >= 20000 && zipNum <= 20599) return { state: 'DC', stateName: 'District of Columbia' };
+  if (zipNum >= 32000 && zipNum <= 34999) return { state: 'FL', stateName: 'Florida' };
+  if (zipNum >= 30000 && zipNum <= 31999) return { state: 'GA', stateName: 'Georgia' };
+  if (zipNum >= 96700 && zipNum <= 96999) return { state: 'HI', stateName: 'Hawaii' };
+  if (zipNum >= 83200 && zipNum <= 83999) return { state: 'ID', stateName: 'Idaho' };
+  if (zipNum >= 60000 && zipNum <= 62999) return { state: 'IL', stateName: 'Illinois' };
+  if (zipNum >= 46000 && zipNum <= 47999) return { state: 'IN', stateName: 'Indiana' };
+  if (zipNum >= 50000 && zipNum <= 52999) return { state: 'IA', stateName: 'Iowa' };
+  if (zipNum >= 66000 && zipNum <= 67999) return { state: 'KS', stateName: 'Kansas' };
+  if (zipNum >= 40000 && zipNum <= 42999) return { state: 'KY', stateName: 'Kentucky' };
+  if (zipNum >= 70000 && zipNum <= 71599) return { state: 'LA', stateName: 'Louisiana' };
+  if (zipNum >= 3900 && zipNum <= 4999) return { state: 'ME', stateName: 'Maine' };
+  if (zipNum >= 20600 && zipNum <= 21999) return { state: 'MD', stateName: 'Maryland' };
+  if (zipNum >= 1000 && zipNum <= 2799) return { state: 'MA', stateName: 'Massachusetts' };
+  if (zipNum >= 48000 && zipNum <= 49999) return { state: 'MI', stateName: 'Michigan' };
+  if (zipNum >= 55000 && zipNum <= 56999) return { state: 'MN', stateName: 'Minnesota' };
+  if (zipNum >= 38600 && zipNum <= 39999) return { state: 'MS', stateName: 'Mississippi' };
+  if (zipNum >= 63000 && zipNum <= 65999) return { state: 'MO', stateName: 'Missouri' };
+  if (zipNum >= 59000 && zipNum <= 59999) return { state: 'MT', stateName: 'Montana' };
+  if (zipNum >= 68000 && zipNum <= 69999) return { state: 'NE', stateName: 'Nebraska' };
+  if (zipNum >= 88900 && zipNum <= 89999) return { state: 'NV', stateName: 'Nevada' };
+  if (zipNum >= 3000 && zipNum <= 3899) return { state: 'NH', stateName: 'New Hampshire' };
+  if (zipNum >= 7000 && zipNum <= 8999) return { state: 'NJ', stateName: 'New Jersey' };
+  if (zipNum >= 87000 && zipNum <= 88499) return { state: 'NM', stateName: 'New Mexico' };
+  if (zipNum >= 10000 && zipNum <= 14999) return { state: 'NY', stateName: 'New York' };
+  if (zipNum >= 27000 && zipNum <= 28999) return { state: 'NC', stateName: 'North Carolina' };
+  if (zipNum >= 58000 && zipNum <= 58999) return { state: 'ND', stateName: 'North Dakota' };
+  if (zipNum >= 43000 && zipNum <= 45999) return { state: 'OH', stateName: 'Ohio' };
+  if (zipNum >= 73000 && zipNum <= 74999) return { state: 'OK', stateName: 'Oklahoma' };
+  if (zipNum >= 97000 && zipNum <= 97999) return { state: 'OR', stateName: 'Oregon' };
+  if (zipNum >= 15000 && zipNum <= 19699) return { state: 'PA', stateName: 'Pennsylvania' };
+  if (zipNum >= 2800 && zipNum <= 2999) return { state: 'RI', stateName: 'Rhode Island' };
+  if (zipNum >= 29000 && zipNum <= 29999) return { state: 'SC', stateName: 'South Carolina' };
+  if (zipNum >= 57000 && zipNum <= 57999) return { state: 'SD', stateName: 'South Dakota' };
+  if (zipNum >= 37000 && zipNum <= 38599) return { state: 'TN', stateName: 'Tennessee' };
+  if (zipNum >= 75000 && zipNum <= 79999) return { state: 'TX', stateName: 'Texas' };
+  if (zipNum >= 84000 && zipNum <= 84999) return { state: 'UT', stateName: 'Utah' };
+  if (zipNum >= 5000 && zipNum <= 5999) return { state: 'VT', stateName: 'Vermont' };
+  if (zipNum >= 22000 && zipNum <= 24699) return { state: 'VA', stateName: 'Virginia' };
+  if (zipNum >= 98000 && zipNum <= 99499) return { state: 'WA', stateName: 'Washington' };
+  if (zipNum >= 24700 && zipNum <= 26999) return { state: 'WV', stateName: 'West Virginia' };
+  if (zipNum >= 53000 && zipNum <= 54999) return { state: 'WI', stateName: 'Wisconsin' };
+  if (zipNum >= 82000 && zipNum <= 83199) return { state: 'WY', stateName: 'Wyoming' };
+  
+  // Military and special ZIP codes
+  if (zipNum >= 9000 && zipNum <= 9999) return { state: 'AE', stateName: 'Armed Forces Europe' };
+  if (zipNum >= 34000 && zipNum <= 34099) return { state: 'AP', stateName: 'Armed Forces Pacific' };
+  if (zipNum >= 9000 && zipNum <= 9999) return { state: 'AA', stateName: 'Armed Forces Americas' };
+  
+  // US Territories
+  if (zipNum >= 600 && zipNum <= 999) return { state: 'PR', stateName: 'Puerto Rico' };
+  if (zipNum >= 800 && zipNum <= 899) return { state: 'VI', stateName: 'Virgin Islands' };
+  if (zipNum >= 96900 && zipNum <= 96999) return { state: 'GU', stateName: 'Guam' };
+  if (zipNum >= 96799 && zipNum <= 96899) return { state: 'AS', stateName: 'American Samoa' };
+  if (zipNum >= 96950 && zipNum <= 96999) return { state: 'MP', stateName: 'Northern Mariana Islands' };
+
+  return null; // Unknown ZIP code
+}
+
+export function validateUSZipCode(zipCode: string): boolean {
+  const stateInfo = getStateFromZip(zipCode);
+  return stateInfo !== null;
+}
+
+/**
+ * Rough state-based zone estimate (2-8). Only used when neither the CSV nor an
+ * imported zone chart supplies a zone, and reported as `estimated` when it is.
+ */
+export function calculateShippingZone(originZip: string, destZip: string): string {
+  const originState = getStateFromZip(originZip)?.state;
+  const destState = getStateFromZip(destZip)?.state;
+  
+  if (!originState || !destState) {
+    return '8'; // Default to highest zone for unknown states
+  }
+  
+  if (originState === destState) {
+    return '2'; // Same state
+  }
+  
+  // Zone mapping logic based on geographic proximity
+  const zoneMap: Record<string, Record<string, string>> = {
+    'CA': {
+      'OR': '2', 'WA': '2', 'NV': '2', 'AZ': '3',
+      'UT': '4', 'ID': '4', 'CO': '5', 'TX': '6'
+    },
+    'TX': {
+      'OK': '2', 'LA': '2', 'AR': '2', 'NM': '3',
+      'CO': '4', 'KS': '4', 'MO': '5', 'TN': '5'
+    },
+    'FL': {
+      'GA': '2', 'AL': '2', 'SC': '3', 'NC': '4',
+      'TN': '4', 'KY': '5', 'VA': '5', 'WV': '6'
+    },
+    'NY': {
+      'NJ': '2', 'CT': '2', 'PA': '2', 'MA': '3',
+      'VT': '3', 'NH': '3', 'ME': '4', 'RI': '3'
+    }
+  };
+  
+  const zone = zoneMap[originState]?.[destState];
+  if (zone) return zone;
+  
+  // Default zone calculation based on distance approximation
+  const eastCoast = ['ME', 'NH', 'VT', 'MA', 'RI', 'CT', 'NY', 'NJ', 'PA', 'DE', 'MD', 'VA', 'WV', 'NC', 'SC', 'GA', 'FL'];
+  const westCoast = ['CA', 'OR', 'WA', 'NV', 'AZ'];
+  
+  const originRegion = eastCoast.includes(originState) ? 'east' : westCoast.includes(originState) ? 'west' : 'central';
+  const destRegion = eastCoast.includes(destState) ? 'east' : westCoast.includes(destState) ? 'west' : 'central';
+  
+  if (originRegion === destRegion) return '4';
+  if ((originRegion === 'east' && destRegion === 'central') || (originRegion === 'central' && destRegion === 'east')) return '5';
+  if ((originRegion === 'west' && destRegion === 'central') || (originRegion === 'central' && destRegion === 'west')) return '6';
+  if ((originRegion === 'east' && destRegion === 'west') || (originRegion === 'west' && destRegion === 'east')) return '8';
+  
+  return '6'; // Default zone
+}
+
+export type ZoneSource = 'csv' | 'zone_chart' | 'estimated' | 'country';
+
+export interface ResolvedZone {
+  zone: string;
+  source: ZoneSource;
+}
+
+/**
+ * One row of a carrier zone chart: shipments from `origin_zip3` to any destination
+ * 3-digit prefix in [dest_zip3_start, dest_zip3_end] are billed in `zone`. Rows without
+ * a `carrier_config_id` apply to every account of the carrier.
+ */
+export interface ZoneChartEntry {
+  carrier_type: string;
+  carrier_config_id: string | null;
+  origin_zip3: string;
+  dest_zip3_start: string;
+  dest_zip3_end: string;
+  zone: string;
+}
+
+export type ParsedZoneChartRow = Pick<ZoneChartEntry, 'origin_zip3' | 'dest_zip3_start' | 'dest_zip3_end' | 'zone'>;
+
+/**
+ * 3-digit ZIP prefix, restoring leading zeros spreadsheets like to drop ("2134" -> "021").
+ */
+export function getZip3(zipCode: string): string | null {
+  const digits = String(zipCode ?? '').trim().split('-')[0].replace(/\D/g, '');
+  if (!digits) return null;
+  return digits.padStart(5, '0').substring(0, 3);
+}
+
+// Charts publish zones as "002" or "2"; rate cards are keyed by the bare number
+function normalizeZone(zone: unknown): string | null {
+  const value = String(zone ?? '').trim();
+  if (!value) return null;
+  return /^\d+$/.test(value) ? String(Number(value)) : value.toUpperCase();
+}
+
+function normalizeZip3(value: unknown): string | null {
+  const digits = String(value ?? '').trim().replace(/\D/g, '');
+  if (!digits || digits.length > 3) return null;
+  return digits.padStart(3, '0');
+}
+
+/**
+ * Parse a zone chart sheet with the columns Origin ZIP | Destination ZIP | Zone.
+ * Destinations may be a single prefix ("004") or a range ("004-005"); origins may be
+ * written as a 3-digit prefix or a full ZIP. A header row is skipped automatically.
+ */
+export function parseZoneChart(rows: unknown[][]): { entries: ParsedZoneChartRow[]; errors: string[] } {
+  const entries: ParsedZoneChartRow[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    if (!row || row.every(cell => String(cell ?? '').trim() === '')) return;
+
+    const [originCell, destCell, zoneCell] = row;
+    const origin = String(originCell ?? '').trim();
+    if (index === 0 && !/\d/.test(origin)) return; // header
+
+    const origin3 = origin.replace(/\D/g, '').length > 3 ? getZip3(origin) : normalizeZip3(origin);
+    const [destStart, destEnd = destStart] = String(destCell ?? '').split(/\s*[-–]\s*/);
+    const start = normalizeZip3(destStart);
+    const end = normalizeZip3(destEnd);
+    const zone = normalizeZone(zoneCell);
+
+    if (!origin3 || !start || !end || !zone) {
+      errors.push(`Row ${index + 1}: expected origin ZIP, destination ZIP (or range) and zone`);
+      return;
+    }
+    if (start > end) {
+      errors.push(`Row ${index + 1}: destination range ${start}-${end} is reversed`);
+      return;
+    }
+
+    entries.push({ origin_zip3: origin3, dest_zip3_start: start, dest_zip3_end: end, zone });
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Look up the chart zone for a lane. Rows imported for the specific account win over
+ * the carrier-wide chart.
+ */
+export function findChartZone(
+  entries: ZoneChartEntry[],
+  originZip: string,
+  destZip: string,
+  account: { carrierType: string; configId?: string | null }
+): string | null {
+  const origin3 = getZip3(originZip);
+  const dest3 = getZip3(destZip);
+  if (!origin3 || !dest3) return null;
+
+  let carrierWideZone: string | null = null;
+  for (const entry of entries) {
+    if (entry.carrier_type !== account.carrierType || entry.origin_zip3 !== origin3) continue;
+    if (dest3 < entry.dest_zip3_start || dest3 > entry.dest_zip3_end) continue;
+
+    if (entry.carrier_config_id && entry.carrier_config_id === account.configId) {
+      return entry.zone;
+    }
+    if (!entry.carrier_config_id && carrierWideZone === null) {
+      carrierWideZone = entry.zone;
+    }
+  }
+  return carrierWideZone;
+}
+
+/**
+ * Zone used to price a shipment: the CSV-mapped zone always wins, then the imported
+ * carrier chart, then the state-based estimate. ZIP3 charts and state logic only
+ * describe US lanes, so international shipments are zoned by destination country
+ * (rate cards list international zones by ISO country code).
+ */
+export function resolveShippingZone(
+  entries: ZoneChartEntry[],
+  originZip: string,
+  destZip: string,
+  account: { carrierType: string; configId?: string | null },
+  csvZone?: string | null,
+  lane?: { originCountry?: string | null; destCountry?: string | null }
+): ResolvedZone {
+  const mappedZone = normalizeZone(csvZone);
+  if (mappedZone) {
+    return { zone: mappedZone, source: 'csv' };
+  }
+
+  if (lane && isInternationalLane(lane.originCountry, lane.destCountry)) {
+    return { zone: normalizeCountryCode(lane.destCountry) || String(lane.destCountry).toUpperCase(), source: 'country' };
+  }
+
+  const chartZone = findChartZone(entries, originZip, destZip, account);
+  if (chartZone) {
+    return { zone: chartZone, source: 'zone_chart' };
+  }
+
+  return { zone: calculateShippingZone(originZip, destZip), source: 'estimated' };
+}
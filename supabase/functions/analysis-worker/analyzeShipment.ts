@@ -0,0 +1,368 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DEFAULT_COUNTRY, normalizeCountryCode, validatePostalCode } from '../_shared/countries.ts'
+import type { RecommendationMode } from '../_shared/deliveryWindow.ts'
+import type { RateCardVersionPins } from '../_shared/rateCardVersioning.ts'
+import type { ShipmentRequest } from '../_shared/rateTypes.ts'
+import { determineResidentialStatus } from '../_shared/residential.ts'
+import type { ResidentialMapping } from '../_shared/residential.ts'
+import { getUniversalCategoryFromCarrierCode } from '../_shared/serviceRegistry.ts'
+import type { CarrierType } from '../_shared/serviceRegistry.ts'
+import { getStateFromZip } from '../_shared/zones.ts'
+
+// A service mapping confirmed on the service mapping page
+export interface ConfirmedServiceMapping extends ResidentialMapping {
+  original: string;
+  standardized: string;
+  standardizedService: string; // Universal service category
+  confidence: number;
+}
+
+// Everything chosen on the Analysis page that shapes how each shipment is quoted
+export interface AnalysisSettings {
+  carrierConfigIds: string[];
+  serviceMappings: ConfirmedServiceMapping[];
+  csvResidentialField?: string; // Shipment field holding the mapped residential column
+  recommendationMode: RecommendationMode;
+  projectedWeeklySpend?: number;
+  rateCardVersionPins: RateCardVersionPins;
+}
+
+// An uploaded shipment as the Analysis page mapped it: CSV values, mostly strings
+export interface UploadedShipment {
+  id: number;
+  trackingId?: string;
+  service?: string;
+  carrier?: string;
+  weight?: string;
+  weightUnit?: string;
+  currentRate?: string;
+  originZip?: string;
+  destZip?: string;
+  length?: string;
+  width?: string;
+  height?: string;
+  shipperName?: string;
+  shipperAddress?: string;
+  shipperCity?: string;
+  shipperState?: string;
+  recipientName?: string;
+  recipientAddress?: string;
+  recipientCity?: string;
+  recipientState?: string;
+  zone?: string;
+  shipDate?: string;
+  deliveryDate?: string;
+  packages?: ShipmentRequest['packages'];
+  originCountry?: string;
+  destCountry?: string;
+  customsValue?: string;
+  hsCode?: string;
+  commodityDescription?: string;
+  [field: string]: unknown;
+}
+
+// A rate as multi-carrier-quote returns it, already in the reporting currency
+export interface QuotedRate {
+  carrierName?: string;
+  carrierType?: string;
+  serviceCode?: string;
+  serviceName?: string;
+  serviceCategory?: string;
+  totalCharges: number;
+  fuelSurcharge?: number;
+  fuelEffectiveDate?: string | null;
+  [field: string]: unknown;
+}
+
+// The outcome of one shipment, in the shape the Analysis page lists results in
+export interface ShipmentAnalysisResult {
+  shipment: UploadedShipment;
+  status: 'completed' | 'error';
+  currentCost?: number;
+  originalService?: string;
+  allRates?: QuotedRate[];
+  bestRate?: QuotedRate;
+  bestOverallRate?: QuotedRate;
+  savings?: number;
+  maxSavings?: number;
+  sameServiceCost?: number | null;
+  isServiceDowngrade?: boolean;
+  expectedServiceCode?: string;
+  mappingValidation?: {
+    isValid: boolean;
+    expectedService: string;
+    actualService: string;
+    expectedServiceCode?: string;
+    actualServiceCode?: string;
+    message?: string;
+  };
+  error?: string;
+  errorType?: string;
+  errorCategory?: string;
+  attemptCount?: number;
+}
+
+export interface ShipmentAnalysis {
+  result: ShipmentAnalysisResult;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+// Lets an internal call act as the job's user (see authenticateRequest)
+export interface QuoteContext {
+  supabase: SupabaseClient;
+  headers: Record<string, string>;
+  retryDelayMs?: number;
+}
+
+const MAX_RETRIES = 2;
+
+const normalizeServiceName = (serviceName: string | undefined): string =>
+  serviceName?.trim().toLowerCase().replace(/\s+/g, ' ') || '';
+
+const parseAmount = (value: unknown): number => parseFloat(String(value ?? '').replace(/[$,]/g, '').trim());
+
+function cleanPostalCode(postalCode: string | undefined, country: string, fieldName: string): string {
+  if (!postalCode || typeof postalCode !== 'string') {
+    throw new Error(`${fieldName} ZIP code is required`);
+  }
+
+  const result = validatePostalCode(postalCode, country);
+  if (!result.isValid) {
+    throw new Error(`${fieldName} ${country === DEFAULT_COUNTRY ? 'ZIP code' : 'postal code'}: ${result.error}`);
+  }
+  return result.cleanedValue ?? postalCode.trim();
+}
+
+/**
+ * Sort a failure into the error types the Results page groups orphaned shipments by.
+ */
+export function categorizeAnalysisError(message: string): { errorType: string; errorCategory: string } {
+  if (message.includes('Missing required fields')) return { errorType: 'missing_data', errorCategory: 'Data Validation' };
+  if (message.includes('Invalid') && message.includes('ZIP')) return { errorType: 'invalid_data', errorCategory: 'ZIP Code Format' };
+  if (message.includes('Invalid')) return { errorType: 'invalid_data', errorCategory: 'Data Format' };
+  if (message.includes('API Error')) return { errorType: 'api_error', errorCategory: 'Carrier API Communication' };
+  if (message.includes('No rates returned')) return { errorType: 'no_rates', errorCategory: 'Carrier Rate Response' };
+  if (message.includes('No confirmed service mapping')) return { errorType: 'mapping_error', errorCategory: 'Service Mapping' };
+  if (message.includes('timeout') || message.includes('network')) return { errorType: 'network_error', errorCategory: 'Network/Timeout' };
+  return { errorType: 'processing_error', errorCategory: 'Unknown' };
+}
+
+/**
+ * Build the multi-carrier quote request for a shipment, throwing when the upload is
+ * missing what carriers need. Only user-confirmed service mappings are used.
+ */
+export function buildShipmentRequest(shipment: UploadedShipment, settings: AnalysisSettings) {
+  const missingFields = [];
+  if (!shipment.originZip?.trim()) missingFields.push('Origin ZIP');
+  if (!shipment.destZip?.trim()) missingFields.push('Destination ZIP');
+  if (!shipment.service?.trim()) missingFields.push('Service Type');
+
+  let weight = 0;
+  if (!shipment.weight) {
+    missingFields.push('Weight');
+  } else {
+    weight = parseFloat(shipment.weight);
+    if (shipment.weightUnit?.toLowerCase().includes('oz')) {
+      weight = weight / 16;
+    }
+    if (isNaN(weight) || weight <= 0) {
+      missingFields.push('Valid Weight');
+    }
+  }
+
+  const originCountry = normalizeCountryCode(shipment.originCountry);
+  const destCountry = normalizeCountryCode(shipment.destCountry);
+  if (!originCountry) throw new Error(`Unrecognized origin country "${shipment.originCountry}"`);
+  if (!destCountry) throw new Error(`Unrecognized destination country "${shipment.destCountry}"`);
+
+  const originZip = cleanPostalCode(shipment.originZip, originCountry, 'Origin');
+  const destZip = cleanPostalCode(shipment.destZip, destCountry, 'Destination');
+
+  if (missingFields.length > 0) {
+    throw new Error(`Missing required fields: ${missingFields.join(', ')}`);
+  }
+
+  const length = parseFloat(shipment.length ?? '');
+  const width = parseFloat(shipment.width ?? '');
+  const height = parseFloat(shipment.height ?? '');
+  if (!length || !width || !height) {
+    throw new Error('Missing or invalid package dimensions. All shipments must have valid length, width, and height values.');
+  }
+
+  const mapping = settings.serviceMappings.find(m =>
+    normalizeServiceName(m.original) === normalizeServiceName(shipment.service)
+  );
+  if (!mapping?.standardizedService) {
+    throw new Error(`No confirmed service mapping found for "${shipment.service}". Please verify the service mapping on the mapping page.`);
+  }
+
+  const residentialStatus = determineResidentialStatus(shipment, mapping, settings.csvResidentialField);
+
+  // The ZIP lookup only knows US states
+  const stateFor = (zipCode: string, country: string) =>
+    country === DEFAULT_COUNTRY ? getStateFromZip(zipCode)?.state ?? '' : '';
+
+  const request: ShipmentRequest = {
+    shipFrom: {
+      name: shipment.shipperName || 'Sample Shipper',
+      address: shipment.shipperAddress || '123 Main St',
+      city: shipment.shipperCity || '',
+      state: shipment.shipperState || stateFor(originZip, originCountry),
+      zipCode: originZip,
+      country: originCountry
+    },
+    shipTo: {
+      name: shipment.recipientName || 'Sample Recipient',
+      address: shipment.recipientAddress || '456 Oak Ave',
+      city: shipment.recipientCity || '',
+      state: shipment.recipientState || stateFor(destZip, destCountry),
+      zipCode: destZip,
+      country: destCountry
+    },
+    package: { weight, weightUnit: 'LBS', length, width, height, dimensionUnit: 'IN' },
+    packages: shipment.packages,
+    declaredValue: parseAmount(shipment.customsValue) || undefined,
+    hsCode: shipment.hsCode || undefined,
+    commodityDescription: shipment.commodityDescription || undefined,
+    // Each carrier converts the universal category into its own service codes
+    serviceTypes: [mapping.standardizedService],
+    equivalentServiceCode: mapping.standardizedService,
+    isResidential: residentialStatus.isResidential,
+    residentialSource: residentialStatus.source,
+    zone: shipment.zone,
+    shipDate: shipment.shipDate,
+    deliveryDate: shipment.deliveryDate,
+    rateCardVersionPins: settings.rateCardVersionPins
+  };
+
+  return { request, mapping };
+}
+
+async function quoteShipment(request: ShipmentRequest, settings: AnalysisSettings, ctx: QuoteContext) {
+  const { data, error } = await ctx.supabase.functions.invoke('multi-carrier-quote', {
+    body: {
+      shipment: { ...request, carrierConfigIds: settings.carrierConfigIds },
+      options: { recommendationMode: settings.recommendationMode, projectedWeeklySpend: settings.projectedWeeklySpend }
+    },
+    headers: ctx.headers
+  });
+
+  if (error) {
+    throw new Error(`Multi-carrier API Error: ${error.message || 'Unknown API error'}`);
+  }
+  if (!data) {
+    throw new Error('No data returned from multi-carrier API');
+  }
+  if (!Array.isArray(data.allRates) || data.allRates.length === 0) {
+    const detail = data.error || data.errors
+      ? ` API Error: ${data.error || JSON.stringify(data.errors)}`
+      : ' This may indicate:\n• Invalid ZIP codes\n• Package dimensions exceed limits\n• Service unavailable for this route\n• Carrier API configuration issues';
+    throw new Error(`No rates returned from any carrier.${detail}`);
+  }
+  return data;
+}
+
+const cheapest = (rates: QuotedRate[]) =>
+  rates.reduce((best, current) => ((current.totalCharges || 0) < (best.totalCharges || 0) ? current : best));
+
+/**
+ * Quote one uploaded shipment across the analysis's carrier accounts and measure it
+ * against what it cost. Failures come back as error results rather than throwing, so
+ * they can be kept as orphaned shipments.
+ */
+export async function analyzeShipment(
+  shipment: UploadedShipment,
+  settings: AnalysisSettings,
+  ctx: QuoteContext,
+  attempt = 0
+): Promise<ShipmentAnalysis> {
+  try {
+    const { request, mapping } = buildShipmentRequest(shipment, settings);
+    const data = await quoteShipment(request, settings, ctx);
+    const cacheHits = data.apiMetrics?.cacheHits || 0;
+    const cacheMisses = data.apiMetrics?.cacheMisses || 0;
+
+    // Cheapest rate for the mapped service, or the best rate of any service when none matched.
+    // Rates carry carrier codes ('03', 'FEDEX_GROUND'); the mapping holds a universal category
+    const allRates: QuotedRate[] = data.allRates;
+    const serviceRates = allRates.filter(rate => rate.serviceCategory === mapping.standardizedService);
+    let comparisonRate: QuotedRate | undefined = serviceRates.length > 0 ? cheapest(serviceRates) : data.bestRates?.[0];
+
+    // A slower service that still meets the delivery window replaces the same-service rate when cheaper
+    let sameServiceCost: number | null = null;
+    let isServiceDowngrade = false;
+    if (settings.recommendationMode === 'delivery_window' && comparisonRate) {
+      sameServiceCost = comparisonRate.totalCharges;
+      const windowRate = data.deliveryWindowRate;
+      if (windowRate && windowRate.totalCharges < comparisonRate.totalCharges) {
+        isServiceDowngrade = windowRate.serviceCategory !== mapping.standardizedService;
+        comparisonRate = windowRate;
+      }
+    }
+
+    if (!comparisonRate || comparisonRate.totalCharges === undefined) {
+      throw new Error('Invalid rate data returned from carriers');
+    }
+
+    // Clients may not provide current rates; rate card analyses still run at zero cost
+    const currentCost = parseAmount(shipment.currentRate || '0') || 0;
+    const bestOverallRate = cheapest(allRates);
+    const actualCategory = getUniversalCategoryFromCarrierCode(comparisonRate.carrierType as CarrierType, comparisonRate.serviceCode ?? '')
+      ?? comparisonRate.serviceCode;
+    const mappingValid = actualCategory === mapping.standardizedService;
+
+    return {
+      cacheHits,
+      cacheMisses,
+      result: {
+        shipment,
+        status: 'completed',
+        currentCost,
+        originalService: shipment.service,
+        allRates,
+        bestRate: comparisonRate,
+        bestOverallRate,
+        savings: currentCost - comparisonRate.totalCharges,
+        maxSavings: currentCost - bestOverallRate.totalCharges,
+        sameServiceCost,
+        isServiceDowngrade,
+        expectedServiceCode: mapping.standardizedService,
+        mappingValidation: {
+          isValid: mappingValid,
+          expectedService: mapping.standardized,
+          actualService: comparisonRate.serviceName || 'Unknown',
+          expectedServiceCode: mapping.standardizedService,
+          actualServiceCode: comparisonRate.serviceCode,
+          message: mappingValid
+            ? 'Service mapping is correct'
+            : `Expected universal service ${mapping.standardizedService}, got ${actualCategory} (carrier code: ${comparisonRate.serviceCode})`
+        }
+      }
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const { errorType, errorCategory } = categorizeAnalysisError(message);
+
+    const retryable = errorType === 'network_error' || (errorType === 'api_error' && !message.includes('authentication'));
+    if (retryable && attempt < MAX_RETRIES) {
+      console.log(`🔄 Retrying shipment ${shipment.id} after ${errorCategory} error`);
+      await new Promise(resolve => setTimeout(resolve, (ctx.retryDelayMs ?? 2000) * (attempt + 1)));
+      return analyzeShipment(shipment, settings, ctx, attempt + 1);
+    }
+
+    return {
+      cacheHits: 0,
+      cacheMisses: 0,
+      result: {
+        shipment,
+        status: 'error',
+        originalService: shipment.service,
+        error: message,
+        errorType,
+        errorCategory,
+        attemptCount: attempt + 1
+      }
+    };
+  }
+}
@@ -0,0 +1,165 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  assignServiceAccounts,
+  formatOrphanedShipments,
+  formatProcessedShipments,
+  getValidRecommendations,
+  summarizeRecommendationFuel
+} from '../_shared/analysisResults.ts'
+import type { AnalysisRecommendation, OrphanedShipment } from '../_shared/analysisResults.ts'
+import { normalizeRecommendationMode, summarizeDeliveryWindow } from '../_shared/deliveryWindow.ts'
+import { loadCurrencyConverter } from '../_shared/exchangeRates.ts'
+import type { QuotedRate, ShipmentAnalysisResult } from './analyzeShipment.ts'
+import type { AnalysisJob, AnalysisRecord } from './types.ts'
+
+const RESULTS_PAGE_SIZE = 1000;
+
+// Just what account assignment and the fuel summary read, to keep large jobs small in memory
+const compactRate = (rate: QuotedRate) => ({
+  carrierName: rate.carrierName,
+  carrierType: rate.carrierType,
+  serviceName: rate.serviceName,
+  totalCharges: rate.totalCharges,
+  fuelSurcharge: rate.fuelSurcharge,
+  fuelEffectiveDate: rate.fuelEffectiveDate
+});
+
+function toRecommendation(result: ShipmentAnalysisResult): AnalysisRecommendation {
+  return {
+    shipment: result.shipment,
+    currentCost: result.currentCost || 0,
+    recommendedCost: result.bestRate?.totalCharges || 0,
+    savings: result.savings || 0,
+    customer_service: result.originalService || result.shipment.service,
+    ShipPros_service: result.bestRate?.serviceName || 'Unknown',
+    allRates: (result.allRates || []).map(compactRate),
+    sameServiceCost: result.sameServiceCost ?? null,
+    isServiceDowngrade: !!result.isServiceDowngrade
+  };
+}
+
+function toOrphan(result: ShipmentAnalysisResult): OrphanedShipment {
+  return {
+    shipment: result.shipment,
+    error: result.error,
+    errorType: result.errorType || 'unknown_error',
+    customer_service: result.originalService || result.shipment.service
+  };
+}
+
+/**
+ * Read every stored shipment result of a job, a page at a time, split into priced
+ * recommendations and orphans.
+ */
+export async function loadJobResults(supabase: SupabaseClient, job: AnalysisJob) {
+  const recommendations: AnalysisRecommendation[] = [];
+  const orphans: OrphanedShipment[] = [];
+
+  for (let from = 0; from < job.processed_shipments; from += RESULTS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('analysis_job_results')
+      .select('status, result')
+      .eq('job_id', job.id)
+      .gte('shipment_index', from)
+      .lt('shipment_index', from + RESULTS_PAGE_SIZE)
+      .order('shipment_index');
+    if (error) {
+      throw new Error(`Failed to load shipment results: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      const result = row.result as ShipmentAnalysisResult;
+      if (row.status === 'completed') {
+        recommendations.push(toRecommendation(result));
+      } else {
+        orphans.push(toOrphan(result));
+      }
+    }
+  }
+
+  return { recommendations, orphans };
+}
+
+/**
+ * Turn a job's stored results into the finished analysis the Results page reads:
+ * processed and orphaned shipments, savings totals and account assignment. Marks the
+ * analysis completed and then the job `jobStatus`; a cancelled job's analysis covers
+ * the shipments analyzed before it stopped.
+ */
+export async function finalizeAnalysisJob(
+  supabase: SupabaseClient,
+  job: AnalysisJob,
+  analysis: AnalysisRecord,
+  jobStatus: 'completed' | 'cancelled' = 'completed'
+) {
+  const { recommendations, orphans } = await loadJobResults(supabase, job);
+
+  // A worker fenced out of a cancelled job can have stored rates past its last checkpoint
+  if (jobStatus === 'cancelled') {
+    const { error: ratesError } = await supabase
+      .from('shipment_rates')
+      .delete()
+      .eq('analysis_id', analysis.id)
+      .gte('shipment_index', job.processed_shipments);
+    if (ratesError) {
+      throw new Error(`Failed to clear unanalyzed shipment rates: ${ratesError.message}`);
+    }
+  }
+
+  const validRecommendations = getValidRecommendations(recommendations);
+  const assignment = assignServiceAccounts(validRecommendations);
+  const processedShipments = formatProcessedShipments(validRecommendations, assignment);
+  const orphanedShipments = formatOrphanedShipments({
+    orphanedShipments: orphans,
+    originalData: orphans.map(orphan => orphan.shipment),
+    completedShipments: processedShipments.length
+  });
+
+  const totalCurrentCost = recommendations.reduce((sum, rec) => sum + rec.currentCost, 0);
+  const totalPotentialSavings = recommendations.reduce((sum, rec) => sum + rec.savings, 0);
+  const recommendationMode = normalizeRecommendationMode(analysis.recommendation_mode);
+  const { reportingCurrency } = await loadCurrencyConverter(supabase, job.user_id);
+
+  const { error: analysisError } = await supabase
+    .from('shipping_analyses')
+    .update({
+      processed_shipments: processedShipments,
+      orphaned_shipments: orphanedShipments,
+      savings_analysis: {
+        totalCurrentCost,
+        totalPotentialSavings,
+        savingsPercentage: totalCurrentCost > 0 ? (totalPotentialSavings / totalCurrentCost) * 100 : 0,
+        totalShipments: job.total_shipments,
+        completedShipments: recommendations.length,
+        errorShipments: orphans.length,
+        ...(recommendationMode === 'delivery_window' && { deliveryWindow: summarizeDeliveryWindow(recommendations) })
+      },
+      processing_metadata: {
+        ...analysis.processing_metadata,
+        completedAt: new Date().toISOString(),
+        completedShipments: recommendations.length,
+        errorShipments: orphans.length,
+        bestOverallAccount: assignment.bestOverallAccount,
+        accountTotals: assignment.accountTotals,
+        fuelSurchargesUsed: summarizeRecommendationFuel(recommendations),
+        ...(jobStatus === 'cancelled' && { cancelledAt: new Date().toISOString(), analyzedShipments: job.processed_shipments })
+      },
+      total_savings: totalPotentialSavings,
+      reporting_currency: reportingCurrency,
+      status: 'completed'
+    })
+    .eq('id', analysis.id);
+  if (analysisError) {
+    throw new Error(`Failed to save analysis: ${analysisError.message}`);
+  }
+
+  const { error: jobError } = await supabase
+    .from('analysis_jobs')
+    .update({ status: jobStatus })
+    .eq('id', job.id);
+  if (jobError) {
+    throw new Error(`Failed to mark job ${jobStatus}: ${jobError.message}`);
+  }
+
+  console.log(`✅ Job ${job.id} finalized as ${jobStatus}: ${processedShipments.length} priced, ${orphanedShipments.length} orphaned`);
+}
@@ -0,0 +1,79 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isServiceRoleRequest } from '../_shared/auth.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { MAX_JOB_RETRIES, failAnalysisJob, invokeAnalysisWorker, resumeAnalysisJob } from '../_shared/analysisJobs.ts'
+import type { ResumableJob } from '../_shared/analysisJobs.ts'
+import { getEnvInt } from '../_shared/concurrency.ts'
+import { runAnalysisSlice } from './runSlice.ts'
+
+// Runs analysis jobs created by start-analysis. Each invocation works through one time
+// slice of the job in the background and hands the rest to a fresh invocation.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only other edge functions start slices
+  if (!isServiceRoleRequest(req.headers.get('Authorization'))) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const { jobId } = await req.json().catch(() => ({}));
+  if (!jobId) {
+    return jsonResponse({ error: 'Missing jobId' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  EdgeRuntime.waitUntil(runJobSlice(supabase, jobId));
+  return jsonResponse({ jobId, accepted: true }, 202);
+});
+
+async function runJobSlice(supabase: SupabaseClient, jobId: string) {
+  try {
+    const outcome = await runAnalysisSlice(supabase, jobId, {
+      deadline: Date.now() + getEnvInt('ANALYSIS_SLICE_MS', 120000),
+      batchSize: getEnvInt('ANALYSIS_BATCH_SIZE', 25),
+      concurrency: getEnvInt('ANALYSIS_CONCURRENCY', 3)
+    });
+
+    if (outcome === 'continue') {
+      await invokeAnalysisWorker(jobId);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`💥 Analysis job ${jobId} slice failed:`, message);
+    await recoverJob(supabase, jobId, message);
+  }
+}
+
+// Everything up to the last checkpoint is kept: retry from there, or fail the job for
+// the user to resume once its retries are used up
+async function recoverJob(supabase: SupabaseClient, jobId: string, message: string) {
+  const { data: job } = await supabase
+    .from('analysis_jobs')
+    .update({ error_message: message })
+    .eq('id', jobId)
+    .select('id, analysis_id, status, retry_count, updated_at')
+    .single();
+  // Paused, cancelled and finished jobs are left as they are
+  if (!job || (job.status !== 'pending' && job.status !== 'in_progress')) {
+    return;
+  }
+
+  const resumable = job as ResumableJob;
+  if (resumable.retry_count < MAX_JOB_RETRIES) {
+    try {
+      await resumeAnalysisJob(supabase, resumable, { retryCount: resumable.retry_count + 1 });
+      return;
+    } catch (resumeError) {
+      console.error(`💥 Could not resume analysis job ${jobId}:`, resumeError);
+    }
+  }
+  await failAnalysisJob(supabase, jobId, message);
+}
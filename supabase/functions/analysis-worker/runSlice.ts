@@ -0,0 +1,210 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { JOB_USER_HEADER } from '../_shared/auth.ts'
+import { mapWithConcurrency } from '../_shared/concurrency.ts'
+import { normalizeRecommendationMode } from '../_shared/deliveryWindow.ts'
+import { toShipmentRateRow } from '../_shared/analysisResults.ts'
+import { analyzeShipment } from './analyzeShipment.ts'
+import type { AnalysisSettings, ShipmentAnalysis, UploadedShipment } from './analyzeShipment.ts'
+import { finalizeAnalysisJob } from './finalize.ts'
+import type { AnalysisJob, AnalysisRecord } from './types.ts'
+
+export interface SliceLimits {
+  deadline: number; // Epoch ms after which no new batch is started
+  batchSize: number;
+  concurrency: number;
+  retryDelayMs?: number;
+}
+
+/**
+ * The Analysis page's choices, as stored on the analysis record when the job started.
+ * A mapped residential column is copied onto each shipment as `isResidential`.
+ */
+export function getAnalysisSettings(analysis: AnalysisRecord): AnalysisSettings {
+  const residentialColumn = analysis.column_mappings?.isResidential;
+  return {
+    carrierConfigIds: analysis.carrier_configs_used || [],
+    serviceMappings: analysis.service_mappings || [],
+    csvResidentialField: residentialColumn && residentialColumn !== '__NONE__' ? 'isResidential' : undefined,
+    recommendationMode: normalizeRecommendationMode(analysis.recommendation_mode),
+    projectedWeeklySpend: analysis.projected_weekly_spend ?? undefined,
+    rateCardVersionPins: analysis.rate_card_version_pins || {}
+  };
+}
+
+/**
+ * Store one analyzed batch and checkpoint the job past it, in one save_analysis_batch
+ * call. Results are upserted and the batch's shipment_rates replaced, so a batch analyzed
+ * again after a crash before its checkpoint overwrites its earlier rows instead of
+ * duplicating them. The database function locks the job and writes only while it still
+ * has this worker's run_id and is running, paused or cancelling (a pause or cancel lets
+ * the batch in flight finish); otherwise nothing is written, null is returned and the
+ * worker should stop.
+ */
+export async function saveBatch(
+  supabase: SupabaseClient,
+  job: AnalysisJob,
+  startIndex: number,
+  analyses: ShipmentAnalysis[]
+): Promise<AnalysisJob | null> {
+  const completed = analyses.filter(({ result }) => result.status === 'completed').length;
+  const progress = {
+    processed_shipments: startIndex + analyses.length,
+    completed_shipments: job.completed_shipments + completed,
+    error_shipments: job.error_shipments + analyses.length - completed,
+    cache_hits: job.cache_hits + analyses.reduce((sum, analysis) => sum + analysis.cacheHits, 0),
+    cache_misses: job.cache_misses + analyses.reduce((sum, analysis) => sum + analysis.cacheMisses, 0),
+    last_checkpoint_at: new Date().toISOString()
+  };
+
+  const { data: saved, error } = await supabase.rpc('save_analysis_batch', {
+    p_job_id: job.id,
+    p_run_id: job.run_id,
+    p_start_index: startIndex,
+    p_results: analyses.map(({ result }) => ({ status: result.status, result })),
+    p_rates: analyses.flatMap(({ result }, offset) =>
+      (result.allRates || []).map(rate => toShipmentRateRow(job.analysis_id, startIndex + offset, rate, result.shipment))
+    ),
+    p_progress: progress
+  });
+  if (error) {
+    throw new Error(`Failed to save batch: ${error.message}`);
+  }
+
+  return saved ? { ...job, ...progress } : null;
+}
+
+/**
+ * Take the job over to finalize it, while it is still `status`. A cancel hands the job
+ * to a new worker while the old one may still be finishing its batch, so two workers
+ * can race to finalize: only the one that swaps the job's run_id first gets the job,
+ * and the swap fences the other out. Null when the job was claimed or changed elsewhere.
+ */
+async function claimFinalization(
+  supabase: SupabaseClient,
+  job: AnalysisJob,
+  status: 'in_progress' | 'cancelling'
+): Promise<AnalysisJob | null> {
+  const { data: claimed, error } = await supabase
+    .from('analysis_jobs')
+    .update({ run_id: crypto.randomUUID() })
+    .eq('id', job.id)
+    .eq('status', status)
+    .eq('run_id', job.run_id)
+    .select('*');
+  if (error) {
+    throw new Error(`Failed to claim analysis job ${job.id}: ${error.message}`);
+  }
+  if (!claimed || claimed.length === 0) {
+    console.log(`⏭️ Job ${job.id} is no longer ${status} under this worker; leaving it to finalize elsewhere`);
+    return null;
+  }
+  return claimed[0] as AnalysisJob;
+}
+
+async function finalizeCancelledJob(supabase: SupabaseClient, job: AnalysisJob, analysis: AnalysisRecord) {
+  const claimed = await claimFinalization(supabase, job, 'cancelling');
+  if (claimed) {
+    await finalizeAnalysisJob(supabase, claimed, analysis, 'cancelled');
+  }
+}
+
+/**
+ * Analyze the job's next shipments in batches until the slice's deadline, then either
+ * finalize the analysis or report that another slice is needed. Edge functions have a
+ * wall-clock limit, so a large analysis runs as a chain of slices. The slice ends early
+ * when the job is paused, cancelled or handed to another worker.
+ */
+export async function runAnalysisSlice(
+  supabase: SupabaseClient,
+  jobId: string,
+  limits: SliceLimits
+): Promise<'continue' | 'finished'> {
+  const { data: loadedJob, error: jobError } = await supabase
+    .from('analysis_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+  if (jobError || !loadedJob) {
+    throw new Error(`Analysis job ${jobId} not found`);
+  }
+  let job = loadedJob as AnalysisJob;
+
+  if (job.status !== 'pending' && job.status !== 'in_progress' && job.status !== 'cancelling') {
+    console.log(`⏭️ Job ${jobId} is ${job.status}`);
+    return 'finished';
+  }
+
+  const { data: analysis, error: analysisError } = await supabase
+    .from('shipping_analyses')
+    .select('*')
+    .eq('id', job.analysis_id)
+    .single();
+  if (analysisError || !analysis) {
+    throw new Error(`Analysis ${job.analysis_id} for job ${jobId} not found`);
+  }
+
+  const record = analysis as AnalysisRecord;
+  const shipments: UploadedShipment[] = Array.isArray(record.original_data) ? record.original_data : [];
+  const settings = getAnalysisSettings(record);
+  const ctx = {
+    supabase,
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''}`,
+      [JOB_USER_HEADER]: job.user_id
+    },
+    retryDelayMs: limits.retryDelayMs
+  };
+
+  // Cancelling a job hands it here to publish its partial results, in case no worker is running it
+  if (job.status === 'cancelling') {
+    await finalizeCancelledJob(supabase, job, record);
+    return 'finished';
+  }
+
+  if (job.status === 'pending') {
+    await supabase.from('analysis_jobs').update({ status: 'in_progress' }).eq('id', jobId).eq('status', 'pending');
+    job = { ...job, status: 'in_progress' };
+  }
+
+  if (job.processed_shipments > 0 && job.processed_shipments < shipments.length) {
+    console.log(`▶️ Job ${jobId} continuing from checkpoint at shipment ${job.processed_shipments}`);
+  }
+
+  while (job.processed_shipments < shipments.length && Date.now() < limits.deadline) {
+    const startIndex = job.processed_shipments;
+    const batch = shipments.slice(startIndex, startIndex + limits.batchSize);
+    const analyses = await mapWithConcurrency(batch, limits.concurrency, shipment => analyzeShipment(shipment, settings, ctx));
+    const saved = await saveBatch(supabase, job, startIndex, analyses);
+    if (!saved) {
+      console.log(`⏭️ Job ${jobId} was taken over or finished elsewhere; dropping shipments ${startIndex}-${startIndex + batch.length - 1}`);
+      return 'finished';
+    }
+    job = saved;
+    console.log(`📦 Job ${jobId}: ${job.processed_shipments}/${shipments.length} shipments analyzed`);
+
+    // Pause, cancel and resume take effect between batches
+    const { data: control } = await supabase
+      .from('analysis_jobs')
+      .select('status, run_id')
+      .eq('id', jobId)
+      .single();
+    if (control?.status === 'cancelling') {
+      await finalizeCancelledJob(supabase, job, record);
+      return 'finished';
+    }
+    if (control && (control.status !== 'in_progress' || control.run_id !== job.run_id)) {
+      console.log(`⏸️ Job ${jobId} stopped at shipment ${job.processed_shipments} (${control.status})`);
+      return 'finished';
+    }
+  }
+
+  if (job.processed_shipments < shipments.length) {
+    return 'continue';
+  }
+
+  const claimed = await claimFinalization(supabase, job, 'in_progress');
+  if (claimed) {
+    await finalizeAnalysisJob(supabase, claimed, record);
+  }
+  return 'finished';
+}
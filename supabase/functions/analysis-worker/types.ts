@@ -0,0 +1,32 @@
+import type { RateCardVersionPins } from '../_shared/rateCardVersioning.ts'
+import type { ConfirmedServiceMapping } from './analyzeShipment.ts'
+
+// An analysis_jobs row
+export interface AnalysisJob {
+  id: string;
+  user_id: string;
+  analysis_id: string;
+  status: string;
+  total_shipments: number;
+  processed_shipments: number;
+  completed_shipments: number;
+  error_shipments: number;
+  cache_hits: number;
+  cache_misses: number;
+  retry_count: number;
+  last_checkpoint_at: string | null; // When the last batch was committed
+  run_id: string; // Replaced each time the job is handed to a new worker
+}
+
+// The shipping_analyses columns a job reads its shipments and settings from
+export interface AnalysisRecord {
+  id: string;
+  original_data: unknown;
+  column_mappings?: Record<string, string> | null;
+  carrier_configs_used?: string[] | null;
+  service_mappings?: ConfirmedServiceMapping[] | null;
+  recommendation_mode?: string | null;
+  projected_weekly_spend?: number | null;
+  rate_card_version_pins?: RateCardVersionPins | null;
+  processing_metadata?: Record<string, unknown> | null;
+}
@@ -0,0 +1,81 @@
+import { authenticateServiceRequest } from '../_shared/auth.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { invokeAnalysisWorker, resumeUserJob } from '../_shared/analysisJobs.ts'
+
+type JobAction = 'pause' | 'resume' | 'cancel';
+
+// Statuses each action can move a job out of; cancelling again retries a cancel whose
+// worker died before publishing the results
+const ACTION_FROM: Record<Exclude<JobAction, 'resume'>, string[]> = {
+  pause: ['pending', 'in_progress'],
+  cancel: ['pending', 'in_progress', 'paused', 'failed', 'cancelling']
+};
+
+// Pauses, resumes or cancels one of the user's analysis jobs. The worker notices a
+// pause or cancel after its current batch. A cancelled job stays 'cancelling' until a
+// worker has published an analysis of the shipments analyzed so far.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticateServiceRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const { jobId, action } = await req.json().catch(() => ({})) as { jobId?: string; action?: JobAction };
+    if (!jobId) {
+      return jsonResponse({ error: 'Missing jobId' }, 400);
+    }
+    if (action !== 'pause' && action !== 'resume' && action !== 'cancel') {
+      return jsonResponse({ error: 'action must be pause, resume or cancel' }, 400);
+    }
+
+    if (action === 'resume') {
+      return await resumeUserJob(supabase, user.id, jobId);
+    }
+
+    const status = action === 'pause' ? 'paused' : 'cancelling';
+    const { data: updated, error: updateError } = await supabase
+      .from('analysis_jobs')
+      .update({ status })
+      .eq('id', jobId)
+      .eq('user_id', user.id)
+      .in('status', ACTION_FROM[action])
+      .select('id, processed_shipments');
+
+    if (updateError) {
+      console.error(`❌ Error applying ${action} to analysis job:`, updateError);
+      return jsonResponse({ error: `Failed to ${action} analysis job` }, 500);
+    }
+    if (!updated || updated.length === 0) {
+      const { data: job } = await supabase
+        .from('analysis_jobs')
+        .select('status')
+        .eq('id', jobId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      return job
+        ? jsonResponse({ error: `Cannot ${action} an analysis job that is ${job.status}` }, 409)
+        : jsonResponse({ error: 'Analysis job not found' }, 404);
+    }
+
+    // Have a worker publish the partial results now, not only once a running one ends its batch
+    if (action === 'cancel') {
+      await invokeAnalysisWorker(jobId);
+    }
+
+    console.log(`🛑 Analysis job ${jobId} ${status} at shipment ${updated[0].processed_shipments}`);
+    return jsonResponse({ jobId, status, processedShipments: updated[0].processed_shipments });
+
+  } catch (error) {
+    console.error('💥 Error in control-analysis function:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
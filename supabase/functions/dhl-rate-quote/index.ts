@@ -0,0 +1,327 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { fetchWithRetry, isRetryableStatus } from '../_shared/resilience.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { buildChargeBreakdown } from '../_shared/surcharges.ts';
+
+interface ShipmentRequest {
+  shipFrom: {
+    name: string;
+    address: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    country: string;
+  };
+  shipTo: {
+    name: string;
+    address: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    country: string;
+  };
+  package: {
+    weight: number;
+    weightUnit: string;
+    length?: number;
+    width?: number;
+    height?: number;
+    dimensionUnit?: string;
+    packageType?: string;
+  };
+  serviceTypes?: string[];
+  equivalentServiceCode?: string;
+  isResidential?: boolean;
+  residentialSource?: string;
+  isDutiable?: boolean; // Defaults to true for cross-border shipments
+  declaredValue?: number;
+  declaredValueCurrency?: string;
+}
+
+// DHL global product codes for each requested service code. Single-letter codes come from the
+// carrier service registry, EXPRESS_* codes from carrier_services. Document (non-dutiable) and
+// package (dutiable) variants of the same product carry different codes.
+const DHL_PRODUCT_CODES: Record<string, { dutiable: string[]; nonDutiable: string[]; serviceName: string }> = {
+  P: { dutiable: ['P'], nonDutiable: ['D'], serviceName: 'DHL Express Worldwide' },
+  U: { dutiable: ['U'], nonDutiable: ['U'], serviceName: 'DHL Express Worldwide (EU)' },
+  K: { dutiable: ['E'], nonDutiable: ['K'], serviceName: 'DHL Express 9:00' },
+  T: { dutiable: ['Y'], nonDutiable: ['T'], serviceName: 'DHL Express 12:00' },
+  W: { dutiable: ['W', 'H'], nonDutiable: ['W'], serviceName: 'DHL Economy Select' },
+  G: { dutiable: ['G'], nonDutiable: ['G'], serviceName: 'DHL Domestic Economy Select' },
+  N: { dutiable: ['N'], nonDutiable: ['N'], serviceName: 'DHL Domestic Express' },
+  EXPRESS_WORLDWIDE: { dutiable: ['P'], nonDutiable: ['D'], serviceName: 'DHL Express Worldwide' },
+  EXPRESS_9_00: { dutiable: ['E'], nonDutiable: ['K'], serviceName: 'DHL Express 9:00' },
+  EXPRESS_10_30: { dutiable: ['M'], nonDutiable: ['L'], serviceName: 'DHL Express 10:30' },
+  EXPRESS_12_00: { dutiable: ['Y'], nonDutiable: ['T'], serviceName: 'DHL Express 12:00' },
+  EXPRESS_EASY: { dutiable: ['8'], nonDutiable: ['7'], serviceName: 'DHL Express Easy' }
+};
+
+interface DhlPrice {
+  currencyType: string; // BILLC = billing currency, PULCL = published local currency
+  priceCurrency?: string;
+  price: number;
+}
+
+interface DhlProduct {
+  productName?: string;
+  productCode: string;
+  totalPrice?: DhlPrice[];
+  detailedPriceBreakdown?: {
+    currencyType: string;
+    breakdown?: { name?: string; typeCode?: string; price: number }[];
+  }[];
+  deliveryCapabilities?: {
+    estimatedDeliveryDateAndTime?: string;
+    totalTransitDays?: number;
+  };
+}
+
+// DHL Express API host - overridable so the adapter can be exercised against a local mock server
+function getDhlBaseUrl(isSandbox: boolean): string {
+  const override = Deno.env.get('DHL_API_BASE_URL');
+  if (override) {
+    return override.replace(/\/$/, '');
+  }
+  return isSandbox ? 'https://express.api.dhl.com/mydhlapi/test' : 'https://express.api.dhl.com/mydhlapi';
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
+
+    const { shipment, configId }: { shipment: ShipmentRequest, configId?: string } = await req.json();
+    console.log('✈️ DHL Rate Quote request:', {
+      shipFrom: `${shipment?.shipFrom?.zipCode} ${shipment?.shipFrom?.country}`,
+      shipTo: `${shipment?.shipTo?.zipCode} ${shipment?.shipTo?.country}`,
+      weight: shipment?.package?.weight,
+      configId: configId
+    });
+
+    // Validate shipment data before building request
+    if (!shipment?.shipFrom?.zipCode || !shipment?.shipTo?.zipCode) {
+      return new Response(JSON.stringify({ error: 'Missing required postal codes' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!shipment?.package?.weight || shipment.package.weight <= 0) {
+      return new Response(JSON.stringify({ error: 'Invalid package weight' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Get specific DHL account configuration using configId
+    let query = supabase
+      .from('carrier_configs')
+      .select('id, dhl_account_number, dhl_site_id, dhl_password, is_sandbox')
+      .eq('user_id', user.id)
+      .eq('carrier_type', 'dhl')
+      .eq('is_active', true);
+
+    // If configId is provided, use specific config
+    if (configId) {
+      query = query.eq('id', configId);
+    }
+
+    const { data: config } = await query.maybeSingle();
+
+    if (!config?.dhl_account_number) {
+      return new Response(JSON.stringify({
+        error: configId
+          ? `DHL configuration not found for configId: ${configId}`
+          : 'DHL account number is required for rate quotes'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!config.dhl_site_id || !config.dhl_password) {
+      return new Response(JSON.stringify({ error: 'DHL API credentials missing' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!shipment.serviceTypes || shipment.serviceTypes.length === 0) {
+      return new Response(JSON.stringify({
+        error: 'No service codes provided. All shipments must have confirmed service mappings.'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const originCountry = (shipment.shipFrom.country || 'US').toUpperCase();
+    const destinationCountry = (shipment.shipTo.country || 'US').toUpperCase();
+    const isDutiable = shipment.isDutiable ?? originCountry !== destinationCountry;
+
+    const ratingEndpoint = `${getDhlBaseUrl(config.is_sandbox)}/rates`;
+
+    console.log('DHL Rating API Configuration:', {
+      endpoint: ratingEndpoint,
+      is_sandbox: config.is_sandbox,
+      isDutiable,
+      configId: config.id
+    });
+
+    const isImperial = !['KG', 'KGS'].includes(shipment.package.weightUnit?.toUpperCase() ?? '');
+    const ratingRequest: Record<string, unknown> = {
+      customerDetails: {
+        shipperDetails: {
+          postalCode: shipment.shipFrom.zipCode.trim(),
+          cityName: shipment.shipFrom.city || undefined,
+          countryCode: originCountry
+        },
+        receiverDetails: {
+          postalCode: shipment.shipTo.zipCode.trim(),
+          cityName: shipment.shipTo.city || undefined,
+          countryCode: destinationCountry
+        }
+      },
+      accounts: [{ typeCode: 'shipper', number: config.dhl_account_number }],
+      plannedShippingDateAndTime: `${new Date().toISOString().split('.')[0]} GMT+00:00`,
+      unitOfMeasurement: isImperial ? 'imperial' : 'metric',
+      isCustomsDeclarable: isDutiable,
+      packages: [{
+        weight: shipment.package.weight,
+        dimensions: {
+          length: shipment.package.length || (isImperial ? 12 : 30),
+          width: shipment.package.width || (isImperial ? 12 : 30),
+          height: shipment.package.height || (isImperial ? 6 : 15)
+        }
+      }]
+    };
+
+    // Duties and taxes are estimated from the declared value on dutiable shipments
+    if (isDutiable && shipment.declaredValue && shipment.declaredValue > 0) {
+      ratingRequest.monetaryAmount = [{
+        typeCode: 'declaredValue',
+        value: shipment.declaredValue,
+        currency: shipment.declaredValueCurrency || 'USD'
+      }];
+    }
+
+    // DHL uses HTTP Basic auth with the site ID (API key) and password (API secret)
+    const response = await fetchWithRetry(ratingEndpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${config.dhl_site_id}:${config.dhl_password}`)}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(ratingRequest)
+    }, { label: `DHL rates (config ${config.id})` });
+
+    console.log(`DHL API Response Status (config ${config.id}):`, response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('DHL API Error:', {
+        status: response.status,
+        error: errorText,
+        configId: config.id
+      });
+      return new Response(JSON.stringify({
+        error: `DHL API error (${response.status})`,
+        details: errorText
+      }), {
+        status: response.status === 401 || response.status === 403
+          ? 401
+          : isRetryableStatus(response.status) ? response.status : 502,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const rateData = await response.json();
+    const products: DhlProduct[] = rateData.products || [];
+    const equivalentServiceCode = shipment.equivalentServiceCode || shipment.serviceTypes[0];
+    const rates = [];
+
+    for (const serviceCode of shipment.serviceTypes) {
+      const mapping = DHL_PRODUCT_CODES[serviceCode];
+      const productCodes = mapping
+        ? (isDutiable ? mapping.dutiable : mapping.nonDutiable)
+        : [serviceCode];
+      const product = products.find(p => productCodes.includes(p.productCode));
+
+      if (!product) {
+        console.log(`⚠️ DHL returned no product for service ${serviceCode} (looked for ${productCodes.join(', ')})`);
+        continue;
+      }
+
+      // BILLC is the price in the account's billing currency, i.e. the account (negotiated) rate
+      const billingPrice = product.totalPrice?.find(p => p.currencyType === 'BILLC') || product.totalPrice?.[0];
+      const publishedPrice = product.totalPrice?.find(p => p.currencyType === 'PULCL');
+      const finalCharges = billingPrice?.price || 0;
+
+      if (finalCharges <= 0) {
+        continue;
+      }
+
+      // Every breakdown line except the product's own EXPRESS line is a surcharge (fuel, remote area, ...)
+      const billingBreakdown = product.detailedPriceBreakdown?.find(b => b.currencyType === 'BILLC');
+      const breakdown = buildChargeBreakdown(
+        finalCharges,
+        (billingBreakdown?.breakdown || [])
+          .filter(b => b.typeCode !== 'EXPRESS' && b.name !== 'EXPRESS')
+          .map(b => ({ code: b.typeCode, description: b.name, amount: b.price }))
+      );
+      const publishedRate = publishedPrice?.price || finalCharges;
+      const hasNegotiatedRates = publishedRate > finalCharges;
+      const savingsAmount = hasNegotiatedRates ? publishedRate - finalCharges : 0;
+      const savingsPercentage = savingsAmount > 0 ? ((savingsAmount / publishedRate) * 100) : 0;
+
+      rates.push({
+        serviceCode,
+        serviceName: mapping?.serviceName || product.productName || `DHL ${serviceCode}`,
+        description: product.productName || '',
+        totalCharges: finalCharges,
+        currency: billingPrice?.priceCurrency || 'USD',
+        baseCharges: breakdown.baseCharge,
+        surcharges: breakdown.surcharges,
+        transitTime: product.deliveryCapabilities?.totalTransitDays ?? null,
+        deliveryDate: product.deliveryCapabilities?.estimatedDeliveryDateAndTime || null,
+        rateType: hasNegotiatedRates ? 'negotiated' : 'published',
+        hasNegotiatedRates,
+        publishedRate,
+        negotiatedRate: finalCharges,
+        savingsAmount,
+        savingsPercentage,
+        isEquivalentService: serviceCode === equivalentServiceCode,
+        productCode: product.productCode,
+        isDutiable
+      });
+    }
+
+    console.log(`✈️ DHL returned ${rates.length} rate(s) from ${products.length} product(s) for config ${config.id}`);
+
+    return new Response(JSON.stringify({
+      rates: rates.sort((a, b) => a.totalCharges - b.totalCharges),
+      requestedServices: shipment.serviceTypes,
+      equivalentServiceCode,
+      isDutiable,
+      configId: config.id
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in dhl-rate-quote function:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
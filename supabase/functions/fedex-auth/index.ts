@@ -1,21 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// Token cache - stores tokens in memory with expiration
-interface CachedToken {
-  access_token: string;
-  expires_at: number; // Unix timestamp
-  config_id: string;
-  account_name: string;
-  is_sandbox: boolean;
-}
-
-const tokenCache = new Map<string, CachedToken>();
+import { getStoredToken, saveToken } from '../_shared/tokenStore.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getCarrierEndpoint } from '../_shared/carrierEndpoints.ts';
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -26,44 +13,9 @@ serve(async (req) => {
   try {
     console.log('FedEx Auth function called');
     
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      console.error('No authorization header provided');
-      return new Response(JSON.stringify({ error: 'No authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    console.log('Creating Supabase client...');
-    const supabaseUrl = Deno.env.get('SUPABASE_URL');
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
-      console.error('Missing Supabase environment variables:', { 
-        hasUrl: !!supabaseUrl, 
-        hasKey: !!supabaseAnonKey 
-      });
-      return new Response(JSON.stringify({ error: 'Server configuration error' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } }
-    });
-
-    console.log('Verifying user authentication...');
-    // Verify user authentication
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      console.error('User authentication failed:', authError);
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
 
     console.log('Parsing request body...');
     const requestBody = await req.json();
@@ -72,25 +24,6 @@ serve(async (req) => {
     if (action === 'get_token') {
       console.log('FedEx Auth Request:', { action, config_id, userId: user.id });
       
-      // Check cache first
-      const cacheKey = `${user.id}_${config_id}`;
-      const cachedToken = tokenCache.get(cacheKey);
-      
-      // Return cached token if still valid (with 5 minute buffer)
-      if (cachedToken && cachedToken.expires_at > Date.now() + 300000) {
-        console.log('🚀 Returning cached FedEx token for config:', config_id);
-        return new Response(JSON.stringify({
-          access_token: cachedToken.access_token,
-          expires_in: Math.floor((cachedToken.expires_at - Date.now()) / 1000),
-          is_sandbox: cachedToken.is_sandbox,
-          config_id: cachedToken.config_id,
-          account_name: cachedToken.account_name,
-          cached: true
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-      
       // Get carrier config for FedEx - with proper handling for multiple configs
       let query = supabase
         .from('carrier_configs')
@@ -139,10 +72,24 @@ serve(async (req) => {
         });
       }
 
+      // Reuse the stored token unless it is about to expire; tokens are shared by all functions
+      const storedToken = await getStoredToken(supabase, carrierConfig.id);
+      if (storedToken) {
+        console.log('🚀 Returning stored FedEx token for config:', carrierConfig.id);
+        return new Response(JSON.stringify({
+          access_token: storedToken.access_token,
+          expires_in: Math.floor((storedToken.expires_at - Date.now()) / 1000),
+          is_sandbox: storedToken.is_sandbox,
+          config_id: carrierConfig.id,
+          account_name: carrierConfig.account_name,
+          cached: true
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       // Get OAuth token from FedEx
-      const tokenEndpoint = carrierConfig.is_sandbox 
-        ? 'https://apis-sandbox.fedex.com/oauth/token'
-        : 'https://apis.fedex.com/oauth/token';
+      const tokenEndpoint = getCarrierEndpoint('fedex', 'token', carrierConfig);
 
       console.log('FedEx Auth Request Details:', {
         endpoint: tokenEndpoint,
@@ -202,20 +149,19 @@ serve(async (req) => {
 
       const tokenData = await tokenResponse.json();
       
-      // Cache the token (FedEx tokens typically last 1 hour)
-      const expiresAt = Date.now() + (tokenData.expires_in * 1000);
-      tokenCache.set(cacheKey, {
-        access_token: tokenData.access_token,
-        expires_at: expiresAt,
-        config_id: carrierConfig.id,
-        account_name: carrierConfig.account_name,
-        is_sandbox: carrierConfig.is_sandbox
+      // Persist the token (encrypted) so every function and cold start reuses it (FedEx tokens typically last 1 hour)
+      await saveToken(supabase, {
+        userId: user.id,
+        configId: carrierConfig.id,
+        carrierType: 'fedex',
+        accessToken: tokenData.access_token,
+        expiresIn: tokenData.expires_in,
+        isSandbox: carrierConfig.is_sandbox
       });
       
-      console.log('💾 Cached FedEx token for config:', {
+      console.log('💾 Stored FedEx token for config:', {
         configId: carrierConfig.id,
-        expiresIn: tokenData.expires_in,
-        cacheKey
+        expiresIn: tokenData.expires_in
       });
       
       // Update connection status to success
@@ -1,11 +1,23 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { clearStoredToken, getAccessToken } from '../_shared/tokenStore.ts';
+import { getCachedQuotes, storeCachedQuotes } from '../_shared/quoteCache.ts';
+import { fetchWithRetry, getCircuitBreaker, isRetryableStatus } from '../_shared/resilience.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { buildChargeBreakdown } from '../_shared/surcharges.ts';
+import { formatPostalCode, isInternationalLane } from '../_shared/countries.ts';
+import { getCarrierEndpoint } from '../_shared/carrierEndpoints.ts';
+
+interface ShipmentPackage {
+  weight: number;
+  weightUnit: string;
+  length?: number;
+  width?: number;
+  height?: number;
+  dimensionUnit?: string;
+  packageType?: string;
+}
 
 interface ShipmentRequest {
   shipFrom: {
@@ -24,19 +36,23 @@ interface ShipmentRequest {
     zipCode: string;
     country: string;
   };
-  package: {
-    weight: number;
-    weightUnit: string;
-    length?: number;
-    width?: number;
-    height?: number;
-    dimensionUnit?: string;
-    packageType?: string;
-  };
+  package: ShipmentPackage;
+  packages?: ShipmentPackage[]; // Pieces of a multi-piece shipment; package is their total
   serviceTypes?: string[];
   equivalentServiceCode?: string;
   isResidential?: boolean;
   residentialSource?: string;
+  declaredValue?: number; // Customs value of international shipments
+  declaredValueCurrency?: string;
+  hsCode?: string;
+  commodityDescription?: string;
+}
+
+// Amounts come back as plain numbers, or as { amount, currency } in older payloads
+interface FedexSurcharge {
+  type?: string;
+  description?: string;
+  amount?: number | { amount?: number; currency?: string };
 }
 
 serve(async (req) => {
@@ -46,34 +62,16 @@ serve(async (req) => {
   }
 
   try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'No authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
-    // Verify user authentication
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
 
     const { shipment, configId }: { shipment: ShipmentRequest, configId?: string } = await req.json();
     console.log('📦 FedEx Rate Quote request:', { 
       shipFrom: shipment?.shipFrom?.zipCode,
       shipTo: shipment?.shipTo?.zipCode,
       weight: shipment?.package?.weight,
+      pieces: shipment?.packages?.length || 1,
       configId: configId
     });
 
@@ -88,20 +86,23 @@ serve(async (req) => {
       });
     }
 
-    if (!shipment?.package?.weight || shipment.package.weight <= 0) {
+    // Each piece becomes its own package line item and needs a weight
+    const pieces = shipment?.packages?.length ? shipment.packages : [shipment?.package];
+    if (pieces.some(pkg => !pkg?.weight || pkg.weight <= 0)) {
       return new Response(JSON.stringify({ error: 'Invalid package weight' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Clean and format addresses
-    const cleanZip = (zip: string) => zip.trim().substring(0, 5);
+    // Clean and format addresses: 5-digit US ZIPs, each other country's own postal format
+    const cleanZip = (zip: string, country?: string) => formatPostalCode(zip, country || 'US');
+    const isInternational = isInternationalLane(shipment.shipFrom.country, shipment.shipTo.country);
 
     // Get specific FedEx account configuration using configId
     let query = supabase
       .from('carrier_configs')
-      .select('fedex_account_number, fedex_key, fedex_password, is_sandbox')
+      .select('id, fedex_account_number, fedex_key, fedex_password, is_sandbox, api_base_url')
       .eq('user_id', user.id)
       .eq('carrier_type', 'fedex')
       .eq('is_active', true);
@@ -124,13 +125,10 @@ serve(async (req) => {
       });
     }
 
-    // Get access token for this specific config
-    const { data: authData, error: fedexAuthError } = await supabase.functions.invoke('fedex-auth', {
-      body: { action: 'get_token', config_id: configId }
-    });
+    // Get access token for this specific config (shared token store, OAuth exchange only when needed)
+    const authData = await getAccessToken(supabase, config.id, 'fedex-auth');
 
-    if (fedexAuthError || !authData?.access_token) {
-      console.error('FedEx auth error:', fedexAuthError);
+    if (!authData) {
       return new Response(JSON.stringify({ error: 'Failed to authenticate with FedEx' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -140,9 +138,7 @@ serve(async (req) => {
     const { access_token, is_sandbox } = authData;
 
     // Build FedEx Rating API request with proper endpoint
-    const ratingEndpoint = is_sandbox
-      ? 'https://apis-sandbox.fedex.com/rate/v1/rates/quotes'
-      : 'https://apis.fedex.com/rate/v1/rates/quotes';
+    const ratingEndpoint = getCarrierEndpoint('fedex', 'rate', { is_sandbox, api_base_url: config.api_base_url });
 
     console.log('FedEx Rating API Configuration:', {
       endpoint: ratingEndpoint,
@@ -158,13 +154,13 @@ serve(async (req) => {
       requestedShipment: {
         shipper: {
           address: {
-            postalCode: cleanZip(shipment.shipFrom.zipCode),
+            postalCode: cleanZip(shipment.shipFrom.zipCode, shipment.shipFrom.country),
             countryCode: shipment.shipFrom.country || 'US'
           }
         },
         recipient: {
           address: {
-            postalCode: cleanZip(shipment.shipTo.zipCode),
+            postalCode: cleanZip(shipment.shipTo.zipCode, shipment.shipTo.country),
             countryCode: shipment.shipTo.country || 'US',
             residential: shipment.isResidential || false
           }
@@ -172,18 +168,39 @@ serve(async (req) => {
         shipDateStamp: new Date().toISOString().split('T')[0],
         rateRequestType: ["ACCOUNT", "LIST"],
         pickupType: "DROPOFF_AT_FEDEX_LOCATION",
-        requestedPackageLineItems: [{
+        totalPackageCount: pieces.length,
+        requestedPackageLineItems: pieces.map(pkg => ({
           weight: {
-            units: shipment.package.weightUnit?.toUpperCase() === 'LBS' ? 'LB' : 'KG',
-            value: shipment.package.weight
+            units: pkg.weightUnit?.toUpperCase() === 'LBS' ? 'LB' : 'KG',
+            value: pkg.weight
           },
           dimensions: {
-            length: shipment.package.length || 12,
-            width: shipment.package.width || 12,
-            height: shipment.package.height || 6,
-            units: shipment.package.dimensionUnit?.toUpperCase() === 'IN' ? 'IN' : 'CM'
+            length: pkg.length || 12,
+            width: pkg.width || 12,
+            height: pkg.height || 6,
+            units: pkg.dimensionUnit?.toUpperCase() === 'IN' ? 'IN' : 'CM'
           }
-        }]
+        })),
+        // International rates need the contents declared for customs
+        ...(isInternational ? {
+          customsClearanceDetail: {
+            dutiesPayment: { paymentType: 'SENDER' },
+            commodities: [{
+              description: shipment.commodityDescription || 'Merchandise',
+              quantity: 1,
+              quantityUnits: 'PCS',
+              ...(shipment.hsCode ? { harmonizedCode: shipment.hsCode } : {}),
+              weight: {
+                units: shipment.package.weightUnit?.toUpperCase() === 'LBS' ? 'LB' : 'KG',
+                value: shipment.package.weight
+              },
+              customsValue: {
+                amount: shipment.declaredValue || 1,
+                currency: shipment.declaredValueCurrency || 'USD'
+              }
+            }]
+          }
+        } : {})
       }
     };
 
@@ -221,14 +238,31 @@ serve(async (req) => {
       adjusted: adjustedServiceCodes
     });
 
+    // Serve what we can from the shared quote cache and only call FedEx for the rest
+    const cached = await getCachedQuotes<{ serviceCode: string; totalCharges: number }>(
+      supabase, config.id, shipment, adjustedServiceCodes
+    );
+    console.log(`💾 Quote cache: ${cached.hits.length} hit(s), ${cached.missingServiceCodes.length} miss(es) for config ${configId}`);
+
+    // Stop calling an account that keeps failing; the caller treats it as degraded
+    const breaker = getCircuitBreaker(config.id);
+    let degraded = false;
+    let lastRetryableStatus: number | undefined;
+
     // Get rates for each service type
-    for (const serviceCode of adjustedServiceCodes) {
+    for (const serviceCode of cached.missingServiceCodes) {
+      if (!breaker.canRequest()) {
+        console.log(`🔌 Circuit open for FedEx config ${configId} - skipping remaining services`);
+        degraded = true;
+        break;
+      }
+
       try {
         ratingRequest.requestedShipment.serviceType = serviceCode;
 
         console.log(`Requesting rate for service ${serviceCode} with config ${configId}...`);
 
-        const response = await fetch(ratingEndpoint, {
+        const response = await fetchWithRetry(ratingEndpoint, {
           method: 'POST',
           headers: {
             'Authorization': `Bearer ${access_token}`,
@@ -237,11 +271,12 @@ serve(async (req) => {
             'X-locale': 'en_US'
           },
           body: JSON.stringify(ratingRequest)
-        });
+        }, { label: `FedEx ${serviceCode} (config ${configId})` });
 
         console.log(`FedEx API Response Status for service ${serviceCode} (config ${configId}):`, response.status);
 
         if (response.ok) {
+          breaker.recordSuccess();
           const rateData = await response.json();
           console.log(`FedEx Rate Response for service ${serviceCode} (config ${configId}):`, JSON.stringify(rateData, null, 2));
           
@@ -274,14 +309,25 @@ serve(async (req) => {
               const savingsAmount = hasAccountRates && listRate > 0 ? listRate - accountRate : 0;
               const savingsPercentage = savingsAmount > 0 ? ((savingsAmount / listRate) * 100) : 0;
 
+              // Surcharges are itemized per rate type (fuel, residential, DAS, ...)
+              const chargedDetail = hasAccountRates ? accountRateDetail : listRateDetail;
+              const surCharges: FedexSurcharge[] = chargedDetail?.shipmentRateDetail?.surCharges || [];
+              const breakdown = buildChargeBreakdown(finalCharges, surCharges.map(charge => ({
+                code: charge.type,
+                description: charge.description,
+                amount: typeof charge.amount === 'object' ? Number(charge.amount.amount || 0) : Number(charge.amount || 0)
+              })));
+
               if (finalCharges > 0) {
                 rates.push({
                   serviceCode,
                   serviceName: service?.service_name || `FedEx ${serviceCode}`,
                   description: service?.description || '',
                   totalCharges: finalCharges,
-                  currency: (hasAccountRates ? accountRateDetail : listRateDetail)?.currency || 'USD',
-                  baseCharges: (hasAccountRates ? accountRateDetail : listRateDetail)?.totalBaseCharge || 0,
+                  currency: chargedDetail?.currency || 'USD',
+                  baseCharges: breakdown.baseCharge,
+                  surcharges: breakdown.surcharges,
+                  billableWeight: chargedDetail?.shipmentRateDetail?.totalBillingWeight?.value || undefined,
                   transitTime: rateReplyDetails.operationalDetail?.transitTime || null,
                   deliveryDate: rateReplyDetails.operationalDetail?.deliveryDate || null,
                   rateType,
@@ -297,6 +343,13 @@ serve(async (req) => {
           }
         } else {
           const errorText = await response.text();
+          if (isRetryableStatus(response.status)) {
+            lastRetryableStatus = response.status;
+            breaker.recordFailure();
+          } else if (response.status === 401) {
+            // Token was rejected; drop it so the next request re-authenticates
+            await clearStoredToken(supabase, config.id);
+          }
           console.error(`FedEx API Error for service ${serviceCode}:`, {
             status: response.status,
             error: errorText,
@@ -306,6 +359,8 @@ serve(async (req) => {
         }
       } catch (error) {
         console.error(`Error requesting rate for service ${serviceCode}:`, error);
+        lastRetryableStatus = 503;
+        breaker.recordFailure();
         continue;
       }
     }
@@ -313,10 +368,31 @@ serve(async (req) => {
     const apiCallEnd = Date.now();
     const apiCallDuration = apiCallEnd - apiCallStart;
 
+    // Nothing priced and FedEx itself was the problem: surface it so callers can back off
+    if (rates.length === 0 && cached.hits.length === 0 && (degraded || lastRetryableStatus)) {
+      return new Response(JSON.stringify({
+        error: degraded
+          ? 'FedEx account temporarily unavailable (circuit open)'
+          : `FedEx API unavailable (HTTP ${lastRetryableStatus})`,
+        degraded: true
+      }), {
+        status: lastRetryableStatus ?? 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    await storeCachedQuotes(supabase, user.id, config.id, shipment, rates);
+    rates.push(...cached.hits.map(rate => ({
+      ...rate,
+      isEquivalentService: rate.serviceCode === equivalentServiceCode
+    })));
+
     return new Response(JSON.stringify({
       rates,
       requestedServices: serviceCodes,
-      equivalentServiceCode
+      equivalentServiceCode,
+      cacheStats: { hits: cached.hits.length, misses: cached.missingServiceCodes.length },
+      degraded
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
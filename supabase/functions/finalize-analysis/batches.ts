@@ -0,0 +1,105 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  assignServiceAccounts,
+  formatProcessedShipments,
+  getValidRecommendations,
+  summarizeRecommendationFuel,
+  toShipmentRateRow
+} from '../_shared/analysisResults.ts'
+import type { AnalysisPayload } from '../_shared/analysisResults.ts'
+
+// Datasets over this many shipments are saved in batches (except rate card-only ones)
+export const BATCH_THRESHOLD = 5000;
+export const BATCH_SIZE = 2000;
+
+/**
+ * Recommendations split into the batches a large dataset is saved in.
+ */
+export function splitIntoBatches<T>(recommendations: T[], batchSize = BATCH_SIZE): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < recommendations.length; start += batchSize) {
+    batches.push(recommendations.slice(start, start + batchSize));
+  }
+  return batches;
+}
+
+/**
+ * Append one batch to an analysis created by the large-dataset path: its processed
+ * shipments, its shipment_rates rows (indexed from the batch's offset) and progress in
+ * the processing metadata. Accounts are assigned per batch.
+ */
+export async function processBatch(
+  payload: AnalysisPayload,
+  batchInfo: NonNullable<AnalysisPayload['batchInfo']>,
+  supabase: SupabaseClient
+) {
+  const { analysisId, batchIndex, totalBatches } = batchInfo;
+  const batchStartIndex = batchIndex * BATCH_SIZE;
+
+  const validRecommendations = getValidRecommendations(payload.recommendations);
+  const processedShipments = formatProcessedShipments(
+    validRecommendations,
+    assignServiceAccounts(validRecommendations),
+    batchStartIndex
+  );
+
+  // Get current analysis data
+  const { data: currentAnalysis } = await supabase
+    .from('shipping_analyses')
+    .select('processed_shipments, processing_metadata')
+    .eq('id', analysisId)
+    .single();
+
+  const existingShipments = currentAnalysis?.processed_shipments || [];
+  const updatedShipments = [...existingShipments, ...processedShipments];
+
+  // Update processing metadata
+  const updatedMetadata = {
+    ...currentAnalysis?.processing_metadata,
+    completedBatches: batchIndex + 1,
+    lastBatchCompletedAt: new Date().toISOString(),
+    fuelSurchargesUsed: summarizeRecommendationFuel(
+      payload.recommendations,
+      currentAnalysis?.processing_metadata?.fuelSurchargesUsed
+    )
+  };
+
+  // Update analysis with batch data
+  const { error: updateError } = await supabase
+    .from('shipping_analyses')
+    .update({
+      processed_shipments: updatedShipments,
+      processing_metadata: updatedMetadata
+    })
+    .eq('id', analysisId);
+
+  if (updateError) {
+    throw new Error(`Failed to update batch data: ${updateError.message}`);
+  }
+
+  // Insert shipment rates for this batch
+  const shipmentRatesToInsert = payload.recommendations.flatMap((rec, localIndex) =>
+    Array.isArray(rec.allRates)
+      ? rec.allRates.map(rate => toShipmentRateRow(analysisId, batchStartIndex + localIndex, rate, rec.shipment))
+      : []
+  );
+
+  if (shipmentRatesToInsert.length > 0) {
+    await supabase
+      .from('shipment_rates')
+      .insert(shipmentRatesToInsert);
+  }
+
+  console.log(`✅ Batch ${batchIndex + 1}/${totalBatches} completed`);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      batchIndex,
+      totalBatches,
+      isComplete: batchIndex === totalBatches - 1
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
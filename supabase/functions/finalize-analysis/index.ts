@@ -1,29 +1,19 @@
 
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.4'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-interface AnalysisPayload {
-  fileName: string;
-  totalShipments: number;
-  completedShipments: number;
-  errorShipments: number;
-  totalCurrentCost: number;
-  totalPotentialSavings: number;
-  recommendations: any[];
-  orphanedShipments: any[];
-  originalData: any[];
-  carrierConfigsUsed: string[];
-  serviceMappings?: any[];
-  batchInfo?: {
-    batchIndex: number;
-    totalBatches: number;
-    analysisId: string;
-  };
-}
+import { authenticateServiceRequest } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { loadCurrencyConverter } from '../_shared/exchangeRates.ts'
+import type { CurrencyConverter } from '../_shared/exchangeRates.ts'
+import { normalizeRecommendationMode, summarizeDeliveryWindow } from '../_shared/deliveryWindow.ts'
+import {
+  assignServiceAccounts,
+  formatOrphanedShipments,
+  formatProcessedShipments,
+  getValidRecommendations,
+  summarizeRecommendationFuel,
+  toShipmentRateRow
+} from '../_shared/analysisResults.ts'
+import type { AnalysisPayload } from '../_shared/analysisResults.ts'
+import { BATCH_THRESHOLD, processBatch, splitIntoBatches } from './batches.ts'
 
 interface BatchProcessingResult {
   analysisId: string;
@@ -32,6 +22,29 @@ interface BatchProcessingResult {
   isComplete: boolean;
 }
 
+// Quotes arrive from the browser in whatever currency the carrier used; totals and
+// savings below assume one currency, so convert every rate up front and drop those
+// the exchange rate table can't convert
+function convertRecommendationRates<T extends { shipment?: { shipDate?: string }; allRates?: { currency?: string; totalCharges: number }[] }>(
+  rec: T,
+  converter: CurrencyConverter
+): T {
+  if (!Array.isArray(rec.allRates)) return rec
+  const shipDate = rec.shipment?.shipDate
+  return {
+    ...rec,
+    allRates: rec.allRates
+      .map(rate => (typeof rate.totalCharges === 'number' ? converter.convertRate(rate, shipDate) : rate))
+      .filter(rate => rate !== null)
+  }
+}
+
+// Delivery-window analyses record how many shipments moved to a slower service and what it saved
+function getDeliveryWindowAnalysis(payload: AnalysisPayload) {
+  if (normalizeRecommendationMode(payload.recommendationMode) !== 'delivery_window') return {}
+  return { deliveryWindow: summarizeDeliveryWindow(payload.recommendations) }
+}
+
 // Check if analysis uses only rate cards (no API calls needed)
 async function isRateCardOnlyAnalysis(carrierConfigIds: string[], supabase: any) {
   const { data: carrierConfigs, error } = await supabase
@@ -58,8 +71,8 @@ async function isRateCardOnlyAnalysis(carrierConfigIds: string[], supabase: any)
 async function handleLargeDatasetBatching(payload: AnalysisPayload, user: any, supabase: any) {
   console.log('🔄 Initiating batch processing for large dataset');
   
-  const BATCH_SIZE = 2000;
-  const totalBatches = Math.ceil(payload.recommendations.length / BATCH_SIZE);
+  const batches = splitIntoBatches(payload.recommendations);
+  const totalBatches = batches.length;
   
   // Create initial analysis record with processing status
   const initialAnalysisRecord = {
@@ -75,10 +88,13 @@ async function handleLargeDatasetBatching(payload: AnalysisPayload, user: any, s
       totalShipments: payload.totalShipments,
       completedShipments: payload.completedShipments,
       errorShipments: payload.errorShipments,
-      orphanedShipments: payload.orphanedShipments
+      orphanedShipments: payload.orphanedShipments,
+      ...getDeliveryWindowAnalysis(payload)
     },
     total_shipments: payload.totalShipments,
     total_savings: payload.totalPotentialSavings,
+    reporting_currency: payload.reportingCurrency,
+    recommendation_mode: normalizeRecommendationMode(payload.recommendationMode),
     status: 'processing',
     processing_metadata: {
       savedAt: new Date().toISOString(),
@@ -103,26 +119,16 @@ async function handleLargeDatasetBatching(payload: AnalysisPayload, user: any, s
   // Process batches in background using EdgeRuntime.waitUntil
   const processBatchesInBackground = async () => {
     try {
-      for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-        const startIndex = batchIndex * BATCH_SIZE;
-        const endIndex = Math.min(startIndex + BATCH_SIZE, payload.recommendations.length);
-        const batchRecommendations = payload.recommendations.slice(startIndex, endIndex);
-        
-        // Create batch payload
-        const batchPayload = {
-          ...payload,
-          recommendations: batchRecommendations,
-          batchInfo: {
-            batchIndex: batchIndex,
-            totalBatches: totalBatches,
-            analysisId: analysisData.id
-          }
+      for (const [batchIndex, batchRecommendations] of batches.entries()) {
+        const batchInfo = {
+          batchIndex: batchIndex,
+          totalBatches: totalBatches,
+          analysisId: analysisData.id
         };
         
         console.log(`🔄 Processing batch ${batchIndex + 1}/${totalBatches} with ${batchRecommendations.length} shipments`);
         
-        // Process this batch (recursive call but with batch info)
-        await processBatch(batchPayload, user, supabase);
+        await processBatch({ ...payload, recommendations: batchRecommendations, batchInfo }, batchInfo, supabase);
         
         console.log(`✅ Completed batch ${batchIndex + 1}/${totalBatches}`);
       }
@@ -179,247 +185,6 @@ async function handleLargeDatasetBatching(payload: AnalysisPayload, user: any, s
   );
 }
 
-async function handleBatchRequest(payload: AnalysisPayload, user: any, supabase: any) {
-  console.log(`🔄 Processing batch ${payload.batchInfo!.batchIndex + 1}/${payload.batchInfo!.totalBatches}`);
-  
-  return await processBatch(payload, user, supabase);
-}
-
-async function processBatch(payload: AnalysisPayload, user: any, supabase: any) {
-  // This function contains the core processing logic
-  // (moved from the main handler to be reusable for batches)
-  
-  // Filter valid recommendations for this batch
-  const validRecommendations = payload.recommendations.filter(rec => {
-    const service = rec.customer_service || rec.shipment.service || '';
-    const hasValidService = service && service.trim() !== '' && service !== 'Unknown';
-    const hasRates = rec.allRates && rec.allRates.length > 0;
-    return hasValidService && hasRates;
-  });
-
-  // Calculate account totals for this batch
-  const accountTotals: { [key: string]: { totalCost: number; shipmentCount: number } } = {};
-  
-  validRecommendations.forEach(rec => {
-    if (rec.allRates && Array.isArray(rec.allRates)) {
-      rec.allRates.forEach((rate: any) => {
-        const accountName = rate.carrierName || rate.accountName || 'Unknown';
-        const carrierType = rate.carrierType || 'unknown';
-        const serviceName = rate.serviceName || '';
-        
-        if (carrierType.toLowerCase() === 'amazon' && 
-            serviceName.toLowerCase() !== 'ground' && 
-            !serviceName.toLowerCase().includes('ground')) {
-          return;
-        }
-        
-        if (!accountTotals[accountName]) {
-          accountTotals[accountName] = { totalCost: 0, shipmentCount: 0 };
-        }
-        const rateAmount = parseFloat(rate.totalCharges || rate.negotiatedRate || rate.rate_amount || 0);
-        accountTotals[accountName].totalCost += rateAmount;
-        accountTotals[accountName].shipmentCount += 1;
-      });
-    }
-  });
-
-  // Find best account for this batch
-  let bestOverallAccount = '';
-  let lowestTotalCost = Infinity;
-  
-  Object.entries(accountTotals).forEach(([accountName, totals]) => {
-    if (totals.totalCost < lowestTotalCost) {
-      lowestTotalCost = totals.totalCost;
-      bestOverallAccount = accountName;
-    }
-  });
-
-  // Create service-to-account mapping for this batch
-  const serviceToAccountMapping: { [serviceCategory: string]: string } = {};
-  const serviceCategoryStats: { [serviceCategory: string]: { [accountName: string]: { totalCost: number; rateCount: number } } } = {};
-  
-  validRecommendations.forEach(rec => {
-    if (rec.allRates && Array.isArray(rec.allRates)) {
-      const serviceCategory = rec.customer_service || rec.shipment.service || 'Unknown';
-      
-      if (!serviceCategoryStats[serviceCategory]) {
-        serviceCategoryStats[serviceCategory] = {};
-      }
-      
-      rec.allRates.forEach((rate: any) => {
-        const accountName = rate.carrierName || rate.accountName || 'Unknown';
-        const carrierType = rate.carrierType || 'unknown';
-        const serviceName = rate.serviceName || '';
-        
-        if (carrierType.toLowerCase() === 'amazon' && 
-            serviceName.toLowerCase() !== 'ground' && 
-            !serviceName.toLowerCase().includes('ground')) {
-          return;
-        }
-        
-        if (!serviceCategoryStats[serviceCategory][accountName]) {
-          serviceCategoryStats[serviceCategory][accountName] = { totalCost: 0, rateCount: 0 };
-        }
-        
-        const rateAmount = parseFloat(rate.totalCharges || rate.negotiatedRate || rate.rate_amount || 0);
-        serviceCategoryStats[serviceCategory][accountName].totalCost += rateAmount;
-        serviceCategoryStats[serviceCategory][accountName].rateCount += 1;
-      });
-    }
-  });
-
-  Object.keys(serviceCategoryStats).forEach(serviceCategory => {
-    const accounts = serviceCategoryStats[serviceCategory];
-    
-    if (accounts[bestOverallAccount] && accounts[bestOverallAccount].rateCount > 0) {
-      serviceToAccountMapping[serviceCategory] = bestOverallAccount;
-    } else {
-      let bestAccountForService = '';
-      let lowestAverageCost = Infinity;
-      
-      Object.entries(accounts).forEach(([accountName, stats]) => {
-        const averageCost = stats.totalCost / stats.rateCount;
-        if (averageCost < lowestAverageCost) {
-          lowestAverageCost = averageCost;
-          bestAccountForService = accountName;
-        }
-      });
-      
-      serviceToAccountMapping[serviceCategory] = bestAccountForService || bestOverallAccount;
-    }
-  });
-
-  // Process shipments for this batch
-  const processedShipments = validRecommendations.map((rec, index) => {
-    const serviceCategory = rec.customer_service || rec.shipment.service || 'Unknown';
-    const assignedAccount = serviceToAccountMapping[serviceCategory] || bestOverallAccount;
-    
-    let assignedAccountRate = null;
-    if (rec.allRates && Array.isArray(rec.allRates)) {
-      assignedAccountRate = rec.allRates.find((rate: any) => {
-        const accountName = rate.carrierName || rate.accountName || 'Unknown';
-        return accountName === assignedAccount;
-      });
-    }
-
-    const newRate = assignedAccountRate ? 
-      parseFloat(assignedAccountRate.totalCharges || assignedAccountRate.negotiatedRate || assignedAccountRate.rate_amount || 0) : 
-      parseFloat(rec.recommendedCost || 0);
-    const currentRate = parseFloat(rec.currentCost || 0);
-    const savings = currentRate - newRate;
-
-    // Calculate batch-aware ID
-    const batchStartIndex = payload.batchInfo ? payload.batchInfo.batchIndex * 2000 : 0;
-
-    return {
-      id: batchStartIndex + index + 1,
-      trackingId: rec.shipment.trackingId || `Shipment-${batchStartIndex + index + 1}`,
-      originZip: rec.shipment.originZip || '',
-      destinationZip: rec.shipment.destZip || '',
-      weight: parseFloat(rec.shipment.weight || '0'),
-      length: parseFloat(rec.shipment.length || '0'),
-      width: parseFloat(rec.shipment.width || '0'),
-      height: parseFloat(rec.shipment.height || '0'),
-      dimensions: rec.shipment.dimensions,
-      carrier: rec.carrier || 'UPS',
-      customer_service: rec.customer_service || rec.shipment.service || 'Unknown',
-      ShipPros_service: assignedAccountRate ? (assignedAccountRate.serviceName || assignedAccountRate.description || 'Ground') : 'Ground',
-      currentRate: currentRate,
-      ShipPros_cost: newRate,
-      savings: savings,
-      savingsPercent: currentRate > 0 ? (savings / currentRate) * 100 : 0,
-      analyzedWithAccount: assignedAccount,
-      accountName: assignedAccount
-    }
-  });
-
-  // Handle batch data insertion
-  if (payload.batchInfo) {
-    // For batches, append data instead of replacing
-    const analysisId = payload.batchInfo.analysisId;
-    
-    // Get current analysis data
-    const { data: currentAnalysis } = await supabase
-      .from('shipping_analyses')
-      .select('processed_shipments, processing_metadata')
-      .eq('id', analysisId)
-      .single();
-      
-    const existingShipments = currentAnalysis?.processed_shipments || [];
-    const updatedShipments = [...existingShipments, ...processedShipments];
-    
-    // Update processing metadata
-    const updatedMetadata = {
-      ...currentAnalysis?.processing_metadata,
-      completedBatches: payload.batchInfo.batchIndex + 1,
-      lastBatchCompletedAt: new Date().toISOString()
-    };
-    
-    // Update analysis with batch data
-    const { error: updateError } = await supabase
-      .from('shipping_analyses')
-      .update({
-        processed_shipments: updatedShipments,
-        processing_metadata: updatedMetadata
-      })
-      .eq('id', analysisId);
-      
-    if (updateError) {
-      throw new Error(`Failed to update batch data: ${updateError.message}`);
-    }
-    
-    // Insert shipment rates for this batch
-    const shipmentRatesToInsert: any[] = [];
-    const batchStartIndex = payload.batchInfo.batchIndex * 2000;
-    
-    payload.recommendations.forEach((rec, localIndex) => {
-      if (rec.allRates && Array.isArray(rec.allRates)) {
-        rec.allRates.forEach((rate: any) => {
-          shipmentRatesToInsert.push({
-            analysis_id: analysisId,
-            shipment_index: batchStartIndex + localIndex,
-            carrier_config_id: rate.carrierId || '',
-            account_name: rate.carrierName || rate.accountName || 'Unknown',
-            carrier_type: rate.carrierType || 'ups',
-            service_code: rate.serviceCode || '',
-            service_name: rate.serviceName || rate.description || '',
-            rate_amount: rate.totalCharges || rate.negotiatedRate || rate.rate_amount || 0,
-            currency: rate.currency || 'USD',
-            transit_days: rate.transitTime || null,
-            is_negotiated: rate.rateType === 'negotiated' || rate.hasNegotiatedRates || false,
-            published_rate: rate.publishedRate || null,
-            shipment_data: rec.shipment || {}
-          });
-        });
-      }
-    });
-    
-    if (shipmentRatesToInsert.length > 0) {
-      await supabase
-        .from('shipment_rates')
-        .insert(shipmentRatesToInsert);
-    }
-    
-    console.log(`✅ Batch ${payload.batchInfo.batchIndex + 1}/${payload.batchInfo.totalBatches} completed`);
-    
-    return new Response(
-      JSON.stringify({
-        success: true,
-        batchIndex: payload.batchInfo.batchIndex,
-        totalBatches: payload.batchInfo.totalBatches,
-        isComplete: payload.batchInfo.batchIndex === payload.batchInfo.totalBatches - 1
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
-  
-  // This should not happen in batch mode, but included for completeness
-  return new Response(
-    JSON.stringify({ success: true, message: 'Batch processed' }),
-    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-  );
-}
-
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -427,23 +192,9 @@ Deno.serve(async (req) => {
   }
 
   try {
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseKey)
-
-    // Get user from JWT token
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader) {
-      throw new Error('No authorization header')
-    }
-
-    const token = authHeader.replace('Bearer ', '')
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
-    
-    if (authError || !user) {
-      throw new Error('Invalid authentication')
-    }
+    const auth = await authenticateServiceRequest(req)
+    if (auth.response) return auth.response
+    const { supabase, user } = auth
 
     const payload: AnalysisPayload = await req.json()
     
@@ -456,12 +207,14 @@ Deno.serve(async (req) => {
       isBatch: !!payload.batchInfo
     })
 
+    const currencyConverter = await loadCurrencyConverter(supabase, user.id)
+    payload.reportingCurrency = currencyConverter.reportingCurrency
+    payload.recommendations = (payload.recommendations || []).map(rec => convertRecommendationRates(rec, currencyConverter))
+
     // Check if this is a rate card-only analysis (skip batching for instant processing)
     const isRateCardOnly = await isRateCardOnlyAnalysis(payload.carrierConfigsUsed, supabase);
     
-    // Smart size detection - datasets over 5000 shipments should use batch processing (except rate cards)
-    const BATCH_THRESHOLD = 5000;
-    const BATCH_SIZE = 2000;
+    // Smart size detection - datasets over BATCH_THRESHOLD shipments use batch processing (except rate cards)
     const isLargeDataset = payload.totalShipments > BATCH_THRESHOLD;
     
     // Rate card analyses bypass batching since they're just database lookups
@@ -474,7 +227,8 @@ Deno.serve(async (req) => {
     
     // If this is a batch request, handle it appropriately
     if (payload.batchInfo) {
-      return await handleBatchRequest(payload, user, supabase);
+      console.log(`🔄 Processing batch ${payload.batchInfo.batchIndex + 1}/${payload.batchInfo.totalBatches}`);
+      return await processBatch(payload, payload.batchInfo, supabase);
     }
 
     // Check for existing analysis with smart duplicate detection
@@ -527,197 +281,20 @@ Deno.serve(async (req) => {
     }
 
     // Filter out shipments that should be orphaned (missing service type or no rates)
-    const validRecommendations = payload.recommendations.filter(rec => {
-      const service = rec.customer_service || rec.shipment.service || '';
-      const hasValidService = service && service.trim() !== '' && service !== 'Unknown';
-      const hasRates = rec.allRates && rec.allRates.length > 0;
-      return hasValidService && hasRates;
-    });
-
-    // Determine the best overall account before processing shipments
-    // Calculate total cost for each account across all shipments
-    const accountTotals: { [key: string]: { totalCost: number; shipmentCount: number } } = {};
-    
-    validRecommendations.forEach(rec => {
-      if (rec.allRates && Array.isArray(rec.allRates)) {
-        rec.allRates.forEach((rate: any) => {
-          const accountName = rate.carrierName || rate.accountName || 'Unknown';
-          const carrierType = rate.carrierType || 'unknown';
-          const serviceName = rate.serviceName || '';
-          
-          // Filter out Amazon rates for non-Ground services (these should not exist but are invalid if they do)
-          if (carrierType.toLowerCase() === 'amazon' && 
-              serviceName.toLowerCase() !== 'ground' && 
-              !serviceName.toLowerCase().includes('ground')) {
-            console.log(`⚠️ Filtering out invalid Amazon rate for non-Ground service: ${serviceName}`);
-            return;
-          }
-          
-          if (!accountTotals[accountName]) {
-            accountTotals[accountName] = { totalCost: 0, shipmentCount: 0 };
-          }
-          const rateAmount = parseFloat(rate.totalCharges || rate.negotiatedRate || rate.rate_amount || 0);
-          accountTotals[accountName].totalCost += rateAmount;
-          accountTotals[accountName].shipmentCount += 1;
-        });
-      }
-    });
-
-    // Find the account with the lowest total cost
-    let bestOverallAccount = '';
-    let lowestTotalCost = Infinity;
-    
-    Object.entries(accountTotals).forEach(([accountName, totals]) => {
-      if (totals.totalCost < lowestTotalCost) {
-        lowestTotalCost = totals.totalCost;
-        bestOverallAccount = accountName;
-      }
-    });
+    const validRecommendations = getValidRecommendations(payload.recommendations)
 
-    console.log('Best overall account determined:', bestOverallAccount, 'with total cost:', lowestTotalCost);
-    console.log('Account totals:', accountTotals);
-
-    // Group rates by service categories to create service-to-account mapping
-    const serviceToAccountMapping: { [serviceCategory: string]: string } = {};
-    const serviceCategoryStats: { [serviceCategory: string]: { [accountName: string]: { totalCost: number; rateCount: number } } } = {};
-    
-    // First, collect all rates grouped by service category and account
-    validRecommendations.forEach(rec => {
-      if (rec.allRates && Array.isArray(rec.allRates)) {
-        const serviceCategory = rec.customer_service || rec.shipment.service || 'Unknown';
-        
-        if (!serviceCategoryStats[serviceCategory]) {
-          serviceCategoryStats[serviceCategory] = {};
-        }
-        
-        rec.allRates.forEach((rate: any) => {
-          const accountName = rate.carrierName || rate.accountName || 'Unknown';
-          const carrierType = rate.carrierType || 'unknown';
-          const serviceName = rate.serviceName || '';
-          
-          // Filter out Amazon rates for non-Ground services
-          if (carrierType.toLowerCase() === 'amazon' && 
-              serviceName.toLowerCase() !== 'ground' && 
-              !serviceName.toLowerCase().includes('ground')) {
-            return;
-          }
-          
-          if (!serviceCategoryStats[serviceCategory][accountName]) {
-            serviceCategoryStats[serviceCategory][accountName] = { totalCost: 0, rateCount: 0 };
-          }
-          
-          const rateAmount = parseFloat(rate.totalCharges || rate.negotiatedRate || rate.rate_amount || 0);
-          serviceCategoryStats[serviceCategory][accountName].totalCost += rateAmount;
-          serviceCategoryStats[serviceCategory][accountName].rateCount += 1;
-        });
-      }
-    });
-
-    // Create service-to-account mapping: primary account first, then best per service category
-    Object.keys(serviceCategoryStats).forEach(serviceCategory => {
-      const accounts = serviceCategoryStats[serviceCategory];
-      
-      // Check if best overall account supports this service category
-      if (accounts[bestOverallAccount] && accounts[bestOverallAccount].rateCount > 0) {
-        serviceToAccountMapping[serviceCategory] = bestOverallAccount;
-      } else {
-        // Find the account with the lowest average cost for this service category
-        let bestAccountForService = '';
-        let lowestAverageCost = Infinity;
-        
-        Object.entries(accounts).forEach(([accountName, stats]) => {
-          const averageCost = stats.totalCost / stats.rateCount;
-          if (averageCost < lowestAverageCost) {
-            lowestAverageCost = averageCost;
-            bestAccountForService = accountName;
-          }
-        });
-        
-        serviceToAccountMapping[serviceCategory] = bestAccountForService || bestOverallAccount;
-      }
-    });
-
-    console.log('Service-to-account mapping:', serviceToAccountMapping);
-    console.log('Best overall account:', bestOverallAccount);
+    // Primary account by total cost, then the account each service category goes to
+    const assignment = assignServiceAccounts(validRecommendations)
+    const { accountTotals, bestOverallAccount } = assignment
+    console.log('Best overall account determined:', bestOverallAccount)
+    console.log('Account totals:', accountTotals)
+    console.log('Service-to-account mapping:', assignment.serviceToAccountMapping)
 
     // Format processed shipments using service-based account selection
-    const processedShipments = validRecommendations.map((rec, index) => {
-      const serviceCategory = rec.customer_service || rec.shipment.service || 'Unknown';
-      const assignedAccount = serviceToAccountMapping[serviceCategory] || bestOverallAccount;
-      
-      // Find the rate from the assigned account for this shipment
-      let assignedAccountRate = null;
-      if (rec.allRates && Array.isArray(rec.allRates)) {
-        assignedAccountRate = rec.allRates.find((rate: any) => {
-          const accountName = rate.carrierName || rate.accountName || 'Unknown';
-          return accountName === assignedAccount;
-        });
-      }
-
-      // Use the assigned account rate or fallback to best available rate
-      const newRate = assignedAccountRate ? 
-        parseFloat(assignedAccountRate.totalCharges || assignedAccountRate.negotiatedRate || assignedAccountRate.rate_amount || 0) : 
-        parseFloat(rec.recommendedCost || 0);
-      const currentRate = parseFloat(rec.currentCost || 0);
-      const savings = currentRate - newRate;
-
-      return {
-        id: index + 1,
-        trackingId: rec.shipment.trackingId || `Shipment-${index + 1}`,
-        originZip: rec.shipment.originZip || '',
-        destinationZip: rec.shipment.destZip || '',
-        weight: parseFloat(rec.shipment.weight || '0'),
-        length: parseFloat(rec.shipment.length || '0'),
-        width: parseFloat(rec.shipment.width || '0'),
-        height: parseFloat(rec.shipment.height || '0'),
-        dimensions: rec.shipment.dimensions,
-        carrier: rec.carrier || 'UPS',
-        customer_service: rec.customer_service || rec.shipment.service || 'Unknown',
-        ShipPros_service: assignedAccountRate ? (assignedAccountRate.serviceName || assignedAccountRate.description || 'Ground') : 'Ground',
-        currentRate: currentRate,
-        ShipPros_cost: newRate,
-        savings: savings,
-        savingsPercent: currentRate > 0 ? (savings / currentRate) * 100 : 0,
-        analyzedWithAccount: assignedAccount, // Use the account assigned for this service category
-        accountName: assignedAccount // Also store as accountName for easier access
-      }
-    })
+    const processedShipments = formatProcessedShipments(validRecommendations, assignment)
 
     // Format orphaned shipments for centralized storage
-    const orphanedShipmentsFormatted = payload.orphanedShipments.map((orphan, index) => {
-      // Extract currentRate from original data
-      const originalEntry = payload.originalData?.find((orig: any) => 
-        orig.shipment?.trackingId === orphan.shipment.trackingId || 
-        orig.trackingId === orphan.shipment.trackingId ||
-        orig.tracking_id === orphan.shipment.trackingId
-      );
-      
-      const currentRate = originalEntry ? 
-        originalEntry.shipment?.currentRate || 
-        originalEntry.currentRate || 
-        originalEntry.current_rate || 
-        originalEntry.cost || 
-        originalEntry.rate || 
-        originalEntry.amount || 
-        originalEntry.price || 0 : 0;
-
-      return {
-        id: payload.completedShipments + index + 1,
-        trackingId: orphan.shipment.trackingId || `Orphan-${index + 1}`,
-        originZip: orphan.shipment.originZip || '',
-        destinationZip: orphan.shipment.destZip || '',
-        weight: parseFloat(orphan.shipment.weight || '0'),
-        length: parseFloat(orphan.shipment.length || '0'),
-        width: parseFloat(orphan.shipment.width || '0'),
-        height: parseFloat(orphan.shipment.height || '0'),
-        dimensions: orphan.shipment.dimensions,
-        service: orphan.customer_service || orphan.shipment.service || 'Unknown',
-        currentRate: parseFloat(currentRate) || 0,
-        error: orphan.error || 'Processing failed',
-        errorType: orphan.errorType || 'Unknown',
-        errorCategory: 'Processing Error'
-      }
-    })
+    const orphanedShipmentsFormatted = formatOrphanedShipments(payload)
 
     // Prepare processing metadata
     const processingMetadata = {
@@ -726,7 +303,8 @@ Deno.serve(async (req) => {
       completedShipments: payload.completedShipments,
       errorShipments: payload.errorShipments,
       totalShipments: payload.totalShipments,
-      dataSource: 'finalize_analysis_endpoint'
+      dataSource: 'finalize_analysis_endpoint',
+      fuelSurchargesUsed: summarizeRecommendationFuel(payload.recommendations)
     }
 
     // Prepare savings analysis
@@ -737,7 +315,8 @@ Deno.serve(async (req) => {
       totalShipments: payload.totalShipments,
       completedShipments: payload.completedShipments,
       errorShipments: payload.errorShipments,
-      orphanedShipments: payload.orphanedShipments
+      orphanedShipments: payload.orphanedShipments,
+      ...getDeliveryWindowAnalysis(payload)
     }
 
     // Create the complete analysis record
@@ -747,6 +326,7 @@ Deno.serve(async (req) => {
       original_data: payload.originalData,
       carrier_configs_used: payload.carrierConfigsUsed,
       service_mappings: payload.serviceMappings || [],
+      rate_card_version_pins: payload.rateCardVersionPins || {},
       ups_quotes: payload.recommendations.map(r => r.allRates || r.upsRates || []),
       savings_analysis: savingsAnalysis,
       recommendations: payload.recommendations,
@@ -760,6 +340,8 @@ Deno.serve(async (req) => {
       },
       total_shipments: payload.totalShipments,
       total_savings: payload.totalPotentialSavings,
+      reporting_currency: payload.reportingCurrency,
+      recommendation_mode: normalizeRecommendationMode(payload.recommendationMode),
       status: 'completed'
     }
 
@@ -813,22 +395,8 @@ Deno.serve(async (req) => {
       // Extract rates from the original data for each shipment
       payload.originalData.forEach((shipmentResult, index) => {
         if (shipmentResult.status === 'completed' && shipmentResult.allRates) {
-          shipmentResult.allRates.forEach((rate: any) => {
-            shipmentRatesToInsert.push({
-              analysis_id: data.id,
-              shipment_index: index,
-              carrier_config_id: rate.carrierId || '',
-              account_name: rate.carrierName || rate.accountName || 'Unknown',
-              carrier_type: rate.carrierType || 'ups',
-              service_code: rate.serviceCode || '',
-              service_name: rate.serviceName || rate.description || '',
-              rate_amount: rate.totalCharges || rate.negotiatedRate || rate.rate_amount || 0,
-              currency: rate.currency || 'USD',
-              transit_days: rate.transitTime || null,
-              is_negotiated: rate.rateType === 'negotiated' || rate.hasNegotiatedRates || false,
-              published_rate: rate.publishedRate || null,
-              shipment_data: shipmentResult.shipment || {}
-            })
+          shipmentResult.allRates.forEach(rate => {
+            shipmentRatesToInsert.push(toShipmentRateRow(data.id, index, rate, shipmentResult.shipment))
           })
         }
       })
@@ -1,9 +1,6 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { authenticateServiceRequest } from '../_shared/auth.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { isStaleJob, requeueStaleJobs } from '../_shared/analysisJobs.ts'
 
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
@@ -12,29 +9,9 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
-
-    // Get the user from the auth header
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: 'Missing authorization header' }),
-        { status: 401, headers: corsHeaders }
-      );
-    }
-
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-    
-    if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid authorization token' }),
-        { status: 401, headers: corsHeaders }
-      );
-    }
+    const auth = await authenticateServiceRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
 
     if (req.method !== 'GET') {
       return new Response(
@@ -56,12 +33,20 @@ Deno.serve(async (req) => {
     console.log(`Getting status for analysis job ${jobId}`);
 
     // Get analysis job status
-    const { data: job, error: jobError } = await supabase
+    const loadJob = () => supabase
       .from('analysis_jobs')
-      .select('total_shipments, processed_shipments, status, created_at, updated_at')
+      .select('analysis_id, total_shipments, processed_shipments, completed_shipments, error_shipments, status, error_message, cache_hits, cache_misses, created_at, updated_at')
       .eq('id', jobId)
       .eq('user_id', user.id)
       .single();
+    let { data: job, error: jobError } = await loadJob();
+
+    // A job that stopped checkpointing lost its worker; restart it while someone is watching
+    if (job && isStaleJob(job)) {
+      console.log(`⏱️ Analysis job ${jobId} is stuck, requeuing`);
+      await requeueStaleJobs(supabase, user.id);
+      ({ data: job, error: jobError } = await loadJob());
+    }
 
     if (jobError || !job) {
       console.error('Error fetching analysis job:', jobError);
@@ -73,9 +58,15 @@ Deno.serve(async (req) => {
 
     return new Response(
       JSON.stringify({
+        analysis_id: job.analysis_id,
         total_shipments: job.total_shipments,
         processed_shipments: job.processed_shipments,
+        completed_shipments: job.completed_shipments,
+        error_shipments: job.error_shipments,
         status: job.status,
+        error_message: job.error_message,
+        cache_hits: job.cache_hits,
+        cache_misses: job.cache_misses,
         created_at: job.created_at,
         updated_at: job.updated_at,
         progress_percentage: job.total_shipments > 0 
@@ -0,0 +1,331 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { CARRIER_PATHS } from '../_shared/carrierEndpoints.ts'
+import { DEFAULT_RATE_TABLE, mergeRateTable, priceMockShipment } from './pricing.ts'
+import type { MockCarrier, MockCharges, MockRate, MockRateRequest } from './pricing.ts'
+
+/**
+ * Stand-in for the UPS and FedEx OAuth and Rating APIs, for exercising ups-auth,
+ * ups-rate-quote, fedex-auth and fedex-rate-quote end to end without carrier credentials.
+ * Point an account's API endpoint override at this function and the carrier functions
+ * append the real API paths to it:
+ *
+ *   http://localhost:54321/functions/v1/mock-carrier
+ *
+ * Path segments between the function name and the carrier path tune the behaviour for
+ * that account, e.g. .../mock-carrier/latency-800/fail-503/every-3:
+ *   latency-<ms>        delay every response
+ *   fail-<status>       answer rating requests with this HTTP status
+ *   fail-token-<status> answer token requests with this HTTP status
+ *   every-<n>           fail only every nth rating request instead of all of them
+ *   discount-<percent>  account discount off the published transportation charge
+ *
+ * MOCK_CARRIER_LATENCY_MS sets the default latency and MOCK_CARRIER_RATE_TABLE (JSON laid
+ * over the default table in pricing.ts) reprices services.
+ */
+
+interface MockOptions {
+  latencyMs: number;
+  failStatus: number | null;
+  failTokenStatus: number | null;
+  failEvery: number;
+  discountPercent: number | null;
+}
+
+interface MockRoute {
+  carrier: MockCarrier;
+  kind: 'token' | 'rate';
+  path: string;
+}
+
+// The parts of a Rating API request the mock prices by
+interface UpsRateRequestBody {
+  RateRequest?: {
+    Shipment?: {
+      Service?: { Code?: string };
+      Shipper?: { Address?: { PostalCode?: string; CountryCode?: string } };
+      ShipTo?: { Address?: { PostalCode?: string; CountryCode?: string; ResidentialAddressIndicator?: string } };
+      Package?: UpsPackage | UpsPackage[];
+    };
+  };
+}
+
+interface UpsPackage {
+  PackageWeight?: { Weight?: string; UnitOfMeasurement?: { Code?: string } };
+  Dimensions?: { Length?: string; Width?: string; Height?: string; UnitOfMeasurement?: { Code?: string } };
+}
+
+interface FedexRateRequestBody {
+  requestedShipment?: {
+    serviceType?: string;
+    shipper?: { address?: { postalCode?: string; countryCode?: string } };
+    recipient?: { address?: { postalCode?: string; countryCode?: string; residential?: boolean } };
+    requestedPackageLineItems?: {
+      weight?: { units?: string; value?: number };
+      dimensions?: { length?: number; width?: number; height?: number; units?: string };
+    }[];
+  };
+}
+
+// Longest paths first: FedEx's /oauth/token is a suffix of the UPS token path
+const ROUTES: MockRoute[] = (['ups', 'fedex'] as MockCarrier[])
+  .flatMap(carrier => (['token', 'rate'] as const).map(kind => ({ carrier, kind, path: CARRIER_PATHS[carrier][kind] })))
+  .sort((a, b) => b.path.length - a.path.length);
+
+const rateTable = (() => {
+  const override = Deno.env.get('MOCK_CARRIER_RATE_TABLE');
+  if (!override) return DEFAULT_RATE_TABLE;
+  try {
+    return mergeRateTable(DEFAULT_RATE_TABLE, JSON.parse(override));
+  } catch (error) {
+    console.error('⚠️ MOCK_CARRIER_RATE_TABLE is not valid JSON - using the default table', error);
+    return DEFAULT_RATE_TABLE;
+  }
+})();
+
+// Rating requests seen per carrier since the function started, for every-<n>
+const ratingRequestCounts: Record<MockCarrier, number> = { ups: 0, fedex: 0 };
+
+function parseOptions(segments: string[]): MockOptions {
+  const options: MockOptions = {
+    latencyMs: Number(Deno.env.get('MOCK_CARRIER_LATENCY_MS')) || 0,
+    failStatus: null,
+    failTokenStatus: null,
+    failEvery: 1,
+    discountPercent: null
+  };
+
+  for (const segment of segments) {
+    const [, name, value] = segment.match(/^([a-z-]+?)-(\d+(?:\.\d+)?)$/) ?? [];
+    const amount = Number(value);
+    if (name === 'latency') options.latencyMs = amount;
+    else if (name === 'fail') options.failStatus = amount;
+    else if (name === 'fail-token') options.failTokenStatus = amount;
+    else if (name === 'every') options.failEvery = Math.max(Math.floor(amount), 1);
+    else if (name === 'discount') options.discountPercent = Math.min(amount, 99.99);
+  }
+  return options;
+}
+
+// Same client id, same token, so runs are reproducible
+function tokenFor(carrier: MockCarrier, clientId: string): string {
+  let hash = 5381;
+  for (const char of clientId) hash = ((hash * 33) ^ char.charCodeAt(0)) >>> 0;
+  return `mock-${carrier}-${hash.toString(16).padStart(8, '0')}`;
+}
+
+function carrierError(carrier: MockCarrier, status: number, code: string, message: string): Response {
+  const body = carrier === 'ups'
+    ? { response: { errors: [{ code, message }] } }
+    : { transactionId: crypto.randomUUID(), errors: [{ code, message }] };
+  const response = jsonResponse(body, status);
+  if (status === 429) response.headers.set('Retry-After', '1');
+  return response;
+}
+
+async function issueToken(req: Request, carrier: MockCarrier): Promise<Response> {
+  let clientId: string | null = null;
+  if (carrier === 'ups') {
+    const basic = req.headers.get('Authorization')?.match(/^Basic\s+(.+)$/i)?.[1];
+    try {
+      clientId = basic ? atob(basic).split(':')[0] || null : null;
+    } catch {
+      clientId = null;
+    }
+  } else {
+    const form = new URLSearchParams(await req.text());
+    clientId = form.get('client_secret') ? form.get('client_id') : null;
+  }
+
+  if (!clientId) {
+    return carrier === 'ups'
+      ? carrierError(carrier, 401, '10401', 'ClientId is Invalid')
+      : carrierError(carrier, 401, 'NOT.AUTHORIZED.ERROR', 'The given client credentials were not valid.');
+  }
+
+  const accessToken = tokenFor(carrier, clientId);
+  return jsonResponse(carrier === 'ups'
+    ? { token_type: 'Bearer', access_token: accessToken, expires_in: '14399', issued_at: String(Date.now()), client_id: clientId, status: 'approved' }
+    : { access_token: accessToken, token_type: 'bearer', expires_in: 3599, scope: 'CXS' });
+}
+
+const asArray = <T,>(value: T | T[] | undefined): T[] => (Array.isArray(value) ? value : value ? [value] : []);
+
+function readUpsRequest(body: UpsRateRequestBody | null): MockRateRequest {
+  const shipment = body?.RateRequest?.Shipment ?? {};
+  return {
+    carrier: 'ups',
+    serviceCode: String(shipment.Service?.Code ?? ''),
+    originZip: String(shipment.Shipper?.Address?.PostalCode ?? ''),
+    destZip: String(shipment.ShipTo?.Address?.PostalCode ?? ''),
+    originCountry: shipment.Shipper?.Address?.CountryCode,
+    destCountry: shipment.ShipTo?.Address?.CountryCode,
+    isResidential: shipment.ShipTo?.Address?.ResidentialAddressIndicator !== undefined,
+    packages: asArray(shipment.Package).map(pkg => ({
+      weight: Number(pkg.PackageWeight?.Weight) || 0,
+      weightUnit: pkg.PackageWeight?.UnitOfMeasurement?.Code,
+      length: Number(pkg.Dimensions?.Length) || undefined,
+      width: Number(pkg.Dimensions?.Width) || undefined,
+      height: Number(pkg.Dimensions?.Height) || undefined,
+      dimensionUnit: pkg.Dimensions?.UnitOfMeasurement?.Code
+    }))
+  };
+}
+
+function readFedexRequest(body: FedexRateRequestBody | null): MockRateRequest {
+  const shipment = body?.requestedShipment ?? {};
+  return {
+    carrier: 'fedex',
+    serviceCode: String(shipment.serviceType ?? ''),
+    originZip: String(shipment.shipper?.address?.postalCode ?? ''),
+    destZip: String(shipment.recipient?.address?.postalCode ?? ''),
+    originCountry: shipment.shipper?.address?.countryCode,
+    destCountry: shipment.recipient?.address?.countryCode,
+    isResidential: shipment.recipient?.address?.residential === true,
+    packages: (shipment.requestedPackageLineItems ?? []).map(pkg => ({
+      weight: Number(pkg.weight?.value) || 0,
+      weightUnit: pkg.weight?.units === 'KG' ? 'KGS' : 'LBS',
+      length: Number(pkg.dimensions?.length) || undefined,
+      width: Number(pkg.dimensions?.width) || undefined,
+      height: Number(pkg.dimensions?.height) || undefined,
+      dimensionUnit: pkg.dimensions?.units
+    }))
+  };
+}
+
+const money = (amount: number) => ({ CurrencyCode: 'USD', MonetaryValue: amount.toFixed(2) });
+
+function upsItemizedCharges(charges: MockCharges) {
+  return [
+    { Code: '375', Description: 'Fuel Surcharge', ...money(charges.fuel) },
+    ...(charges.residential > 0 ? [{ Code: '270', Description: 'Residential Address', ...money(charges.residential) }] : [])
+  ];
+}
+
+function upsRateResponse(rate: MockRate) {
+  return {
+    RateResponse: {
+      Response: { ResponseStatus: { Code: '1', Description: 'Success' } },
+      RatedShipment: {
+        Service: { Code: rate.serviceCode },
+        BillingWeight: { UnitOfMeasurement: { Code: 'LBS' }, Weight: String(rate.billableWeight) },
+        TransportationCharges: money(rate.published.transportation),
+        ServiceOptionsCharges: money(0),
+        ItemizedCharges: upsItemizedCharges(rate.published),
+        TotalCharges: money(rate.published.total),
+        NegotiatedRateCharges: {
+          ItemizedCharges: upsItemizedCharges(rate.account),
+          TotalCharge: money(rate.account.total)
+        },
+        GuaranteedDelivery: { BusinessDaysInTransit: String(rate.transitDays) }
+      }
+    }
+  };
+}
+
+const TRANSIT_TIMES = ['ONE_DAY', 'TWO_DAYS', 'THREE_DAYS', 'FOUR_DAYS', 'FIVE_DAYS', 'SIX_DAYS', 'SEVEN_DAYS'];
+
+function fedexRateDetail(rateType: 'ACCOUNT' | 'LIST', rate: MockRate, charges: MockCharges) {
+  return {
+    rateType,
+    totalBaseCharge: charges.transportation,
+    totalNetCharge: charges.total,
+    currency: 'USD',
+    shipmentRateDetail: {
+      rateZone: String(rate.zone),
+      totalBillingWeight: { units: 'LB', value: rate.billableWeight },
+      totalSurcharges: Math.round((charges.fuel + charges.residential) * 100) / 100,
+      surCharges: [
+        { type: 'FUEL', description: 'Fuel Surcharge', amount: charges.fuel },
+        ...(charges.residential > 0
+          ? [{ type: 'RESIDENTIAL_DELIVERY', description: 'Residential delivery', amount: charges.residential }]
+          : [])
+      ]
+    }
+  };
+}
+
+function fedexRateResponse(rate: MockRate) {
+  return {
+    transactionId: crypto.randomUUID(),
+    output: {
+      rateReplyDetails: [{
+        serviceType: rate.serviceCode,
+        packagingType: 'YOUR_PACKAGING',
+        ratedShipmentDetails: [
+          fedexRateDetail('ACCOUNT', rate, rate.account),
+          fedexRateDetail('LIST', rate, rate.published)
+        ],
+        operationalDetail: { transitTime: TRANSIT_TIMES[rate.transitDays - 1] ?? 'SEVEN_DAYS' }
+      }]
+    }
+  };
+}
+
+async function quoteRate(req: Request, carrier: MockCarrier, options: MockOptions): Promise<Response> {
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token?.startsWith(`mock-${carrier}-`)) {
+    return carrier === 'ups'
+      ? carrierError(carrier, 401, '250002', 'Invalid Authentication Information.')
+      : carrierError(carrier, 401, 'NOT.AUTHORIZED.ERROR', 'Access token expired. Please modify your request and try again.');
+  }
+
+  ratingRequestCounts[carrier]++;
+  if (options.failStatus && ratingRequestCounts[carrier] % options.failEvery === 0) {
+    return carrierError(carrier, options.failStatus, 'MOCK.FAILURE', `Mock carrier failure (HTTP ${options.failStatus})`);
+  }
+
+  const body = await req.json().catch(() => null);
+  const request = carrier === 'ups' ? readUpsRequest(body) : readFedexRequest(body);
+  if (request.packages.length === 0 || request.packages.some(pkg => !(pkg.weight > 0))) {
+    return carrier === 'ups'
+      ? carrierError(carrier, 400, '111035', 'Invalid package weight.')
+      : carrierError(carrier, 400, 'WEIGHT.VALUE.INVALID', 'Please enter a valid package weight.');
+  }
+
+  const table = options.discountPercent === null
+    ? rateTable
+    : mergeRateTable(rateTable, { accountDiscountPercent: options.discountPercent });
+  const rate = priceMockShipment(table, request);
+  if (!rate) {
+    return carrier === 'ups'
+      ? carrierError(carrier, 400, '111210', 'The requested service is unavailable between the selected locations.')
+      : carrierError(carrier, 400, 'SERVICE.UNAVAILABLE.ERROR', 'The selected service is not available for this origin and destination.');
+  }
+
+  console.log(`🧪 Mock ${carrier.toUpperCase()} ${rate.serviceCode}: zone ${rate.zone}, ${rate.billableWeight} lb, $${rate.account.total} (list $${rate.published.total})`);
+  return jsonResponse(carrier === 'ups' ? upsRateResponse(rate) : fedexRateResponse(rate));
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { pathname } = new URL(req.url);
+  const route = ROUTES.find(candidate => pathname.endsWith(candidate.path));
+  if (!route || req.method !== 'POST') {
+    return jsonResponse({ error: `No mock carrier endpoint for ${req.method} ${pathname}` }, 404);
+  }
+
+  // Option segments sit between the function name and the carrier path
+  const prefix = pathname.slice(0, pathname.length - route.path.length).split('/').filter(Boolean);
+  const options = parseOptions(prefix.slice(prefix.indexOf('mock-carrier') + 1));
+
+  if (options.latencyMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, options.latencyMs));
+  }
+
+  try {
+    if (route.kind === 'token') {
+      if (options.failTokenStatus) {
+        return carrierError(route.carrier, options.failTokenStatus, 'MOCK.FAILURE', `Mock token failure (HTTP ${options.failTokenStatus})`);
+      }
+      return await issueToken(req, route.carrier);
+    }
+    return await quoteRate(req, route.carrier, options);
+  } catch (error) {
+    console.error('Mock carrier error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Mock carrier error' }, 500);
+  }
+});
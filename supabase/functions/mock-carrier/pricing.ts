@@ -0,0 +1,165 @@
+/**
+ * Deterministic prices for the mock carrier: the same request always gets the same rate.
+ * Each piece pays a per-service base plus a per-pound charge on its billable weight,
+ * stepped up by zone; fuel and residential surcharges are itemized on top, and the account
+ * rate takes a fixed discount off the transportation charge.
+ */
+
+import { calculateBillableWeight, type BillableWeightPackage } from '../_shared/billableWeight.ts';
+import { calculateShippingZone } from '../_shared/zones.ts';
+
+export type MockCarrier = 'ups' | 'fedex';
+
+export interface MockServiceRate {
+  base: number; // Published charge for a 1 lb piece in zone 2
+  perLb: number; // Each billable pound above the first
+  zoneStep: number; // Percent added per zone above 2
+  transitDays: number;
+}
+
+export interface MockRateTable {
+  fuelPercent: number;
+  residentialSurcharge: number;
+  accountDiscountPercent: number;
+  internationalZone: number; // Zone every cross-border lane is priced at
+  services: Record<MockCarrier, Record<string, MockServiceRate>>;
+}
+
+export const DEFAULT_RATE_TABLE: MockRateTable = {
+  fuelPercent: 15,
+  residentialSurcharge: 5.5,
+  accountDiscountPercent: 20,
+  internationalZone: 10,
+  services: {
+    ups: {
+      '01': { base: 38.5, perLb: 4.1, zoneStep: 12, transitDays: 1 }, // Next Day Air
+      '14': { base: 72, perLb: 4.6, zoneStep: 12, transitDays: 1 }, // Next Day Air Early
+      '13': { base: 34.25, perLb: 3.8, zoneStep: 12, transitDays: 1 }, // Next Day Air Saver
+      '59': { base: 26.4, perLb: 2.9, zoneStep: 10, transitDays: 2 }, // 2nd Day Air A.M.
+      '02': { base: 22.1, perLb: 2.5, zoneStep: 10, transitDays: 2 }, // 2nd Day Air
+      '12': { base: 15.8, perLb: 1.75, zoneStep: 8, transitDays: 3 }, // 3 Day Select
+      '03': { base: 10.2, perLb: 0.95, zoneStep: 6, transitDays: 5 }, // Ground
+      '07': { base: 96, perLb: 6.5, zoneStep: 0, transitDays: 2 }, // Worldwide Express
+      '65': { base: 88, perLb: 6.1, zoneStep: 0, transitDays: 3 }, // Worldwide Saver
+      '08': { base: 71, perLb: 4.9, zoneStep: 0, transitDays: 5 }, // Worldwide Expedited
+      '11': { base: 24, perLb: 1.6, zoneStep: 0, transitDays: 6 } // Standard (Canada/Mexico)
+    },
+    fedex: {
+      FIRST_OVERNIGHT: { base: 71.5, perLb: 4.55, zoneStep: 12, transitDays: 1 },
+      PRIORITY_OVERNIGHT: { base: 38.75, perLb: 4.05, zoneStep: 12, transitDays: 1 },
+      STANDARD_OVERNIGHT: { base: 34, perLb: 3.75, zoneStep: 12, transitDays: 1 },
+      FEDEX_2_DAY_AM: { base: 26.1, perLb: 2.85, zoneStep: 10, transitDays: 2 },
+      FEDEX_2_DAY: { base: 21.9, perLb: 2.45, zoneStep: 10, transitDays: 2 },
+      FEDEX_EXPRESS_SAVER: { base: 15.6, perLb: 1.7, zoneStep: 8, transitDays: 3 },
+      FEDEX_GROUND: { base: 10.1, perLb: 0.93, zoneStep: 6, transitDays: 5 },
+      GROUND_HOME_DELIVERY: { base: 10.4, perLb: 0.93, zoneStep: 6, transitDays: 5 },
+      INTERNATIONAL_PRIORITY: { base: 95, perLb: 6.4, zoneStep: 0, transitDays: 2 },
+      INTERNATIONAL_ECONOMY: { base: 70, perLb: 4.85, zoneStep: 0, transitDays: 5 }
+    }
+  }
+};
+
+/**
+ * A rate table with an override's values laid over the defaults. Services are merged one
+ * by one, so an override can reprice a single service or add a new one.
+ */
+export function mergeRateTable(base: MockRateTable, override: unknown): MockRateTable {
+  if (!override || typeof override !== 'object') return base;
+  const patch = override as Partial<Omit<MockRateTable, 'services'>> & {
+    services?: Partial<Record<MockCarrier, Record<string, Partial<MockServiceRate>>>>;
+  };
+  const number = (value: unknown, fallback: number) => (Number.isFinite(Number(value)) && value !== null ? Number(value) : fallback);
+
+  const services = { ups: { ...base.services.ups }, fedex: { ...base.services.fedex } };
+  (Object.keys(services) as MockCarrier[]).forEach(carrier => {
+    Object.entries(patch.services?.[carrier] ?? {}).forEach(([code, rate]) => {
+      const current = services[carrier][code] ?? { base: 0, perLb: 0, zoneStep: 0, transitDays: 5 };
+      services[carrier][code] = {
+        base: number(rate?.base, current.base),
+        perLb: number(rate?.perLb, current.perLb),
+        zoneStep: number(rate?.zoneStep, current.zoneStep),
+        transitDays: number(rate?.transitDays, current.transitDays)
+      };
+    });
+  });
+
+  return {
+    fuelPercent: number(patch.fuelPercent, base.fuelPercent),
+    residentialSurcharge: number(patch.residentialSurcharge, base.residentialSurcharge),
+    accountDiscountPercent: number(patch.accountDiscountPercent, base.accountDiscountPercent),
+    internationalZone: number(patch.internationalZone, base.internationalZone),
+    services
+  };
+}
+
+export interface MockRateRequest {
+  carrier: MockCarrier;
+  serviceCode: string;
+  originZip: string;
+  destZip: string;
+  originCountry?: string;
+  destCountry?: string;
+  isResidential: boolean;
+  packages: BillableWeightPackage[];
+}
+
+export interface MockCharges {
+  transportation: number;
+  fuel: number;
+  residential: number;
+  total: number;
+}
+
+export interface MockRate {
+  serviceCode: string;
+  zone: number;
+  billableWeight: number;
+  transitDays: number;
+  published: MockCharges;
+  account: MockCharges;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function buildCharges(transportation: number, table: MockRateTable, isResidential: boolean): MockCharges {
+  const fuel = roundCents(transportation * table.fuelPercent / 100);
+  const residential = isResidential ? table.residentialSurcharge : 0;
+  return {
+    transportation: roundCents(transportation),
+    fuel,
+    residential,
+    total: roundCents(transportation + fuel + residential)
+  };
+}
+
+/**
+ * Published and account charges for a shipment, or null when the table doesn't offer the
+ * service, which the server reports the way the carrier reports an unavailable service.
+ */
+export function priceMockShipment(table: MockRateTable, request: MockRateRequest): MockRate | null {
+  const service = table.services[request.carrier][request.serviceCode];
+  if (!service || request.packages.length === 0) return null;
+
+  const isInternational = (request.originCountry || 'US') !== (request.destCountry || 'US');
+  const zone = isInternational
+    ? table.internationalZone
+    : parseInt(calculateShippingZone(request.originZip, request.destZip), 10) || 8;
+  const zoneFactor = 1 + (service.zoneStep / 100) * Math.max(zone - 2, 0);
+
+  let billableWeight = 0;
+  let transportation = 0;
+  for (const pkg of request.packages) {
+    const weight = calculateBillableWeight(pkg, { carrierType: request.carrier }).billableWeight;
+    billableWeight += weight;
+    transportation += (service.base + service.perLb * Math.max(weight - 1, 0)) * zoneFactor;
+  }
+
+  return {
+    serviceCode: request.serviceCode,
+    zone,
+    billableWeight,
+    transitDays: service.transitDays,
+    published: buildCharges(transportation, table, request.isResidential),
+    account: buildCharges(transportation * (1 - table.accountDiscountPercent / 100), table, request.isResidential)
+  };
+}
@@ -0,0 +1,46 @@
+interface ComparableRate {
+  serviceName?: string;
+  serviceCode?: string;
+  totalCharges?: number;
+}
+
+export type BestRate<T> = T & { isBestRate: true; serviceType: string; competitorCount: number };
+
+/**
+ * Cheapest rate per service across every carrier that quoted it, cheapest service
+ * first. Rates are grouped by service name, falling back to the service code.
+ */
+export function findBestRatesByService<T extends ComparableRate>(allRates: T[]): BestRate<T>[] {
+  if (!allRates || allRates.length === 0) return [];
+
+  // Group rates by service type/category
+  const ratesByService: { [key: string]: T[] } = {};
+
+  allRates.forEach(rate => {
+    const serviceKey = rate.serviceName || rate.serviceCode || 'Unknown';
+    if (!ratesByService[serviceKey]) {
+      ratesByService[serviceKey] = [];
+    }
+    ratesByService[serviceKey].push(rate);
+  });
+
+  // Find lowest cost rate for each service type
+  const bestRates: BestRate<T>[] = [];
+
+  Object.entries(ratesByService).forEach(([serviceType, rates]) => {
+    const sortedRates = rates.sort((a, b) =>
+      (a.totalCharges || 0) - (b.totalCharges || 0)
+    );
+
+    if (sortedRates.length > 0) {
+      bestRates.push({
+        ...sortedRates[0],
+        isBestRate: true,
+        serviceType,
+        competitorCount: sortedRates.length - 1
+      });
+    }
+  });
+
+  return bestRates.sort((a, b) => (a.totalCharges || 0) - (b.totalCharges || 0));
+}
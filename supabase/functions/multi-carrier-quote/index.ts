@@ -1,120 +1,29 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-// Inline carrier service registry types and functions since we can't import from src/
-enum UniversalServiceCategory {
-  OVERNIGHT = 'OVERNIGHT',
-  TWO_DAY = 'TWO_DAY', 
-  THREE_DAY = 'THREE_DAY',
-  GROUND = 'GROUND',
-  INTERNATIONAL_EXPRESS = 'INTERNATIONAL_EXPRESS',
-  INTERNATIONAL_ECONOMY = 'INTERNATIONAL_ECONOMY'
-}
-
-enum CarrierType {
-  UPS = 'UPS',
-  FEDEX = 'FEDEX',
-  DHL = 'DHL',
-  AMAZON = 'AMAZON'
-}
-
-// Simplified service code mapping function
-function getServiceCodesToRequest(carrierType: CarrierType, primaryCategory: UniversalServiceCategory): string[] {
-  const mappings: Record<CarrierType, Record<UniversalServiceCategory, string[]>> = {
-    [CarrierType.UPS]: {
-      [UniversalServiceCategory.OVERNIGHT]: ['01', '14'],
-      [UniversalServiceCategory.TWO_DAY]: ['02', '59'],
-      [UniversalServiceCategory.THREE_DAY]: ['12'],
-      [UniversalServiceCategory.GROUND]: ['03'],
-      [UniversalServiceCategory.INTERNATIONAL_EXPRESS]: ['07', '08'],
-      [UniversalServiceCategory.INTERNATIONAL_ECONOMY]: ['11', '54']
-    },
-    [CarrierType.FEDEX]: {
-      [UniversalServiceCategory.OVERNIGHT]: ['PRIORITY_OVERNIGHT', 'STANDARD_OVERNIGHT'],
-      [UniversalServiceCategory.TWO_DAY]: ['FEDEX_2_DAY', 'FEDEX_2_DAY_AM'],
-      [UniversalServiceCategory.THREE_DAY]: ['FEDEX_EXPRESS_SAVER'],
-      [UniversalServiceCategory.GROUND]: ['FEDEX_GROUND', 'GROUND_HOME_DELIVERY'],
-      [UniversalServiceCategory.INTERNATIONAL_EXPRESS]: ['INTERNATIONAL_PRIORITY', 'INTERNATIONAL_ECONOMY'],
-      [UniversalServiceCategory.INTERNATIONAL_ECONOMY]: ['INTERNATIONAL_ECONOMY']
-    },
-    [CarrierType.DHL]: {
-      [UniversalServiceCategory.OVERNIGHT]: ['U'],
-      [UniversalServiceCategory.TWO_DAY]: ['T'],
-      [UniversalServiceCategory.THREE_DAY]: ['W'],
-      [UniversalServiceCategory.GROUND]: ['G'],
-      [UniversalServiceCategory.INTERNATIONAL_EXPRESS]: ['P'],
-      [UniversalServiceCategory.INTERNATIONAL_ECONOMY]: ['K']
-    },
-    [CarrierType.AMAZON]: {
-      [UniversalServiceCategory.OVERNIGHT]: [],
-      [UniversalServiceCategory.TWO_DAY]: [],
-      [UniversalServiceCategory.THREE_DAY]: [],
-      [UniversalServiceCategory.GROUND]: ['GROUND'],
-      [UniversalServiceCategory.INTERNATIONAL_EXPRESS]: [],
-      [UniversalServiceCategory.INTERNATIONAL_ECONOMY]: []
-    }
-  };
-
-  return mappings[carrierType]?.[primaryCategory] || [];
-}
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface ShipmentRequest {
-  shipFrom: {
-    name: string;
-    address: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-  };
-  shipTo: {
-    name: string;
-    address: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-  };
-  package: {
-    weight: number;
-    weightUnit: string;
-    length?: number;
-    width?: number;
-    height?: number;
-    dimensionUnit?: string;
-    packageType?: string;
-  };
-  carrierConfigIds: string[];
-  serviceTypes?: string[];
-  isResidential?: boolean;
-  analysisId?: string; // For saving individual rates
-  shipmentIndex?: number; // For saving individual rates
-  zone?: string; // CSV-mapped zone data
-}
-
-interface CarrierConfig {
-  id: string;
-  carrier_type: 'ups' | 'fedex' | 'dhl' | 'usps' | 'amazon';
-  account_name: string;
-  is_sandbox: boolean;
-  is_rate_card?: boolean;
-  dimensional_divisor?: number;
-  fuel_surcharge_percent?: number;
-  ups_client_id?: string;
-  ups_client_secret?: string;
-  ups_account_number?: string;
-  fedex_account_number?: string;
-  fedex_meter_number?: string;
-  fedex_key?: string;
-  fedex_password?: string;
-  enabled_services?: string[]; // For service filtering
-}
+import { getCarrierAdapter } from '../_shared/carriers/registry.ts';
+import { createRateCardResolvers } from '../_shared/carriers/rateCard.ts';
+import { getEnvInt, mapWithConcurrency, withTimeout } from '../_shared/concurrency.ts';
+import { getCachedQuotes, storeCachedQuotes } from '../_shared/quoteCache.ts';
+import { categorizeCarrierError, getCircuitBreaker, shouldTripBreaker } from '../_shared/resilience.ts';
+import type { CarrierConfig, NormalizedRate, ShipmentRequest } from '../_shared/carriers/registry.ts';
+import { combinePackages } from '../_shared/packages.ts';
+import { isInternationalLane } from '../_shared/countries.ts';
+import { estimateLandedCost } from '../_shared/landedCost.ts';
+import { createTariffResolver } from '../_shared/tariffs.ts';
+import { loadCurrencyConverter } from '../_shared/exchangeRates.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { CarrierType, getServiceCodesForCategory } from '../_shared/serviceRegistry.ts';
+import { UNIVERSAL_SERVICES, UniversalServiceCategory } from '../_shared/serviceCategories.ts';
+import {
+  getDeliveryCommitment,
+  getRateServiceCategory,
+  getRateTransitDays,
+  normalizeRecommendationMode,
+  selectDeliveryWindowRate
+} from '../_shared/deliveryWindow.ts';
+import { applyDiscountTier, findDiscountTierIndex, normalizeDiscountTiers } from '../_shared/discountTiers.ts';
+import { findBestRatesByService } from './bestRates.ts';
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -123,30 +32,15 @@ serve(async (req) => {
   }
 
   try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'No authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
-    // Verify user authentication
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
 
-    const { shipment }: { shipment: ShipmentRequest } = await req.json();
+    const { shipment, options }: {
+      shipment: ShipmentRequest & { carrierConfigIds: string[] };
+      options?: { concurrency?: number; carrierTimeoutMs?: number; recommendationMode?: string; projectedWeeklySpend?: number };
+    } = await req.json();
+    const recommendationMode = normalizeRecommendationMode(options?.recommendationMode);
 
     if (!shipment.carrierConfigIds || shipment.carrierConfigIds.length === 0) {
       return new Response(JSON.stringify({ error: 'No carrier configurations specified' }), {
@@ -155,12 +49,18 @@ serve(async (req) => {
       });
     }
 
+    // Callers may send only the pieces; package always carries the whole shipment
+    if (!shipment.package && shipment.packages && shipment.packages.length > 0) {
+      shipment.package = combinePackages(shipment.packages);
+    }
+
     console.log('🚚 MULTI-CARRIER QUOTE REQUEST:', {
       carrierConfigCount: shipment.carrierConfigIds.length,
       carrierConfigs: shipment.carrierConfigIds,
       shipFromZip: shipment.shipFrom.zipCode,
       shipToZip: shipment.shipTo.zipCode,
       weight: shipment.package.weight,
+      pieces: shipment.packages?.length || 1,
       serviceTypes: shipment.serviceTypes,
       csvMappedZone: shipment.zone
     });
@@ -173,10 +73,17 @@ serve(async (req) => {
       rateLimitErrors: 0,
       timeoutErrors: 0,
       authErrors: 0,
+      degradedCarriers: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
       averageResponseTime: 0,
       startTime: Date.now()
     };
 
+    // Carriers are quoted in parallel, capped so a big account list can't flood the carrier APIs
+    const concurrency = Math.min(options?.concurrency || getEnvInt('MULTI_CARRIER_CONCURRENCY', 4), 10);
+    const carrierTimeoutMs = options?.carrierTimeoutMs || getEnvInt('CARRIER_TIMEOUT_MS', 25000);
+
     // Validate that the requested carrier configs belong to the authenticated user and are active
     const { data: carrierConfigs, error: configError } = await supabase
       .from('carrier_configs')
@@ -219,18 +126,38 @@ serve(async (req) => {
       })) || []
     });
 
+    // International shipments with a customs value get a duties and taxes estimate per rate
+    const international = isInternationalLane(shipment.shipFrom.country, shipment.shipTo.country);
+    const tariff = international && shipment.declaredValue
+      ? await createTariffResolver(supabase)(shipment.shipTo.country, shipment.hsCode)
+      : null;
+
+    // Rate card accounts share one set of zone, DAS, fuel and version lookups for the request
+    const rateCardResolvers = createRateCardResolvers(supabase, user.id);
+
+    // Carriers quote in their billing currency; everything is compared in the user's reporting currency
+    const currencyConverter = await loadCurrencyConverter(supabase, user.id);
+
+    // A delivery-window quote asks every carrier for every service on the lane, so a slower
+    // service that still meets the original delivery commitment can be recommended
+    const requestedServiceTypes = recommendationMode === 'delivery_window'
+      ? Object.values(UNIVERSAL_SERVICES)
+        .filter(service => service.isInternational === international)
+        .map(service => service.category as string)
+      : shipment.serviceTypes || [];
+
     const allRates: any[] = [];
     const carrierResults: any[] = [];
 
-    // Process each carrier configuration
-    for (const config of carrierConfigs as CarrierConfig[]) {
+    // Quote a single carrier configuration
+    const quoteCarrier = async (config: CarrierConfig): Promise<void> => {
       const requestStart = Date.now();
       apiMetrics.totalRequests++;
       
       try {
         
         // Convert universal service categories to carrier-specific codes
-        let servicesToRequest = shipment.serviceTypes || [];
+        let servicesToRequest = requestedServiceTypes;
         
         // If service codes are provided, convert them to carrier-specific codes
         if (servicesToRequest.length > 0) {
@@ -254,7 +181,7 @@ serve(async (req) => {
             }
             
             // Fall back to carrier service registry
-            const registryMapping = getServiceCodesToRequest(carrierType as CarrierType, serviceType as UniversalServiceCategory);
+            const registryMapping = getServiceCodesForCategory(carrierType as CarrierType, serviceType as UniversalServiceCategory);
             const availableService = registryMapping.find(code => enabledServices.includes(code));
             
             if (availableService) {
@@ -275,7 +202,7 @@ serve(async (req) => {
             config.enabled_services!.includes(service)
           );
           console.log(`🔧 Filtered services for ${config.account_name}:`, {
-            original: shipment.serviceTypes,
+            original: requestedServiceTypes,
             mapped: beforeFiltering,
             filtered: servicesToRequest,
             enabledServices: config.enabled_services
@@ -299,7 +226,7 @@ serve(async (req) => {
             error: 'Amazon only supports Ground service',
             rates: []
           });
-          continue;
+          return;
         }
 
         // Skip if no services are enabled for this carrier
@@ -313,41 +240,105 @@ serve(async (req) => {
             error: 'No enabled services for this carrier',
             rates: []
           });
-          continue;
+          return;
         }
         
-        let rates: any[] = [];
-        
-        // Check if this is a rate card configuration
+        const adapter = getCarrierAdapter(config);
+        if (!adapter) {
+          console.log(`⏭️ Skipping ${config.account_name}: No adapter registered for ${config.carrier_type}`);
+          carrierResults.push({
+            carrierId: config.id,
+            carrierName: config.account_name,
+            carrierType: config.carrier_type,
+            success: false,
+            error: `Unsupported carrier type: ${config.carrier_type}`,
+            rates: []
+          });
+          return;
+        }
+
         if (config.is_rate_card) {
           console.log(`📋 Using rate card for ${config.account_name}`);
-          rates = await calculateRateCardRate(supabase, shipment, config, servicesToRequest);
-        } else if (config.carrier_type === 'ups') {
-          rates = await getUpsRates(supabase, shipment, config, servicesToRequest);
-        } else if (config.carrier_type === 'fedex') {
-          rates = await getFedexRates(supabase, shipment, config, servicesToRequest);
-        } else if (config.carrier_type === 'dhl') {
-          rates = await getDhlRates(supabase, shipment, config, servicesToRequest);
-        } else if (config.carrier_type === 'usps') {
-          rates = await getUspsRates(supabase, shipment, config, servicesToRequest);
-        } else if (config.carrier_type === 'amazon') {
-          // Amazon could be either API or rate card based
-          if (config.is_rate_card) {
-            rates = await calculateRateCardRate(supabase, shipment, config, servicesToRequest);
-          } else {
-            rates = await getAmazonRates(supabase, shipment, config, servicesToRequest);
+        }
+
+        // Rate card quotes are cached per version; the resolver's cache serves the rate card's own lookup
+        const rateCardVersionId = config.is_rate_card
+          ? (await rateCardResolvers.resolveVersion(config.id, shipment.shipDate, shipment.rateCardVersionPins))?.id
+          : undefined;
+
+        // UPS and FedEx consult the quote cache inside their rate functions; everything
+        // else is cached here so repeat shipments skip the carrier call entirely
+        const cached = adapter.cachesQuotes
+          ? { hits: [] as NormalizedRate[], missingServiceCodes: servicesToRequest }
+          : await getCachedQuotes<NormalizedRate>(supabase, config.id, shipment, servicesToRequest, rateCardVersionId);
+
+        // An account whose circuit is open is skipped so one failing carrier can't stall the quote
+        const breaker = getCircuitBreaker(config.id);
+        const degraded = cached.missingServiceCodes.length > 0 && !breaker.canRequest();
+        if (degraded) {
+          console.log(`🔌 Circuit open for ${config.account_name} - marking degraded`);
+          apiMetrics.degradedCarriers++;
+        }
+
+        let fetchedRates: NormalizedRate[] = [];
+        if (cached.missingServiceCodes.length > 0 && !degraded) {
+          try {
+            fetchedRates = await withTimeout(
+              adapter.rate({ supabase, rateCardResolvers }, shipment, config, cached.missingServiceCodes),
+              carrierTimeoutMs,
+              `${config.account_name} (${config.carrier_type})`
+            );
+            breaker.recordSuccess();
+          } catch (error) {
+            if (shouldTripBreaker(categorizeCarrierError(error))) {
+              breaker.recordFailure();
+            }
+            throw error;
           }
         }
 
-        if (rates.length > 0) {
+        if (!adapter.cachesQuotes) {
+          await storeCachedQuotes(supabase, user.id, config.id, shipment, fetchedRates, rateCardVersionId);
+        }
+
+        const rates = [...fetchedRates, ...cached.hits];
+        const cacheHits = rates.filter(rate => rate.fromCache).length;
+        apiMetrics.cacheHits += cacheHits;
+        apiMetrics.cacheMisses += Math.max(servicesToRequest.length - cacheHits, 0);
+
+        // Accounts with earned-discount tiers are priced at the tier the projected spend earns
+        const tiers = config.is_rate_card ? [] : normalizeDiscountTiers(config.discount_tiers);
+        const projectedWeeklySpend = Number(options?.projectedWeeklySpend) || 0;
+        const tierIndex = projectedWeeklySpend > 0 ? findDiscountTierIndex(tiers, projectedWeeklySpend) : -1;
+
+        // Quotes the exchange rate table can't convert are left out of the comparison and totals
+        const reportingRates = rates
+          .map(quotedRate => currencyConverter.convertRate(
+            tierIndex >= 0
+              ? applyDiscountTier(quotedRate, tiers[tierIndex], getRateServiceCategory(config.carrier_type, quotedRate.serviceCode))
+              : quotedRate,
+            shipment.shipDate
+          ))
+          .filter(rate => rate !== null);
+
+        if (reportingRates.length > 0) {
           // Add carrier information to each rate
-          const carrierRates = rates.map(rate => ({
-            ...rate,
-            carrierId: config.id,
-            carrierName: config.account_name,
-            carrierType: config.carrier_type,
-            isSandbox: config.is_sandbox
-          }));
+          const carrierRates = reportingRates.map(rate => {
+            const landed = international && shipment.declaredValue
+              ? estimateLandedCost(tariff, shipment.declaredValue, rate.totalCharges)
+              : null;
+            const serviceCategory = getRateServiceCategory(config.carrier_type, rate.serviceCode);
+            return {
+              ...rate,
+              ...(landed && { dutyAmount: landed.dutyAmount, taxAmount: landed.taxAmount, landedCost: landed.landedCost }),
+              serviceCategory,
+              transitDays: getRateTransitDays({ ...rate, serviceCategory }, shipment.shipDate),
+              carrierId: config.id,
+              carrierName: config.account_name,
+              carrierType: config.carrier_type,
+              isSandbox: config.is_sandbox
+            };
+          });
 
           // Save individual rates to database if analysisId and shipmentIndex provided
           if (shipment.analysisId && shipment.shipmentIndex !== undefined) {
@@ -360,7 +351,8 @@ serve(async (req) => {
             carrierName: config.account_name,
             carrierType: config.carrier_type,
             success: true,
-            rateCount: rates.length,
+            degraded,
+            rateCount: carrierRates.length,
             rates: carrierRates
           });
           
@@ -370,48 +362,87 @@ serve(async (req) => {
           apiMetrics.averageResponseTime = (apiMetrics.averageResponseTime * (apiMetrics.successfulRequests - 1) + responseTime) / apiMetrics.successfulRequests;
           
         } else {
+          let error = 'No rates returned';
+          if (degraded) {
+            error = 'Carrier temporarily unavailable after repeated failures';
+          } else if (rates.length > 0) {
+            error = `No exchange rate from ${rates[0].currency} to ${currencyConverter.reportingCurrency}; add one to compare this carrier`;
+          }
           carrierResults.push({
             carrierId: config.id,
             carrierName: config.account_name,
             carrierType: config.carrier_type,
             success: false,
-            error: 'No rates returned',
+            degraded,
+            error,
             rates: []
           });
         }
 
-      } catch (error: any) {
+      } catch (error) {
         console.error(`❌ Error getting rates for ${config.carrier_type}:`, error);
         
         // Track failed request and categorize error
         apiMetrics.failedRequests++;
-        const errorMessage = error.message || 'Unknown error';
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const category = categorizeCarrierError(error);
         
-        if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
+        if (category === 'rate_limit') {
           apiMetrics.rateLimitErrors++;
           console.log('🚨 RATE LIMIT ERROR detected');
-        } else if (errorMessage.includes('timeout') || errorMessage.includes('ECONNRESET')) {
+        } else if (category === 'timeout') {
           apiMetrics.timeoutErrors++;
           console.log('⏰ TIMEOUT ERROR detected');
-        } else if (errorMessage.includes('auth') || errorMessage.includes('401') || errorMessage.includes('403')) {
+        } else if (category === 'auth') {
           apiMetrics.authErrors++;
           console.log('🔐 AUTH ERROR detected');
         }
+
+        // Transient carrier trouble degrades the account instead of failing the whole quote
+        const degraded = getCircuitBreaker(config.id).getState() === 'open';
+        if (degraded) {
+          apiMetrics.degradedCarriers++;
+        }
         
         carrierResults.push({
           carrierId: config.id,
           carrierName: config.account_name,
           carrierType: config.carrier_type,
           success: false,
+          degraded,
+          errorCategory: category,
           error: errorMessage,
           rates: []
         });
       }
-    }
+    };
+
+    console.log(`⚡ Quoting ${carrierConfigs.length} carriers (concurrency ${concurrency}, timeout ${carrierTimeoutMs}ms)`);
+    await mapWithConcurrency(carrierConfigs as CarrierConfig[], concurrency, quoteCarrier);
+
+    // Results arrive in completion order; report them in the order the configs were loaded
+    const configOrder = new Map(carrierConfigs.map((config, index) => [config.id, index]));
+    carrierResults.sort((a, b) => (configOrder.get(a.carrierId) ?? 0) - (configOrder.get(b.carrierId) ?? 0));
+    allRates.sort((a, b) => (configOrder.get(a.carrierId) ?? 0) - (configOrder.get(b.carrierId) ?? 0));
 
     // Find best rates by service type
     const bestRates = findBestRatesByService(allRates);
 
+    // Cheapest rate of any service that still delivers within the original commitment
+    const deliveryCommitment = recommendationMode === 'delivery_window'
+      ? getDeliveryCommitment({
+        shipDate: shipment.shipDate,
+        deliveryDate: shipment.deliveryDate,
+        serviceCategory: shipment.equivalentServiceCode
+      })
+      : null;
+    const deliveryWindowRate = selectDeliveryWindowRate(
+      allRates,
+      deliveryCommitment,
+      rate => rate.totalCharges || 0,
+      rate => rate.transitDays ?? null
+    );
+
   // Log comprehensive API monitoring metrics
   const totalTime = Date.now() - apiMetrics.startTime;
   console.log('📊 MULTI-CARRIER RESULTS:', {
@@ -429,6 +460,9 @@ serve(async (req) => {
     rateLimitErrors: apiMetrics.rateLimitErrors,
     timeoutErrors: apiMetrics.timeoutErrors,
     authErrors: apiMetrics.authErrors,
+    degradedCarriers: apiMetrics.degradedCarriers,
+    cacheHits: apiMetrics.cacheHits,
+    cacheMisses: apiMetrics.cacheMisses,
     averageResponseTime: `${apiMetrics.averageResponseTime.toFixed(0)}ms`,
     totalProcessingTime: `${totalTime}ms`,
     requestsPerSecond: (apiMetrics.totalRequests / (totalTime / 1000)).toFixed(2)
@@ -439,11 +473,30 @@ serve(async (req) => {
       carrierResults,
       allRates,
       bestRates,
+      recommendationMode,
+      deliveryCommitment,
+      deliveryWindowRate,
+      currency: currencyConverter.reportingCurrency,
       summary: {
         totalCarriers: carrierConfigs.length,
         successfulCarriers: carrierResults.filter(r => r.success).length,
         totalRates: allRates.length,
         bestRatesCount: bestRates.length
+      },
+      apiMetrics: {
+        totalRequests: apiMetrics.totalRequests,
+        successfulRequests: apiMetrics.successfulRequests,
+        failedRequests: apiMetrics.failedRequests,
+        rateLimitErrors: apiMetrics.rateLimitErrors,
+        timeoutErrors: apiMetrics.timeoutErrors,
+        authErrors: apiMetrics.authErrors,
+        degradedCarriers: apiMetrics.degradedCarriers,
+        cacheHits: apiMetrics.cacheHits,
+        cacheMisses: apiMetrics.cacheMisses,
+        averageResponseTime: Math.round(apiMetrics.averageResponseTime),
+        totalProcessingTime: totalTime,
+        concurrency,
+        carrierTimeoutMs
       }
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -461,295 +514,6 @@ serve(async (req) => {
   }
 });
 
-async function getUpsRates(supabase: any, shipment: ShipmentRequest, config: CarrierConfig, serviceTypes?: string[]) {
-  console.log('📦 Getting UPS rates...');
-  
-  // Call existing UPS rate quote function
-  const { data, error } = await supabase.functions.invoke('ups-rate-quote', {
-    body: { 
-      shipment: {
-        ...shipment,
-        serviceTypes: serviceTypes || shipment.serviceTypes
-      },
-      configId: config.id // Pass specific config ID for this carrier
-    }
-  });
-
-  if (error) {
-    console.error('UPS rate error:', error);
-    throw new Error(`UPS rate error: ${error.message}`);
-  }
-
-  return data?.rates || [];
-}
-
-async function getFedexRates(supabase: any, shipment: ShipmentRequest, config: CarrierConfig, serviceTypes?: string[]) {
-  console.log('🚚 Getting FedEx rates...');
-  
-  // Call FedEx rate quote function
-  const { data, error } = await supabase.functions.invoke('fedex-rate-quote', {
-    body: { 
-      shipment: {
-        ...shipment,
-        serviceTypes: serviceTypes || shipment.serviceTypes
-      },
-      configId: config.id // Pass specific config ID for this carrier
-    }
-  });
-
-  if (error) {
-    console.error('FedEx rate error:', error);
-    throw new Error(`FedEx rate error: ${error.message}`);
-  }
-
-  return data?.rates || [];
-}
-
-async function getDhlRates(supabase: any, shipment: ShipmentRequest, config: CarrierConfig, serviceTypes?: string[]) {
-  console.log('✈️ Getting DHL rates... (placeholder)');
-  
-  // TODO: Implement DHL API integration
-  // For now, return empty array
-  return [];
-}
-
-async function getUspsRates(supabase: any, shipment: ShipmentRequest, config: CarrierConfig, serviceTypes?: string[]) {
-  console.log('📮 Getting USPS rates... (placeholder)');
-  
-  // TODO: Implement USPS API integration
-  // For now, return empty array
-  return [];
-}
-
-async function getAmazonRates(supabase: any, shipment: ShipmentRequest, config: CarrierConfig, serviceTypes?: string[]) {
-  console.log('📦 Getting Amazon rates... (placeholder)');
-  
-  // TODO: Implement Amazon API integration
-  // For now, return empty array
-  return [];
-}
-
-// Zone mapping from zip codes - based on existing Results.tsx logic
-function calculateShippingZone(originZip: string, destZip: string): string {
-  // Convert to state abbreviations first
-  const originState = getStateFromZip(originZip);
-  const destState = getStateFromZip(destZip);
-  
-  if (!originState || !destState) {
-    return '8'; // Default to highest zone for unknown states
-  }
-  
-  if (originState === destState) {
-    return '2'; // Same state
-  }
-  
-  // Zone mapping logic based on geographic proximity
-  const zoneMap: Record<string, Record<string, string>> = {
-    'CA': {
-      'OR': '2', 'WA': '2', 'NV': '2', 'AZ': '3',
-      'UT': '4', 'ID': '4', 'CO': '5', 'TX': '6'
-    },
-    'TX': {
-      'OK': '2', 'LA': '2', 'AR': '2', 'NM': '3',
-      'CO': '4', 'KS': '4', 'MO': '5', 'TN': '5'
-    },
-    'FL': {
-      'GA': '2', 'AL': '2', 'SC': '3', 'NC': '4',
-      'TN': '4', 'KY': '5', 'VA': '5', 'WV': '6'
-    },
-    'NY': {
-      'NJ': '2', 'CT': '2', 'PA': '2', 'MA': '3',
-      'VT': '3', 'NH': '3', 'ME': '4', 'RI': '3'
-    }
-  };
-  
-  const zone = zoneMap[originState]?.[destState];
-  if (zone) return zone;
-  
-  // Default zone calculation based on distance approximation
-  const eastCoast = ['ME', 'NH', 'VT', 'MA', 'RI', 'CT', 'NY', 'NJ', 'PA', 'DE', 'MD', 'VA', 'WV', 'NC', 'SC', 'GA', 'FL'];
-  const westCoast = ['CA', 'OR', 'WA', 'NV', 'AZ'];
-  const central = ['TX', 'OK', 'AR', 'LA', 'MS', 'AL', 'TN', 'KY', 'MO', 'IA', 'IL', 'IN', 'OH', 'MI', 'WI', 'MN'];
-  
-  const originRegion = eastCoast.includes(originState) ? 'east' : westCoast.includes(originState) ? 'west' : 'central';
-  const destRegion = eastCoast.includes(destState) ? 'east' : westCoast.includes(destState) ? 'west' : 'central';
-  
-  if (originRegion === destRegion) return '4';
-  if ((originRegion === 'east' && destRegion === 'central') || (originRegion === 'central' && destRegion === 'east')) return '5';
-  if ((originRegion === 'west' && destRegion === 'central') || (originRegion === 'central' && destRegion === 'west')) return '6';
-  if ((originRegion === 'east' && destRegion === 'west') || (originRegion === 'west' && destRegion === 'east')) return '8';
-  
-  return '6'; // Default zone
-}
-
-function getStateFromZip(zipCode: string): string | null {
-  const zip = parseInt(zipCode.substring(0, 5));
-  
-  if (zip >= 99501 && zip <= 99950) return 'AK';
-  if (zip >= 35000 && zip <= 36999) return 'AL';
-  if (zip >= 71600 && zip <= 72999) return 'AR';
-  if (zip >= 85000 && zip <= 86999) return 'AZ';
-  if (zip >= 90000 && zip <= 96699) return 'CA';
-  if (zip >= 80000 && zip <= 81999) return 'CO';
-  if (zip >= 6000 && zip <= 6999) return 'CT';
-  if (zip >= 19700 && zip <= 19999) return 'DE';
-  if (zip >= 32000 && zip <= 34999) return 'FL';
-  if (zip >= 30000 && zip <= 31999) return 'GA';
-  if (zip >= 96700 && zip <= 96999) return 'HI';
-  if (zip >= 83200 && zip <= 83999) return 'ID';
-  if (zip >= 60000 && zip <= 62999) return 'IL';
-  if (zip >= 46000 && zip <= 47999) return 'IN';
-  if (zip >= 50000 && zip <= 52999) return 'IA';
-  if (zip >= 66000 && zip <= 67999) return 'KS';
-  if (zip >= 40000 && zip <= 42999) return 'KY';
-  if (zip >= 70000 && zip <= 71599) return 'LA';
-  if (zip >= 3900 && zip <= 4999) return 'ME';
-  if (zip >= 20600 && zip <= 21999) return 'MD';
-  if (zip >= 1000 && zip <= 2799) return 'MA';
-  if (zip >= 48000 && zip <= 49999) return 'MI';
-  if (zip >= 55000 && zip <= 56999) return 'MN';
-  if (zip >= 38600 && zip <= 39999) return 'MS';
-  if (zip >= 63000 && zip <= 65999) return 'MO';
-  if (zip >= 59000 && zip <= 59999) return 'MT';
-  if (zip >= 27000 && zip <= 28999) return 'NC';
-  if (zip >= 58000 && zip <= 58999) return 'ND';
-  if (zip >= 68000 && zip <= 69999) return 'NE';
-  if (zip >= 88900 && zip <= 89999) return 'NV';
-  if (zip >= 3000 && zip <= 3899) return 'NH';
-  if (zip >= 7000 && zip <= 8999) return 'NJ';
-  if (zip >= 87000 && zip <= 88499) return 'NM';
-  if (zip >= 10000 && zip <= 14999) return 'NY';
-  if (zip >= 43000 && zip <= 45999) return 'OH';
-  if (zip >= 73000 && zip <= 74999) return 'OK';
-  if (zip >= 97000 && zip <= 97999) return 'OR';
-  if (zip >= 15000 && zip <= 19699) return 'PA';
-  if (zip >= 2800 && zip <= 2999) return 'RI';
-  if (zip >= 29000 && zip <= 29999) return 'SC';
-  if (zip >= 57000 && zip <= 57999) return 'SD';
-  if (zip >= 37000 && zip <= 38599) return 'TN';
-  if (zip >= 75000 && zip <= 79999 || zip >= 73301 && zip <= 73399 || zip >= 88500 && zip <= 88599) return 'TX';
-  if (zip >= 84000 && zip <= 84999) return 'UT';
-  if (zip >= 5000 && zip <= 5999) return 'VT';
-  if (zip >= 22000 && zip <= 24699) return 'VA';
-  if (zip >= 98000 && zip <= 99499) return 'WA';
-  if (zip >= 24700 && zip <= 26999) return 'WV';
-  if (zip >= 53000 && zip <= 54999) return 'WI';
-  if (zip >= 82000 && zip <= 83199) return 'WY';
-  
-  return null;
-}
-
-async function calculateRateCardRate(supabase: any, shipment: ShipmentRequest, config: CarrierConfig, serviceTypes: string[]) {
-  try {
-    console.log(`📋 Calculating rate card rates for ${config.account_name}`, {
-      carrierType: config.carrier_type,
-      serviceTypes,
-      weight: shipment.package.weight
-    });
-
-    // Use CSV-mapped zone if available, otherwise calculate automatically
-    let zone: string;
-    if (shipment.zone) {
-      zone = shipment.zone;
-      console.log(`🗺️ Using CSV-mapped zone: ${zone} (${shipment.shipFrom.zipCode} → ${shipment.shipTo.zipCode})`);
-    } else {
-      zone = calculateShippingZone(shipment.shipFrom.zipCode, shipment.shipTo.zipCode);
-      console.log(`🗺️ Auto-calculated zone: ${zone} (${shipment.shipFrom.zipCode} → ${shipment.shipTo.zipCode})`);
-    }
-
-    // Calculate billable weight (considering dimensional weight)
-    let billableWeight = shipment.package.weight;
-    if (shipment.package.length && shipment.package.width && shipment.package.height && config.dimensional_divisor) {
-      const dimensionalWeight = (shipment.package.length * shipment.package.width * shipment.package.height) / config.dimensional_divisor;
-      billableWeight = Math.max(billableWeight, dimensionalWeight);
-      console.log(`📏 Dimensional weight: ${dimensionalWeight.toFixed(1)} lbs, Billable weight: ${billableWeight.toFixed(1)} lbs`);
-    }
-
-    const rates: any[] = [];
-
-    // Process each service type
-    for (const serviceCode of serviceTypes) {
-      console.log(`🔍 Looking up rate for service: ${serviceCode}, zone: ${zone}, weight: ${billableWeight}`);
-
-      // Query rate card rates
-      const { data: rateCardRates, error } = await supabase
-        .from('rate_card_rates')
-        .select('*')
-        .eq('carrier_config_id', config.id)
-        .eq('service_code', serviceCode)
-        .eq('zone', zone)
-        .order('weight_break', { ascending: true });
-
-      if (error) {
-        console.error('Error querying rate card rates:', error);
-        continue;
-      }
-
-      if (!rateCardRates || rateCardRates.length === 0) {
-        console.log(`⚠️ No rate found for service ${serviceCode}, zone ${zone}`);
-        continue;
-      }
-
-      // Find the appropriate weight break (next weight up logic)
-      let selectedRate = null;
-      for (const rate of rateCardRates) {
-        if (billableWeight <= rate.weight_break) {
-          selectedRate = rate;
-          break;
-        }
-      }
-
-      // If no weight break found, use the highest one
-      if (!selectedRate && rateCardRates.length > 0) {
-        selectedRate = rateCardRates[rateCardRates.length - 1];
-      }
-
-      if (selectedRate) {
-        let finalRate = selectedRate.rate_amount;
-
-        // Apply fuel surcharge if configured
-        if (config.fuel_surcharge_percent && config.fuel_surcharge_percent > 0) {
-          const fuelSurcharge = finalRate * (config.fuel_surcharge_percent / 100);
-          finalRate += fuelSurcharge;
-          console.log(`⛽ Applied fuel surcharge: ${config.fuel_surcharge_percent}% (+$${fuelSurcharge.toFixed(2)})`);
-        }
-
-        // Determine service name
-        let serviceName = selectedRate.service_name || serviceCode;
-        if (config.carrier_type === 'amazon' && serviceCode === 'GROUND') {
-          serviceName = 'Amazon Ground';
-        }
-
-        const rateResult = {
-          serviceCode: serviceCode,
-          serviceName: serviceName,
-          totalCharges: finalRate.toFixed(2),
-          currency: 'USD',
-          transitDays: null, // Rate cards typically don't include transit times
-          source: 'rate_card',
-          zone: zone,
-          weightBreak: selectedRate.weight_break,
-          baseRate: selectedRate.rate_amount,
-          fuelSurcharge: config.fuel_surcharge_percent || 0,
-          billableWeight: billableWeight.toFixed(1)
-        };
-
-        rates.push(rateResult);
-        console.log(`✅ Rate card calculation complete:`, rateResult);
-      } else {
-        console.log(`⚠️ No suitable weight break found for ${billableWeight} lbs in service ${serviceCode}`);
-      }
-    }
-
-    console.log(`📋 Rate card lookup complete: ${rates.length} rates found`);
-    return rates;
-
-  } catch (error) {
-    console.error('Error in calculateRateCardRate:', error);
-    throw error;
-  }
-}
-
 async function saveShipmentRates(supabase: any, shipment: ShipmentRequest, config: CarrierConfig, rates: any[]) {
   try {
     console.log(`💾 Saving ${rates.length} rates for shipment ${shipment.shipmentIndex} from ${config.account_name}`);
@@ -763,14 +527,30 @@ async function saveShipmentRates(supabase: any, shipment: ShipmentRequest, confi
       service_code: rate.serviceCode || rate.service_code || 'UNKNOWN',
       service_name: rate.serviceName || rate.service_name || rate.description || null,
       rate_amount: parseFloat(rate.totalCharges || rate.rate_amount || rate.cost || 0),
+      base_charge: rate.baseCharges ?? null,
+      surcharges: rate.surcharges || [],
+      billable_weight: rate.billableWeight ?? null,
+      fuel_surcharge_percent: rate.fuelSurcharge ?? null,
+      fuel_effective_date: rate.fuelEffectiveDate ?? null,
+      rate_card_version_id: rate.rateCardVersionId ?? null,
+      duty_amount: rate.dutyAmount ?? null,
+      tax_amount: rate.taxAmount ?? null,
+      landed_cost: rate.landedCost ?? null,
       currency: rate.currency || 'USD',
+      original_currency: rate.originalCurrency ?? null,
+      original_rate_amount: rate.originalTotalCharges ?? null,
+      exchange_rate: rate.exchangeRate ?? null,
       transit_days: rate.transitDays || rate.transit_days || null,
       is_negotiated: rate.negotiatedRate ? true : false,
       published_rate: rate.publishedRate ? parseFloat(rate.publishedRate) : null,
+      earned_discount_percent: rate.earnedDiscountPercent ?? null,
       shipment_data: {
         shipFrom: shipment.shipFrom,
         shipTo: shipment.shipTo,
         package: shipment.package,
+        packages: shipment.packages,
+        declaredValue: shipment.declaredValue,
+        hsCode: shipment.hsCode,
         isResidential: shipment.isResidential
       },
       rate_response: rate
@@ -789,38 +569,3 @@ async function saveShipmentRates(supabase: any, shipment: ShipmentRequest, confi
     console.error('Error in saveShipmentRates:', error);
   }
 }
-
-function findBestRatesByService(allRates: any[]) {
-  if (!allRates || allRates.length === 0) return [];
-
-  // Group rates by service type/category
-  const ratesByService: { [key: string]: any[] } = {};
-  
-  allRates.forEach(rate => {
-    const serviceKey = rate.serviceName || rate.serviceCode || 'Unknown';
-    if (!ratesByService[serviceKey]) {
-      ratesByService[serviceKey] = [];
-    }
-    ratesByService[serviceKey].push(rate);
-  });
-
-  // Find lowest cost rate for each service type
-  const bestRates: any[] = [];
-  
-  Object.entries(ratesByService).forEach(([serviceType, rates]) => {
-    const sortedRates = rates.sort((a, b) => 
-      (a.totalCharges || 0) - (b.totalCharges || 0)
-    );
-    
-    if (sortedRates.length > 0) {
-      bestRates.push({
-        ...sortedRates[0],
-        isBestRate: true,
-        serviceType,
-        competitorCount: sortedRates.length - 1
-      });
-    }
-  });
-
-  return bestRates.sort((a, b) => (a.totalCharges || 0) - (b.totalCharges || 0));
-}
\ No newline at end of file
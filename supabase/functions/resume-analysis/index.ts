@@ -0,0 +1,45 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authenticateServiceRequest, isServiceRoleRequest } from '../_shared/auth.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { requeueStaleJobs, resumeUserJob } from '../_shared/analysisJobs.ts'
+
+// Continues an analysis job from its last checkpoint. Users resume their failed, paused
+// or stuck jobs by id; a service role call without a jobId (the requeue-stale-analysis-jobs
+// cron job) requeues every stuck job.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { jobId } = await req.json().catch(() => ({}));
+
+    if (!jobId && isServiceRoleRequest(req.headers.get('Authorization'))) {
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+      const requeued = await requeueStaleJobs(supabase);
+      return jsonResponse({ requeued });
+    }
+
+    const auth = await authenticateServiceRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
+
+    if (!jobId) {
+      return jsonResponse({ error: 'Missing jobId' }, 400);
+    }
+
+    return await resumeUserJob(supabase, user.id, jobId);
+
+  } catch (error) {
+    console.error('💥 Error in resume-analysis function:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,76 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getCarrierAdapter } from '../_shared/carriers/registry.ts';
+import type { CarrierConfig } from '../_shared/carriers/registry.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// Connection test for any carrier account, dispatched through the carrier adapter registry
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
+
+    const { config_id } = await req.json();
+    if (!config_id) {
+      return new Response(JSON.stringify({ error: 'config_id is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: config, error: configError } = await supabase
+      .from('carrier_configs')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('id', config_id)
+      .maybeSingle();
+
+    if (configError || !config) {
+      return new Response(JSON.stringify({ error: `Carrier configuration not found for configId: ${config_id}` }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const adapter = getCarrierAdapter(config as CarrierConfig);
+    if (!adapter) {
+      return new Response(JSON.stringify({
+        success: false,
+        message: `${config.carrier_type.toUpperCase()} connection testing is not supported yet`
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`🔌 Testing ${adapter.displayName} connection for ${config.account_name} (${config.id})`);
+
+    const result = await adapter.testConnection({ supabase }, config as CarrierConfig);
+
+    console.log(`${result.success ? '✅' : '❌'} ${config.account_name} connection test:`, result.message);
+
+    await supabase
+      .from('carrier_configs')
+      .update({
+        connection_status: result.success ? 'connected' : 'error',
+        last_test_at: new Date().toISOString()
+      })
+      .eq('id', config.id);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in test-carrier-connection function:', error);
+    return new Response(JSON.stringify({ success: false, error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
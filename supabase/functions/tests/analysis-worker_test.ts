@@ -0,0 +1,350 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { requeueStaleJobs } from '../_shared/analysisJobs.ts';
+import { analyzeShipment, categorizeAnalysisError } from '../analysis-worker/analyzeShipment.ts';
+import type { AnalysisSettings, UploadedShipment } from '../analysis-worker/analyzeShipment.ts';
+import { runAnalysisSlice, saveBatch } from '../analysis-worker/runSlice.ts';
+import type { AnalysisJob } from '../analysis-worker/types.ts';
+import { createSupabaseStub, jsonReply, stubEnv, stubFetch } from './stubs.ts';
+import type { Row, RpcHandler } from './stubs.ts';
+
+const SETTINGS: AnalysisSettings = {
+  carrierConfigIds: ['config-1'],
+  serviceMappings: [{ original: 'Ground', standardized: 'UPS Ground', standardizedService: 'GROUND', confidence: 1 }],
+  recommendationMode: 'same_service',
+  rateCardVersionPins: {}
+};
+
+function shipment(id: number, overrides: Partial<UploadedShipment> = {}): UploadedShipment {
+  return {
+    id,
+    trackingId: `1Z00${id}`,
+    service: 'Ground',
+    weight: '3',
+    currentRate: '15',
+    originZip: '30309',
+    destZip: '60601',
+    length: '10',
+    width: '8',
+    height: '6',
+    ...overrides
+  };
+}
+
+const quote = () => ({
+  data: {
+    allRates: [
+      { carrierId: 'config-1', carrierName: 'UPS Main', carrierType: 'ups', serviceCode: '03', serviceCategory: 'GROUND', serviceName: 'UPS Ground', totalCharges: 11 },
+      { carrierId: 'config-1', carrierName: 'UPS Main', carrierType: 'ups', serviceCode: '01', serviceCategory: 'OVERNIGHT', serviceName: 'UPS Next Day Air', totalCharges: 40 }
+    ],
+    apiMetrics: { cacheHits: 1, cacheMisses: 0 }
+  }
+});
+
+const ANALYSIS = {
+  id: 'analysis-1',
+  original_data: [shipment(1), shipment(2), shipment(3, { destZip: '' })],
+  carrier_configs_used: SETTINGS.carrierConfigIds,
+  service_mappings: SETTINGS.serviceMappings,
+  recommendation_mode: 'same_service',
+  processing_metadata: { analysis_job_id: 'job-1' }
+};
+
+// Results of the job's first `count` shipments, as earlier batches stored them
+function storedResults(count: number): Row[] {
+  const { allRates } = quote().data;
+  return Array.from({ length: count }, (_, index) => ({
+    job_id: 'job-1',
+    shipment_index: index,
+    status: 'completed',
+    result: { shipment: shipment(index + 1), status: 'completed', currentCost: 15, savings: 4, bestRate: allRates[0], allRates }
+  }));
+}
+
+// Stands in for the save_analysis_batch database function
+const saveAnalysisBatch: RpcHandler = (args, tables) => {
+  const savingJob = (tables.analysis_jobs ?? []).find(row =>
+    row.id === args.p_job_id &&
+    row.run_id === args.p_run_id &&
+    ['in_progress', 'paused', 'cancelling'].includes(row.status as string)
+  );
+  if (!savingJob) return { data: false };
+
+  const start = args.p_start_index as number;
+  const results = args.p_results as Row[];
+  const stored = tables.analysis_job_results ??= [];
+  results.forEach((entry, offset) => {
+    const row = { job_id: savingJob.id, shipment_index: start + offset, ...entry };
+    const existing = stored.findIndex(candidate => candidate.job_id === row.job_id && candidate.shipment_index === row.shipment_index);
+    if (existing >= 0) stored[existing] = row;
+    else stored.push(row);
+  });
+
+  tables.shipment_rates = (tables.shipment_rates ?? []).filter(row =>
+    row.analysis_id !== savingJob.analysis_id ||
+    (row.shipment_index as number) < start ||
+    (row.shipment_index as number) >= start + results.length
+  );
+  tables.shipment_rates.push(...(args.p_rates as Row[]));
+  Object.assign(savingJob, args.p_progress);
+  return { data: true };
+};
+
+const RPCS = { save_analysis_batch: saveAnalysisBatch };
+
+function job(overrides: Partial<AnalysisJob> = {}): AnalysisJob {
+  return {
+    id: 'job-1',
+    user_id: 'user-1',
+    analysis_id: 'analysis-1',
+    status: 'pending',
+    total_shipments: 3,
+    processed_shipments: 0,
+    completed_shipments: 0,
+    error_shipments: 0,
+    cache_hits: 0,
+    cache_misses: 0,
+    retry_count: 0,
+    last_checkpoint_at: null,
+    run_id: 'run-1',
+    ...overrides
+  };
+}
+
+Deno.test('categorizeAnalysisError separates validation problems from carrier failures', () => {
+  assertEquals(categorizeAnalysisError('Missing required fields: Weight').errorType, 'missing_data');
+  assertEquals(categorizeAnalysisError('Invalid Origin ZIP').errorCategory, 'ZIP Code Format');
+  assertEquals(categorizeAnalysisError('fetch failed: network timeout').errorType, 'network_error');
+});
+
+Deno.test('analyzeShipment prices against the mapped service', async () => {
+  const stub = createSupabaseStub({ functions: { 'multi-carrier-quote': quote } });
+
+  const { result, cacheHits } = await analyzeShipment(shipment(1), SETTINGS, { supabase: stub.client, headers: {} });
+
+  assertEquals(result.status, 'completed');
+  assertEquals(result.bestRate?.serviceName, 'UPS Ground');
+  assertEquals(result.savings, 4);
+  assertEquals(cacheHits, 1);
+});
+
+Deno.test('analyzeShipment recommends a cheaper service that meets the delivery window', async () => {
+  const nextDayAir = { carrierId: 'config-1', carrierName: 'UPS Main', carrierType: 'ups', serviceCode: '01', serviceCategory: 'OVERNIGHT', serviceName: 'UPS Next Day Air', totalCharges: 40 };
+  const nextDayAirSaver = { carrierId: 'config-1', carrierName: 'UPS Main', carrierType: 'ups', serviceCode: '13', serviceCategory: 'OVERNIGHT_SAVER', serviceName: 'UPS Next Day Air Saver', totalCharges: 30 };
+  const ground = { carrierId: 'config-1', carrierName: 'UPS Main', carrierType: 'ups', serviceCode: '03', serviceCategory: 'GROUND', serviceName: 'UPS Ground', totalCharges: 11 };
+  const stub = createSupabaseStub({
+    functions: {
+      'multi-carrier-quote': () => ({
+        data: { allRates: [nextDayAir, nextDayAirSaver, ground], bestRates: [ground], deliveryWindowRate: nextDayAirSaver }
+      })
+    }
+  });
+  const settings: AnalysisSettings = {
+    ...SETTINGS,
+    serviceMappings: [{ original: 'Next Day Air', standardized: 'UPS Next Day Air', standardizedService: 'OVERNIGHT', confidence: 1 }],
+    recommendationMode: 'delivery_window'
+  };
+
+  const { result } = await analyzeShipment(shipment(1, { service: 'Next Day Air', currentRate: '45' }), settings, { supabase: stub.client, headers: {} });
+
+  assertEquals(result.bestRate?.serviceCode, '13');
+  assertEquals(result.sameServiceCost, 40);
+  assertEquals(result.isServiceDowngrade, true);
+  assertEquals(result.savings, 15);
+});
+
+Deno.test('analyzeShipment returns an orphan for shipments carriers cannot quote', async () => {
+  const stub = createSupabaseStub({ functions: { 'multi-carrier-quote': quote } });
+
+  const { result } = await analyzeShipment(shipment(1, { weight: '' }), SETTINGS, { supabase: stub.client, headers: {} });
+
+  assertEquals(result.status, 'error');
+  assertEquals(result.errorType, 'missing_data');
+  assertEquals(stub.invocations.length, 0);
+});
+
+Deno.test('saveBatch overwrites a batch that is analyzed again', async () => {
+  const stub = createSupabaseStub({
+    tables: { analysis_jobs: [job({ status: 'in_progress' }) as unknown as Row] },
+    functions: { 'multi-carrier-quote': quote },
+    rpcs: RPCS
+  });
+  const ctx = { supabase: stub.client, headers: {} };
+  const analyses = await Promise.all([analyzeShipment(shipment(1), SETTINGS, ctx), analyzeShipment(shipment(2), SETTINGS, ctx)]);
+
+  await saveBatch(stub.client, job({ status: 'in_progress' }), 0, analyses);
+  const saved = await saveBatch(stub.client, job({ status: 'in_progress' }), 0, analyses);
+
+  assertEquals(saved?.processed_shipments, 2);
+  assertEquals(stub.tables.analysis_job_results.length, 2);
+  assertEquals(stub.tables.shipment_rates.length, 4);
+});
+
+Deno.test('saveBatch writes nothing once the job is handed to another worker', async () => {
+  // A resume gave the job a new run_id while this worker was analyzing its batch
+  const stub = createSupabaseStub({
+    tables: { analysis_jobs: [job({ status: 'in_progress', run_id: 'run-2' }) as unknown as Row] },
+    functions: { 'multi-carrier-quote': quote },
+    rpcs: RPCS
+  });
+  const analyses = [await analyzeShipment(shipment(1), SETTINGS, { supabase: stub.client, headers: {} })];
+
+  assertEquals(await saveBatch(stub.client, job({ status: 'in_progress' }), 0, analyses), null);
+  assertEquals(stub.rpcCalls[0].args.p_run_id, 'run-1');
+  assertEquals(stub.tables.analysis_job_results ?? [], []);
+  assertEquals(stub.tables.shipment_rates ?? [], []);
+  assertEquals(stub.tables.analysis_jobs[0].processed_shipments, 0);
+});
+
+Deno.test('runAnalysisSlice analyzes every batch and finalizes the analysis', async () => {
+  const restoreEnv = stubEnv({ SUPABASE_SERVICE_ROLE_KEY: 'service-key' });
+  try {
+    const stub = createSupabaseStub({
+      tables: {
+        analysis_jobs: [job() as unknown as Row],
+        shipping_analyses: [ANALYSIS]
+      },
+      functions: { 'multi-carrier-quote': quote },
+      rpcs: RPCS
+    });
+
+    const outcome = await runAnalysisSlice(stub.client, 'job-1', { deadline: Date.now() + 60_000, batchSize: 2, concurrency: 2 });
+
+    assertEquals(outcome, 'finished');
+    const [savedJob] = stub.tables.analysis_jobs;
+    assertEquals(savedJob.status, 'completed');
+    assertEquals(savedJob.completed_shipments, 2);
+    assertEquals(savedJob.error_shipments, 1);
+
+    const [analysis] = stub.tables.shipping_analyses;
+    assertEquals(analysis.status, 'completed');
+    assertEquals((analysis.processed_shipments as unknown[]).length, 2);
+    assertEquals((analysis.orphaned_shipments as unknown[]).length, 1);
+    assertEquals(analysis.total_savings, 8);
+
+    // Quotes run as the job's user, not with the expired browser session
+    const { headers } = stub.invocations[0];
+    assertEquals(headers?.Authorization, 'Bearer service-key');
+    assertEquals(headers?.['x-analysis-job-user'], 'user-1');
+  } finally {
+    restoreEnv();
+  }
+});
+
+Deno.test('runAnalysisSlice leaves finished jobs alone', async () => {
+  const stub = createSupabaseStub({
+    tables: { analysis_jobs: [job({ status: 'completed' }) as unknown as Row] }
+  });
+
+  assertEquals(await runAnalysisSlice(stub.client, 'job-1', { deadline: Date.now() + 60_000, batchSize: 2, concurrency: 2 }), 'finished');
+  assert(!stub.calls.some(call => call.table === 'shipping_analyses'));
+});
+
+Deno.test('runAnalysisSlice continues from the last checkpoint', async () => {
+  const stub = createSupabaseStub({
+    tables: {
+      analysis_jobs: [job({ status: 'in_progress', processed_shipments: 2, completed_shipments: 2 }) as unknown as Row],
+      analysis_job_results: storedResults(2),
+      shipping_analyses: [ANALYSIS]
+    },
+    functions: { 'multi-carrier-quote': quote },
+    rpcs: RPCS
+  });
+
+  await runAnalysisSlice(stub.client, 'job-1', { deadline: Date.now() + 60_000, batchSize: 2, concurrency: 2 });
+
+  // Only the shipment after the checkpoint is analyzed; it fails validation before quoting
+  assertEquals(stub.invocations.length, 0);
+  const [savedJob] = stub.tables.analysis_jobs;
+  assertEquals(savedJob.status, 'completed');
+  assertEquals(savedJob.error_shipments, 1);
+  assertEquals(stub.tables.shipping_analyses[0].total_savings, 8);
+});
+
+Deno.test('requeueStaleJobs restarts stuck jobs and fails those out of retries', async () => {
+  const restoreEnv = stubEnv({ SUPABASE_URL: 'https://project.supabase.co', SUPABASE_SERVICE_ROLE_KEY: 'service-key' });
+  const fetchStub = stubFetch(() => jsonReply({ accepted: true }, 202));
+  try {
+    const stuckSince = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const stub = createSupabaseStub({
+      tables: {
+        analysis_jobs: [
+          { ...job({ id: 'stuck', status: 'in_progress' }), updated_at: stuckSince },
+          { ...job({ id: 'exhausted', status: 'in_progress', retry_count: 3 }), updated_at: stuckSince },
+          { ...job({ id: 'running', status: 'in_progress' }), updated_at: new Date().toISOString() }
+        ] as unknown as Row[],
+        shipping_analyses: [ANALYSIS]
+      }
+    });
+
+    assertEquals(await requeueStaleJobs(stub.client), ['stuck']);
+
+    const byId = Object.fromEntries(stub.tables.analysis_jobs.map(row => [row.id, row]));
+    assertEquals(byId.stuck.retry_count, 1);
+    assertEquals(byId.exhausted.status, 'failed');
+    assertEquals(byId.running.retry_count, 0);
+    assertEquals(fetchStub.requests.length, 1);
+    assertEquals(await fetchStub.requests[0].json(), { jobId: 'stuck' });
+  } finally {
+    fetchStub.restore();
+    restoreEnv();
+  }
+});
+
+Deno.test('runAnalysisSlice stops between batches once the job is paused', async () => {
+  // The user pauses while the first batch is being quoted
+  const stub = createSupabaseStub({
+    tables: { analysis_jobs: [job() as unknown as Row], shipping_analyses: [ANALYSIS] },
+    functions: {
+      'multi-carrier-quote': () => {
+        stub.tables.analysis_jobs[0].status = 'paused';
+        return quote();
+      }
+    },
+    rpcs: RPCS
+  });
+
+  const outcome = await runAnalysisSlice(stub.client, 'job-1', { deadline: Date.now() + 60_000, batchSize: 2, concurrency: 2 });
+
+  assertEquals(outcome, 'finished');
+  const [savedJob] = stub.tables.analysis_jobs;
+  assertEquals(savedJob.status, 'paused');
+  assertEquals(savedJob.processed_shipments, 2);
+  assertEquals(stub.tables.shipping_analyses[0].status, undefined);
+});
+
+Deno.test('runAnalysisSlice publishes the partial results of a cancelled job', async () => {
+  const stub = createSupabaseStub({
+    tables: {
+      analysis_jobs: [job({ status: 'cancelling', processed_shipments: 2, completed_shipments: 2 }) as unknown as Row],
+      analysis_job_results: storedResults(2),
+      shipping_analyses: [ANALYSIS]
+    },
+    functions: { 'multi-carrier-quote': quote }
+  });
+
+  await runAnalysisSlice(stub.client, 'job-1', { deadline: Date.now() + 60_000, batchSize: 2, concurrency: 2 });
+
+  assertEquals(stub.invocations.length, 0);
+  assertEquals(stub.tables.analysis_jobs[0].status, 'cancelled');
+  const [analysis] = stub.tables.shipping_analyses;
+  assertEquals(analysis.status, 'completed');
+  assertEquals((analysis.processed_shipments as unknown[]).length, 2);
+  assertEquals((analysis.processing_metadata as Row).analyzedShipments, 2);
+});
+
+Deno.test('runAnalysisSlice finalizes a cancelled job only once when two workers race', async () => {
+  const stub = createSupabaseStub({
+    tables: {
+      analysis_jobs: [job({ status: 'cancelling', processed_shipments: 2, completed_shipments: 2 }) as unknown as Row],
+      analysis_job_results: storedResults(2),
+      shipping_analyses: [ANALYSIS]
+    }
+  });
+  const limits = { deadline: Date.now() + 60_000, batchSize: 2, concurrency: 2 };
+
+  await Promise.all([runAnalysisSlice(stub.client, 'job-1', limits), runAnalysisSlice(stub.client, 'job-1', limits)]);
+
+  const analysisUpdates = stub.calls.filter(call => call.table === 'shipping_analyses' && call.operation === 'update');
+  assertEquals(analysisUpdates.length, 1);
+  assertEquals(stub.tables.analysis_jobs[0].status, 'cancelled');
+});
@@ -0,0 +1,120 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { JOB_USER_HEADER, authenticateRequest, authenticateServiceRequest } from '../_shared/auth.ts';
+import { jsonReply, stubEnv, stubFetch } from './stubs.ts';
+
+const SUPABASE_ENV = {
+  SUPABASE_URL: 'http://localhost:54321',
+  SUPABASE_ANON_KEY: 'anon-key',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role-key'
+};
+
+const USER = {
+  id: '4b0f4c7e-8a52-4d6f-9a53-2f1e7c9d0b11',
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: 'shipper@example.com',
+  app_metadata: {},
+  user_metadata: {},
+  created_at: '2025-01-01T00:00:00Z'
+};
+
+function request(authorization?: string, headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/functions/v1/start-analysis', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization, ...headers } : headers
+  });
+}
+
+// Supabase Auth answers GET /auth/v1/user with the user for a valid JWT, 401 otherwise
+function stubAuthServer(validToken: string) {
+  return stubFetch(req => {
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    return token === validToken
+      ? jsonReply(USER)
+      : jsonReply({ code: 401, msg: 'invalid JWT: unable to parse or verify signature' }, 401);
+  });
+}
+
+const authFunctions = [
+  { name: 'authenticateRequest', authenticate: authenticateRequest, missing: 'No authorization header', invalid: 'Unauthorized' },
+  { name: 'authenticateServiceRequest', authenticate: authenticateServiceRequest, missing: 'Missing authorization header', invalid: 'Invalid authorization token' }
+];
+
+for (const { name, authenticate, missing, invalid } of authFunctions) {
+  Deno.test(`${name} rejects requests without an Authorization header`, async () => {
+    const restoreEnv = stubEnv(SUPABASE_ENV);
+    const fetchStub = stubAuthServer('valid-token');
+    try {
+      const result = await authenticate(request());
+
+      assertEquals(result.response?.status, 401);
+      assertEquals(await result.response?.json(), { error: missing });
+      assertEquals(fetchStub.requests.length, 0);
+    } finally {
+      fetchStub.restore();
+      restoreEnv();
+    }
+  });
+
+  Deno.test(`${name} rejects tokens Supabase Auth does not accept`, async () => {
+    const restoreEnv = stubEnv(SUPABASE_ENV);
+    const fetchStub = stubAuthServer('valid-token');
+    try {
+      const result = await authenticate(request('Bearer expired-token'));
+
+      assertEquals(result.response?.status, 401);
+      assertEquals(await result.response?.json(), { error: invalid });
+      assertEquals(new URL(fetchStub.requests[0].url).pathname, '/auth/v1/user');
+    } finally {
+      fetchStub.restore();
+      restoreEnv();
+    }
+  });
+
+  Deno.test(`${name} returns the user for a valid token`, async () => {
+    const restoreEnv = stubEnv(SUPABASE_ENV);
+    const fetchStub = stubAuthServer('valid-token');
+    try {
+      const result = await authenticate(request('Bearer valid-token'));
+
+      assertEquals(result.response, undefined);
+      assertEquals(result.response ? null : result.user.id, USER.id);
+    } finally {
+      fetchStub.restore();
+      restoreEnv();
+    }
+  });
+}
+
+Deno.test('authenticateRequest rejects job calls without the service role key', async () => {
+  const restoreEnv = stubEnv(SUPABASE_ENV);
+  const fetchStub = stubAuthServer('valid-token');
+  try {
+    const result = await authenticateRequest(request('Bearer valid-token', { [JOB_USER_HEADER]: USER.id }));
+
+    assertEquals(result.response?.status, 401);
+    assertEquals(fetchStub.requests.length, 0);
+  } finally {
+    fetchStub.restore();
+    restoreEnv();
+  }
+});
+
+Deno.test('authenticateRequest acts for the job user on service role calls', async () => {
+  const restoreEnv = stubEnv(SUPABASE_ENV);
+  // The admin API looks the user up by id instead of by token
+  const fetchStub = stubFetch(req =>
+    new URL(req.url).pathname === `/auth/v1/admin/users/${USER.id}`
+      ? jsonReply(USER)
+      : jsonReply({ code: 404, msg: 'User not found' }, 404)
+  );
+  try {
+    const result = await authenticateRequest(request('Bearer service-role-key', { [JOB_USER_HEADER]: USER.id }));
+
+    assertEquals(result.response ? null : result.user.id, USER.id);
+    assertEquals(fetchStub.requests[0].headers.get('Authorization'), 'Bearer service-role-key');
+  } finally {
+    fetchStub.restore();
+    restoreEnv();
+  }
+});
@@ -0,0 +1,105 @@
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { CarrierRequestError, fetchWithRetry, shouldTripBreaker } from '../_shared/resilience.ts';
+import { invokeCarrierFunction } from '../_shared/carriers/common.ts';
+import { createSupabaseStub, jsonReply, stubFetch } from './stubs.ts';
+
+const RATE_URL = 'https://onlinetools.ups.com/api/rating/v1/Rate';
+const FAST_RETRY = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+Deno.test('fetchWithRetry retries carrier rate limits until the quote succeeds', async () => {
+  const fetchStub = stubFetch((_req, callIndex) =>
+    callIndex === 0
+      ? jsonReply({ response: { errors: [{ code: '429', message: 'Rate limit exceeded' }] } }, 429, { 'Retry-After': '0' })
+      : jsonReply({ RateResponse: { RatedShipment: [] } })
+  );
+  try {
+    const response = await fetchWithRetry(RATE_URL, { method: 'POST' }, FAST_RETRY);
+
+    assertEquals(response.status, 200);
+    assertEquals(fetchStub.requests.length, 2);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('fetchWithRetry returns client errors without retrying', async () => {
+  const fetchStub = stubFetch(() => jsonReply({ response: { errors: [{ code: '111210' }] } }, 400));
+  try {
+    const response = await fetchWithRetry(RATE_URL, { method: 'POST' }, FAST_RETRY);
+
+    assertEquals(response.status, 400);
+    assertEquals(fetchStub.requests.length, 1);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('fetchWithRetry caps a long Retry-After at the maximum delay', async () => {
+  const fetchStub = stubFetch((_req, callIndex) =>
+    callIndex === 0
+      ? new Response('Too Many Requests', { status: 429, headers: { 'Retry-After': '3600' } })
+      : jsonReply({ RateResponse: { RatedShipment: [] } })
+  );
+  try {
+    const started = Date.now();
+    const response = await fetchWithRetry(RATE_URL, { method: 'POST' }, FAST_RETRY);
+
+    assertEquals(response.status, 200);
+    assert(Date.now() - started < 1000);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('client errors are categorized apart from account failures', () => {
+  const validation = new CarrierRequestError('Invalid destination ZIP', 400);
+
+  assertEquals(validation.category, 'client');
+  assertEquals(shouldTripBreaker(validation.category), false);
+  assertEquals(shouldTripBreaker(new CarrierRequestError('Bad gateway', 502).category), true);
+});
+
+Deno.test('fetchWithRetry gives up after the last retry', async () => {
+  const fetchStub = stubFetch(() => new Response('Service Unavailable', { status: 503 }));
+  try {
+    const response = await fetchWithRetry(RATE_URL, { method: 'POST' }, FAST_RETRY);
+
+    assertEquals(response.status, 503);
+    assertEquals(fetchStub.requests.length, FAST_RETRY.maxRetries + 1);
+  } finally {
+    fetchStub.restore();
+  }
+});
+
+Deno.test('invokeCarrierFunction forwards the caller JWT and returns the function data', async () => {
+  const stub = createSupabaseStub({
+    functions: { 'ups-rate-quote': () => ({ data: { rates: [{ serviceCode: '03', totalCharges: 11.2 }] } }) }
+  });
+
+  const data = await invokeCarrierFunction(
+    { supabase: stub.client, authHeader: 'Bearer user-jwt' },
+    'ups-rate-quote',
+    { configId: 'ups-1' }
+  );
+
+  assertEquals(data, { rates: [{ serviceCode: '03', totalCharges: 11.2 }] });
+  assertEquals(stub.invocations[0].headers, { Authorization: 'Bearer user-jwt' });
+});
+
+Deno.test('invokeCarrierFunction surfaces the carrier function status and error', async () => {
+  const stub = createSupabaseStub({
+    functions: {
+      'fedex-rate-quote': () => ({
+        error: { message: 'Edge Function returned a non-2xx status code', context: jsonReply({ error: 'Too many requests' }, 429) }
+      })
+    }
+  });
+
+  const error = await assertRejects(
+    () => invokeCarrierFunction({ supabase: stub.client }, 'fedex-rate-quote', {}),
+    CarrierRequestError,
+    'fedex-rate-quote error: Too many requests'
+  );
+  assertEquals(error.status, 429);
+  assertEquals(error.category, 'rate_limit');
+});
@@ -0,0 +1,32 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { applyDiscountTier } from '../_shared/discountTiers.ts';
+
+// Negotiated quote of $14 base + $5 residential + 10% fuel; published base is $25
+const quote = {
+  totalCharges: 20.9,
+  publishedRate: 33,
+  baseCharges: 14,
+  surcharges: [
+    { type: 'residential', amount: 5 },
+    { type: 'fuel', amount: 1.9 }
+  ]
+};
+
+Deno.test('applyDiscountTier discounts the published base charge and recomputes fuel', () => {
+  const tiered = applyDiscountTier(quote, { min_weekly_spend: 0, incentives: { '*': 40 } }, 'GROUND');
+
+  assertEquals(tiered.baseCharges, 15);
+  assertEquals(tiered.surcharges, [
+    { type: 'residential', amount: 5 },
+    { type: 'fuel', amount: 2 }
+  ]);
+  assertEquals(tiered.totalCharges, 22);
+  assertEquals(tiered.earnedDiscountPercent, 40);
+});
+
+Deno.test('applyDiscountTier leaves rates the tier does not cover unchanged', () => {
+  const tier = { min_weekly_spend: 0, incentives: { GROUND: 40 } };
+
+  assertEquals(applyDiscountTier(quote, tier, 'OVERNIGHT'), quote);
+  assertEquals(applyDiscountTier({ ...quote, publishedRate: undefined }, tier, 'GROUND').totalCharges, 20.9);
+});
@@ -0,0 +1,27 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { loadCurrencyConverter } from '../_shared/exchangeRates.ts';
+import { createSupabaseStub } from './stubs.ts';
+
+const stub = createSupabaseStub({
+  tables: {
+    user_settings: [{ user_id: 'user-1', reporting_currency: 'USD' }],
+    exchange_rates: [{ user_id: 'user-1', base_currency: 'CAD', quote_currency: 'USD', rate: 0.75, effective_date: '2025-01-01' }]
+  }
+});
+
+Deno.test('loadCurrencyConverter converts quotes into the reporting currency', async () => {
+  const converter = await loadCurrencyConverter(stub.client, 'user-1');
+
+  const rate = converter.convertRate({ currency: 'CAD', totalCharges: 20 }, '2025-03-01');
+
+  assertEquals(rate?.currency, 'USD');
+  assertEquals(rate?.totalCharges, 15);
+  assertEquals(rate?.originalTotalCharges, 20);
+});
+
+Deno.test('loadCurrencyConverter drops quotes it has no exchange rate for', async () => {
+  const converter = await loadCurrencyConverter(stub.client, 'user-1');
+
+  assertEquals(converter.convertRate({ currency: 'EUR', totalCharges: 20 }, '2025-03-01'), null);
+  assertEquals(converter.convertRate({ currency: 'USD', totalCharges: 20 })?.totalCharges, 20);
+});
@@ -0,0 +1,185 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  assignServiceAccounts,
+  formatOrphanedShipments,
+  formatProcessedShipments,
+  getValidRecommendations
+} from '../_shared/analysisResults.ts';
+import type { AnalysisPayload } from '../_shared/analysisResults.ts';
+import { BATCH_SIZE, processBatch, splitIntoBatches } from '../finalize-analysis/batches.ts';
+import { createSupabaseStub } from './stubs.ts';
+
+function recommendation(trackingId: string, service: string, rates: [account: string, amount: number][], currentCost = 20) {
+  const recommendedCost = rates[0]?.[1] ?? 0;
+  return {
+    shipment: { trackingId, service, originZip: '30309', destZip: '60601', weight: '3' },
+    customer_service: service,
+    currentCost,
+    recommendedCost,
+    savings: currentCost - recommendedCost,
+    allRates: rates.map(([carrierName, totalCharges]) => ({
+      carrierName,
+      carrierType: carrierName.startsWith('Amazon') ? 'amazon' : 'ups',
+      serviceName: service,
+      serviceCode: service.toUpperCase(),
+      totalCharges
+    }))
+  };
+}
+
+function createPayload(overrides: Partial<AnalysisPayload> = {}): AnalysisPayload {
+  return {
+    fileName: 'shipments.csv',
+    totalShipments: 0,
+    completedShipments: 0,
+    errorShipments: 0,
+    totalCurrentCost: 0,
+    totalPotentialSavings: 0,
+    recommendations: [],
+    orphanedShipments: [],
+    originalData: [],
+    carrierConfigsUsed: [],
+    ...overrides
+  };
+}
+
+Deno.test('getValidRecommendations drops shipments without a service or rates', () => {
+  const priced = recommendation('1Z001', 'Ground', [['UPS Main', 10]]);
+  const recommendations = [
+    priced,
+    recommendation('1Z002', 'Unknown', [['UPS Main', 10]]),
+    recommendation('1Z003', '', [['UPS Main', 10]]),
+    recommendation('1Z004', 'Ground', [])
+  ];
+
+  assertEquals(getValidRecommendations(recommendations), [priced]);
+});
+
+Deno.test('assignServiceAccounts prefers the cheapest overall account', () => {
+  const assignment = assignServiceAccounts([
+    recommendation('1Z001', 'Ground', [['UPS Main', 10], ['FedEx Main', 12]]),
+    recommendation('1Z002', 'Ground', [['UPS Main', 11], ['FedEx Main', 9]]),
+    recommendation('1Z003', 'Next Day Air', [['FedEx Main', 40]])
+  ]);
+
+  assertEquals(assignment.bestOverallAccount, 'UPS Main');
+  // FedEx is the only account quoting Next Day Air
+  assertEquals(assignment.serviceToAccountMapping, { 'Ground': 'UPS Main', 'Next Day Air': 'FedEx Main' });
+  assertEquals(assignment.accountTotals['UPS Main'], { totalCost: 21, shipmentCount: 2 });
+});
+
+Deno.test('assignServiceAccounts ignores Amazon rates for services other than Ground', () => {
+  const assignment = assignServiceAccounts([
+    recommendation('1Z001', '2nd Day Air', [['Amazon Shipping', 1], ['UPS Main', 25]])
+  ]);
+
+  assertEquals(assignment.bestOverallAccount, 'UPS Main');
+  assertEquals(assignment.accountTotals['Amazon Shipping'], undefined);
+});
+
+Deno.test('formatProcessedShipments prices each shipment at its assigned account', () => {
+  const recommendations = [
+    recommendation('1Z001', 'Ground', [['UPS Main', 10], ['FedEx Main', 12]]),
+    recommendation('1Z002', 'Ground', [['UPS Main', 11], ['FedEx Main', 9]], 15)
+  ];
+
+  const shipments = formatProcessedShipments(recommendations, assignServiceAccounts(recommendations), 4000);
+
+  assertEquals(shipments.map(shipment => [shipment.id, shipment.accountName, shipment.ShipPros_cost, shipment.savings]), [
+    [4001, 'UPS Main', 10, 10],
+    [4002, 'UPS Main', 11, 4]
+  ]);
+});
+
+Deno.test('formatOrphanedShipments numbers orphans after completed shipments', () => {
+  const orphans = formatOrphanedShipments(createPayload({
+    completedShipments: 3,
+    orphanedShipments: [
+      { shipment: { trackingId: '1Z101', weight: '2' }, error: 'No rates returned', errorType: 'no_rates' },
+      { shipment: { trackingId: '1Z102' }, customer_service: 'Ground' }
+    ],
+    originalData: [
+      { trackingId: '1Z101', currentRate: '18.40' },
+      { shipment: { trackingId: '1Z102', currentRate: '7' } }
+    ]
+  }));
+
+  assertEquals(orphans.map(orphan => [orphan.id, orphan.trackingId, orphan.currentRate, orphan.service, orphan.error]), [
+    [4, '1Z101', 18.4, 'Unknown', 'No rates returned'],
+    [5, '1Z102', 7, 'Ground', 'Processing failed']
+  ]);
+});
+
+Deno.test('formatOrphanedShipments defaults the current rate when the upload lacks it', () => {
+  const [orphan] = formatOrphanedShipments(createPayload({
+    orphanedShipments: [{ shipment: { trackingId: '1Z201' } }],
+    originalData: [{ tracking_id: 'someone-else', cost: 12 }]
+  }));
+
+  assertEquals(orphan.currentRate, 0);
+  assertEquals(orphan.id, 1);
+});
+
+Deno.test('splitIntoBatches keeps order and puts the remainder in the last batch', () => {
+  const batches = splitIntoBatches([1, 2, 3, 4, 5, 6, 7], 3);
+
+  assertEquals(batches, [[1, 2, 3], [4, 5, 6], [7]]);
+  assertEquals(splitIntoBatches([], 3), []);
+});
+
+Deno.test('processBatch appends shipments and rates at the batch offset', async () => {
+  const stub = createSupabaseStub({
+    tables: {
+      shipping_analyses: [{
+        id: 'analysis-1',
+        processed_shipments: [{ id: 1, trackingId: '1Z000' }],
+        processing_metadata: { totalBatches: 3, completedBatches: 1 }
+      }]
+    }
+  });
+  const recommendations = [
+    recommendation('1Z001', 'Ground', [['UPS Main', 10], ['FedEx Main', 12]]),
+    recommendation('1Z002', 'Ground', [['UPS Main', 11]])
+  ];
+  const batchInfo = { analysisId: 'analysis-1', batchIndex: 1, totalBatches: 3 };
+
+  const response = await processBatch(createPayload({ recommendations, batchInfo }), batchInfo, stub.client);
+
+  assertEquals(await response.json(), { success: true, batchIndex: 1, totalBatches: 3, isComplete: false });
+
+  const [analysis] = stub.tables.shipping_analyses as { processed_shipments: { id: number }[]; processing_metadata: Record<string, unknown> }[];
+  assertEquals(analysis.processed_shipments.map(shipment => shipment.id), [1, BATCH_SIZE + 1, BATCH_SIZE + 2]);
+  assertEquals(analysis.processing_metadata.totalBatches, 3);
+  assertEquals(analysis.processing_metadata.completedBatches, 2);
+
+  const rateRows = stub.tables.shipment_rates as { shipment_index: number; account_name: string }[];
+  assertEquals(rateRows.map(row => [row.shipment_index, row.account_name]), [
+    [BATCH_SIZE, 'UPS Main'],
+    [BATCH_SIZE, 'FedEx Main'],
+    [BATCH_SIZE + 1, 'UPS Main']
+  ]);
+});
+
+Deno.test('processBatch reports the last batch as complete', async () => {
+  const stub = createSupabaseStub({ tables: { shipping_analyses: [{ id: 'analysis-1' }] } });
+  const batchInfo = { analysisId: 'analysis-1', batchIndex: 2, totalBatches: 3 };
+
+  const response = await processBatch(createPayload({ batchInfo }), batchInfo, stub.client);
+
+  assertEquals((await response.json()).isComplete, true);
+  assertEquals(stub.tables.shipment_rates, undefined);
+});
+
+Deno.test('processBatch fails when the analysis cannot be updated', async () => {
+  const stub = createSupabaseStub({
+    tables: { shipping_analyses: [{ id: 'analysis-1' }] },
+    errors: { shipping_analyses: { update: { message: 'permission denied' } } }
+  });
+  const batchInfo = { analysisId: 'analysis-1', batchIndex: 0, totalBatches: 2 };
+
+  await assertRejects(
+    () => processBatch(createPayload({ batchInfo }), batchInfo, stub.client),
+    Error,
+    'Failed to update batch data: permission denied'
+  );
+});
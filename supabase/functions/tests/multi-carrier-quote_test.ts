@@ -0,0 +1,46 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { findBestRatesByService } from '../multi-carrier-quote/bestRates.ts';
+
+const rates = [
+  { carrierName: 'UPS Main', serviceName: 'Ground', serviceCode: 'GROUND', totalCharges: 14.2 },
+  { carrierName: 'FedEx Main', serviceName: 'Ground', serviceCode: 'FEDEX_GROUND', totalCharges: 12.75 },
+  { carrierName: 'UPS Card', serviceName: 'Ground', serviceCode: 'GROUND', totalCharges: 13.1 },
+  { carrierName: 'UPS Main', serviceName: 'Next Day Air', serviceCode: 'NEXT_DAY_AIR', totalCharges: 48.9 },
+  { carrierName: 'FedEx Main', serviceName: 'Next Day Air', serviceCode: 'PRIORITY_OVERNIGHT', totalCharges: 51.4 },
+  { carrierName: 'UPS Main', serviceName: '2nd Day Air', serviceCode: '2ND_DAY_AIR', totalCharges: 27 }
+];
+
+Deno.test('findBestRatesByService keeps the cheapest rate of each service', () => {
+  const best = findBestRatesByService(rates);
+
+  assertEquals(best.map(rate => [rate.serviceType, rate.carrierName, rate.totalCharges]), [
+    ['Ground', 'FedEx Main', 12.75],
+    ['2nd Day Air', 'UPS Main', 27],
+    ['Next Day Air', 'UPS Main', 48.9]
+  ]);
+});
+
+Deno.test('findBestRatesByService counts the carriers each best rate beat', () => {
+  const best = findBestRatesByService(rates);
+  const competitors = Object.fromEntries(best.map(rate => [rate.serviceType, rate.competitorCount]));
+
+  assertEquals(competitors, { 'Ground': 2, 'Next Day Air': 1, '2nd Day Air': 0 });
+  assertEquals(best.every(rate => rate.isBestRate), true);
+});
+
+Deno.test('findBestRatesByService groups unnamed services by code', () => {
+  const best = findBestRatesByService([
+    { serviceCode: 'GROUND', totalCharges: 9 },
+    { serviceCode: 'GROUND', totalCharges: 8 },
+    { totalCharges: 5 }
+  ]);
+
+  assertEquals(best.map(rate => [rate.serviceType, rate.totalCharges]), [
+    ['Unknown', 5],
+    ['GROUND', 8]
+  ]);
+});
+
+Deno.test('findBestRatesByService returns nothing without rates', () => {
+  assertEquals(findBestRatesByService([]), []);
+});
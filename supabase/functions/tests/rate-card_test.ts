@@ -0,0 +1,258 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { calculateRateCardRate, selectWeightBreak } from '../_shared/carriers/rateCard.ts';
+import type { RateCardResolvers } from '../_shared/carriers/rateCard.ts';
+import type { CarrierConfig, ShipmentRequest } from '../_shared/carriers/types.ts';
+import type { ShipmentPackage } from '../_shared/packages.ts';
+import { createFuelResolver } from '../_shared/fuelSchedules.ts';
+import { createZoneResolver } from '../_shared/zoneCharts.ts';
+import { createSupabaseStub } from './stubs.ts';
+
+const lbRows = [1, 5, 10].map(weight_break => ({ weight_break, weight_unit: 'lb' }));
+
+Deno.test('selectWeightBreak prices at the next weight break up', () => {
+  assertEquals(selectWeightBreak(lbRows, 3)?.weight_break, 5);
+  assertEquals(selectWeightBreak(lbRows, 5)?.weight_break, 5);
+  assertEquals(selectWeightBreak(lbRows, 1)?.weight_break, 1);
+});
+
+Deno.test('selectWeightBreak uses the highest break for heavier shipments', () => {
+  assertEquals(selectWeightBreak(lbRows, 42)?.weight_break, 10);
+  assertEquals(selectWeightBreak([], 3), null);
+});
+
+Deno.test('selectWeightBreak compares ounce rate cards in ounces', () => {
+  const ozRows = [4, 8, 16].map(weight_break => ({ weight_break, weight_unit: 'oz' }));
+  assertEquals(selectWeightBreak(ozRows, 6 / 16)?.weight_break, 8);
+  assertEquals(selectWeightBreak(ozRows, 0.25)?.weight_break, 4);
+});
+
+const config: CarrierConfig = {
+  id: 'card-1',
+  user_id: 'user-1',
+  carrier_type: 'ups',
+  account_name: 'UPS Rate Card',
+  is_sandbox: false,
+  is_rate_card: true
+};
+
+// Ground rates for zone 5 of version v2, stored out of order, plus rows the query must skip
+const rateCardRates = [
+  { version_id: 'v2', service_code: '03', service_name: 'UPS Ground', zone: '5', weight_break: 10, rate_amount: 20, weight_unit: 'lb' },
+  { version_id: 'v2', service_code: '03', service_name: 'UPS Ground', zone: '5', weight_break: 1, rate_amount: 10, weight_unit: 'lb' },
+  { version_id: 'v2', service_code: '03', service_name: 'UPS Ground', zone: '5', weight_break: 5, rate_amount: 15, weight_unit: 'lb' },
+  { version_id: 'v2', service_code: '03', service_name: 'UPS Ground', zone: '5', weight_break: 2, rate_amount: 12, weight_unit: 'lb' },
+  { version_id: 'v2', service_code: '03', service_name: 'UPS Ground', zone: '8', weight_break: 5, rate_amount: 30, weight_unit: 'lb' },
+  { version_id: 'v1', service_code: '03', service_name: 'UPS Ground', zone: '5', weight_break: 5, rate_amount: 9, weight_unit: 'lb' }
+];
+
+function createShipment(packages: ShipmentPackage[]): ShipmentRequest {
+  const address = { name: '', address: '', city: '', state: '', zipCode: '', country: 'US' };
+  return {
+    shipFrom: { ...address, state: 'GA', zipCode: '30309' },
+    shipTo: { ...address, state: 'IL', zipCode: '60601' },
+    package: packages[0],
+    packages: packages.length > 1 ? packages : undefined,
+    isResidential: false
+  };
+}
+
+function createResolvers(fuelPercent = 0): RateCardResolvers {
+  return {
+    resolveZone: () => Promise.resolve({ zone: '5', source: 'csv' }),
+    resolveDas: () => Promise.resolve(null),
+    resolveFuel: () => Promise.resolve({ percent: fuelPercent, source: 'account', effectiveDate: null }),
+    resolveVersion: () => Promise.resolve({
+      id: 'v2',
+      carrier_config_id: config.id,
+      version_number: 2,
+      effective_from: '2025-01-01',
+      effective_to: null
+    })
+  };
+}
+
+Deno.test('calculateRateCardRate rates the billable weight at its weight break', async () => {
+  const stub = createSupabaseStub({ tables: { rate_card_rates: rateCardRates } });
+
+  const rates = await calculateRateCardRate(
+    stub.client,
+    createShipment([{ weight: 3, weightUnit: 'LBS' }]),
+    config,
+    ['03'],
+    createResolvers()
+  );
+
+  assertEquals(rates.length, 1);
+  assertEquals(rates[0].totalCharges, '15.00');
+  assertEquals(rates[0].weightBreak, 5);
+  assertEquals(rates[0].zone, '5');
+  assertEquals(rates[0].rateCardVersionId, 'v2');
+  assertEquals(stub.calls[0].filters, [
+    ['version_id', 'eq', 'v2'],
+    ['service_code', 'eq', '03'],
+    ['zone', 'eq', '5']
+  ]);
+});
+
+Deno.test('calculateRateCardRate rates heavier shipments at the highest weight break', async () => {
+  const stub = createSupabaseStub({ tables: { rate_card_rates: rateCardRates } });
+
+  const [rate] = await calculateRateCardRate(
+    stub.client,
+    createShipment([{ weight: 25, weightUnit: 'LBS' }]),
+    config,
+    ['03'],
+    createResolvers()
+  );
+
+  assertEquals(rate.weightBreak, 10);
+  assertEquals(rate.totalCharges, '20.00');
+});
+
+Deno.test('calculateRateCardRate adds fuel on the base rate', async () => {
+  const stub = createSupabaseStub({ tables: { rate_card_rates: rateCardRates } });
+
+  const [rate] = await calculateRateCardRate(
+    stub.client,
+    createShipment([{ weight: 4.2, weightUnit: 'LBS' }]),
+    config,
+    ['03'],
+    createResolvers(10)
+  );
+
+  assertEquals(rate.baseRate, 15);
+  assertEquals(rate.totalCharges, '16.50');
+  assertEquals(rate.fuelSurcharge, 10);
+});
+
+Deno.test('calculateRateCardRate looks up the ground fuel rate for ground service codes', async () => {
+  const stub = createSupabaseStub({
+    tables: {
+      rate_card_rates: rateCardRates,
+      carrier_fuel_surcharges: [
+        { user_id: 'user-1', carrier_type: 'ups', effective_date: '2025-03-03', ground_percent: 10, air_percent: 20 }
+      ]
+    }
+  });
+  const shipment = { ...createShipment([{ weight: 4.2, weightUnit: 'LBS' }]), shipDate: '2025-03-05' };
+  const resolvers = { ...createResolvers(), resolveFuel: createFuelResolver(stub.client, 'user-1') };
+
+  const [rate] = await calculateRateCardRate(stub.client, shipment, { ...config, fuel_auto_lookup: true }, ['03'], resolvers);
+
+  assertEquals(rate.fuelSurcharge, 10);
+  assertEquals(rate.fuelSource, 'schedule');
+  assertEquals(rate.totalCharges, '16.50');
+});
+
+Deno.test('calculateRateCardRate adds fuel on DAS and accessorials but not signature fees', async () => {
+  const stub = createSupabaseStub({ tables: { rate_card_rates: rateCardRates } });
+  const shipment = { ...createShipment([{ weight: 4.2, weightUnit: 'LBS' }]), isResidential: true, signatureRequired: true };
+  const resolvers = {
+    ...createResolvers(10),
+    resolveDas: () => Promise.resolve({ tier: 'das' as const, code: 'DAS', description: 'Delivery Area Surcharge', amount: 5 })
+  };
+  const withRules = {
+    ...config,
+    accessorial_rules: [{ type: 'residential' as const, amount: 6 }, { type: 'signature' as const, amount: 4 }]
+  };
+
+  const [rate] = await calculateRateCardRate(stub.client, shipment, withRules, ['03'], resolvers);
+
+  // Fuel is 10% of 15 base + 5 DAS + 6 residential
+  assertEquals(rate.totalCharges, '32.60');
+});
+
+Deno.test('calculateRateCardRate prices each piece of a multi-piece shipment at its own break', async () => {
+  const stub = createSupabaseStub({ tables: { rate_card_rates: rateCardRates } });
+
+  const [rate] = await calculateRateCardRate(
+    stub.client,
+    createShipment([{ weight: 2, weightUnit: 'LBS' }, { weight: 7, weightUnit: 'LBS' }]),
+    config,
+    ['03'],
+    createResolvers()
+  );
+
+  assertEquals(rate.totalCharges, '32.00');
+  assertEquals(rate.packageCount, 2);
+  assertEquals(
+    (rate.pieces as { weightBreak: number }[]).map(piece => piece.weightBreak),
+    [2, 10]
+  );
+});
+
+Deno.test('calculateRateCardRate holds multi-piece ground shipments to the ground hundredweight minimum', async () => {
+  const stub = createSupabaseStub({ tables: { rate_card_rates: rateCardRates } });
+
+  const [rate] = await calculateRateCardRate(
+    stub.client,
+    createShipment([{ weight: 60, weightUnit: 'LBS' }, { weight: 60, weightUnit: 'LBS' }]),
+    config,
+    ['03'],
+    createResolvers()
+  );
+
+  assertEquals(rate.billableWeight, 120);
+  assertEquals(rate.hundredweightEligible, false);
+});
+
+Deno.test('calculateRateCardRate prices light USPS Ground Advantage parcels by the ounce', async () => {
+  const uspsRates = [4, 8, 16].map((weight_break, index) => ({
+    version_id: 'v2',
+    service_code: 'GROUND_ADVANTAGE',
+    service_name: 'USPS Ground Advantage',
+    zone: '5',
+    weight_break,
+    rate_amount: 5 + index,
+    weight_unit: 'oz'
+  }));
+  const stub = createSupabaseStub({ tables: { rate_card_rates: uspsRates } });
+
+  const [rate] = await calculateRateCardRate(
+    stub.client,
+    createShipment([{ weight: 6, weightUnit: 'OZ' }]),
+    { ...config, carrier_type: 'usps', account_name: 'USPS Rate Card' },
+    ['GROUND_ADVANTAGE'],
+    createResolvers()
+  );
+
+  assertEquals(rate.weightPricingUnit, 'oz');
+  assertEquals(rate.weightBreak, 8);
+  assertEquals(rate.totalCharges, '6.00');
+});
+
+Deno.test('calculateRateCardRate skips services and accounts without rates', async () => {
+  const stub = createSupabaseStub({ tables: { rate_card_rates: rateCardRates } });
+  const shipment = createShipment([{ weight: 3, weightUnit: 'LBS' }]);
+
+  assertEquals(await calculateRateCardRate(stub.client, shipment, config, ['01'], createResolvers()), []);
+
+  const withoutVersion = { ...createResolvers(), resolveVersion: () => Promise.resolve(null) };
+  assertEquals(await calculateRateCardRate(stub.client, shipment, config, ['03'], withoutVersion), []);
+});
+
+Deno.test('createZoneResolver reads zone charts past the first page of rows', async () => {
+  // 1000 rows for West Coast lanes come first; the Chicago row is on the second page
+  const chart = Array.from({ length: 1000 }, (_, index) => ({
+    id: `row-${String(index).padStart(4, '0')}`,
+    user_id: 'user-1',
+    carrier_type: 'ups',
+    carrier_config_id: null,
+    origin_zip3: '303',
+    dest_zip3_start: '900',
+    dest_zip3_end: '961',
+    zone: '8'
+  }));
+  chart.push({ ...chart[0], id: 'row-1000', dest_zip3_start: '600', dest_zip3_end: '606', zone: '6' });
+  const stub = createSupabaseStub({ tables: { carrier_zone_charts: chart } });
+
+  const resolveZone = createZoneResolver(stub.client, 'user-1');
+  const resolved = await resolveZone('30309', '60601', config);
+
+  assertEquals(resolved, { zone: '6', source: 'zone_chart' });
+  assertEquals(stub.calls.filter(call => call.table === 'carrier_zone_charts').length, 2);
+
+  // Later shipments from the same origin reuse the loaded chart
+  await resolveZone('30309', '90210', config);
+  assertEquals(stub.calls.filter(call => call.table === 'carrier_zone_charts').length, 2);
+});
@@ -0,0 +1,338 @@
+/**
+ * Offline stand-ins for the Supabase client, `fetch` and the environment, so edge
+ * function logic can be tested with `deno test` and no local stack.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type Row = Record<string, unknown>;
+export type StubOperation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export interface StubError {
+  message: string;
+  code?: string;
+}
+
+export interface StubCall {
+  table: string;
+  operation: StubOperation;
+  payload?: unknown;
+  filters: [column: string, operator: string, value: unknown][];
+}
+
+export interface FunctionInvocation {
+  name: string;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+export type FunctionHandler = (body: unknown, headers?: Record<string, string>) =>
+  | { data?: unknown; error?: unknown }
+  | Promise<{ data?: unknown; error?: unknown }>;
+
+// Stands in for a database function, reading and writing the stub's tables
+export type RpcHandler = (args: Row, tables: Record<string, Row[]>) => { data?: unknown; error?: StubError };
+
+export interface SupabaseStubOptions {
+  tables?: Record<string, Row[]>;
+  functions?: Record<string, FunctionHandler>;
+  rpcs?: Record<string, RpcHandler>;
+  // Error returned for an operation on a table, e.g. { shipping_analyses: { update: {...} } }
+  errors?: Record<string, Partial<Record<StubOperation, StubError>>>;
+}
+
+export interface SupabaseStub {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>;
+  calls: StubCall[];
+  invocations: FunctionInvocation[];
+  rpcCalls: { name: string; args: Row }[];
+}
+
+interface QueryResult {
+  data: unknown;
+  error: StubError | null;
+}
+
+class StubQueryBuilder implements PromiseLike<QueryResult> {
+  private operation: StubOperation | null = null;
+  private payload: unknown;
+  private conflictColumn = 'id';
+  private readonly predicates: ((row: Row) => boolean)[] = [];
+  private readonly filters: StubCall['filters'] = [];
+  private ordering: { column: string; ascending: boolean }[] = [];
+  private limitCount: number | null = null;
+  private rangeBounds: [from: number, to: number] | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+
+  constructor(
+    private readonly table: string,
+    private readonly stub: SupabaseStub,
+    private readonly errors: SupabaseStubOptions['errors']
+  ) {}
+
+  // `.insert(...).select()` keeps the write; a bare `.select()` reads
+  select(_columns?: string) {
+    this.operation ??= 'select';
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    return this.write('insert', rows);
+  }
+
+  update(values: Row) {
+    return this.write('update', values);
+  }
+
+  upsert(rows: Row | Row[], options?: { onConflict?: string }) {
+    this.conflictColumn = options?.onConflict || 'id';
+    return this.write('upsert', rows);
+  }
+
+  delete() {
+    return this.write('delete', undefined);
+  }
+
+  eq(column: string, value: unknown) {
+    return this.filter(column, 'eq', value, row => row[column] === value);
+  }
+
+  neq(column: string, value: unknown) {
+    return this.filter(column, 'neq', value, row => row[column] !== value);
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.filter(column, 'in', values, row => values.includes(row[column]));
+  }
+
+  is(column: string, value: unknown) {
+    return this.filter(column, 'is', value, row => (row[column] ?? null) === value);
+  }
+
+  gt(column: string, value: number | string) {
+    return this.filter(column, 'gt', value, row => compare(row[column], value) > 0);
+  }
+
+  gte(column: string, value: number | string) {
+    return this.filter(column, 'gte', value, row => compare(row[column], value) >= 0);
+  }
+
+  lt(column: string, value: number | string) {
+    return this.filter(column, 'lt', value, row => compare(row[column], value) < 0);
+  }
+
+  lte(column: string, value: number | string) {
+    return this.filter(column, 'lte', value, row => compare(row[column], value) <= 0);
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.ordering.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  // Inclusive on both ends, like PostgREST
+  range(from: number, to: number) {
+    this.rangeBounds = [from, to];
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private write(operation: StubOperation, payload: unknown) {
+    this.operation = operation;
+    this.payload = payload;
+    return this;
+  }
+
+  private filter(column: string, operator: string, value: unknown, predicate: (row: Row) => boolean) {
+    this.filters.push([column, operator, value]);
+    this.predicates.push(predicate);
+    return this;
+  }
+
+  private execute(): QueryResult {
+    const operation = this.operation ?? 'select';
+    this.stub.calls.push({ table: this.table, operation, payload: this.payload, filters: this.filters });
+
+    const error = this.errors?.[this.table]?.[operation];
+    if (error) {
+      return { data: null, error };
+    }
+
+    const rows = this.stub.tables[this.table] ??= [];
+    const matches = () => rows.filter(row => this.predicates.every(predicate => predicate(row)));
+    let data: Row[];
+
+    switch (operation) {
+      case 'insert': {
+        data = toRows(this.payload).map(row => ({ ...row }));
+        rows.push(...data);
+        break;
+      }
+      case 'update': {
+        data = matches();
+        data.forEach(row => Object.assign(row, this.payload));
+        break;
+      }
+      case 'upsert': {
+        data = toRows(this.payload).map(row => {
+          // onConflict may name several columns, e.g. 'job_id,shipment_index'
+          const conflictColumns = this.conflictColumn.split(',');
+          const existing = rows.find(candidate => conflictColumns.every(column => candidate[column] === row[column]));
+          if (existing) return Object.assign(existing, row);
+          const inserted = { ...row };
+          rows.push(inserted);
+          return inserted;
+        });
+        break;
+      }
+      case 'delete': {
+        const removed = matches();
+        this.stub.tables[this.table] = rows.filter(row => !removed.includes(row));
+        data = removed;
+        break;
+      }
+      default:
+        data = matches();
+    }
+
+    for (const { column, ascending } of [...this.ordering].reverse()) {
+      data = [...data].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+    if (this.rangeBounds) {
+      data = data.slice(this.rangeBounds[0], this.rangeBounds[1] + 1);
+    }
+    if (this.limitCount !== null) {
+      data = data.slice(0, this.limitCount);
+    }
+
+    if (this.singleMode) {
+      if (data.length === 0 && this.singleMode === 'single') {
+        return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+      }
+      return { data: data[0] ?? null, error: null };
+    }
+    return { data, error: null };
+  }
+}
+
+function toRows(payload: unknown): Row[] {
+  if (Array.isArray(payload)) return payload as Row[];
+  return payload ? [payload as Row] : [];
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+/**
+ * An in-memory Supabase client. Queries run against `tables` (which writes mutate) and
+ * are recorded in `calls`; `functions.invoke` and `rpc` are answered by the matching handler.
+ */
+export function createSupabaseStub(options: SupabaseStubOptions = {}): SupabaseStub {
+  const stub = {
+    tables: structuredClone(options.tables ?? {}),
+    calls: [],
+    invocations: [],
+    rpcCalls: []
+  } as unknown as SupabaseStub;
+
+  const client = {
+    from: (table: string) => new StubQueryBuilder(table, stub, options.errors),
+    rpc: (name: string, args: Row = {}) => {
+      stub.rpcCalls.push({ name, args });
+      const handler = options.rpcs?.[name];
+      if (!handler) {
+        return Promise.resolve({ data: null, error: { message: `No stub for database function ${name}` } });
+      }
+      const { data = null, error = null } = handler(args, stub.tables);
+      return Promise.resolve({ data, error });
+    },
+    functions: {
+      invoke: async (name: string, request: { body?: unknown; headers?: Record<string, string> } = {}) => {
+        stub.invocations.push({ name, body: request.body, headers: request.headers });
+        const handler = options.functions?.[name];
+        if (!handler) {
+          return { data: null, error: { message: `No stub for function ${name}` } };
+        }
+        const { data = null, error = null } = await handler(request.body, request.headers);
+        return { data, error };
+      }
+    }
+  };
+
+  stub.client = client as unknown as SupabaseClient;
+  return stub;
+}
+
+export interface FetchStub {
+  requests: Request[];
+  restore: () => void;
+}
+
+/**
+ * Replace the global `fetch` (carrier APIs, Supabase Auth) with `handler`. Call
+ * `restore` in a `finally` so other tests see the real one.
+ */
+export function stubFetch(handler: (request: Request, callIndex: number) => Response | Promise<Response>): FetchStub {
+  const original = globalThis.fetch;
+  const requests: Request[] = [];
+
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    requests.push(request);
+    return Promise.resolve(handler(request, requests.length - 1));
+  };
+
+  return {
+    requests,
+    restore: () => {
+      globalThis.fetch = original;
+    }
+  };
+}
+
+export function jsonReply(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+/**
+ * Set environment variables for the duration of a test; returns a function restoring
+ * the previous values.
+ */
+export function stubEnv(values: Record<string, string>): () => void {
+  const previous = Object.fromEntries(Object.keys(values).map(key => [key, Deno.env.get(key)]));
+  Object.entries(values).forEach(([key, value]) => Deno.env.set(key, value));
+
+  return () => {
+    Object.entries(previous).forEach(([key, value]) => {
+      if (value === undefined) Deno.env.delete(key);
+      else Deno.env.set(key, value);
+    });
+  };
+}
@@ -1,21 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-// Token cache - stores tokens in memory with expiration
-interface CachedToken {
-  access_token: string;
-  expires_at: number; // Unix timestamp
-  config_id: string;
-  account_name: string;
-  is_sandbox: boolean;
-}
-
-const tokenCache = new Map<string, CachedToken>();
+import { getStoredToken, saveToken } from '../_shared/tokenStore.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getCarrierEndpoint } from '../_shared/carrierEndpoints.ts';
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -24,53 +11,15 @@ serve(async (req) => {
   }
 
   try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'No authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
-    // Verify user authentication
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
 
     const { action, config_id } = await req.json();
 
     if (action === 'get_token') {
       console.log('UPS Auth Request:', { action, config_id, userId: user.id });
       
-      // Check cache first
-      const cacheKey = `${user.id}_${config_id}`;
-      const cachedToken = tokenCache.get(cacheKey);
-      
-      // Return cached token if still valid (with 5 minute buffer)
-      if (cachedToken && cachedToken.expires_at > Date.now() + 300000) {
-        console.log('🚀 Returning cached UPS token for config:', config_id);
-        return new Response(JSON.stringify({
-          access_token: cachedToken.access_token,
-          expires_in: Math.floor((cachedToken.expires_at - Date.now()) / 1000),
-          is_sandbox: cachedToken.is_sandbox,
-          config_id: cachedToken.config_id,
-          account_name: cachedToken.account_name,
-          cached: true
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-      
       // Get carrier config for UPS - with proper handling for multiple configs
       let query = supabase
         .from('carrier_configs')
@@ -119,10 +68,24 @@ serve(async (req) => {
         });
       }
 
+      // Reuse the stored token unless it is about to expire; tokens are shared by all functions
+      const storedToken = await getStoredToken(supabase, carrierConfig.id);
+      if (storedToken) {
+        console.log('🚀 Returning stored UPS token for config:', carrierConfig.id);
+        return new Response(JSON.stringify({
+          access_token: storedToken.access_token,
+          expires_in: Math.floor((storedToken.expires_at - Date.now()) / 1000),
+          is_sandbox: storedToken.is_sandbox,
+          config_id: carrierConfig.id,
+          account_name: carrierConfig.account_name,
+          cached: true
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       // Get OAuth token from UPS
-      const tokenEndpoint = carrierConfig.is_sandbox 
-        ? 'https://wwwcie.ups.com/security/v1/oauth/token'
-        : 'https://onlinetools.ups.com/security/v1/oauth/token';
+      const tokenEndpoint = getCarrierEndpoint('ups', 'token', carrierConfig);
 
       const credentials = btoa(`${carrierConfig.ups_client_id}:${carrierConfig.ups_client_secret}`);
       
@@ -174,20 +137,19 @@ serve(async (req) => {
 
       const tokenData = await tokenResponse.json();
       
-      // Cache the token (UPS tokens typically last 1 hour)
-      const expiresAt = Date.now() + (tokenData.expires_in * 1000);
-      tokenCache.set(cacheKey, {
-        access_token: tokenData.access_token,
-        expires_at: expiresAt,
-        config_id: carrierConfig.id,
-        account_name: carrierConfig.account_name,
-        is_sandbox: carrierConfig.is_sandbox
+      // Persist the token (encrypted) so every function and cold start reuses it (UPS tokens typically last 1 hour)
+      await saveToken(supabase, {
+        userId: user.id,
+        configId: carrierConfig.id,
+        carrierType: 'ups',
+        accessToken: tokenData.access_token,
+        expiresIn: tokenData.expires_in,
+        isSandbox: carrierConfig.is_sandbox
       });
       
-      console.log('💾 Cached UPS token for config:', {
+      console.log('💾 Stored UPS token for config:', {
         configId: carrierConfig.id,
-        expiresIn: tokenData.expires_in,
-        cacheKey
+        expiresIn: tokenData.expires_in
       });
       
       // Update connection status to success
@@ -1,11 +1,24 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { clearStoredToken, getAccessToken } from '../_shared/tokenStore.ts';
+import { getStateFromZip } from '../_shared/zones.ts';
+import { formatPostalCode, isInternationalLane } from '../_shared/countries.ts';
+import { getCachedQuotes, storeCachedQuotes } from '../_shared/quoteCache.ts';
+import { fetchWithRetry, getCircuitBreaker, isRetryableStatus } from '../_shared/resilience.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { buildChargeBreakdown } from '../_shared/surcharges.ts';
+import { getCarrierEndpoint } from '../_shared/carrierEndpoints.ts';
+
+interface ShipmentPackage {
+  weight: number;
+  weightUnit: string;
+  length?: number;
+  width?: number;
+  height?: number;
+  dimensionUnit?: string;
+  packageType?: string;
+}
 
 interface ShipmentRequest {
   shipFrom: {
@@ -24,19 +37,31 @@ interface ShipmentRequest {
     zipCode: string;
     country: string;
   };
-  package: {
-    weight: number;
-    weightUnit: string;
-    length?: number;
-    width?: number;
-    height?: number;
-    dimensionUnit?: string;
-    packageType?: string;
-  };
+  package: ShipmentPackage;
+  packages?: ShipmentPackage[]; // Pieces of a multi-piece shipment; package is their total
   serviceTypes?: string[];
   equivalentServiceCode?: string;
   isResidential?: boolean;
   residentialSource?: string;
+  declaredValue?: number; // Customs value, sent as the invoice total on international shipments
+  declaredValueCurrency?: string;
+}
+
+// Fields of a cached quote the rate_quotes summary reads back
+interface CachedUpsRate {
+  serviceCode: string;
+  totalCharges: number;
+  hasNegotiatedRates?: boolean;
+  publishedRate?: number;
+  negotiatedRate?: number;
+  savingsAmount?: number;
+}
+
+interface UpsItemizedCharge {
+  Code?: string;
+  Description?: string;
+  SubType?: string;
+  MonetaryValue?: string;
 }
 
 serve(async (req) => {
@@ -46,34 +71,16 @@ serve(async (req) => {
   }
 
   try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      return new Response(JSON.stringify({ error: 'No authorization header' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
-    // Verify user authentication
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
 
     const { shipment, configId }: { shipment: ShipmentRequest, configId?: string } = await req.json();
     console.log('📦 UPS Rate Quote request:', { 
       shipFrom: shipment?.shipFrom?.zipCode,
       shipTo: shipment?.shipTo?.zipCode,
       weight: shipment?.package?.weight,
+      pieces: shipment?.packages?.length || 1,
       configId: configId
     });
 
@@ -88,91 +95,25 @@ serve(async (req) => {
       });
     }
 
-    if (!shipment?.package?.weight || shipment.package.weight <= 0) {
+    // Multi-piece shipments are rated piece by piece, so every piece needs a weight
+    const pieces = shipment?.packages?.length ? shipment.packages : [shipment?.package];
+    if (pieces.some(pkg => !pkg?.weight || pkg.weight <= 0)) {
       return new Response(JSON.stringify({ error: 'Invalid package weight' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Clean and format addresses with comprehensive ZIP to state mapping
-    const cleanZip = (zip: string) => zip.trim().substring(0, 5); // Use 5-digit ZIP for UPS
+    // Clean and format addresses: 5-digit US ZIPs, each other country's own postal format
+    const cleanZip = (zip: string, country?: string) => formatPostalCode(zip, country || 'US');
+    const stateFor = (zip: string, country?: string) => (country || 'US') === 'US' ? getStateFromZip(zip)?.state || '' : '';
+    const isInternational = isInternationalLane(shipment.shipFrom.country, shipment.shipTo.country);
     const formatAddress = (addr: string) => addr.trim().substring(0, 50); // UPS address line limit
-    
-    // ZIP to state mapping function
-    const getStateFromZip = (zipCode: string): string => {
-      if (!zipCode) return '';
-      
-      const cleanZip = zipCode.trim().substring(0, 5);
-      const zipNum = parseInt(cleanZip);
-      
-      if (isNaN(zipNum)) return '';
-
-      // Comprehensive ZIP code ranges by state
-      if (zipNum >= 35000 && zipNum <= 36999) return 'AL';
-      if (zipNum >= 99500 && zipNum <= 99999) return 'AK';
-      if (zipNum >= 85000 && zipNum <= 86999) return 'AZ';
-      if (zipNum >= 71600 && zipNum <= 72999) return 'AR';
-      if (zipNum >= 90000 && zipNum <= 96699) return 'CA';
-      if (zipNum >= 80000 && zipNum <= 81999) return 'CO';
-      if (zipNum >= 6000 && zipNum <= 6999) return 'CT';
-      if (zipNum >= 19700 && zipNum <= 19999) return 'DE';
-      if (zipNum >= 20000 && zipNum <= 20599) return 'DC';
-      if (zipNum >= 32000 && zipNum <= 34999) return 'FL';
-      if (zipNum >= 30000 && zipNum <= 31999) return 'GA';
-      if (zipNum >= 96700 && zipNum <= 96999) return 'HI';
-      if (zipNum >= 83200 && zipNum <= 83999) return 'ID';
-      if (zipNum >= 60000 && zipNum <= 62999) return 'IL';
-      if (zipNum >= 46000 && zipNum <= 47999) return 'IN';
-      if (zipNum >= 50000 && zipNum <= 52999) return 'IA';
-      if (zipNum >= 66000 && zipNum <= 67999) return 'KS';
-      if (zipNum >= 40000 && zipNum <= 42999) return 'KY';
-      if (zipNum >= 70000 && zipNum <= 71599) return 'LA';
-      if (zipNum >= 3900 && zipNum <= 4999) return 'ME';
-      if (zipNum >= 20600 && zipNum <= 21999) return 'MD';
-      if (zipNum >= 1000 && zipNum <= 2799) return 'MA';
-      if (zipNum >= 48000 && zipNum <= 49999) return 'MI';
-      if (zipNum >= 55000 && zipNum <= 56999) return 'MN';
-      if (zipNum >= 38600 && zipNum <= 39999) return 'MS';
-      if (zipNum >= 63000 && zipNum <= 65999) return 'MO';
-      if (zipNum >= 59000 && zipNum <= 59999) return 'MT';
-      if (zipNum >= 68000 && zipNum <= 69999) return 'NE';
-      if (zipNum >= 88900 && zipNum <= 89999) return 'NV';
-      if (zipNum >= 3000 && zipNum <= 3899) return 'NH';
-      if (zipNum >= 7000 && zipNum <= 8999) return 'NJ';
-      if (zipNum >= 87000 && zipNum <= 88499) return 'NM';
-      if (zipNum >= 10000 && zipNum <= 14999) return 'NY';
-      if (zipNum >= 27000 && zipNum <= 28999) return 'NC';
-      if (zipNum >= 58000 && zipNum <= 58999) return 'ND';
-      if (zipNum >= 43000 && zipNum <= 45999) return 'OH';
-      if (zipNum >= 73000 && zipNum <= 74999) return 'OK';
-      if (zipNum >= 97000 && zipNum <= 97999) return 'OR';
-      if (zipNum >= 15000 && zipNum <= 19699) return 'PA';
-      if (zipNum >= 2800 && zipNum <= 2999) return 'RI';
-      if (zipNum >= 29000 && zipNum <= 29999) return 'SC';
-      if (zipNum >= 57000 && zipNum <= 57999) return 'SD';
-      if (zipNum >= 37000 && zipNum <= 38599) return 'TN';
-      if (zipNum >= 75000 && zipNum <= 79999) return 'TX';
-      if (zipNum >= 84000 && zipNum <= 84999) return 'UT';
-      if (zipNum >= 5000 && zipNum <= 5999) return 'VT';
-      if (zipNum >= 22000 && zipNum <= 24699) return 'VA';
-      if (zipNum >= 98000 && zipNum <= 99499) return 'WA';
-      if (zipNum >= 24700 && zipNum <= 26999) return 'WV';
-      if (zipNum >= 53000 && zipNum <= 54999) return 'WI';
-      if (zipNum >= 82000 && zipNum <= 83199) return 'WY';
-      
-      // Territories
-      if (zipNum >= 600 && zipNum <= 999) return 'PR';
-      if (zipNum >= 800 && zipNum <= 899) return 'VI';
-      if (zipNum >= 96900 && zipNum <= 96999) return 'GU';
-      
-      return ''; // Unknown ZIP code
-    };
 
     // Get specific UPS account configuration using configId
     let query = supabase
       .from('carrier_configs')
-      .select('ups_account_number, ups_client_id, ups_client_secret, is_sandbox')
+      .select('id, ups_account_number, ups_client_id, ups_client_secret, is_sandbox, api_base_url')
       .eq('user_id', user.id)
       .eq('carrier_type', 'ups')
       .eq('is_active', true);
@@ -195,13 +136,10 @@ serve(async (req) => {
       });
     }
 
-    // Get access token for this specific config
-    const { data: authData, error: upsAuthError } = await supabase.functions.invoke('ups-auth', {
-      body: { action: 'get_token', config_id: configId }
-    });
+    // Get access token for this specific config (shared token store, OAuth exchange only when needed)
+    const authData = await getAccessToken(supabase, config.id, 'ups-auth');
 
-    if (upsAuthError || !authData?.access_token) {
-      console.error('UPS auth error:', upsAuthError);
+    if (!authData) {
       return new Response(JSON.stringify({ error: 'Failed to authenticate with UPS' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -211,9 +149,7 @@ serve(async (req) => {
     const { access_token, is_sandbox } = authData;
 
     // Build UPS Rating API request with proper endpoint
-    const ratingEndpoint = is_sandbox
-      ? 'https://wwwcie.ups.com/api/rating/v1/Rate'
-      : 'https://onlinetools.ups.com/api/rating/v1/Rate';
+    const ratingEndpoint = getCarrierEndpoint('ups', 'rate', { is_sandbox, api_base_url: config.api_base_url });
 
     console.log('UPS Rating API Configuration:', {
       endpoint: ratingEndpoint,
@@ -234,15 +170,15 @@ serve(async (req) => {
             Name: (shipment.shipFrom.name || 'Shipper').substring(0, 35),
             ShipperNumber: config.ups_account_number,
             Address: {
-              PostalCode: cleanZip(shipment.shipFrom.zipCode),
+              PostalCode: cleanZip(shipment.shipFrom.zipCode, shipment.shipFrom.country),
               CountryCode: shipment.shipFrom.country || 'US'
             }
           },
           ShipTo: {
             Name: (shipment.shipTo.name || 'Recipient').substring(0, 35),
             Address: {
-              StateProvinceCode: getStateFromZip(shipment.shipTo.zipCode),
-              PostalCode: cleanZip(shipment.shipTo.zipCode),
+              StateProvinceCode: stateFor(shipment.shipTo.zipCode, shipment.shipTo.country),
+              PostalCode: cleanZip(shipment.shipTo.zipCode, shipment.shipTo.country),
               CountryCode: shipment.shipTo.country || 'US',
               ...(shipment.isResidential ? { ResidentialAddressIndicator: "Y" } : {})
             }
@@ -257,8 +193,8 @@ serve(async (req) => {
                 Address: {
                   AddressLine: formatAddress(shipment.shipFrom.address || '123 Main St'),
                   City: (shipment.shipFrom.city || '').substring(0, 30),
-                  StateProvinceCode: getStateFromZip(shipment.shipFrom.zipCode),
-                  PostalCode: cleanZip(shipment.shipFrom.zipCode),
+                  StateProvinceCode: stateFor(shipment.shipFrom.zipCode, shipment.shipFrom.country),
+                  PostalCode: cleanZip(shipment.shipFrom.zipCode, shipment.shipFrom.country),
                   CountryCode: shipment.shipFrom.country || 'US'
                 }
               }
@@ -268,34 +204,41 @@ serve(async (req) => {
             TPFCNegotiatedRatesIndicator: "Y",
             NegotiatedRatesIndicator: "Y"
           },
+          // Required for some international lanes (e.g. to Canada and Puerto Rico)
+          ...(isInternational && shipment.declaredValue ? {
+            InvoiceLineTotal: {
+              CurrencyCode: shipment.declaredValueCurrency || 'USD',
+              MonetaryValue: shipment.declaredValue.toFixed(2)
+            }
+          } : {}),
           Service: {
             Code: "03", // Default to Ground, will iterate through services
             Description: "Ground"
           },
-          Package: {
+          Package: pieces.map(pkg => ({
             PackagingType: {
-              Code: shipment.package.packageType || "02",
+              Code: pkg.packageType || "02",
               Description: "Packaging"
             },
             Dimensions: {
               UnitOfMeasurement: {
-                Code: shipment.package.dimensionUnit || "IN",
+                Code: pkg.dimensionUnit || "IN",
                 Description: "Inches"
               },
-              Length: (shipment.package.length || 12).toString(),
-              Width: (shipment.package.width || 12).toString(),
-              Height: (shipment.package.height || 6).toString()
+              Length: (pkg.length || 12).toString(),
+              Width: (pkg.width || 12).toString(),
+              Height: (pkg.height || 6).toString()
             },
             PackageWeight: {
               UnitOfMeasurement: {
-                Code: shipment.package.weightUnit || "LBS",
+                Code: pkg.weightUnit || "LBS",
                 Description: "Pounds"
               },
-              Weight: shipment.package.weight.toString()
+              Weight: pkg.weight.toString()
             },
             OversizeIndicator: "X",
             MinimumBillableWeightIndicator: "X"
-          }
+          }))
         }
       }
     };
@@ -330,10 +273,18 @@ serve(async (req) => {
       configId
     });
 
+    // Serve what we can from the shared quote cache and only call UPS for the rest
+    const cached = await getCachedQuotes<CachedUpsRate>(
+      supabase, config.id, shipment, serviceCodes
+    );
+    const servicesToFetch = cached.missingServiceCodes;
+
     const rates = [];
 
     console.log('Service codes to request:', {
       serviceCodes,
+      servicesToFetch,
+      cacheHits: cached.hits.length,
       equivalentServiceCode,
       total: serviceCodes.length,
       receivedServiceTypes: shipment.serviceTypes,
@@ -341,14 +292,25 @@ serve(async (req) => {
       configId
     });
 
+    // Stop calling an account that keeps failing; the caller treats it as degraded
+    const breaker = getCircuitBreaker(config.id);
+    let degraded = false;
+    let lastRetryableStatus: number | undefined;
+
     // Get rates for each service type
-    for (const serviceCode of serviceCodes) {
+    for (const serviceCode of servicesToFetch) {
+      if (!breaker.canRequest()) {
+        console.log(`🔌 Circuit open for UPS config ${configId} - skipping remaining services`);
+        degraded = true;
+        break;
+      }
+
       try {
         ratingRequest.RateRequest.Shipment.Service.Code = serviceCode;
 
         console.log(`Requesting rate for service ${serviceCode} with config ${configId}...`);
 
-        const response = await fetch(ratingEndpoint, {
+        const response = await fetchWithRetry(ratingEndpoint, {
           method: 'POST',
           headers: {
             'Authorization': `Bearer ${access_token}`,
@@ -359,11 +321,12 @@ serve(async (req) => {
             'version': 'v1'
           },
           body: JSON.stringify(ratingRequest)
-        });
+        }, { label: `UPS ${serviceCode} (config ${configId})` });
 
         console.log(`UPS API Response Status for service ${serviceCode} (config ${configId}):`, response.status);
 
         if (response.ok) {
+          breaker.recordSuccess();
           const rateData = await response.json();
           console.log(`UPS Rate Response for service ${serviceCode} (config ${configId}):`, JSON.stringify(rateData, null, 2));
           
@@ -391,11 +354,20 @@ serve(async (req) => {
             const savingsAmount = hasNegotiatedRates && publishedCharges > 0 ? publishedCharges - negotiatedCharges : 0;
             const savingsPercentage = savingsAmount > 0 ? ((savingsAmount / publishedCharges) * 100) : 0;
 
-            // Extract surcharge details for residential analysis
-            const surcharges = ratedShipment.ItemizedCharges || [];
-            const residentialSurcharge = surcharges.find((charge: any) => 
-              charge.Code === 'RES' || charge.Description?.toLowerCase().includes('residential')
-            );
+            // Itemized charges live on the shipment (residential, fuel) and on each package
+            // (delivery area, additional handling); negotiated rates carry their own copy
+            const toArray = <T,>(value: T | T[] | undefined): T[] => (Array.isArray(value) ? value : value ? [value] : []);
+            const ratedPackages = toArray<{ ItemizedCharges?: UpsItemizedCharge | UpsItemizedCharge[] }>(ratedShipment.RatedPackage);
+            const surcharges = [
+              ...toArray<UpsItemizedCharge>((hasNegotiatedRates && ratedShipment.NegotiatedRateCharges?.ItemizedCharges) || ratedShipment.ItemizedCharges),
+              ...ratedPackages.flatMap(pkg => toArray(pkg.ItemizedCharges))
+            ];
+            const breakdown = buildChargeBreakdown(finalCharges, surcharges.map(charge => ({
+              code: charge.Code,
+              description: charge.Description || charge.SubType,
+              amount: parseFloat(charge.MonetaryValue || '0')
+            })));
+            const residentialSurcharge = breakdown.surcharges.find(charge => charge.type === 'residential');
             
             console.log(`Rate analysis for service ${serviceCode} (config ${configId}) - RESIDENTIAL IMPACT:`, {
               published: publishedCharges,
@@ -406,16 +378,8 @@ serve(async (req) => {
               hasAccount: !!config?.ups_account_number,
               isResidential: shipment.isResidential,
               residentialSource: shipment.residentialSource,
-              residentialSurcharge: residentialSurcharge ? {
-                amount: residentialSurcharge.MonetaryValue,
-                code: residentialSurcharge.Code,
-                description: residentialSurcharge.Description
-              } : 'No residential surcharge found',
-              allSurcharges: surcharges.map((s: any) => ({ 
-                code: s.Code, 
-                amount: s.MonetaryValue, 
-                desc: s.Description 
-              })),
+              residentialSurcharge: residentialSurcharge || 'No residential surcharge found',
+              allSurcharges: breakdown.surcharges,
               chargeBreakdown: ratedShipment.RatedShipmentAlert || 'No alerts'
             });
 
@@ -426,7 +390,9 @@ serve(async (req) => {
                 description: service?.description || '',
                 totalCharges: finalCharges,
                 currency: ratedShipment.TotalCharges?.CurrencyCode || 'USD',
-                baseCharges: parseFloat(ratedShipment.BaseServiceCharge?.MonetaryValue || '0'),
+                baseCharges: breakdown.baseCharge,
+                surcharges: breakdown.surcharges,
+                billableWeight: parseFloat(ratedShipment.BillingWeight?.Weight || '') || undefined,
                 transitTime: ratedShipment.GuaranteedDelivery?.BusinessDaysInTransit || null,
                 deliveryDate: ratedShipment.GuaranteedDelivery?.DeliveryByTime || null,
                 rateType,
@@ -449,6 +415,11 @@ serve(async (req) => {
           const apiCallEnd = Date.now();
           const callDuration = apiCallEnd - apiCallStart;
           const errorText = await response.text();
+
+          if (isRetryableStatus(response.status)) {
+            lastRetryableStatus = response.status;
+            breaker.recordFailure();
+          }
           
           console.error('🚨 UPS API ERROR DETAILS:', {
             error: errorText,
@@ -466,6 +437,9 @@ serve(async (req) => {
             console.log('🚨 UPS SERVER ERROR - Temporary issue, retry recommended');
           } else if (response.status === 401 || response.status === 403) {
             console.log('🚨 AUTHENTICATION ERROR - Token may be expired');
+            if (response.status === 401) {
+              await clearStoredToken(supabase, config.id);
+            }
           }
           
           // Try to parse UPS error response
@@ -478,17 +452,40 @@ serve(async (req) => {
         }
       } catch (error) {
         console.error(`Error getting rate for service ${serviceCode} (config ${configId}):`, error);
+        lastRetryableStatus = 503;
+        breaker.recordFailure();
       }
     }
 
     const apiCallEnd = Date.now();
     const totalCallDuration = apiCallEnd - apiCallStart;
+
+    // Nothing priced and UPS itself was the problem: surface it so callers can back off
+    if (rates.length === 0 && cached.hits.length === 0 && (degraded || lastRetryableStatus)) {
+      return new Response(JSON.stringify({
+        error: degraded
+          ? 'UPS account temporarily unavailable (circuit open)'
+          : `UPS API unavailable (HTTP ${lastRetryableStatus})`,
+        degraded: true
+      }), {
+        status: lastRetryableStatus ?? 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    await storeCachedQuotes(supabase, user.id, config.id, shipment, rates);
+    const cacheStats = { hits: cached.hits.length, misses: servicesToFetch.length };
+    rates.push(...cached.hits.map(rate => ({
+      ...rate,
+      isEquivalentService: rate.serviceCode === equivalentServiceCode
+    })));
     
     console.log(`✅ Successfully retrieved ${rates.length} rates for config ${configId}`);
     console.log('⚡ UPS API PERFORMANCE:', {
       totalCallDuration: `${totalCallDuration}ms`,
-      servicesRequested: serviceCodes.length,
-      avgTimePerService: `${(totalCallDuration / serviceCodes.length).toFixed(0)}ms`,
+      servicesRequested: servicesToFetch.length,
+      cacheHits: cacheStats.hits,
+      avgTimePerService: `${(totalCallDuration / Math.max(servicesToFetch.length, 1)).toFixed(0)}ms`,
       configId,
       timestamp: new Date().toISOString()
     });
@@ -526,7 +523,9 @@ serve(async (req) => {
       quoteId: quote?.id,
       rates: rates.sort((a, b) => a.totalCharges - b.totalCharges), // Sort by price
       requestId: `shiprate-${Date.now()}`,
-      configId
+      configId,
+      cacheStats,
+      degraded
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
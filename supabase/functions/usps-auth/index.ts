@@ -0,0 +1,212 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getStoredToken, saveToken } from '../_shared/tokenStore.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// USPS API host - overridable so the adapter can be exercised against a local mock server
+function getUspsBaseUrl(isSandbox: boolean): string {
+  const override = Deno.env.get('USPS_API_BASE_URL');
+  if (override) {
+    return override.replace(/\/$/, '');
+  }
+  return isSandbox ? 'https://apis-tem.usps.com' : 'https://apis.usps.com';
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log('USPS Auth function called');
+    
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
+
+    console.log('Parsing request body...');
+    const requestBody = await req.json();
+    const { action, config_id } = requestBody;
+
+    if (action === 'get_token') {
+      console.log('USPS Auth Request:', { action, config_id, userId: user.id });
+      
+      // Get carrier config for USPS - with proper handling for multiple configs
+      let query = supabase
+        .from('carrier_configs')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('carrier_type', 'usps')
+        .eq('is_active', true);
+
+      // If config_id is provided, use specific config
+      if (config_id) {
+        query = query.eq('id', config_id);
+      }
+      
+      const { data: carrierConfig, error: configError } = await query.maybeSingle();
+
+      if (configError) {
+        console.error('Error fetching USPS config:', configError);
+        return new Response(JSON.stringify({ 
+          error: 'Error fetching USPS configuration',
+          details: configError 
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!carrierConfig) {
+        return new Response(JSON.stringify({ 
+          error: config_id 
+            ? `USPS configuration not found for configId: ${config_id}` 
+            : 'No active USPS configuration found'
+        }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!carrierConfig.usps_user_id || !carrierConfig.usps_password) {
+        return new Response(JSON.stringify({ 
+          error: 'USPS API credentials missing',
+          configId: carrierConfig.id,
+          accountName: carrierConfig.account_name
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Reuse the stored token unless it is about to expire; tokens are shared by all functions
+      const storedToken = await getStoredToken(supabase, carrierConfig.id);
+      if (storedToken) {
+        console.log('🚀 Returning stored USPS token for config:', carrierConfig.id);
+        return new Response(JSON.stringify({
+          access_token: storedToken.access_token,
+          expires_in: Math.floor((storedToken.expires_at - Date.now()) / 1000),
+          is_sandbox: storedToken.is_sandbox,
+          config_id: carrierConfig.id,
+          account_name: carrierConfig.account_name,
+          cached: true
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Get OAuth token from USPS (USPS_API_BASE_URL points at a mock server for local testing)
+      const tokenEndpoint = `${getUspsBaseUrl(carrierConfig.is_sandbox)}/oauth2/v3/token`;
+
+      console.log('USPS Auth Request Details:', {
+        endpoint: tokenEndpoint,
+        isSandbox: carrierConfig.is_sandbox,
+        configId: carrierConfig.id,
+        accountName: carrierConfig.account_name,
+        hasCredentials: !!(carrierConfig.usps_user_id && carrierConfig.usps_password)
+      });
+      
+      console.log('Making USPS OAuth request...');
+      
+      const tokenResponse = await fetch(tokenEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          grant_type: 'client_credentials',
+          client_id: carrierConfig.usps_user_id,
+          client_secret: carrierConfig.usps_password
+        })
+      });
+
+      console.log('USPS OAuth response status:', tokenResponse.status);
+      
+      if (!tokenResponse.ok) {
+        const errorText = await tokenResponse.text();
+        console.error('USPS token error response:', {
+          status: tokenResponse.status,
+          statusText: tokenResponse.statusText,
+          body: errorText
+        });
+        
+        // Try to update connection status in carrier_configs
+        try {
+          await supabase
+            .from('carrier_configs')
+            .update({ 
+              connection_status: 'error',
+              last_test_at: new Date().toISOString()
+            })
+            .eq('id', carrierConfig.id);
+        } catch (updateError) {
+          console.error('Failed to update connection status:', updateError);
+        }
+        
+        return new Response(JSON.stringify({ 
+          error: 'Failed to authenticate with USPS API',
+          status: tokenResponse.status,
+          details: errorText,
+          configId: carrierConfig.id
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const tokenData = await tokenResponse.json();
+      
+      // Persist the token (encrypted) so every function and cold start reuses it (USPS tokens typically last 8 hours)
+      await saveToken(supabase, {
+        userId: user.id,
+        configId: carrierConfig.id,
+        carrierType: 'usps',
+        accessToken: tokenData.access_token,
+        expiresIn: tokenData.expires_in,
+        isSandbox: carrierConfig.is_sandbox
+      });
+      
+      console.log('💾 Stored USPS token for config:', {
+        configId: carrierConfig.id,
+        expiresIn: tokenData.expires_in
+      });
+      
+      // Update connection status to success
+      try {
+        await supabase
+          .from('carrier_configs')
+          .update({ 
+            connection_status: 'connected',
+            last_test_at: new Date().toISOString()
+          })
+          .eq('id', carrierConfig.id);
+      } catch (updateError) {
+        console.error('Failed to update connection status:', updateError);
+      }
+
+      return new Response(JSON.stringify({
+        access_token: tokenData.access_token,
+        expires_in: tokenData.expires_in,
+        is_sandbox: carrierConfig.is_sandbox,
+        config_id: carrierConfig.id,
+        account_name: carrierConfig.account_name,
+        cached: false
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Invalid action' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in usps-auth function:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
\ No newline at end of file
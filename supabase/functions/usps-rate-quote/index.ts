@@ -0,0 +1,298 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { clearStoredToken, getAccessToken } from '../_shared/tokenStore.ts';
+import { fetchWithRetry } from '../_shared/resilience.ts';
+import { authenticateRequest } from '../_shared/auth.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { buildChargeBreakdown } from '../_shared/surcharges.ts';
+
+interface ShipmentRequest {
+  shipFrom: {
+    name: string;
+    address: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    country: string;
+  };
+  shipTo: {
+    name: string;
+    address: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    country: string;
+  };
+  package: {
+    weight: number;
+    weightUnit: string;
+    length?: number;
+    width?: number;
+    height?: number;
+    dimensionUnit?: string;
+    packageType?: string;
+  };
+  serviceTypes?: string[];
+  equivalentServiceCode?: string;
+  isResidential?: boolean;
+  residentialSource?: string;
+}
+
+// Our service codes (shared with USPS rate cards) mapped to USPS Prices API mail classes
+const USPS_MAIL_CLASSES: Record<string, { mailClass: string; serviceName: string; transitDays: number | null }> = {
+  GROUND_ADVANTAGE: { mailClass: 'USPS_GROUND_ADVANTAGE', serviceName: 'USPS Ground Advantage', transitDays: 5 },
+  PRIORITY: { mailClass: 'PRIORITY_MAIL', serviceName: 'USPS Priority Mail', transitDays: 3 },
+  PRIORITY_EXPRESS: { mailClass: 'PRIORITY_MAIL_EXPRESS', serviceName: 'USPS Priority Mail Express', transitDays: 2 }
+};
+
+// USPS API host - overridable so the adapter can be exercised against a local mock server
+function getUspsBaseUrl(isSandbox: boolean): string {
+  const override = Deno.env.get('USPS_API_BASE_URL');
+  if (override) {
+    return override.replace(/\/$/, '');
+  }
+  return isSandbox ? 'https://apis-tem.usps.com' : 'https://apis.usps.com';
+}
+
+// USPS prices packages in pounds and inches
+function toPounds(weight: number, unit?: string): number {
+  switch (unit?.toUpperCase()) {
+    case 'OZ':
+      return weight / 16;
+    case 'KG':
+    case 'KGS':
+      return weight * 2.20462;
+    default:
+      return weight;
+  }
+}
+
+function toInches(value: number, unit?: string): number {
+  return unit?.toUpperCase() === 'CM' ? value / 2.54 : value;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticateRequest(req);
+    if (auth.response) return auth.response;
+    const { supabase, user } = auth;
+
+    const { shipment, configId }: { shipment: ShipmentRequest, configId?: string } = await req.json();
+    console.log('📮 USPS Rate Quote request:', {
+      shipFrom: shipment?.shipFrom?.zipCode,
+      shipTo: shipment?.shipTo?.zipCode,
+      weight: shipment?.package?.weight,
+      configId: configId
+    });
+
+    // Validate shipment data before building request
+    if (!shipment?.shipFrom?.zipCode || !shipment?.shipTo?.zipCode) {
+      return new Response(JSON.stringify({ error: 'Missing required ZIP codes' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!shipment?.package?.weight || shipment.package.weight <= 0) {
+      return new Response(JSON.stringify({ error: 'Invalid package weight' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Clean and format addresses
+    const cleanZip = (zip: string) => zip.trim().substring(0, 5);
+
+    // Get specific USPS account configuration using configId
+    let query = supabase
+      .from('carrier_configs')
+      .select('id, usps_user_id, is_sandbox')
+      .eq('user_id', user.id)
+      .eq('carrier_type', 'usps')
+      .eq('is_active', true);
+
+    // If configId is provided, use specific config
+    if (configId) {
+      query = query.eq('id', configId);
+    }
+
+    const { data: config } = await query.maybeSingle();
+
+    if (!config?.usps_user_id) {
+      return new Response(JSON.stringify({
+        error: configId
+          ? `USPS configuration not found for configId: ${configId}`
+          : 'USPS credentials are required for rate quotes'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Get access token for this specific config (shared token store, OAuth exchange only when needed)
+    const authData = await getAccessToken(supabase, config.id, 'usps-auth');
+
+    if (!authData) {
+      return new Response(JSON.stringify({ error: 'Failed to authenticate with USPS' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { access_token, is_sandbox } = authData;
+
+    const ratingEndpoint = `${getUspsBaseUrl(is_sandbox)}/prices/v3/base-rates/search`;
+
+    console.log('USPS Prices API Configuration:', {
+      endpoint: ratingEndpoint,
+      is_sandbox,
+      has_access_token: !!access_token,
+      configId: config.id
+    });
+
+    if (!shipment.serviceTypes || shipment.serviceTypes.length === 0) {
+      return new Response(JSON.stringify({
+        error: 'No service codes provided. All shipments must have confirmed service mappings.'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const serviceCodes = shipment.serviceTypes;
+    const equivalentServiceCode = shipment.equivalentServiceCode || serviceCodes[0];
+    const rates = [];
+
+    const dimensionUnit = shipment.package.dimensionUnit;
+    const baseRequest = {
+      originZIPCode: cleanZip(shipment.shipFrom.zipCode),
+      destinationZIPCode: cleanZip(shipment.shipTo.zipCode),
+      weight: Number(toPounds(shipment.package.weight, shipment.package.weightUnit).toFixed(4)),
+      length: toInches(shipment.package.length || 12, dimensionUnit),
+      width: toInches(shipment.package.width || 12, dimensionUnit),
+      height: toInches(shipment.package.height || 6, dimensionUnit),
+      processingCategory: 'MACHINABLE',
+      rateIndicator: 'SP',
+      destinationEntryFacilityType: 'NONE',
+      mailingDate: new Date().toISOString().split('T')[0]
+    };
+
+    // Request a single price type for a mail class, returning null when USPS has no price
+    const requestPrice = async (mailClass: string, priceType: 'COMMERCIAL' | 'RETAIL') => {
+      const response = await fetchWithRetry(ratingEndpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${access_token}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify({ ...baseRequest, mailClass, priceType })
+      }, { label: `USPS ${mailClass} ${priceType} (config ${config.id})` });
+
+      console.log(`USPS API Response Status for ${mailClass} ${priceType} (config ${config.id}):`, response.status);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        if (response.status === 401) {
+          // Token was rejected; drop it so the next request re-authenticates
+          await clearStoredToken(supabase, config.id);
+        }
+        console.error(`USPS API Error for ${mailClass} ${priceType}:`, {
+          status: response.status,
+          error: errorText,
+          configId: config.id
+        });
+        return null;
+      }
+
+      const priceData = await response.json();
+      const price = priceData.totalBasePrice ?? priceData.rates?.[0]?.price;
+      return typeof price === 'number' && price > 0 ? { price, details: priceData } : null;
+    };
+
+    // Get rates for each service type
+    for (const serviceCode of serviceCodes) {
+      const service = USPS_MAIL_CLASSES[serviceCode];
+      if (!service) {
+        console.log(`⚠️ Unsupported USPS service code ${serviceCode} - skipping`);
+        continue;
+      }
+
+      try {
+        console.log(`Requesting rate for service ${serviceCode} (${service.mailClass}) with config ${config.id}...`);
+
+        // Commercial pricing is the account's negotiated rate, retail is the published counter rate
+        const commercial = await requestPrice(service.mailClass, 'COMMERCIAL');
+        const retail = await requestPrice(service.mailClass, 'RETAIL');
+
+        const commercialRate = commercial?.price || 0;
+        const retailRate = retail?.price || 0;
+        const hasNegotiatedRates = commercialRate > 0;
+        const finalCharges = hasNegotiatedRates ? commercialRate : retailRate;
+
+        if (finalCharges <= 0) {
+          continue;
+        }
+
+        const savingsAmount = hasNegotiatedRates && retailRate > 0 ? retailRate - commercialRate : 0;
+        const savingsPercentage = savingsAmount > 0 ? ((savingsAmount / retailRate) * 100) : 0;
+        const rateDetail = (hasNegotiatedRates ? commercial : retail)?.details?.rates?.[0];
+        // USPS has no fuel surcharge; the only extras are fees such as nonstandard-size fees
+        const breakdown = buildChargeBreakdown(finalCharges, ((rateDetail?.fees || []) as { name?: string; SKU?: string; price?: number }[]).map(fee => ({
+          code: fee.SKU,
+          description: fee.name,
+          amount: Number(fee.price || 0)
+        })));
+
+        rates.push({
+          serviceCode,
+          serviceName: service.serviceName,
+          description: rateDetail?.description || service.serviceName,
+          totalCharges: finalCharges,
+          currency: 'USD',
+          baseCharges: breakdown.baseCharge,
+          surcharges: breakdown.surcharges,
+          transitTime: service.transitDays,
+          deliveryDate: null,
+          rateType: hasNegotiatedRates ? 'negotiated' : 'published',
+          hasNegotiatedRates,
+          publishedRate: retailRate,
+          negotiatedRate: commercialRate,
+          savingsAmount,
+          savingsPercentage,
+          isEquivalentService: serviceCode === equivalentServiceCode,
+          residentialInfo: {
+            isResidential: shipment.isResidential || false,
+            residentialSource: shipment.residentialSource || 'none'
+          }
+        });
+      } catch (error) {
+        console.error(`Error requesting rate for service ${serviceCode}:`, error);
+        continue;
+      }
+    }
+
+    console.log(`📮 USPS returned ${rates.length} rate(s) for config ${config.id}`);
+
+    return new Response(JSON.stringify({
+      rates: rates.sort((a, b) => a.totalCharges - b.totalCharges),
+      requestedServices: serviceCodes,
+      equivalentServiceCode,
+      configId: config.id
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in usps-rate-quote function:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,6 @@
+-- Add USPS services used by the usps-rate-quote adapter (codes match USPS rate card service codes)
+INSERT INTO carrier_services (carrier_type, service_code, service_name, description, is_international, is_active) VALUES
+('USPS', 'GROUND_ADVANTAGE', 'Ground', 'USPS Ground Advantage', false, true),
+('USPS', 'PRIORITY', '2-Day', 'USPS Priority Mail', false, true),
+('USPS', 'PRIORITY_EXPRESS', 'Overnight', 'USPS Priority Mail Express', false, true)
+ON CONFLICT (carrier_type, service_code) DO NOTHING;
@@ -0,0 +1,87 @@
+-- Create rate_quote_cache table so identical quotes are reused across analyses
+CREATE TABLE public.rate_quote_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  carrier_config_id UUID NOT NULL REFERENCES public.carrier_configs(id) ON DELETE CASCADE,
+  cache_key TEXT NOT NULL,
+  service_code TEXT NOT NULL,
+  request_params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  rate JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (carrier_config_id, cache_key)
+);
+
+CREATE INDEX idx_rate_quote_cache_expires_at ON public.rate_quote_cache(expires_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.rate_quote_cache ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own cached quotes" 
+ON public.rate_quote_cache 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cached quotes" 
+ON public.rate_quote_cache 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cached quotes" 
+ON public.rate_quote_cache 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cached quotes" 
+ON public.rate_quote_cache 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_rate_quote_cache_updated_at
+BEFORE UPDATE ON public.rate_quote_cache
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Drop cached quotes when an account's pricing inputs change. Connection test bookkeeping
+-- (connection_status / last_test_at) is ignored so fetching a token doesn't flush the cache.
+CREATE OR REPLACE FUNCTION public.invalidate_rate_quote_cache_for_config()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'connection_status' - 'last_test_at' - 'updated_at')
+     IS DISTINCT FROM (to_jsonb(OLD) - 'connection_status' - 'last_test_at' - 'updated_at') THEN
+    DELETE FROM public.rate_quote_cache WHERE carrier_config_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_config_change
+AFTER UPDATE ON public.carrier_configs
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_config();
+
+-- Drop cached quotes when a rate card is re-uploaded or edited
+CREATE OR REPLACE FUNCTION public.invalidate_rate_quote_cache_for_rate_card()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.rate_quote_cache WHERE carrier_config_id = OLD.carrier_config_id;
+  ELSE
+    DELETE FROM public.rate_quote_cache WHERE carrier_config_id = NEW.carrier_config_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_rate_card_change
+AFTER INSERT OR UPDATE OR DELETE ON public.rate_card_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_rate_card();
+
+-- Track cache effectiveness on background analysis jobs
+ALTER TABLE public.analysis_jobs
+ADD COLUMN cache_hits INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN cache_misses INTEGER NOT NULL DEFAULT 0;
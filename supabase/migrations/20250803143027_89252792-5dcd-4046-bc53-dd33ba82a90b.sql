@@ -0,0 +1,65 @@
+-- Create carrier_oauth_tokens table so OAuth tokens survive edge function cold starts
+CREATE TABLE public.carrier_oauth_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  carrier_config_id UUID NOT NULL UNIQUE REFERENCES public.carrier_configs(id) ON DELETE CASCADE,
+  carrier_type TEXT NOT NULL,
+  encrypted_token TEXT NOT NULL,
+  token_iv TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  is_sandbox BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.carrier_oauth_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own carrier tokens"
+ON public.carrier_oauth_tokens
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own carrier tokens"
+ON public.carrier_oauth_tokens
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own carrier tokens"
+ON public.carrier_oauth_tokens
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own carrier tokens"
+ON public.carrier_oauth_tokens
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_carrier_oauth_tokens_updated_at
+BEFORE UPDATE ON public.carrier_oauth_tokens
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Forget the stored token when an account's credentials or environment change
+CREATE OR REPLACE FUNCTION public.invalidate_carrier_oauth_token()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.ups_client_id IS DISTINCT FROM OLD.ups_client_id
+     OR NEW.ups_client_secret IS DISTINCT FROM OLD.ups_client_secret
+     OR NEW.fedex_key IS DISTINCT FROM OLD.fedex_key
+     OR NEW.fedex_password IS DISTINCT FROM OLD.fedex_password
+     OR NEW.usps_user_id IS DISTINCT FROM OLD.usps_user_id
+     OR NEW.usps_password IS DISTINCT FROM OLD.usps_password
+     OR NEW.is_sandbox IS DISTINCT FROM OLD.is_sandbox THEN
+    DELETE FROM public.carrier_oauth_tokens WHERE carrier_config_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_carrier_oauth_token_on_config_change
+AFTER UPDATE ON public.carrier_configs
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_carrier_oauth_token();
@@ -0,0 +1,79 @@
+-- Create carrier_zone_charts table holding carrier-published zone charts
+-- (origin 3-digit ZIP -> destination 3-digit range -> zone)
+CREATE TABLE public.carrier_zone_charts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  carrier_type TEXT NOT NULL,
+  carrier_config_id UUID REFERENCES public.carrier_configs(id) ON DELETE CASCADE,
+  origin_zip3 TEXT NOT NULL CHECK (origin_zip3 ~ '^[0-9]{3}$'),
+  dest_zip3_start TEXT NOT NULL CHECK (dest_zip3_start ~ '^[0-9]{3}$'),
+  dest_zip3_end TEXT NOT NULL CHECK (dest_zip3_end ~ '^[0-9]{3}$'),
+  zone TEXT NOT NULL,
+  source_file_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (dest_zip3_start <= dest_zip3_end)
+);
+
+CREATE INDEX idx_carrier_zone_charts_lookup
+ON public.carrier_zone_charts(user_id, origin_zip3, carrier_type);
+
+-- Enable Row Level Security
+ALTER TABLE public.carrier_zone_charts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own zone charts"
+ON public.carrier_zone_charts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own zone charts"
+ON public.carrier_zone_charts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own zone charts"
+ON public.carrier_zone_charts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own zone charts"
+ON public.carrier_zone_charts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_carrier_zone_charts_updated_at
+BEFORE UPDATE ON public.carrier_zone_charts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Cached rate card quotes were priced with the old zones. A carrier-wide chart affects
+-- every rate card account of that carrier, an account chart only that account.
+CREATE OR REPLACE FUNCTION public.invalidate_rate_quote_cache_for_zone_chart()
+RETURNS TRIGGER AS $$
+DECLARE
+  chart RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    chart := OLD;
+  ELSE
+    chart := NEW;
+  END IF;
+
+  DELETE FROM public.rate_quote_cache
+  WHERE carrier_config_id IN (
+    SELECT id FROM public.carrier_configs
+    WHERE user_id = chart.user_id
+      AND carrier_type = chart.carrier_type
+      AND is_rate_card = true
+      AND (chart.carrier_config_id IS NULL OR id = chart.carrier_config_id)
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_zone_chart_change
+AFTER INSERT OR UPDATE OR DELETE ON public.carrier_zone_charts
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_zone_chart();
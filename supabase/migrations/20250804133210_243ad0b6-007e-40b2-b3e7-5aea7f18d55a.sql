@@ -0,0 +1,8 @@
+-- Store each quoted rate as a base charge plus typed surcharges
+-- (fuel, residential, delivery area, additional handling, large package, ...)
+ALTER TABLE public.shipment_rates
+ADD COLUMN base_charge NUMERIC,
+ADD COLUMN surcharges JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Existing rates have no itemization; treat the whole amount as the base charge
+UPDATE public.shipment_rates SET base_charge = rate_amount WHERE base_charge IS NULL;
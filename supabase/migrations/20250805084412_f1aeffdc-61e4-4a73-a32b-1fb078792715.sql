@@ -0,0 +1,126 @@
+-- Create carrier_das_zips table holding carrier-published Delivery Area Surcharge ZIP lists
+CREATE TABLE public.carrier_das_zips (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  carrier_type TEXT NOT NULL,
+  zip5 TEXT NOT NULL CHECK (zip5 ~ '^[0-9]{5}$'),
+  das_tier TEXT NOT NULL CHECK (das_tier IN ('das', 'das_extended', 'remote')),
+  source_file_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, carrier_type, zip5)
+);
+
+CREATE INDEX idx_carrier_das_zips_lookup
+ON public.carrier_das_zips(user_id, zip5);
+
+-- Create carrier_das_fees table holding each account's fee per DAS tier
+CREATE TABLE public.carrier_das_fees (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  carrier_config_id UUID NOT NULL REFERENCES public.carrier_configs(id) ON DELETE CASCADE,
+  das_tier TEXT NOT NULL CHECK (das_tier IN ('das', 'das_extended', 'remote')),
+  commercial_fee NUMERIC NOT NULL DEFAULT 0 CHECK (commercial_fee >= 0),
+  residential_fee NUMERIC NOT NULL DEFAULT 0 CHECK (residential_fee >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (carrier_config_id, das_tier)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.carrier_das_zips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.carrier_das_fees ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own DAS ZIPs"
+ON public.carrier_das_zips
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own DAS ZIPs"
+ON public.carrier_das_zips
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own DAS ZIPs"
+ON public.carrier_das_zips
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own DAS ZIPs"
+ON public.carrier_das_zips
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own DAS fees"
+ON public.carrier_das_fees
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own DAS fees"
+ON public.carrier_das_fees
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own DAS fees"
+ON public.carrier_das_fees
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own DAS fees"
+ON public.carrier_das_fees
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_carrier_das_zips_updated_at
+BEFORE UPDATE ON public.carrier_das_zips
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_carrier_das_fees_updated_at
+BEFORE UPDATE ON public.carrier_das_fees
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Cached rate card quotes include the old DAS charges. ZIP lists are imported thousands
+-- of rows at a time, so that trigger runs once per statement and clears the caller's
+-- rate card quotes; a fee change only clears its own account.
+CREATE OR REPLACE FUNCTION public.invalidate_rate_quote_cache_for_das_zips()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.rate_quote_cache
+  WHERE carrier_config_id IN (
+    SELECT c.id FROM public.carrier_configs c
+    WHERE c.user_id = auth.uid()
+      AND c.is_rate_card = true
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_das_zip_change
+AFTER INSERT OR UPDATE OR DELETE ON public.carrier_das_zips
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_das_zips();
+
+CREATE OR REPLACE FUNCTION public.invalidate_rate_quote_cache_for_das_fee()
+RETURNS TRIGGER AS $$
+DECLARE
+  fee RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    fee := OLD;
+  ELSE
+    fee := NEW;
+  END IF;
+
+  DELETE FROM public.rate_quote_cache WHERE carrier_config_id = fee.carrier_config_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_das_fee_change
+AFTER INSERT OR UPDATE OR DELETE ON public.carrier_das_fees
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_das_fee();
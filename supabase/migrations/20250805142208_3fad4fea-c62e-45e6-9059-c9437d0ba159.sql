@@ -0,0 +1,5 @@
+-- Accessorial rules for rate card accounts (residential, additional handling, large
+-- package, oversize, signature). Changing them flushes cached quotes through the
+-- existing carrier_configs cache invalidation trigger.
+ALTER TABLE public.carrier_configs
+ADD COLUMN accessorial_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,3 @@
+-- Weight (lbs) each quoted rate was priced at after dimensional weight and carrier rounding
+ALTER TABLE public.shipment_rates
+ADD COLUMN billable_weight NUMERIC;
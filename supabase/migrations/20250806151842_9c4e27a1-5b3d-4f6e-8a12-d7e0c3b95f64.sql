@@ -0,0 +1,49 @@
+-- Create carrier_fuel_surcharges table holding carrier-published weekly fuel surcharge percentages
+CREATE TABLE public.carrier_fuel_surcharges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  carrier_type TEXT NOT NULL,
+  effective_date DATE NOT NULL,
+  ground_percent NUMERIC NOT NULL CHECK (ground_percent >= 0),
+  air_percent NUMERIC NOT NULL CHECK (air_percent >= 0),
+  source_file_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, carrier_type, effective_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.carrier_fuel_surcharges ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own fuel surcharges"
+ON public.carrier_fuel_surcharges
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own fuel surcharges"
+ON public.carrier_fuel_surcharges
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own fuel surcharges"
+ON public.carrier_fuel_surcharges
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own fuel surcharges"
+ON public.carrier_fuel_surcharges
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_carrier_fuel_surcharges_updated_at
+BEFORE UPDATE ON public.carrier_fuel_surcharges
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Fuel percentage each quoted rate was priced with, and the schedule week it came from
+-- (null when the account's own fuel_surcharge_percent was used)
+ALTER TABLE public.shipment_rates
+ADD COLUMN fuel_surcharge_percent NUMERIC,
+ADD COLUMN fuel_effective_date DATE;
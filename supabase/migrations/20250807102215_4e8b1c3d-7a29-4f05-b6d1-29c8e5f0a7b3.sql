@@ -0,0 +1,72 @@
+-- Create rate_card_versions table so uploading a new rate card keeps the rates it replaces
+CREATE TABLE public.rate_card_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  carrier_config_id UUID NOT NULL REFERENCES public.carrier_configs(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  source_file_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (carrier_config_id, version_number),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.rate_card_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own rate card versions"
+ON public.rate_card_versions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own rate card versions"
+ON public.rate_card_versions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own rate card versions"
+ON public.rate_card_versions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own rate card versions"
+ON public.rate_card_versions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_rate_card_versions_updated_at
+BEFORE UPDATE ON public.rate_card_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every rate belongs to a version
+ALTER TABLE public.rate_card_rates
+ADD COLUMN version_id UUID REFERENCES public.rate_card_versions(id) ON DELETE CASCADE;
+
+-- Existing cards become version 1 of their account, effective from when they were uploaded
+INSERT INTO public.rate_card_versions (user_id, carrier_config_id, version_number, effective_from, source_file_name)
+SELECT c.user_id, c.id, 1, COALESCE(c.rate_card_uploaded_at, c.created_at)::date, c.rate_card_filename
+FROM public.carrier_configs c
+WHERE EXISTS (SELECT 1 FROM public.rate_card_rates r WHERE r.carrier_config_id = c.id);
+
+UPDATE public.rate_card_rates r
+SET version_id = v.id
+FROM public.rate_card_versions v
+WHERE v.carrier_config_id = r.carrier_config_id;
+
+ALTER TABLE public.rate_card_rates
+ALTER COLUMN version_id SET NOT NULL;
+
+CREATE INDEX idx_rate_card_rates_version
+ON public.rate_card_rates(version_id, service_code, zone);
+
+-- Version used for each quoted rate card rate, and any versions the analysis was pinned to
+ALTER TABLE public.shipment_rates
+ADD COLUMN rate_card_version_id UUID REFERENCES public.rate_card_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.shipping_analyses
+ADD COLUMN rate_card_version_pins JSONB NOT NULL DEFAULT '{}'::jsonb;
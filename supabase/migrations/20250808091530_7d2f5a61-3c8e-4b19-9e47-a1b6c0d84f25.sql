@@ -0,0 +1,51 @@
+-- Create tariff_rates table holding imported duty and import tax rates by destination country and HS code
+CREATE TABLE public.tariff_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  destination_country TEXT NOT NULL CHECK (destination_country ~ '^[A-Z]{2}$'),
+  hs_code TEXT NOT NULL DEFAULT '' CHECK (hs_code ~ '^[0-9]*$'),
+  duty_percent NUMERIC NOT NULL CHECK (duty_percent >= 0),
+  tax_percent NUMERIC NOT NULL DEFAULT 0 CHECK (tax_percent >= 0),
+  de_minimis_value NUMERIC CHECK (de_minimis_value >= 0),
+  source_file_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, destination_country, hs_code)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.tariff_rates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own tariff rates"
+ON public.tariff_rates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tariff rates"
+ON public.tariff_rates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tariff rates"
+ON public.tariff_rates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tariff rates"
+ON public.tariff_rates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_tariff_rates_updated_at
+BEFORE UPDATE ON public.tariff_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Estimated duties and import taxes for international shipments, and the freight plus
+-- both (null for domestic shipments)
+ALTER TABLE public.shipment_rates
+ADD COLUMN duty_amount NUMERIC,
+ADD COLUMN tax_amount NUMERIC,
+ADD COLUMN landed_cost NUMERIC;
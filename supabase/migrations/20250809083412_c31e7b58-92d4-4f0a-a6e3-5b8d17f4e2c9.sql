@@ -0,0 +1,84 @@
+-- Create exchange_rates table holding imported or manually entered, effective-dated currency rates
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL,
+  source_file_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (base_currency <> quote_currency),
+  UNIQUE (user_id, base_currency, quote_currency, effective_date)
+);
+
+-- Create user_settings table holding per-user preferences such as the reporting currency
+CREATE TABLE public.user_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  reporting_currency TEXT NOT NULL DEFAULT 'USD' CHECK (reporting_currency ~ '^[A-Z]{3}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own exchange rates"
+ON public.exchange_rates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates"
+ON public.exchange_rates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+ON public.exchange_rates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+ON public.exchange_rates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own settings"
+ON public.user_settings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own settings"
+ON public.user_settings
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+ON public.user_settings
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Create triggers for automatic timestamp updates
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_user_settings_updated_at
+BEFORE UPDATE ON public.user_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rates are stored in the reporting currency; keep what the carrier actually quoted
+ALTER TABLE public.shipment_rates
+ADD COLUMN original_currency TEXT,
+ADD COLUMN original_rate_amount NUMERIC,
+ADD COLUMN exchange_rate NUMERIC;
+
+-- Currency the analysis totals are reported in, so shared views show the owner's currency
+ALTER TABLE public.shipping_analyses
+ADD COLUMN reporting_currency TEXT NOT NULL DEFAULT 'USD';
@@ -0,0 +1,10 @@
+-- How an analysis picked its recommended rates: 'same_service' keeps each shipment on its
+-- original service, 'delivery_window' allows any service that still meets the delivery commitment
+ALTER TABLE public.shipping_analyses
+ADD COLUMN recommendation_mode TEXT NOT NULL DEFAULT 'same_service'
+CHECK (recommendation_mode IN ('same_service', 'delivery_window'));
+
+-- Cheapest rate for the original service, kept so downgraded shipments can report the extra savings
+ALTER TABLE public.shipment_rates
+ADD COLUMN same_service_rate_amount NUMERIC,
+ADD COLUMN is_service_downgrade BOOLEAN NOT NULL DEFAULT false;
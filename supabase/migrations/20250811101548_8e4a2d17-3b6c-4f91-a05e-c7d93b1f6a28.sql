@@ -0,0 +1,12 @@
+-- Earned-discount tiers for negotiated API accounts: weekly spend bands, each with an
+-- incentive percent off published rates per universal service category ('*' for the rest)
+ALTER TABLE public.carrier_configs
+ADD COLUMN discount_tiers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Weekly spend the analysis priced tiered accounts at
+ALTER TABLE public.shipping_analyses
+ADD COLUMN projected_weekly_spend NUMERIC;
+
+-- Incentive the selected tier took off the published rate
+ALTER TABLE public.shipment_rates
+ADD COLUMN earned_discount_percent NUMERIC;
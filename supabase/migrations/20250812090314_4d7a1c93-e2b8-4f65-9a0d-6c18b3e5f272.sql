@@ -0,0 +1,22 @@
+-- Base URL replacing the carrier's API host for this account, e.g. the mock-carrier
+-- function for offline testing. NULL uses the carrier's sandbox or production host.
+ALTER TABLE public.carrier_configs
+ADD COLUMN api_base_url TEXT;
+
+-- A token issued by one host is no good at another
+CREATE OR REPLACE FUNCTION public.invalidate_carrier_oauth_token()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.ups_client_id IS DISTINCT FROM OLD.ups_client_id
+     OR NEW.ups_client_secret IS DISTINCT FROM OLD.ups_client_secret
+     OR NEW.fedex_key IS DISTINCT FROM OLD.fedex_key
+     OR NEW.fedex_password IS DISTINCT FROM OLD.fedex_password
+     OR NEW.usps_user_id IS DISTINCT FROM OLD.usps_user_id
+     OR NEW.usps_password IS DISTINCT FROM OLD.usps_password
+     OR NEW.is_sandbox IS DISTINCT FROM OLD.is_sandbox
+     OR NEW.api_base_url IS DISTINCT FROM OLD.api_base_url THEN
+    DELETE FROM public.carrier_oauth_tokens WHERE carrier_config_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
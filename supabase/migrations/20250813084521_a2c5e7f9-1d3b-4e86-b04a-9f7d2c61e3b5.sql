@@ -0,0 +1,34 @@
+-- Analysis jobs run server-side against a shipping_analyses record that holds the
+-- uploaded shipments and the settings chosen on the Analysis page
+ALTER TABLE public.analysis_jobs
+ADD COLUMN analysis_id UUID REFERENCES public.shipping_analyses(id) ON DELETE CASCADE,
+ADD COLUMN completed_shipments INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN error_shipments INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN error_message TEXT;
+
+CREATE INDEX idx_analysis_jobs_analysis_id ON public.analysis_jobs(analysis_id);
+
+-- One row per analyzed shipment: the priced result, or why it became an orphan
+CREATE TABLE public.analysis_job_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.analysis_jobs(id) ON DELETE CASCADE,
+  shipment_index INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'error')),
+  result JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, shipment_index)
+);
+
+ALTER TABLE public.analysis_job_results ENABLE ROW LEVEL SECURITY;
+
+-- Written by the analysis worker with the service role; users only read their own
+CREATE POLICY "Users can view results of their own analysis jobs"
+ON public.analysis_job_results
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.analysis_jobs
+    WHERE analysis_jobs.id = analysis_job_results.job_id
+    AND analysis_jobs.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,7 @@
+-- Analysis jobs checkpoint after every batch and can be resumed from there
+ALTER TABLE public.analysis_jobs
+ADD COLUMN last_checkpoint_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN retry_count INTEGER NOT NULL DEFAULT 0;
+
+-- Finds running jobs whose worker stopped updating them
+CREATE INDEX idx_analysis_jobs_status_updated_at ON public.analysis_jobs(status, updated_at);
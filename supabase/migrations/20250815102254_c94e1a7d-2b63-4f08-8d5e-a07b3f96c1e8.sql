@@ -0,0 +1,9 @@
+-- Running analysis jobs can be paused and resumed, or cancelled keeping their partial results
+ALTER TABLE public.analysis_jobs DROP CONSTRAINT analysis_jobs_status_check;
+ALTER TABLE public.analysis_jobs ADD CONSTRAINT analysis_jobs_status_check
+CHECK (status IN ('pending', 'in_progress', 'paused', 'completed', 'cancelled', 'failed'));
+
+-- Replaced whenever a job is handed to a new worker, so a worker still finishing a batch
+-- after a pause and resume stops instead of running alongside its replacement
+ALTER TABLE public.analysis_jobs
+ADD COLUMN run_id UUID NOT NULL DEFAULT gen_random_uuid();
@@ -0,0 +1,39 @@
+-- A rate card upload writes thousands of rate_card_rates rows in one statement; clear
+-- each affected account's cached quotes once per statement instead of once per row.
+-- Transition tables allow a single event per trigger, hence three triggers.
+DROP TRIGGER IF EXISTS invalidate_rate_quote_cache_on_rate_card_change ON public.rate_card_rates;
+
+CREATE OR REPLACE FUNCTION public.invalidate_rate_quote_cache_for_rate_card_rows()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    DELETE FROM public.rate_quote_cache
+    WHERE carrier_config_id IN (SELECT DISTINCT carrier_config_id FROM old_rows);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    DELETE FROM public.rate_quote_cache
+    WHERE carrier_config_id IN (SELECT DISTINCT carrier_config_id FROM new_rows);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_rate_card_insert
+AFTER INSERT ON public.rate_card_rates
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_rate_card_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_rate_card_update
+AFTER UPDATE ON public.rate_card_rates
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_rate_card_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_rate_card_delete
+AFTER DELETE ON public.rate_card_rates
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_rate_card_rows();
+
+DROP FUNCTION IF EXISTS public.invalidate_rate_quote_cache_for_rate_card();
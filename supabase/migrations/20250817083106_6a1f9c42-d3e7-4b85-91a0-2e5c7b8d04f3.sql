@@ -0,0 +1,45 @@
+-- Cached rate card quotes include the fuel surcharge in effect on their ship date, so a
+-- fuel schedule import clears the importing user's rate card quotes for that carrier.
+-- Schedules are imported many rows at a time, hence statement triggers.
+CREATE OR REPLACE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    DELETE FROM public.rate_quote_cache
+    WHERE carrier_config_id IN (
+      SELECT c.id FROM public.carrier_configs c
+      JOIN (SELECT DISTINCT user_id, carrier_type FROM old_rows) changed
+        ON changed.user_id = c.user_id AND changed.carrier_type = c.carrier_type
+      WHERE c.is_rate_card = true
+    );
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    DELETE FROM public.rate_quote_cache
+    WHERE carrier_config_id IN (
+      SELECT c.id FROM public.carrier_configs c
+      JOIN (SELECT DISTINCT user_id, carrier_type FROM new_rows) changed
+        ON changed.user_id = c.user_id AND changed.carrier_type = c.carrier_type
+      WHERE c.is_rate_card = true
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_fuel_surcharge_insert
+AFTER INSERT ON public.carrier_fuel_surcharges
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_fuel_surcharge_update
+AFTER UPDATE ON public.carrier_fuel_surcharges
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_fuel_surcharge_delete
+AFTER DELETE ON public.carrier_fuel_surcharges
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
@@ -0,0 +1,65 @@
+-- Cached rate card quotes are keyed on the version they were priced from, but a new or
+-- re-dated version changes which one a ship date picks, so version changes clear the
+-- account's quotes.
+CREATE TRIGGER invalidate_rate_quote_cache_on_rate_card_version_insert
+AFTER INSERT ON public.rate_card_versions
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_rate_card_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_rate_card_version_update
+AFTER UPDATE ON public.rate_card_versions
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_rate_card_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_rate_card_version_delete
+AFTER DELETE ON public.rate_card_versions
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_rate_card_rows();
+
+-- Zone chart imports cleared the cache once per row, and DAS ZIP imports only when run
+-- with a user session (auth.uid() is null for the service role). Both now clear the
+-- rate card quotes of every user and carrier in the statement.
+DROP TRIGGER IF EXISTS invalidate_rate_quote_cache_on_zone_chart_change ON public.carrier_zone_charts;
+DROP FUNCTION IF EXISTS public.invalidate_rate_quote_cache_for_zone_chart();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_zone_chart_insert
+AFTER INSERT ON public.carrier_zone_charts
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_zone_chart_update
+AFTER UPDATE ON public.carrier_zone_charts
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_zone_chart_delete
+AFTER DELETE ON public.carrier_zone_charts
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
+
+DROP TRIGGER IF EXISTS invalidate_rate_quote_cache_on_das_zip_change ON public.carrier_das_zips;
+DROP FUNCTION IF EXISTS public.invalidate_rate_quote_cache_for_das_zips();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_das_zip_insert
+AFTER INSERT ON public.carrier_das_zips
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_das_zip_update
+AFTER UPDATE ON public.carrier_das_zips
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
+
+CREATE TRIGGER invalidate_rate_quote_cache_on_das_zip_delete
+AFTER DELETE ON public.carrier_das_zips
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_rate_quote_cache_for_carrier_rows();
@@ -0,0 +1,5 @@
+-- A cancelled job is 'cancelling' until a worker has published its partial results,
+-- so the app keeps waiting instead of opening an analysis that is still processing
+ALTER TABLE public.analysis_jobs DROP CONSTRAINT analysis_jobs_status_check;
+ALTER TABLE public.analysis_jobs ADD CONSTRAINT analysis_jobs_status_check
+CHECK (status IN ('pending', 'in_progress', 'paused', 'completed', 'cancelling', 'cancelled', 'failed'));
@@ -0,0 +1,70 @@
+-- Saves one analyzed batch and checkpoints the job past it, only while the job is still
+-- the calling worker's run. The job row is locked first, so a resume or cancel that hands
+-- the job to a new run either waits for the batch or leaves it unwritten. Returns whether
+-- the batch was saved.
+CREATE OR REPLACE FUNCTION public.save_analysis_batch(
+  p_job_id UUID,
+  p_run_id UUID,
+  p_start_index INTEGER,
+  p_results JSONB,
+  p_rates JSONB,
+  p_progress JSONB
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_analysis_id UUID;
+BEGIN
+  SELECT analysis_id INTO v_analysis_id
+  FROM public.analysis_jobs
+  WHERE id = p_job_id
+    AND run_id = p_run_id
+    AND status IN ('in_progress', 'paused', 'cancelling')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- A batch analyzed again after a crash before its checkpoint overwrites its earlier rows
+  INSERT INTO public.analysis_job_results (job_id, shipment_index, status, result)
+  SELECT p_job_id, p_start_index + (entry.position - 1)::INTEGER, entry.value->>'status', entry.value->'result'
+  FROM jsonb_array_elements(p_results) WITH ORDINALITY AS entry(value, position)
+  ON CONFLICT (job_id, shipment_index)
+  DO UPDATE SET status = EXCLUDED.status, result = EXCLUDED.result;
+
+  DELETE FROM public.shipment_rates
+  WHERE analysis_id = v_analysis_id
+    AND shipment_index >= p_start_index
+    AND shipment_index < p_start_index + jsonb_array_length(p_results);
+
+  INSERT INTO public.shipment_rates (
+    analysis_id, shipment_index, carrier_config_id, account_name, carrier_type, service_code,
+    service_name, rate_amount, base_charge, surcharges, billable_weight, fuel_surcharge_percent,
+    fuel_effective_date, rate_card_version_id, duty_amount, tax_amount, landed_cost, currency,
+    original_currency, original_rate_amount, exchange_rate, transit_days, is_negotiated,
+    published_rate, earned_discount_percent, shipment_data
+  )
+  SELECT
+    analysis_id, shipment_index, carrier_config_id, account_name, carrier_type, service_code,
+    service_name, rate_amount, base_charge, surcharges, billable_weight, fuel_surcharge_percent,
+    fuel_effective_date, rate_card_version_id, duty_amount, tax_amount, landed_cost, currency,
+    original_currency, original_rate_amount, exchange_rate, transit_days, is_negotiated,
+    published_rate, earned_discount_percent, shipment_data
+  FROM jsonb_populate_recordset(NULL::public.shipment_rates, p_rates);
+
+  UPDATE public.analysis_jobs
+  SET processed_shipments = (p_progress->>'processed_shipments')::INTEGER,
+      completed_shipments = (p_progress->>'completed_shipments')::INTEGER,
+      error_shipments = (p_progress->>'error_shipments')::INTEGER,
+      cache_hits = (p_progress->>'cache_hits')::INTEGER,
+      cache_misses = (p_progress->>'cache_misses')::INTEGER,
+      last_checkpoint_at = (p_progress->>'last_checkpoint_at')::TIMESTAMP WITH TIME ZONE
+  WHERE id = p_job_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Only the analysis worker saves batches, with the service role
+REVOKE EXECUTE ON FUNCTION public.save_analysis_batch(UUID, UUID, INTEGER, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_analysis_batch(UUID, UUID, INTEGER, JSONB, JSONB, JSONB) TO service_role;
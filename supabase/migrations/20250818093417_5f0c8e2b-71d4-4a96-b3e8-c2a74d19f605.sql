@@ -0,0 +1,35 @@
+-- Jobs whose worker died are otherwise only requeued while someone polls their status, so
+-- a job left behind by a closed browser would stay stuck. Every five minutes, call
+-- resume-analysis with the service role, which requeues every stuck job.
+-- Needs the project URL and service role key in Vault as 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.requeue_stale_analysis_jobs()
+RETURNS VOID AS $$
+DECLARE
+  v_project_url TEXT;
+  v_service_role_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_role_key IS NULL THEN
+    RAISE WARNING 'Stuck analysis jobs not requeued: set project_url and service_role_key in Vault';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_project_url || '/functions/v1/resume-analysis',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || v_service_role_key,
+      'Content-Type', 'application/json'
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.requeue_stale_analysis_jobs() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('requeue-stale-analysis-jobs', '*/5 * * * *', 'SELECT public.requeue_stale_analysis_jobs()');